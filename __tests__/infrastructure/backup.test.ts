@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { PerformanceStats, SessionResult } from '@neuralift/core';
+import { db } from '@/infrastructure/database/db';
+import { serializeSession } from '@/infrastructure/database/sessionMapping';
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  createBackup,
+  parseBackup,
+  restoreBackup,
+} from '@/infrastructure/database/backup';
+
+const STATS = {
+  hits: 5,
+  misses: 0,
+  falseAlarms: 0,
+  correctRejections: 15,
+  hitRate: 1,
+  falseAlarmRate: 0,
+  dPrime: 3,
+  criterion: 0,
+  beta: 1,
+  aPrime: 1,
+  bDoublePrime: 0,
+  accuracy: 90,
+  avgResponseTime: 500,
+  responseTimeStats: null,
+} satisfies PerformanceStats;
+
+const TRIAL = {
+  id: 0,
+  position: 4,
+  audioLetter: 'K',
+  isPositionMatch: false,
+  isAudioMatch: false,
+  userPositionResponse: null,
+  userAudioResponse: null,
+  positionResponseTime: null,
+  audioResponseTime: null,
+  stimulusTimestamp: 1767603600000,
+};
+
+function createSession(sessionId: string): SessionResult {
+  return {
+    sessionId,
+    levelId: 'position-1',
+    mode: 'single-position',
+    nBack: 1,
+    timestamp: new Date('2026-01-05T09:00:00.000Z'),
+    duration: 60000,
+    trials: [TRIAL, { ...TRIAL, id: 1 }],
+    positionStats: STATS,
+    audioStats: { ...STATS, accuracy: 0 },
+    combinedAccuracy: 90,
+    completed: true,
+  };
+}
+
+const CUSTOM_LEVEL = {
+  levelId: 'custom-1',
+  name: 'Slow 2-back',
+  description: 'Position 2-back with long trials',
+  nBack: 2,
+  mode: 'single-position',
+  trialCount: 20,
+  trialDuration: 4000,
+  matchProbability: 0.3,
+  created: '2026-01-01T00:00:00.000Z',
+  updated: '2026-01-01T00:00:00.000Z',
+  deleted: false,
+};
+
+function createBackupJson(sessionIds: string[], customLevels = [CUSTOM_LEVEL]): string {
+  return JSON.stringify({
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: '2026-01-06T10:00:00.000Z',
+    sessions: sessionIds.map((id) => serializeSession(createSession(id))),
+    progress: null,
+    settings: null,
+    analyticsEvents: [],
+    customLevels,
+  });
+}
+
+beforeEach(async () => {
+  await db.initialize();
+  await Promise.all([
+    db.sessions.clear(),
+    db.trials.clear(),
+    db.analyticsEvents.clear(),
+    db.customLevels.clear(),
+    db.records.clear(),
+  ]);
+});
+
+describe('parseBackup', () => {
+  it('rejects sessions that share an ID', () => {
+    expect(() => parseBackup(createBackupJson(['a', 'b', 'a']))).toThrow(
+      'Invalid backup: sessions.2.sessionId: Duplicate sessionId "a", first used at index 0'
+    );
+  });
+
+  it('rejects custom levels that share an ID', () => {
+    expect(() => parseBackup(createBackupJson(['a'], [CUSTOM_LEVEL, CUSTOM_LEVEL]))).toThrow(
+      'Invalid backup: customLevels.1.levelId: Duplicate levelId "custom-1", first used at index 0'
+    );
+  });
+});
+
+describe('restoreBackup', () => {
+  it('replaces sessions, trials and custom levels', async () => {
+    await restoreBackup(parseBackup(createBackupJson(['local'])).backup, 'replace');
+    await restoreBackup(parseBackup(createBackupJson(['a', 'b'])).backup, 'replace');
+
+    expect(await db.sessions.toCollection().primaryKeys()).toEqual(['a', 'b']);
+    expect(await db.trials.count()).toBe(4);
+    expect(await db.customLevels.count()).toBe(1);
+  });
+
+  it('merges only the sessions not stored yet', async () => {
+    await restoreBackup(parseBackup(createBackupJson(['a'])).backup, 'merge');
+    await restoreBackup(parseBackup(createBackupJson(['a', 'b'])).backup, 'merge');
+
+    expect(await db.sessions.toCollection().primaryKeys()).toEqual(['a', 'b']);
+    expect(await db.trials.count()).toBe(4);
+  });
+
+  it('restores its own backups', async () => {
+    await restoreBackup(parseBackup(createBackupJson(['a', 'b'])).backup, 'replace');
+    const json = JSON.stringify(await createBackup());
+
+    await restoreBackup(parseBackup(json).backup, 'replace');
+
+    expect(await db.sessions.toCollection().primaryKeys()).toEqual(['a', 'b']);
+    expect(await db.getSessionTrials('a')).toHaveLength(2);
+  });
+});
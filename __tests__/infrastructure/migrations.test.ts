@@ -0,0 +1,282 @@
+import Dexie from 'dexie';
+import { afterEach, describe, expect, it } from 'vitest';
+import type { PerformanceStats, SessionResult } from '@neuralift/core';
+import {
+  MIGRATIONS,
+  applyMigrations,
+  migrateLegacyLevelId,
+  recomputeUnlockedLevels,
+} from '@/infrastructure/database/migrations';
+import { parseBackup } from '@/infrastructure/database/backup';
+
+const STATS = {
+  hits: 5,
+  misses: 0,
+  falseAlarms: 0,
+  correctRejections: 15,
+  hitRate: 1,
+  falseAlarmRate: 0,
+  dPrime: 3,
+  criterion: 0,
+  beta: 1,
+  aPrime: 1,
+  bDoublePrime: 0,
+  accuracy: 90,
+  avgResponseTime: 500,
+  responseTimeStats: null,
+} satisfies PerformanceStats;
+
+const TRIAL = {
+  id: 0,
+  position: 4,
+  audioLetter: 'K',
+  isPositionMatch: false,
+  isAudioMatch: false,
+  userPositionResponse: null,
+  userAudioResponse: null,
+  positionResponseTime: null,
+  audioResponseTime: null,
+  stimulusTimestamp: 1767603600000,
+};
+
+const TIMESTAMP = new Date('2026-01-05T09:00:00.000Z');
+
+function createSession(overrides: Partial<SessionResult> = {}): SessionResult {
+  return {
+    sessionId: 'session',
+    levelId: 'position-1',
+    mode: 'single-position',
+    nBack: 1,
+    timestamp: TIMESTAMP,
+    duration: 60000,
+    trials: [],
+    positionStats: STATS,
+    audioStats: { ...STATS, accuracy: 0 },
+    combinedAccuracy: 90,
+    completed: true,
+    ...overrides,
+  };
+}
+
+/**
+ * A passing 1-back position session stored under its legacy ID, with its
+ * trials and stats as JSON strings, as versions before 5 stored sessions
+ */
+const LEGACY_SESSION = {
+  sessionId: 'legacy-session',
+  levelId: 'position-1back',
+  mode: 'single-position',
+  nBack: 1,
+  timestamp: TIMESTAMP,
+  duration: 60000,
+  trials: JSON.stringify([TRIAL]),
+  positionStats: JSON.stringify(STATS),
+  audioStats: JSON.stringify({ ...STATS, accuracy: 0 }),
+  combinedAccuracy: 90,
+  completed: true,
+};
+
+const LEGACY_PROGRESS = {
+  id: 1,
+  currentLevel: 'position-1back',
+  unlockedLevels: JSON.stringify(['position-1back', 'audio-1back']),
+  totalSessions: 1,
+  totalTime: 60000,
+  currentStreak: 1,
+  longestStreak: 1,
+  lastSessionDate: '2026-01-05',
+  updated: TIMESTAMP,
+};
+
+let databaseCount = 0;
+const openDatabases: Dexie[] = [];
+
+afterEach(async () => {
+  for (const database of openDatabases.splice(0)) {
+    database.close();
+    await Dexie.delete(database.name);
+  }
+});
+
+/**
+ * Write a database at schema version 1, with the stores and records that
+ * version had, and open it with the current schema
+ */
+async function openMigratedV1Database(): Promise<Dexie> {
+  const name = `migrations-${++databaseCount}`;
+  const legacy = new Dexie(name);
+  applyMigrations(
+    legacy,
+    MIGRATIONS.filter((migration) => migration.version === 1)
+  );
+  await legacy.open();
+  await legacy.table('sessions').put(LEGACY_SESSION);
+  await legacy.table('progress').put(LEGACY_PROGRESS);
+  legacy.close();
+
+  const database = new Dexie(name);
+  applyMigrations(database);
+  openDatabases.push(database);
+  await database.open();
+  return database;
+}
+
+describe('migrateLegacyLevelId', () => {
+  it('rewrites legacy "-Nback" IDs', () => {
+    expect(migrateLegacyLevelId('position-1back')).toBe('position-1');
+    expect(migrateLegacyLevelId('audio-9back')).toBe('audio-9');
+    expect(migrateLegacyLevelId('dual-2back')).toBe('dual-2');
+  });
+
+  it('leaves current and custom IDs as they are', () => {
+    expect(migrateLegacyLevelId('position-2')).toBe('position-2');
+    expect(migrateLegacyLevelId('dual-2-4x4')).toBe('dual-2-4x4');
+    expect(migrateLegacyLevelId('custom-2back')).toBe('custom-2back');
+  });
+});
+
+describe('recomputeUnlockedLevels', () => {
+  it('rewrites legacy IDs and drops levels that do not exist', () => {
+    expect(recomputeUnlockedLevels(['position-1back', 'audio-1', 'missing-3'], [])).toEqual([
+      'position-1',
+      'audio-1',
+    ]);
+  });
+
+  it('unlocks the levels the history has earned', () => {
+    expect(recomputeUnlockedLevels(['position-1', 'audio-1'], [createSession()])).toEqual([
+      'position-1',
+      'audio-1',
+      'position-2',
+    ]);
+  });
+
+  it('does not unlock from failing sessions', () => {
+    const failing = createSession({ positionStats: { ...STATS, accuracy: 60 } });
+    expect(recomputeUnlockedLevels(['position-1', 'audio-1'], [failing])).toEqual([
+      'position-1',
+      'audio-1',
+    ]);
+  });
+
+  it('never takes unlocks away', () => {
+    expect(recomputeUnlockedLevels(['position-1', 'position-5'], [])).toEqual([
+      'position-1',
+      'position-5',
+    ]);
+  });
+
+  it('counts imported sessions only when included', () => {
+    const imported = createSession({ source: 'csv' });
+    expect(recomputeUnlockedLevels(['position-1'], [imported])).toEqual(['position-1']);
+    expect(recomputeUnlockedLevels(['position-1'], [imported], 'neuralift', true)).toEqual([
+      'position-1',
+      'position-2',
+    ]);
+  });
+
+  it('ignores adaptive sessions played at another N than their level', () => {
+    const adaptive = createSession({ nBack: 2 });
+    expect(recomputeUnlockedLevels(['position-1'], [adaptive])).toEqual(['position-1']);
+  });
+});
+
+describe('MIGRATIONS', () => {
+  it('declares consecutive versions', () => {
+    expect(MIGRATIONS.map((migration) => migration.version)).toEqual(
+      MIGRATIONS.map((_, index) => index + 1)
+    );
+  });
+
+  it('upgrades a version 1 database to the current schema', async () => {
+    const database = await openMigratedV1Database();
+
+    expect(database.verno).toBe(MIGRATIONS.length);
+    expect(database.tables.map((table) => table.name).sort()).toEqual([
+      'analyticsEvents',
+      'customLevels',
+      'progress',
+      'records',
+      'sessions',
+      'settings',
+      'trials',
+    ]);
+  });
+
+  it('rewrites legacy level IDs and recomputes unlocks', async () => {
+    const database = await openMigratedV1Database();
+    const progress = await database.table('progress').get(1);
+
+    expect(progress.currentLevel).toBe('position-1');
+    expect(JSON.parse(progress.unlockedLevels)).toEqual(['position-1', 'audio-1', 'position-2']);
+    expect(await database.table('sessions').get('legacy-session')).toMatchObject({
+      levelId: 'position-1',
+    });
+  });
+
+  it('moves trials into their own table and stores stats as objects', async () => {
+    const database = await openMigratedV1Database();
+    const session = await database.table('sessions').get('legacy-session');
+
+    expect(session).not.toHaveProperty('trials');
+    expect(session.positionStats).toEqual(STATS);
+    expect(await database.table('trials').toArray()).toEqual([
+      {
+        ...TRIAL,
+        sessionId: 'legacy-session',
+        index: 0,
+        levelId: 'position-1',
+        mode: 'single-position',
+        nBack: 1,
+        timestamp: TIMESTAMP,
+      },
+    ]);
+  });
+
+  it('leaves stats of sessions trained in Neuralift untagged', async () => {
+    const database = await openMigratedV1Database();
+    const session = await database.table('sessions').get('legacy-session');
+
+    expect(session.positionStats).not.toHaveProperty('reportedConvention');
+  });
+});
+
+describe('v1 backup conversion', () => {
+  const V1_BACKUP = {
+    version: '1.0.0',
+    exportedAt: '2026-01-06T10:00:00.000Z',
+    sessions: [{ ...LEGACY_SESSION, timestamp: TIMESTAMP.toISOString() }],
+    progress: [{ ...LEGACY_PROGRESS, updated: TIMESTAMP.toISOString() }],
+    settings: [],
+  };
+
+  it('converts to the current format', () => {
+    const { backup, sourceVersion } = parseBackup(JSON.stringify(V1_BACKUP));
+
+    expect(sourceVersion).toBe(1);
+    expect(backup.format).toBe('neuralift-backup');
+    expect(backup.sessions).toHaveLength(1);
+    expect(backup.settings).toBeNull();
+    expect(backup.analyticsEvents).toEqual([]);
+    expect(backup.customLevels).toEqual([]);
+  });
+
+  it('rewrites legacy level IDs', () => {
+    const { backup } = parseBackup(JSON.stringify(V1_BACKUP));
+
+    expect(backup.sessions[0]?.levelId).toBe('position-1');
+    expect(backup.progress?.currentLevel).toBe('position-1');
+    expect(JSON.parse(backup.progress?.unlockedLevels ?? '[]')).toEqual([
+      'position-1',
+      'audio-1',
+    ]);
+  });
+
+  it('reports invalid content after conversion', () => {
+    const broken = { ...V1_BACKUP, sessions: [{ ...V1_BACKUP.sessions[0], trials: '[' }] };
+
+    expect(() => parseBackup(JSON.stringify(broken))).toThrow(
+      'Invalid backup: sessions.0.trials: Not valid JSON'
+    );
+  });
+});
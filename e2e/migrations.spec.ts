@@ -0,0 +1,304 @@
+import { test, expect, type Page } from '@playwright/test';
+
+/**
+ * Database migrations, run against fixture databases written at an older
+ * schema version before the app first opens them
+ */
+
+/** Dexie stores each schema version as IndexedDB version × 10 */
+const SCHEMA_V1 = 10;
+const SCHEMA_V2 = 20;
+const SCHEMA_V3 = 30;
+
+const STATS = {
+  hits: 5,
+  misses: 0,
+  falseAlarms: 0,
+  correctRejections: 15,
+  hitRate: 1,
+  falseAlarmRate: 0,
+  dPrime: 3,
+  criterion: 0,
+  beta: 1,
+  aPrime: 1,
+  bDoublePrime: 0,
+  accuracy: 90,
+  avgResponseTime: 500,
+};
+
+const TRIAL = {
+  id: 0,
+  position: 4,
+  audioLetter: 'K',
+  isPositionMatch: false,
+  isAudioMatch: false,
+  userPositionResponse: null,
+  userAudioResponse: null,
+  positionResponseTime: null,
+  audioResponseTime: null,
+  stimulusTimestamp: 1767603600000,
+};
+
+/**
+ * A version 3 database seeded with the legacy "-Nback" level IDs and one
+ * passing 1-back position session stored under its legacy ID, with its
+ * trials and stats as JSON strings
+ */
+const LEGACY_FIXTURE = {
+  sessions: [
+    {
+      sessionId: 'legacy-session',
+      levelId: 'position-1back',
+      mode: 'single-position',
+      nBack: 1,
+      timestamp: '2026-01-05T09:00:00.000Z',
+      duration: 60000,
+      trials: JSON.stringify([TRIAL]),
+      positionStats: JSON.stringify(STATS),
+      audioStats: JSON.stringify({ ...STATS, accuracy: 0 }),
+      combinedAccuracy: 90,
+      completed: true,
+    },
+  ],
+  progress: [
+    {
+      id: 1,
+      currentLevel: 'position-1back',
+      unlockedLevels: JSON.stringify(['position-1back', 'audio-1back']),
+      totalSessions: 1,
+      totalTime: 60000,
+      currentStreak: 1,
+      longestStreak: 1,
+      lastSessionDate: '2026-01-05',
+      updated: '2026-01-05T09:01:00.000Z',
+    },
+  ],
+  records: [
+    {
+      levelId: 'position-1back',
+      type: 'accuracy',
+      value: 90,
+      sessionId: 'legacy-session',
+      achievedAt: '2026-01-05T09:01:00.000Z',
+      previousValue: null,
+    },
+  ],
+};
+
+/**
+ * A version 1 database, from before custom levels and records, with the
+ * same legacy session and progress
+ */
+const V1_FIXTURE = {
+  sessions: LEGACY_FIXTURE.sessions,
+  progress: LEGACY_FIXTURE.progress,
+};
+
+type Fixture = Omit<typeof LEGACY_FIXTURE, 'records'> &
+  Partial<Pick<typeof LEGACY_FIXTURE, 'records'>>;
+
+/**
+ * Write a fixture database at a schema version, with only the stores that
+ * version had, from a page on the app's origin that does not open the
+ * database itself
+ */
+async function seedLegacyDatabase(
+  page: Page,
+  fixture: Fixture,
+  version: number = SCHEMA_V3
+): Promise<void> {
+  await page.goto('/next.svg');
+  await page.evaluate(
+    ({ fixture, version, schema }) =>
+      new Promise<void>((resolve, reject) => {
+        const request = indexedDB.open('neuralift', version);
+        request.onupgradeneeded = () => {
+          const database = request.result;
+          const sessions = database.createObjectStore('sessions', { keyPath: 'sessionId' });
+          sessions.createIndex('levelId', 'levelId');
+          sessions.createIndex('timestamp', 'timestamp');
+          sessions.createIndex('completed', 'completed');
+          database.createObjectStore('progress', { keyPath: 'id' });
+          const events = database.createObjectStore('analyticsEvents', {
+            keyPath: 'id',
+            autoIncrement: true,
+          });
+          for (const index of ['type', 'category', 'sessionId', 'timestamp']) {
+            events.createIndex(index, index);
+          }
+          database.createObjectStore('settings', { keyPath: 'id' });
+          if (version >= schema.v2) {
+            database
+              .createObjectStore('customLevels', { keyPath: 'levelId' })
+              .createIndex('updated', 'updated');
+          }
+          if (version >= schema.v3) {
+            const records = database.createObjectStore('records', {
+              keyPath: ['levelId', 'type'],
+            });
+            records.createIndex('levelId', 'levelId');
+            records.createIndex('sessionId', 'sessionId');
+          }
+        };
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          const database = request.result;
+          const records = fixture.records ?? [];
+          const tx = database.transaction(
+            records.length > 0 ? ['sessions', 'progress', 'records'] : ['sessions', 'progress'],
+            'readwrite'
+          );
+          for (const session of fixture.sessions) {
+            tx.objectStore('sessions').put({ ...session, timestamp: new Date(session.timestamp) });
+          }
+          for (const progress of fixture.progress) {
+            tx.objectStore('progress').put({ ...progress, updated: new Date(progress.updated) });
+          }
+          for (const record of records) {
+            tx.objectStore('records').put({ ...record, achievedAt: new Date(record.achievedAt) });
+          }
+          tx.oncomplete = () => {
+            database.close();
+            resolve();
+          };
+          tx.onerror = () => reject(tx.error);
+        };
+      }),
+    { fixture, version, schema: { v2: SCHEMA_V2, v3: SCHEMA_V3 } }
+  );
+}
+
+/**
+ * Read every record of the given stores once the app has upgraded the
+ * database past the seeded version
+ */
+async function readMigratedDatabase(
+  page: Page,
+  stores: string[],
+  seededVersion: number = SCHEMA_V3
+) {
+  await expect
+    .poll(() =>
+      page.evaluate(
+        async () =>
+          (await indexedDB.databases()).find((info) => info.name === 'neuralift')?.version ?? 0
+      )
+    )
+    .toBeGreaterThan(seededVersion);
+
+  return page.evaluate(
+    (storeNames) =>
+      new Promise<Record<string, unknown[]>>((resolve, reject) => {
+        const request = indexedDB.open('neuralift');
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          const database = request.result;
+          const tx = database.transaction(storeNames, 'readonly');
+          const result: Record<string, unknown[]> = {};
+          for (const name of storeNames) {
+            const getAll = tx.objectStore(name).getAll();
+            getAll.onsuccess = () => {
+              result[name] = getAll.result;
+            };
+          }
+          tx.oncomplete = () => {
+            database.close();
+            resolve(result);
+          };
+        };
+      }),
+    stores
+  );
+}
+
+test.describe('Database Migrations', () => {
+  test('should rewrite legacy level IDs and recompute unlocks', async ({ page }) => {
+    await seedLegacyDatabase(page, LEGACY_FIXTURE);
+    await page.goto('/');
+
+    const migrated = await readMigratedDatabase(page, ['sessions', 'progress', 'records']);
+    const [progress] = migrated.progress as { currentLevel: string; unlockedLevels: string }[];
+
+    expect(progress?.currentLevel).toBe('position-1');
+    // The passing 1-back session earns 2-back position, which was never unlocked
+    expect(JSON.parse(progress?.unlockedLevels ?? '[]')).toEqual([
+      'position-1',
+      'audio-1',
+      'position-2',
+    ]);
+    expect(migrated.sessions).toEqual([
+      expect.objectContaining({ sessionId: 'legacy-session', levelId: 'position-1' }),
+    ]);
+    expect(migrated.records).toEqual([
+      expect.objectContaining({ levelId: 'position-1', type: 'accuracy' }),
+    ]);
+  });
+
+  test('should move trials into their own table', async ({ page }) => {
+    await seedLegacyDatabase(page, LEGACY_FIXTURE);
+    await page.goto('/');
+
+    const migrated = await readMigratedDatabase(page, ['sessions', 'trials']);
+
+    expect(migrated.sessions).toEqual([
+      expect.objectContaining({ positionStats: STATS, audioStats: { ...STATS, accuracy: 0 } }),
+    ]);
+    expect(migrated.sessions?.[0]).not.toHaveProperty('trials');
+    expect(migrated.trials).toEqual([
+      {
+        ...TRIAL,
+        sessionId: 'legacy-session',
+        index: 0,
+        levelId: 'position-1',
+        mode: 'single-position',
+        nBack: 1,
+        timestamp: new Date('2026-01-05T09:00:00.000Z'),
+      },
+    ]);
+  });
+
+  test('should upgrade a version 1 database through every migration', async ({ page }) => {
+    await seedLegacyDatabase(page, V1_FIXTURE, SCHEMA_V1);
+    await page.goto('/');
+
+    const migrated = await readMigratedDatabase(
+      page,
+      ['sessions', 'trials', 'progress', 'records', 'customLevels'],
+      SCHEMA_V1
+    );
+    const [progress] = migrated.progress as { currentLevel: string; unlockedLevels: string }[];
+
+    expect(progress?.currentLevel).toBe('position-1');
+    expect(JSON.parse(progress?.unlockedLevels ?? '[]')).toEqual([
+      'position-1',
+      'audio-1',
+      'position-2',
+    ]);
+    expect(migrated.sessions).toEqual([
+      expect.objectContaining({
+        sessionId: 'legacy-session',
+        levelId: 'position-1',
+        positionStats: STATS,
+      }),
+    ]);
+    expect(migrated.sessions?.[0]).not.toHaveProperty('trials');
+    expect(migrated.trials).toEqual([
+      expect.objectContaining({ sessionId: 'legacy-session', index: 0, levelId: 'position-1' }),
+    ]);
+    expect(migrated.records).toEqual([]);
+    expect(migrated.customLevels).toEqual([]);
+  });
+
+  test('should seed new databases with existing levels', async ({ page }) => {
+    await page.goto('/');
+
+    await expect
+      .poll(async () => (await readMigratedDatabase(page, ['progress'])).progress?.length)
+      .toBe(1);
+    const { progress } = await readMigratedDatabase(page, ['progress']);
+    const [seeded] = progress as { currentLevel: string; unlockedLevels: string }[];
+
+    expect(seeded?.currentLevel).toBe('position-1');
+    expect(JSON.parse(seeded?.unlockedLevels ?? '[]')).toEqual(['position-1', 'audio-1']);
+  });
+});
@@ -34,6 +34,22 @@ interface PerformanceStats {
   avgResponseTime: number | null;
 }
 
+interface TrendEstimate {
+  direction: string;
+  slope: number;
+  lower: number;
+  upper: number;
+  axis: string;
+  sampleSize: number;
+  sufficientData: boolean;
+}
+
+interface PlateauEstimate {
+  detected: boolean;
+  length: number;
+  level: number | null;
+}
+
 interface UserProfile {
   id: string;
   currentLevel: number;
@@ -51,6 +67,9 @@ interface UserProfile {
     overallTrend: string;
     positionTrend: string;
     audioTrend: string;
+    // Absent in profiles from clients that predate trend estimates
+    overallEstimate?: TrendEstimate;
+    plateau?: PlateauEstimate;
     recentAccuracies: number[];
   };
   strengthsWeaknesses: {
@@ -73,6 +92,26 @@ interface LLMFeedbackResponse {
   focusAreas: string[];
 }
 
+// Describes the accuracy trend with its slope and 95% interval when known
+function formatTrend(profile: UserProfile): string {
+  const estimate = profile.trends.overallEstimate;
+  if (!estimate) return profile.trends.overallTrend;
+  if (!estimate.sufficientData) {
+    return `unknown (only ${estimate.sampleSize} sessions)`;
+  }
+
+  const signed = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+  let trend =
+    `${estimate.direction}, ${signed(estimate.slope)} accuracy points per ${estimate.axis} ` +
+    `(95% CI ${signed(estimate.lower)} to ${signed(estimate.upper)}, n=${estimate.sampleSize})`;
+
+  const plateau = profile.trends.plateau;
+  if (plateau?.detected && plateau.level !== null) {
+    trend += `; plateau for the last ${plateau.length} sessions around ${Math.round(plateau.level)}%`;
+  }
+  return trend;
+}
+
 // Prompt templates
 function buildSessionFeedbackPrompt(session: SessionResult, profile: UserProfile): string {
   return `You are a supportive cognitive training coach analyzing a dual n-back training session. Provide personalized feedback in a warm, encouraging tone.
@@ -92,7 +131,7 @@ SESSION RESULTS:
 USER PROFILE:
 - Current Streak: ${profile.currentStreak} days
 - Total Sessions: ${profile.totalSessions}
-- Overall Trend: ${profile.trends.overallTrend}
+- Overall Trend: ${formatTrend(profile)}
 - Stronger Modality: ${profile.strengthsWeaknesses.strongerModality}
 - Sessions Per Week: ${profile.preferences.sessionsPerWeek.toFixed(1)}
 
@@ -116,7 +155,7 @@ USER PROFILE:
 - Total Sessions: ${profile.totalSessions}
 - Current Streak: ${profile.currentStreak} days
 - Longest Streak: ${profile.longestStreak} days
-- Overall Trend: ${profile.trends.overallTrend}
+- Overall Trend: ${formatTrend(profile)}
 - Stronger Modality: ${profile.strengthsWeaknesses.strongerModality}
 - Average Session Duration: ${Math.round(profile.preferences.averageSessionDuration / 1000 / 60)} minutes
 - Sessions Per Week: ${profile.preferences.sessionsPerWeek.toFixed(1)}
@@ -137,7 +176,7 @@ function buildMotivationalPrompt(profile: UserProfile): string {
 USER:
 - Current Streak: ${profile.currentStreak} days
 - Total Sessions: ${profile.totalSessions}
-- Recent Trend: ${profile.trends.overallTrend}
+- Recent Trend: ${formatTrend(profile)}
 - Training for ${Math.round(profile.totalTrainingTime / 1000 / 60)} total minutes
 
 Write ONE encouraging sentence (15-25 words) that:
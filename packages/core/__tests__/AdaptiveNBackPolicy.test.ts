@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { AdaptiveNBackPolicy } from '../src/services/AdaptiveNBackPolicy';
+import type { SessionResult } from '../src/domain/entities/Session';
+import type { NBackLevel } from '../src/domain/value-objects/NBackLevel';
+import { createEmptyPerformanceStats } from '../src/domain/value-objects/PerformanceStats';
+import type { TrainingMode } from '../src/domain/value-objects/TrainingMode';
+
+/**
+ * A dual block with the given errors per modality, split between misses
+ * and false alarms
+ */
+function createBlock(
+  nBack: NBackLevel,
+  positionErrors: number,
+  audioErrors: number,
+  mode: TrainingMode = 'dual'
+): SessionResult {
+  const stats = (errors: number) => ({
+    ...createEmptyPerformanceStats(),
+    misses: Math.ceil(errors / 2),
+    falseAlarms: Math.floor(errors / 2),
+  });
+  return {
+    sessionId: `block-${nBack}`,
+    levelId: `dual-${nBack}`,
+    mode,
+    nBack,
+    timestamp: new Date('2026-01-05T09:00:00.000Z'),
+    duration: 60000,
+    trials: [],
+    positionStats: stats(positionErrors),
+    audioStats: stats(audioErrors),
+    combinedAccuracy: 0,
+    completed: true,
+  };
+}
+
+describe('AdaptiveNBackPolicy', () => {
+  const policy = new AdaptiveNBackPolicy();
+
+  describe('raise', () => {
+    it('raises N when every modality has fewer than 3 errors', () => {
+      expect(policy.evaluate(createBlock(3, 2, 2))).toMatchObject({
+        previousNBack: 3,
+        nextNBack: 4,
+        direction: 'up',
+        errors: { position: 2, audio: 2, color: null, shape: null },
+      });
+    });
+
+    it('does not raise when one modality has exactly 3 errors', () => {
+      expect(policy.evaluate(createBlock(3, 3, 0))).toMatchObject({
+        nextNBack: 3,
+        direction: 'hold',
+      });
+    });
+  });
+
+  describe('lower', () => {
+    it('lowers N when any modality has more than 5 errors', () => {
+      expect(policy.evaluate(createBlock(3, 6, 0))).toMatchObject({
+        nextNBack: 2,
+        direction: 'down',
+      });
+    });
+
+    it('lowers N even when the other modality would raise it', () => {
+      expect(policy.evaluate(createBlock(3, 0, 6)).direction).toBe('down');
+    });
+
+    it('does not lower when a modality has exactly 5 errors', () => {
+      expect(policy.evaluate(createBlock(3, 5, 5))).toMatchObject({
+        nextNBack: 3,
+        direction: 'hold',
+      });
+    });
+  });
+
+  describe('hold', () => {
+    it.each([
+      [3, 3],
+      [4, 2],
+      [5, 5],
+    ])('holds N with %i and %i errors', (positionErrors, audioErrors) => {
+      expect(policy.evaluate(createBlock(4, positionErrors, audioErrors))).toMatchObject({
+        nextNBack: 4,
+        direction: 'hold',
+      });
+    });
+
+    it('only counts the modalities the mode trains', () => {
+      // The audio stats of a position-only block are never lowered on
+      expect(policy.evaluate(createBlock(2, 0, 9, 'single-position'))).toMatchObject({
+        nextNBack: 3,
+        direction: 'up',
+        errors: { position: 0, audio: null },
+      });
+    });
+  });
+
+  describe('limits', () => {
+    it('does not lower below N=1', () => {
+      expect(policy.evaluate(createBlock(1, 8, 8))).toMatchObject({
+        previousNBack: 1,
+        nextNBack: 1,
+        direction: 'hold',
+      });
+    });
+
+    it('raises from N=1', () => {
+      expect(policy.evaluate(createBlock(1, 0, 0)).nextNBack).toBe(2);
+    });
+
+    it('does not raise above N=9', () => {
+      expect(policy.evaluate(createBlock(9, 0, 0))).toMatchObject({
+        previousNBack: 9,
+        nextNBack: 9,
+        direction: 'hold',
+      });
+    });
+
+    it('lowers from N=9', () => {
+      expect(policy.evaluate(createBlock(9, 6, 0)).nextNBack).toBe(8);
+    });
+
+    it('respects configured limits', () => {
+      const bounded = new AdaptiveNBackPolicy({ minNBack: 2, maxNBack: 4 });
+      expect(bounded.evaluate(createBlock(2, 6, 6)).nextNBack).toBe(2);
+      expect(bounded.evaluate(createBlock(4, 0, 0)).nextNBack).toBe(4);
+    });
+  });
+
+  describe('carry-over', () => {
+    it('carries N across consecutive blocks', () => {
+      const errorsPerBlock: [number, number][] = [
+        [0, 2], // up to 3
+        [1, 1], // up to 4
+        [4, 3], // hold at 4
+        [7, 0], // down to 3
+        [2, 2], // up to 4
+      ];
+      let nBack: NBackLevel = 2;
+      const levels: NBackLevel[] = [];
+      for (const [positionErrors, audioErrors] of errorsPerBlock) {
+        nBack = policy.evaluate(createBlock(nBack, positionErrors, audioErrors)).nextNBack;
+        levels.push(nBack);
+      }
+      expect(levels).toEqual([3, 4, 4, 3, 4]);
+    });
+
+    it('stays at a limit over repeated blocks', () => {
+      let nBack: NBackLevel = 8;
+      for (let block = 0; block < 3; block++) {
+        nBack = policy.evaluate(createBlock(nBack, 0, 0)).nextNBack;
+      }
+      expect(nBack).toBe(9);
+    });
+  });
+});
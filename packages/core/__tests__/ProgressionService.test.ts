@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { ProgressionService } from '../src/services/ProgressionService';
+import type { SessionResult } from '../src/domain/entities/Session';
+import type { NBackLevel } from '../src/domain/value-objects/NBackLevel';
+import { createEmptyPerformanceStats } from '../src/domain/value-objects/PerformanceStats';
+import {
+  InMemoryProgressRepository,
+  InMemorySessionRepository,
+  RecordingEventBus,
+} from './fakes';
+
+const PASSING = { ...createEmptyPerformanceStats(), accuracy: 90, dPrime: 3 };
+
+function createPositionSession(nBack: NBackLevel): SessionResult {
+  return {
+    sessionId: `position-${nBack}-session`,
+    levelId: `position-${nBack}`,
+    mode: 'single-position',
+    nBack,
+    timestamp: new Date(`2026-01-0${nBack}T09:00:00.000Z`),
+    duration: 60000,
+    trials: [],
+    positionStats: PASSING,
+    audioStats: PASSING,
+    combinedAccuracy: 90,
+    completed: true,
+  };
+}
+
+async function createService(currentLevel: string, sessions: SessionResult[]) {
+  const sessionRepository = new InMemorySessionRepository();
+  for (const session of sessions) await sessionRepository.save(session);
+  const progressRepository = new InMemoryProgressRepository();
+  progressRepository.progress.currentLevel = currentLevel;
+  const service = new ProgressionService(
+    progressRepository,
+    sessionRepository,
+    new RecordingEventBus()
+  );
+  return { service, progressRepository };
+}
+
+describe('ProgressionService current level', () => {
+  it('moves to the next N of its track when a session unlocks it', async () => {
+    const session = createPositionSession(1);
+    const { service, progressRepository } = await createService('position-1', [session]);
+
+    const result = await service.processSessionResult(session, await progressRepository.get());
+
+    expect(result).toMatchObject({ unlockedLevelIds: ['position-2'], currentLevel: 'position-2' });
+    expect(progressRepository.progress.currentLevel).toBe('position-2');
+  });
+
+  it('does not move to unlocks outside its track', async () => {
+    const session = createPositionSession(2);
+    const { service, progressRepository } = await createService('position-2', [session]);
+    await progressRepository.unlockLevel('position-2');
+
+    const result = await service.processSessionResult(session, await progressRepository.get());
+
+    // dual-2 and position-2-4x4 unlock too, at the same N or in another mode
+    expect(result.unlockedLevelIds).toEqual(
+      expect.arrayContaining(['position-3', 'dual-2', 'position-2-4x4'])
+    );
+    expect(result.currentLevel).toBe('position-3');
+  });
+
+  it('stays when the unlock does not follow the current level', async () => {
+    const session = createPositionSession(1);
+    const { service, progressRepository } = await createService('audio-1', [session]);
+
+    const result = await service.processSessionResult(session, await progressRepository.get());
+
+    expect(result).toMatchObject({ unlockedLevelIds: ['position-2'], currentLevel: 'audio-1' });
+    expect(progressRepository.progress.currentLevel).toBe('audio-1');
+  });
+
+  it('follows a chain of earned unlocks along the track', async () => {
+    const { service, progressRepository } = await createService('position-1', [
+      createPositionSession(1),
+      createPositionSession(2),
+      createPositionSession(3),
+    ]);
+
+    const result = await service.unlockEarnedLevels();
+
+    expect(result.unlockedLevelIds).toEqual(expect.arrayContaining(['position-2', 'position-3']));
+    expect(result.currentLevel).toBe('position-3');
+    expect(progressRepository.progress.currentLevel).toBe('position-3');
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { getScoringConvention } from '../src/domain/value-objects/ScoringConvention';
+import {
+  createEmptyPerformanceStats,
+  type PerformanceStats,
+} from '../src/domain/value-objects/PerformanceStats';
+
+function createStats(overrides: Partial<PerformanceStats> = {}): PerformanceStats {
+  return { ...createEmptyPerformanceStats(), ...overrides };
+}
+
+describe('brain-workshop convention', () => {
+  const convention = getScoringConvention('brain-workshop');
+
+  it('pools hits over hits, misses and false alarms', () => {
+    const position = createStats({ hits: 6, misses: 1, falseAlarms: 1, correctRejections: 12 });
+    const audio = createStats({ hits: 3, misses: 1, correctRejections: 16 });
+
+    expect(convention.scoreChannels([position, audio])).toBe(75);
+  });
+
+  it('scores 0 when there is nothing to credit', () => {
+    const stats = createStats({ correctRejections: 20, accuracy: 100 });
+
+    expect(convention.scoreChannel(stats)).toBe(0);
+    expect(convention.scoreChannels([stats, stats])).toBe(0);
+  });
+
+  it('uses the percentage of summaries imported from Brain Workshop', () => {
+    const position = createStats({ accuracy: 80, reportedConvention: 'brain-workshop' });
+    const audio = createStats({ accuracy: 70, reportedConvention: 'brain-workshop' });
+
+    expect(convention.scoreChannels([position, audio])).toBe(75);
+  });
+
+  it('does not use the percentage of summaries in another convention', () => {
+    const stats = createStats({ accuracy: 90, reportedConvention: 'neuralift' });
+
+    expect(convention.scoreChannel(stats)).toBe(0);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BRAIN_WORKSHOP_TARGET_COUNTS,
+  SequenceGenerator,
+  type GeneratedTrial,
+  type TargetCounts,
+} from '../src/services/SequenceGenerator';
+import type { TrainingMode } from '../src/domain/value-objects/TrainingMode';
+
+const NBACK = 2;
+const TRIAL_COUNT = 20 + NBACK;
+
+/**
+ * Targets per channel, with dual targets counted on both position and audio
+ */
+function countTargets(trials: readonly GeneratedTrial[]) {
+  return {
+    position: trials.filter((t) => t.isPositionMatch).length,
+    audio: trials.filter((t) => t.isAudioMatch).length,
+    dual: trials.filter((t) => t.isPositionMatch && t.isAudioMatch).length,
+    color: trials.filter((t) => t.isColorMatch).length,
+    shape: trials.filter((t) => t.isShapeMatch).length,
+  };
+}
+
+function generate(mode: TrainingMode, targetCounts: TargetCounts, seed: number) {
+  return new SequenceGenerator().generate({
+    nBack: NBACK,
+    trialCount: TRIAL_COUNT,
+    mode,
+    targetCounts,
+    seed,
+  });
+}
+
+describe('SequenceGenerator target counts', () => {
+  const counts: TargetCounts = { ...BRAIN_WORKSHOP_TARGET_COUNTS, color: 5, shape: 4 };
+
+  it.each([
+    ['single-position', { position: 6, audio: 0, dual: 0, color: 0, shape: 0 }],
+    ['single-audio', { position: 0, audio: 6, dual: 0, color: 0, shape: 0 }],
+    ['dual', { position: 8, audio: 8, dual: 2, color: 0, shape: 0 }],
+    ['triple', { position: 8, audio: 8, dual: 2, color: 5, shape: 0 }],
+    ['quad', { position: 8, audio: 8, dual: 2, color: 5, shape: 4 }],
+  ] as const)('places exact targets per channel in %s mode', (mode, expected) => {
+    for (const seed of [1, 2, 3, 42]) {
+      expect(countTargets(generate(mode, counts, seed))).toEqual(expected);
+    }
+  });
+
+  it('places no targets in the N-back warmup', () => {
+    const trials = generate('quad', counts, 7);
+    for (const trial of trials.slice(0, NBACK)) {
+      expect(trial.isPositionMatch || trial.isAudioMatch).toBe(false);
+      expect(trial.isColorMatch || trial.isShapeMatch).toBe(false);
+    }
+  });
+
+  it('rejects more targets than trials after the warmup', () => {
+    expect(() => generate('dual', { position: 10, audio: 10, dual: 1 }, 1)).toThrow(
+      'Cannot place 21 targets in 20 trials after the 2-back warmup'
+    );
+  });
+});
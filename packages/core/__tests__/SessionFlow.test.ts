@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { createCoreFactory, type CoreFactory } from '../src/factory';
+import type { IAnalyticsRepository } from '../src/ports/IAnalyticsRepository';
+import type { IAudioPlayer } from '../src/ports/IAudioPlayer';
+import type { ILLMService } from '../src/ports/ILLMService';
+import {
+  InMemoryProgressRepository,
+  InMemoryRecordRepository,
+  InMemorySessionRepository,
+  RecordingEventBus,
+  noCustomLevels,
+} from './fakes';
+
+function createHeadlessCore() {
+  const sessions = new InMemorySessionRepository();
+  const progress = new InMemoryProgressRepository();
+  const eventBus = new RecordingEventBus();
+  let nextId = 0;
+  const core: CoreFactory = createCoreFactory({
+    sessionRepository: sessions,
+    progressRepository: progress,
+    recordRepository: new InMemoryRecordRepository(),
+    customLevelRepository: noCustomLevels,
+    eventBus,
+    // Not used while driving a session
+    analyticsRepository: {} as IAnalyticsRepository,
+    audioPlayer: {} as IAudioPlayer,
+    llmService: {} as ILLMService,
+    generateSessionId: () => `session-${++nextId}`,
+  });
+  return { core, sessions, progress, eventBus };
+}
+
+/**
+ * Claim every actual match of every trial, as a perfect player would
+ */
+async function playPerfectly(core: CoreFactory, sessionId: string): Promise<void> {
+  const { session } = await core.useCases.startSession.execute({ levelId: 'position-1' });
+  expect(session.getId()).toBe(sessionId);
+  session.start();
+  for (const trial of session.getTrials()) {
+    session.presentCurrentTrial();
+    if (trial.isPositionMatch) {
+      const response = await core.useCases.recordResponse.execute({
+        sessionId,
+        trialIndex: trial.id,
+        positionMatch: true,
+        audioMatch: false,
+      });
+      expect(response).toEqual({ recorded: true, correct: true });
+    }
+    session.advanceToNextTrial();
+  }
+}
+
+describe('session flow without a UI', () => {
+  it('starts, records responses and completes a session', async () => {
+    const { core, sessions, progress, eventBus } = createHeadlessCore();
+
+    await playPerfectly(core, 'session-1');
+    const completed = await core.useCases.completeSession.execute({ sessionId: 'session-1' });
+
+    expect(completed.accuracy).toBe(100);
+    expect(completed.unlockedLevelIds).toEqual(['position-2']);
+    expect(sessions.sessions.map((s) => s.sessionId)).toEqual(['session-1']);
+    expect(progress.progress).toMatchObject({ totalSessions: 1 });
+    expect(progress.progress.unlockedLevels).toContain('position-2');
+    expect(progress.progress.currentLevel).toBe('position-2');
+    expect(eventBus.events.map((e) => e.type)).toContain('SESSION_COMPLETED');
+  });
+
+  it('drops the session once it is completed', async () => {
+    const { core } = createHeadlessCore();
+
+    await playPerfectly(core, 'session-1');
+    await core.useCases.completeSession.execute({ sessionId: 'session-1' });
+
+    expect(core.useCases.discardSession.execute({ sessionId: 'session-1' })).toEqual({
+      discarded: false,
+    });
+  });
+
+  it('drops the session when completing it fails', async () => {
+    const { core, sessions } = createHeadlessCore();
+    await playPerfectly(core, 'session-1');
+    sessions.failSaves = true;
+
+    await expect(
+      core.useCases.completeSession.execute({ sessionId: 'session-1' })
+    ).rejects.toThrow('Storage is full');
+    await expect(
+      core.useCases.completeSession.execute({ sessionId: 'session-1' })
+    ).rejects.toThrow('No active session with ID: session-1');
+  });
+
+  it('discards a session that is reset or quit', async () => {
+    const { core, sessions } = createHeadlessCore();
+    await core.useCases.startSession.execute({ levelId: 'position-1' });
+
+    expect(core.useCases.discardSession.execute({ sessionId: 'session-1' })).toEqual({
+      discarded: true,
+    });
+    await expect(
+      core.useCases.recordResponse.execute({
+        sessionId: 'session-1',
+        trialIndex: 0,
+        positionMatch: true,
+        audioMatch: false,
+      })
+    ).rejects.toThrow('No active session with ID: session-1');
+    expect(sessions.sessions).toEqual([]);
+  });
+});
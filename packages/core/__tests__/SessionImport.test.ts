@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  parseBrainWorkshopStats,
+  parseSessionCsv,
+  type CsvImportMapping,
+} from '../src/domain/entities/SessionImport';
+
+/**
+ * A Brain Workshop stats line with the given overall percentage, mode number
+ * and N, and per-modality percentages in their columns
+ */
+function bwLine(percent: number, mode: number, nBack: number, position = '', audio = ''): string {
+  const fields = Array.from({ length: 26 }, () => '0');
+  fields[0] = '2024-03-01 10:00:00';
+  fields[1] = 'manual';
+  fields[2] = String(percent);
+  fields[3] = String(mode);
+  fields[4] = String(nBack);
+  fields[5] = '30';
+  fields[6] = '20';
+  fields[9] = position;
+  fields[10] = audio;
+  fields[25] = '60';
+  return fields.join(',');
+}
+
+describe('parseBrainWorkshopStats', () => {
+  it.each([
+    [2, 'dual-2'],
+    [10, 'position-2'],
+    [11, 'audio-2'],
+  ])('imports mode %i as %s', (mode, levelId) => {
+    const { sessions, skipped } = parseBrainWorkshopStats(bwLine(75, mode, 2));
+
+    expect(skipped).toEqual([]);
+    expect(sessions.map((s) => s.levelId)).toEqual([levelId]);
+  });
+
+  it('reads percentages as 0-100', () => {
+    const { sessions } = parseBrainWorkshopStats(bwLine(1, 10, 2, '1'));
+
+    expect(sessions[0]?.combinedAccuracy).toBe(1);
+    expect(sessions[0]?.positionStats.accuracy).toBe(1);
+  });
+
+  it('skips modes without a Neuralift equivalent', () => {
+    expect(parseBrainWorkshopStats(bwLine(75, 7, 2)).skipped).toEqual([
+      { line: 1, reason: 'Brain Workshop mode 7 has no Neuralift equivalent' },
+    ]);
+  });
+});
+
+describe('parseSessionCsv percentages', () => {
+  const mapping: CsvImportMapping = { timestamp: 0, nBack: 1, accuracy: 2 };
+  const accuracies = (values: string[]) =>
+    parseSessionCsv(
+      ['date,n,accuracy', ...values.map((v, i) => `2024-03-0${i + 1} 10:00,2,${v}`)].join('\n'),
+      mapping
+    ).sessions.map((s) => s.combinedAccuracy);
+
+  it('reads a column of values between 0 and 1 as fractions', () => {
+    expect(accuracies(['0.8', '1', '0.65'])).toEqual([80, 100, 65]);
+  });
+
+  it('reads a column with larger values as percentages', () => {
+    expect(accuracies(['80', '1', '0.5', '1.0'])).toEqual([80, 1, 0.5, 1]);
+  });
+
+  it('reads values with a percent sign as percentages', () => {
+    expect(accuracies(['0.5%', '1%'])).toEqual([0.5, 1]);
+  });
+
+  it('decides the scale per column', () => {
+    const { sessions } = parseSessionCsv(
+      'date,n,position,audio\n2024-03-01 10:00,2,0.8,80\n2024-03-02 10:00,2,0.9,90',
+      { timestamp: 0, nBack: 1, positionAccuracy: 2, audioAccuracy: 3 }
+    );
+
+    expect(sessions.map((s) => [s.positionStats.accuracy, s.audioStats.accuracy])).toEqual([
+      [80, 80],
+      [90, 90],
+    ]);
+  });
+});
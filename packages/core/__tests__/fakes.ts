@@ -0,0 +1,121 @@
+import type { SessionResult } from '../src/domain/entities/Session';
+import type { PersonalRecord } from '../src/domain/entities/PersonalRecord';
+import type { DomainEvent } from '../src/domain/events/DomainEvent';
+import type { ISessionRepository, SessionStatsQuery } from '../src/ports/ISessionRepository';
+import type { IProgressRepository, UserProgress } from '../src/ports/IProgressRepository';
+import type { IRecordRepository } from '../src/ports/IRecordRepository';
+import type { IEventBus } from '../src/ports/IEventBus';
+import type { ICustomLevelRepository } from '../src/ports/ICustomLevelRepository';
+
+/**
+ * In-memory port adapters for driving core without a database
+ */
+
+export class InMemorySessionRepository implements ISessionRepository {
+  readonly sessions: SessionResult[] = [];
+  failSaves = false;
+
+  async save(session: SessionResult): Promise<void> {
+    if (this.failSaves) throw new Error('Storage is full');
+    this.sessions.push(session);
+  }
+  async findById(sessionId: string) {
+    return this.sessions.find((s) => s.sessionId === sessionId) ?? null;
+  }
+  async findByLevel(levelId: string) {
+    return this.sessions.filter((s) => s.levelId === levelId);
+  }
+  async findAll() {
+    return [...this.sessions];
+  }
+  async findRecent(limit: number) {
+    return this.sessions.slice(-limit);
+  }
+  async findByDateRange(start: Date, end: Date) {
+    return this.sessions.filter((s) => s.timestamp >= start && s.timestamp <= end);
+  }
+  async findStats(query: SessionStatsQuery = {}) {
+    return this.sessions.filter(
+      (s) =>
+        (query.levelId === undefined || s.levelId === query.levelId) &&
+        (query.start === undefined || s.timestamp >= query.start) &&
+        (query.end === undefined || s.timestamp <= query.end)
+    );
+  }
+  async count() {
+    return this.sessions.length;
+  }
+  async clear() {
+    this.sessions.length = 0;
+  }
+}
+
+export class InMemoryProgressRepository implements IProgressRepository {
+  progress: UserProgress = {
+    currentLevel: 'position-1',
+    unlockedLevels: ['position-1', 'audio-1'],
+    totalSessions: 0,
+    totalTime: 0,
+    currentStreak: 0,
+    longestStreak: 0,
+    lastSessionDate: null,
+  };
+
+  async get() {
+    return { ...this.progress, unlockedLevels: [...this.progress.unlockedLevels] };
+  }
+  async save(progress: UserProgress) {
+    this.progress = progress;
+  }
+  async reset() {}
+  async updateField<K extends keyof UserProgress>(field: K, value: UserProgress[K]) {
+    this.progress = { ...this.progress, [field]: value };
+  }
+  async unlockLevel(levelId: string) {
+    if (!this.progress.unlockedLevels.includes(levelId)) {
+      this.progress.unlockedLevels = [...this.progress.unlockedLevels, levelId];
+    }
+  }
+  async isLevelUnlocked(levelId: string) {
+    return this.progress.unlockedLevels.includes(levelId);
+  }
+  async updateStreak() {
+    return this.progress.currentStreak;
+  }
+}
+
+export class InMemoryRecordRepository implements IRecordRepository {
+  records: PersonalRecord[] = [];
+
+  async saveAll(records: PersonalRecord[]) {
+    const keys = new Set(records.map((r) => `${r.levelId}:${r.type}`));
+    this.records = [...this.records.filter((r) => !keys.has(`${r.levelId}:${r.type}`)), ...records];
+  }
+  async findByLevel(levelId: string) {
+    return this.records.filter((r) => r.levelId === levelId);
+  }
+  async findAll() {
+    return [...this.records];
+  }
+  async clear() {
+    this.records = [];
+  }
+}
+
+export class RecordingEventBus implements IEventBus {
+  readonly events: DomainEvent[] = [];
+
+  publish(event: DomainEvent): void {
+    this.events.push(event);
+  }
+  subscribe(): () => void {
+    return () => {};
+  }
+}
+
+export const noCustomLevels: ICustomLevelRepository = {
+  save: async () => {},
+  findById: async () => null,
+  findAll: async () => [],
+  delete: async () => {},
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { LEVELS, type LevelConfig } from '../src/config/levels';
+import { validateUnlockChains } from '../src/config/unlockChains';
+
+describe('validateUnlockChains', () => {
+  it('accepts the built-in catalog', () => {
+    expect(validateUnlockChains(LEVELS)).toEqual([]);
+  });
+
+  it('rejects unlock criteria on custom levels', () => {
+    const custom: LevelConfig = {
+      id: 'custom-1',
+      name: 'Custom',
+      nBack: 3,
+      mode: 'dual',
+      description: 'Dual 3-back',
+      custom: true,
+      unlockCriteria: { requiredLevels: ['dual-2'], minAccuracy: 80 },
+    };
+
+    expect(validateUnlockChains([...LEVELS, custom])).toEqual([
+      {
+        kind: 'custom-criteria',
+        levelId: 'custom-1',
+        message: 'Custom level custom-1 cannot have unlock criteria',
+      },
+    ]);
+  });
+});
@@ -13,18 +13,24 @@ export const DEFAULT_TRIALS_PER_SESSION = 20;
 /** Minimum accuracy required for level progression */
 export const MIN_ACCURACY_FOR_PROGRESSION = 80;
 
+/** Chance of placing an N-1 or N+1 lure on a non-match trial */
+export const DEFAULT_LURE_PROBABILITY = 0.1;
+
 /** Target match percentage in sequences (roughly 30-40%) */
 export const TARGET_MATCH_PERCENTAGE = 0.35;
 
 /** Available letters for audio stimuli */
 export const AUDIO_LETTERS = ['C', 'H', 'K', 'L', 'Q', 'R', 'S', 'T'] as const;
 
-/** Grid size (3x3) */
+/** Default grid size (3x3) */
 export const GRID_SIZE = 3;
 
-/** Total grid positions */
+/** Total positions on the default grid */
 export const TOTAL_POSITIONS = GRID_SIZE * GRID_SIZE;
 
+/** Grid sizes a level can use (3x3, 4x4, 5x5) */
+export const SUPPORTED_GRID_SIZES = [3, 4, 5] as const;
+
 /** Maximum N-back level supported */
 export const MAX_N_BACK_LEVEL = 9;
 
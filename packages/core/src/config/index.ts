@@ -5,4 +5,6 @@
  */
 
 export * from './levels';
+export * from './programs';
+export * from './unlockChains';
 export * from './constants';
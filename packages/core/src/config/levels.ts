@@ -6,6 +6,9 @@
 
 import type { NBackLevel } from '../domain/value-objects/NBackLevel';
 import type { TrainingMode } from '../domain/value-objects/TrainingMode';
+import type { GridSize } from '../domain/value-objects/Position';
+import type { UnlockCriteria } from '../domain/entities/Level';
+import { assertValidUnlockChains } from './unlockChains';
 
 export interface LevelConfig {
   readonly id: string;
@@ -13,63 +16,179 @@ export interface LevelConfig {
   readonly nBack: NBackLevel;
   readonly mode: TrainingMode;
   readonly description: string;
-  readonly unlockCriteria?: {
-    requiredLevel: string;
-    minAccuracy: number;
-  };
+  /** Grid side length (defaults to 3) */
+  readonly gridSize?: GridSize;
+  /** Trials per session (defaults to the user's session length) */
+  readonly trialCount?: number;
+  /** Trial duration in ms (defaults to the user's trial duration) */
+  readonly trialDuration?: number;
+  /** Match probability per channel (defaults to the generator's 0.3) */
+  readonly matchProbability?: number;
+  /** Lure probability on non-match trials (defaults to DEFAULT_LURE_PROBABILITY) */
+  readonly lureProbability?: number;
+  /** True for user-defined levels */
+  readonly custom?: boolean;
+  readonly unlockCriteria?: UnlockCriteria;
 }
 
-export const LEVELS: readonly LevelConfig[] = [
-  // Single Position Levels
+/**
+ * A family of levels that share a mode and differ only in N.
+ * Each level unlocks from the previous N in the same track.
+ */
+interface LevelTrack {
+  readonly idPrefix: string;
+  readonly mode: TrainingMode;
+  readonly minNBack: NBackLevel;
+  readonly maxNBack: NBackLevel;
+  readonly name: (nBack: NBackLevel) => string;
+  readonly description: (nBack: NBackLevel) => string;
+  /** Unlock for the first level in the track (undefined = starter level) */
+  readonly entryCriteria?: UnlockCriteria;
+  /** Accuracy on the previous N needed to unlock the next */
+  readonly stepAccuracy: number;
+}
+
+/**
+ * Extra conditions for high N, where a single lucky session
+ * should not be enough to move on
+ */
+function stepConditions(nBack: NBackLevel): Omit<UnlockCriteria, 'requiredLevels' | 'minAccuracy'> {
+  if (nBack >= 6) {
+    return { minDPrime: 2, qualifyingSessions: { count: 3, window: 5 } };
+  }
+  if (nBack >= 4) {
+    return { minDPrime: 1.5, qualifyingSessions: { count: 2, window: 3 } };
+  }
+  return {};
+}
+
+const steps = (n: NBackLevel) => `${n} step${n > 1 ? 's' : ''}`;
+
+const LEVEL_TRACKS: readonly LevelTrack[] = [
   {
-    id: 'position-1',
-    name: '1-Back Position',
-    nBack: 1,
+    idPrefix: 'position',
     mode: 'single-position',
-    description: 'Match positions from 1 step ago',
+    minNBack: 1,
+    maxNBack: 9,
+    name: (n) => `${n}-Back Position`,
+    description: (n) => `Match positions from ${steps(n)} ago`,
+    stepAccuracy: 80,
   },
   {
-    id: 'position-2',
-    name: '2-Back Position',
+    idPrefix: 'audio',
+    mode: 'single-audio',
+    minNBack: 1,
+    maxNBack: 9,
+    name: (n) => `${n}-Back Audio`,
+    description: (n) => `Match letters from ${steps(n)} ago`,
+    stepAccuracy: 80,
+  },
+  {
+    idPrefix: 'dual',
+    mode: 'dual',
+    minNBack: 2,
+    maxNBack: 9,
+    name: (n) => `Dual ${n}-Back`,
+    description: (n) => `Match both position and audio from ${steps(n)} ago`,
+    entryCriteria: { requiredLevels: ['position-2'], minAccuracy: 75 },
+    stepAccuracy: 80,
+  },
+];
+
+/**
+ * Expand a track into one level per N, chained by unlock criteria
+ */
+function generateTrackLevels(track: LevelTrack): LevelConfig[] {
+  const levels: LevelConfig[] = [];
+  for (let n = track.minNBack; n <= track.maxNBack; n++) {
+    const nBack = n as NBackLevel;
+    const unlockCriteria: UnlockCriteria | undefined =
+      n === track.minNBack
+        ? track.entryCriteria
+        : {
+            requiredLevels: [`${track.idPrefix}-${n - 1}`],
+            minAccuracy: track.stepAccuracy,
+            ...stepConditions(nBack),
+          };
+    levels.push({
+      id: `${track.idPrefix}-${n}`,
+      name: track.name(nBack),
+      nBack,
+      mode: track.mode,
+      description: track.description(nBack),
+      ...(unlockCriteria ? { unlockCriteria } : {}),
+    });
+  }
+  return levels;
+}
+
+/**
+ * Levels outside the N tracks: extra stimulus channels and larger grids
+ */
+const SPECIAL_LEVELS: readonly LevelConfig[] = [
+  // Triple and Quad N-Back Levels
+  {
+    id: 'triple-2',
+    name: 'Triple 2-Back',
     nBack: 2,
-    mode: 'single-position',
-    description: 'Match positions from 2 steps ago',
-    unlockCriteria: { requiredLevel: 'position-1', minAccuracy: 80 },
+    mode: 'triple',
+    description: 'Match position, audio and color from 2 steps ago',
+    unlockCriteria: {
+      requiredLevels: ['dual-3'],
+      minAccuracy: 80,
+      minModalityAccuracy: { position: 75, audio: 75 },
+    },
   },
-  // Single Audio Levels
   {
-    id: 'audio-1',
-    name: '1-Back Audio',
-    nBack: 1,
-    mode: 'single-audio',
-    description: 'Match letters from 1 step ago',
+    id: 'quad-2',
+    name: 'Quad 2-Back',
+    nBack: 2,
+    mode: 'quad',
+    description: 'Match position, audio, color and shape from 2 steps ago',
+    unlockCriteria: {
+      requiredLevels: ['triple-2'],
+      minAccuracy: 80,
+      minModalityAccuracy: { color: 75 },
+      qualifyingSessions: { count: 2, window: 3 },
+    },
   },
+  // Larger Grid Levels - more spatial load at the same N
   {
-    id: 'audio-2',
-    name: '2-Back Audio',
+    id: 'position-2-4x4',
+    name: '2-Back Position 4×4',
     nBack: 2,
-    mode: 'single-audio',
-    description: 'Match letters from 2 steps ago',
-    unlockCriteria: { requiredLevel: 'audio-1', minAccuracy: 80 },
+    mode: 'single-position',
+    gridSize: 4,
+    description: 'Match positions from 2 steps ago on a 4×4 grid',
+    unlockCriteria: { requiredLevels: ['position-2'], minAccuracy: 80 },
   },
-  // Dual N-Back Levels
   {
-    id: 'dual-2',
-    name: 'Dual 2-Back',
+    id: 'dual-2-4x4',
+    name: 'Dual 2-Back 4×4',
     nBack: 2,
     mode: 'dual',
-    description: 'Match both position and audio from 2 steps ago',
-    unlockCriteria: { requiredLevel: 'position-2', minAccuracy: 75 },
+    gridSize: 4,
+    description: 'Match both position and audio from 2 steps ago on a 4×4 grid',
+    unlockCriteria: { requiredLevels: ['dual-2', 'position-2-4x4'], minAccuracy: 80 },
   },
   {
-    id: 'dual-3',
-    name: 'Dual 3-Back',
-    nBack: 3,
+    id: 'dual-2-5x5',
+    name: 'Dual 2-Back 5×5',
+    nBack: 2,
     mode: 'dual',
-    description: 'Match both position and audio from 3 steps ago',
-    unlockCriteria: { requiredLevel: 'dual-2', minAccuracy: 80 },
+    gridSize: 5,
+    description: 'Match both position and audio from 2 steps ago on a 5×5 grid',
+    unlockCriteria: { requiredLevels: ['dual-2-4x4'], minAccuracy: 80, minDPrime: 1.5 },
   },
-] as const;
+];
+
+/**
+ * The built-in catalog. Validated on load - a broken unlock chain throws.
+ */
+export const LEVELS: readonly LevelConfig[] = assertValidUnlockChains([
+  ...LEVEL_TRACKS.flatMap(generateTrackLevels),
+  ...SPECIAL_LEVELS,
+]);
 
 export function getLevelById(id: string): LevelConfig | undefined {
   return LEVELS.find((level) => level.id === id);
@@ -78,3 +197,36 @@ export function getLevelById(id: string): LevelConfig | undefined {
 export function getStarterLevels(): LevelConfig[] {
   return LEVELS.filter((level) => !level.unlockCriteria);
 }
+
+/** ID prefix that marks user-defined levels */
+export const CUSTOM_LEVEL_ID_PREFIX = 'custom-';
+
+/**
+ * Bounds for user-defined level settings
+ */
+export const CUSTOM_LEVEL_LIMITS = {
+  minTrialCount: 10,
+  maxTrialCount: 100,
+  minTrialDuration: 1000,
+  maxTrialDuration: 10000,
+  minMatchProbability: 0.1,
+  maxMatchProbability: 0.5,
+} as const;
+
+/**
+ * A user-defined level. Always unlocked, never part of an unlock chain,
+ * so it has no unlock criteria for progression to evaluate.
+ */
+export interface CustomLevel extends Omit<LevelConfig, 'unlockCriteria'> {
+  readonly custom: true;
+  readonly unlockCriteria?: never;
+  readonly trialCount: number;
+  readonly trialDuration: number;
+  readonly matchProbability: number;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+export function isCustomLevelId(id: string): boolean {
+  return id.startsWith(CUSTOM_LEVEL_ID_PREFIX);
+}
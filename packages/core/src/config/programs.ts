@@ -0,0 +1,57 @@
+/**
+ * Training Program Configuration
+ *
+ * Built-in multi-week programs.
+ */
+
+import type { TrainingProgram } from '../domain/entities/TrainingProgram';
+
+export const PROGRAMS: readonly TrainingProgram[] = [
+  {
+    id: 'foundations',
+    name: 'Foundations',
+    description: 'Two weeks of single-modality practice building up to dual n-back',
+    weeks: 2,
+    daysPerWeek: 5,
+    minutesPerDay: 10,
+    phases: [
+      {
+        days: 5,
+        items: [
+          { mode: 'single-position', blocks: 4 },
+          { mode: 'single-audio', blocks: 4 },
+        ],
+      },
+      {
+        days: 5,
+        items: [
+          { mode: 'single-position', blocks: 3 },
+          { mode: 'single-audio', blocks: 3 },
+          { mode: 'dual', blocks: 2 },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'classic-dual',
+    name: 'Classic Dual N-Back',
+    description: '20 sessions over 4 weeks of dual n-back, 20 minutes a day',
+    weeks: 4,
+    daysPerWeek: 5,
+    minutesPerDay: 20,
+    phases: [{ days: 20, items: [{ mode: 'dual', blocks: 18 }] }],
+  },
+  {
+    id: 'maintenance',
+    name: 'Maintenance',
+    description: 'Three short dual n-back sessions a week to keep your gains',
+    weeks: 4,
+    daysPerWeek: 3,
+    minutesPerDay: 10,
+    phases: [{ days: 12, items: [{ mode: 'dual', blocks: 8 }] }],
+  },
+];
+
+export function getProgramById(id: string): TrainingProgram | undefined {
+  return PROGRAMS.find((program) => program.id === id);
+}
@@ -0,0 +1,150 @@
+/**
+ * Unlock Chain Validation
+ *
+ * Checks that every level in a catalog can be unlocked from a starter
+ * level: no cycles, no references to missing levels, no duplicate IDs,
+ * and no criteria on custom levels, which are always unlocked.
+ */
+
+import type { LevelConfig } from './levels';
+
+export type UnlockChainIssueKind =
+  | 'duplicate-id'
+  | 'missing-requirement'
+  | 'cycle'
+  | 'unreachable'
+  | 'custom-criteria';
+
+/**
+ * A problem found in a level catalog
+ */
+export interface UnlockChainIssue {
+  readonly kind: UnlockChainIssueKind;
+  readonly levelId: string;
+  readonly message: string;
+}
+
+/**
+ * IDs of the levels that must be unlocked before this one
+ */
+export function getRequiredLevelIds(level: LevelConfig): string[] {
+  return [...(level.unlockCriteria?.requiredLevels ?? [])];
+}
+
+/**
+ * Find every unlock chain problem in a catalog, empty when valid
+ */
+export function validateUnlockChains(levels: readonly LevelConfig[]): UnlockChainIssue[] {
+  const issues: UnlockChainIssue[] = [];
+  const byId = new Map<string, LevelConfig>();
+
+  for (const level of levels) {
+    if (byId.has(level.id)) {
+      issues.push({
+        kind: 'duplicate-id',
+        levelId: level.id,
+        message: `Level ${level.id} is defined more than once`,
+      });
+    }
+    byId.set(level.id, level);
+    if (level.custom && level.unlockCriteria) {
+      issues.push({
+        kind: 'custom-criteria',
+        levelId: level.id,
+        message: `Custom level ${level.id} cannot have unlock criteria`,
+      });
+    }
+  }
+
+  for (const level of byId.values()) {
+    for (const requiredId of getRequiredLevelIds(level)) {
+      if (!byId.has(requiredId)) {
+        issues.push({
+          kind: 'missing-requirement',
+          levelId: level.id,
+          message: `Level ${level.id} requires unknown level ${requiredId}`,
+        });
+      }
+    }
+  }
+
+  const cyclic = findCyclicLevels(byId);
+  for (const levelId of cyclic) {
+    issues.push({
+      kind: 'cycle',
+      levelId,
+      message: `Level ${levelId} is part of an unlock cycle`,
+    });
+  }
+
+  // Reachable = starter level, or every requirement is reachable
+  const reachable = new Set<string>();
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const level of byId.values()) {
+      if (reachable.has(level.id)) continue;
+      if (getRequiredLevelIds(level).every((id) => reachable.has(id))) {
+        reachable.add(level.id);
+        changed = true;
+      }
+    }
+  }
+
+  for (const level of byId.values()) {
+    if (!reachable.has(level.id) && !cyclic.has(level.id)) {
+      issues.push({
+        kind: 'unreachable',
+        levelId: level.id,
+        message: `Level ${level.id} can never be unlocked from a starter level`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Return the catalog unchanged, or throw listing every unlock chain problem
+ */
+export function assertValidUnlockChains<T extends readonly LevelConfig[]>(levels: T): T {
+  const issues = validateUnlockChains(levels);
+  if (issues.length > 0) {
+    throw new Error(`Invalid level catalog: ${issues.map((i) => i.message).join('; ')}`);
+  }
+  return levels;
+}
+
+/**
+ * Levels that lie on a requirement cycle (depth-first search)
+ */
+function findCyclicLevels(byId: ReadonlyMap<string, LevelConfig>): Set<string> {
+  const cyclic = new Set<string>();
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+
+  const visit = (levelId: string): void => {
+    const level = byId.get(levelId);
+    if (!level || state.get(levelId) === 'done') return;
+
+    if (state.get(levelId) === 'visiting') {
+      for (const id of path.slice(path.indexOf(levelId))) {
+        cyclic.add(id);
+      }
+      return;
+    }
+
+    state.set(levelId, 'visiting');
+    path.push(levelId);
+    for (const requiredId of getRequiredLevelIds(level)) {
+      visit(requiredId);
+    }
+    path.pop();
+    state.set(levelId, 'done');
+  };
+
+  for (const levelId of byId.keys()) {
+    visit(levelId);
+  }
+  return cyclic;
+}
@@ -7,13 +7,70 @@
 
 import type { NBackLevel } from '../value-objects/NBackLevel';
 import type { TrainingMode } from '../value-objects/TrainingMode';
+import { getModeChannels } from '../value-objects/TrainingMode';
+import type { StimulusChannel } from '../value-objects/StimulusChannel';
+import type { ScoringConventionId } from '../value-objects/ScoringConvention';
+import {
+  DEFAULT_SCORING_CONVENTION,
+  getScoringConvention,
+} from '../value-objects/ScoringConvention';
+import type { SessionResult } from './Session';
+import { canScoreSession, getSessionChannelStats, getSessionScore } from './Session';
 
 /**
- * Criteria for unlocking a level
+ * Criteria for unlocking a level.
+ * Every required level must have enough qualifying sessions among its
+ * most recent ones. A session qualifies when it meets every threshold.
+ * Accuracy thresholds are in the neuralift convention and are converted
+ * to the user's scoring convention when evaluated.
  */
 export interface UnlockCriteria {
-  readonly requiredLevel: string;
+  /** Levels that must each be mastered */
+  readonly requiredLevels: readonly string[];
+  /** Minimum combined accuracy percentage */
   readonly minAccuracy: number;
+  /** Minimum combined d-prime */
+  readonly minDPrime?: number;
+  /** Minimum accuracy percentage per modality */
+  readonly minModalityAccuracy?: Partial<Record<StimulusChannel, number>>;
+  /** Qualifying sessions needed among the most recent (default: 1 of 1) */
+  readonly qualifyingSessions?: QualifyingSessions;
+}
+
+/**
+ * "count of the last window sessions"
+ */
+export interface QualifyingSessions {
+  readonly count: number;
+  readonly window: number;
+}
+
+const DEFAULT_QUALIFYING_SESSIONS: QualifyingSessions = { count: 1, window: 1 };
+
+export type UnlockConditionKind = 'accuracy' | 'dPrime' | 'modalityAccuracy' | 'sessions';
+
+/**
+ * Progress toward one condition on one required level
+ */
+export interface UnlockConditionProgress {
+  readonly levelId: string;
+  readonly kind: UnlockConditionKind;
+  /** Modality for 'modalityAccuracy' conditions */
+  readonly channel?: StimulusChannel;
+  /** Best value among the recent sessions (qualifying count for 'sessions') */
+  readonly current: number;
+  readonly target: number;
+  readonly met: boolean;
+}
+
+/**
+ * Progress toward every condition of a level's unlock criteria
+ */
+export interface UnlockProgress {
+  readonly met: boolean;
+  /** Convention the accuracy conditions were scored in */
+  readonly scoringConvention: ScoringConventionId;
+  readonly conditions: readonly UnlockConditionProgress[];
 }
 
 /**
@@ -73,20 +130,141 @@ export function levelRequiresUnlock(level: Level): boolean {
 }
 
 /**
- * Checks if unlock criteria are met
+ * Checks the accuracy threshold against best accuracy per required level.
+ * Ignores d-prime, modality and session-count conditions - use
+ * evaluateUnlockCriteria when session history is available.
  */
 export function isLevelUnlockCriteriaMet(
   level: Level,
   levelProgresses: Map<string, LevelProgress>
 ): boolean {
-  if (!level.unlockCriteria) {
+  const criteria = level.unlockCriteria;
+  if (!criteria) {
     return true; // No unlock criteria means always unlocked
   }
 
-  const requiredProgress = levelProgresses.get(level.unlockCriteria.requiredLevel);
-  if (!requiredProgress) {
+  return criteria.requiredLevels.every((levelId) => {
+    const requiredProgress = levelProgresses.get(levelId);
+    return requiredProgress !== undefined && requiredProgress.bestAccuracy >= criteria.minAccuracy;
+  });
+}
+
+/**
+ * Combined d-prime of a session: the mean over the channels its mode tracks
+ */
+export function getSessionDPrime(session: SessionResult): number {
+  const channels = getModeChannels(session.mode);
+  return (
+    channels.reduce((sum, channel) => sum + getSessionChannelStats(session, channel).dPrime, 0) /
+    channels.length
+  );
+}
+
+/**
+ * Checks whether a single session meets every threshold of the criteria
+ */
+export function isQualifyingSession(
+  session: SessionResult,
+  criteria: UnlockCriteria,
+  conventionId: ScoringConventionId = DEFAULT_SCORING_CONVENTION
+): boolean {
+  const convention = getScoringConvention(conventionId);
+  if (
+    !session.completed ||
+    !canScoreSession(session, conventionId) ||
+    getSessionScore(session, conventionId) < convention.threshold(criteria.minAccuracy)
+  ) {
     return false;
   }
+  if (criteria.minDPrime !== undefined && getSessionDPrime(session) < criteria.minDPrime) {
+    return false;
+  }
+  return Object.entries(criteria.minModalityAccuracy ?? {}).every(
+    ([channel, minAccuracy]) =>
+      convention.scoreChannel(getSessionChannelStats(session, channel as StimulusChannel)) >=
+      convention.threshold(minAccuracy)
+  );
+}
+
+/**
+ * Evaluate unlock criteria against session history.
+ *
+ * @param sessionsByLevel - sessions per required level, most recent first
+ * @param conventionId - scoring convention for the accuracy conditions
+ */
+export function evaluateUnlockCriteria(
+  criteria: UnlockCriteria,
+  sessionsByLevel: ReadonlyMap<string, readonly SessionResult[]>,
+  conventionId: ScoringConventionId = DEFAULT_SCORING_CONVENTION
+): UnlockProgress {
+  const convention = getScoringConvention(conventionId);
+  const { count, window } = criteria.qualifyingSessions ?? DEFAULT_QUALIFYING_SESSIONS;
+  const conditions: UnlockConditionProgress[] = [];
+
+  for (const levelId of criteria.requiredLevels) {
+    const recent = (sessionsByLevel.get(levelId) ?? [])
+      .filter((session) => session.completed)
+      .slice(0, window);
+    // Imported sessions reported in another convention have no score here
+    const scorable = recent.filter((session) => canScoreSession(session, conventionId));
+    const best = (
+      sessions: readonly SessionResult[],
+      value: (session: SessionResult) => number
+    ): number => (sessions.length > 0 ? Math.max(...sessions.map(value)) : 0);
+
+    const bestScore = best(scorable, (session) => getSessionScore(session, conventionId));
+    const targetScore = convention.threshold(criteria.minAccuracy);
+    conditions.push({
+      levelId,
+      kind: 'accuracy',
+      current: bestScore,
+      target: targetScore,
+      met: bestScore >= targetScore,
+    });
+
+    if (criteria.minDPrime !== undefined) {
+      const bestDPrime = best(recent, getSessionDPrime);
+      conditions.push({
+        levelId,
+        kind: 'dPrime',
+        current: bestDPrime,
+        target: criteria.minDPrime,
+        met: bestDPrime >= criteria.minDPrime,
+      });
+    }
+
+    for (const [channel, minAccuracy] of Object.entries(criteria.minModalityAccuracy ?? {})) {
+      const bestModality = best(scorable, (session) =>
+        convention.scoreChannel(getSessionChannelStats(session, channel as StimulusChannel))
+      );
+      const targetModality = convention.threshold(minAccuracy);
+      conditions.push({
+        levelId,
+        kind: 'modalityAccuracy',
+        channel: channel as StimulusChannel,
+        current: bestModality,
+        target: targetModality,
+        met: bestModality >= targetModality,
+      });
+    }
+
+    const qualifying = recent.filter((session) =>
+      isQualifyingSession(session, criteria, conventionId)
+    ).length;
+    conditions.push({
+      levelId,
+      kind: 'sessions',
+      current: qualifying,
+      target: count,
+      met: qualifying >= count,
+    });
+  }
+
+  // Thresholds can be met by different sessions, so only the
+  // qualifying-session count decides whether the level unlocks
+  const met = conditions
+    .filter((condition) => condition.kind === 'sessions')
+    .every((condition) => condition.met);
 
-  return requiredProgress.bestAccuracy >= level.unlockCriteria.minAccuracy;
+  return { met, scoringConvention: conventionId, conditions };
 }
@@ -0,0 +1,179 @@
+/**
+ * Personal Records
+ *
+ * Per-level bests derived from stored session results. Records are a pure
+ * function of the session history, so they can be rebuilt at any time.
+ */
+
+import { getModeChannels } from '../value-objects/TrainingMode';
+import { calculateResponseTimeStats } from '../value-objects/ResponseTimeStats';
+import { getResponseCategory, getTrialChannelState } from './Trial';
+import { getSessionChannelStats, type SessionResult } from './Session';
+
+/**
+ * Kinds of personal record
+ * - dPrime: highest d-prime averaged over the mode's channels
+ * - accuracy: highest combined accuracy
+ * - medianResponseTime: fastest median response time on hits
+ * - longestCorrectRun: most consecutive trials with every channel answered correctly
+ * - firstCleanSession: first session without a single error (never replaced)
+ */
+export type RecordType =
+  | 'dPrime'
+  | 'accuracy'
+  | 'medianResponseTime'
+  | 'longestCorrectRun'
+  | 'firstCleanSession';
+
+/**
+ * All record types in display order
+ */
+export const RECORD_TYPES: readonly RecordType[] = [
+  'accuracy',
+  'dPrime',
+  'medianResponseTime',
+  'longestCorrectRun',
+  'firstCleanSession',
+] as const;
+
+/**
+ * A best held for one level
+ */
+export interface PersonalRecord {
+  readonly levelId: string;
+  readonly type: RecordType;
+  /**
+   * Record value: d-prime, accuracy (0-100), milliseconds, trials in the run,
+   * or trials in the clean session
+   */
+  readonly value: number;
+  /** Session that set the record */
+  readonly sessionId: string;
+  readonly achievedAt: Date;
+  /** Value of the record it replaced, null for the first record of its type */
+  readonly previousValue: number | null;
+}
+
+/**
+ * Whether lower values are better for a record type
+ */
+function isLowerBetter(type: RecordType): boolean {
+  return type === 'medianResponseTime';
+}
+
+/**
+ * Longest run of consecutive trials answered correctly on every channel
+ */
+function getLongestCorrectRun(result: SessionResult): number {
+  const channels = getModeChannels(result.mode);
+  let longest = 0;
+  let current = 0;
+
+  for (const trial of result.trials) {
+    const correct = channels.every((channel) => {
+      const category = getResponseCategory(getTrialChannelState(trial, channel));
+      return category === 'hit' || category === 'correctRejection';
+    });
+    current = correct ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+  return longest;
+}
+
+/**
+ * Record values a session achieved.
+ * Incomplete or empty sessions achieve none; sessions without hits have no
+ * response time value; sessions with an error have no clean session value.
+ */
+export function getSessionRecordValues(result: SessionResult): Partial<Record<RecordType, number>> {
+  if (!result.completed || result.trials.length === 0) {
+    return {};
+  }
+
+  const channels = getModeChannels(result.mode);
+  const stats = channels.map((channel) => getSessionChannelStats(result, channel));
+  const hitTimes = channels.flatMap((channel) =>
+    result.trials
+      .map((trial) => getTrialChannelState(trial, channel))
+      .filter((state) => getResponseCategory(state) === 'hit' && state.responseTime !== null)
+      .map((state) => state.responseTime!)
+  );
+  const responseTimes = calculateResponseTimeStats(hitTimes);
+  const longestCorrectRun = getLongestCorrectRun(result);
+
+  return {
+    accuracy: result.combinedAccuracy,
+    dPrime: stats.reduce((sum, s) => sum + s.dPrime, 0) / stats.length,
+    ...(responseTimes && { medianResponseTime: responseTimes.median }),
+    longestCorrectRun,
+    ...(longestCorrectRun === result.trials.length && {
+      firstCleanSession: result.trials.length,
+    }),
+  };
+}
+
+/**
+ * Whether a value beats the current record of its type
+ */
+export function isRecordImprovement(
+  type: RecordType,
+  value: number,
+  current: PersonalRecord | undefined
+): boolean {
+  if (!current) return true;
+  if (type === 'firstCleanSession') return false;
+  return isLowerBetter(type) ? value < current.value : value > current.value;
+}
+
+/**
+ * Applies a session to the records held for its level.
+ *
+ * @param records - Records currently held for the session's level
+ * @returns every record for the level afterwards, and the ones the session set
+ */
+export function applySessionRecords(
+  records: readonly PersonalRecord[],
+  result: SessionResult
+): { records: PersonalRecord[]; broken: PersonalRecord[] } {
+  const held = new Map(
+    records.filter((record) => record.levelId === result.levelId).map((r) => [r.type, r])
+  );
+  const broken: PersonalRecord[] = [];
+
+  for (const [type, value] of Object.entries(getSessionRecordValues(result)) as [
+    RecordType,
+    number,
+  ][]) {
+    const current = held.get(type);
+    if (!isRecordImprovement(type, value, current)) continue;
+
+    const record: PersonalRecord = {
+      levelId: result.levelId,
+      type,
+      value,
+      sessionId: result.sessionId,
+      achievedAt: result.timestamp,
+      previousValue: current?.value ?? null,
+    };
+    held.set(type, record);
+    broken.push(record);
+  }
+
+  return { records: [...held.values()], broken };
+}
+
+/**
+ * Rebuilds every level's records by replaying sessions in chronological order
+ */
+export function buildPersonalRecords(sessions: readonly SessionResult[]): PersonalRecord[] {
+  const byLevel = new Map<string, PersonalRecord[]>();
+  const chronological = [...sessions].sort(
+    (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+  );
+
+  for (const session of chronological) {
+    const { records } = applySessionRecords(byLevel.get(session.levelId) ?? [], session);
+    byLevel.set(session.levelId, records);
+  }
+  return [...byLevel.values()].flat();
+}
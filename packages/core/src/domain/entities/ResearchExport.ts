@@ -0,0 +1,231 @@
+/**
+ * ResearchExport Entity
+ *
+ * Tidy tables of session data for analysis in R or pandas: one row per
+ * trial and channel, and one summary row per session.
+ */
+
+import type { SessionResult, SessionSource } from './Session';
+import { canScoreSession, getSessionChannelStats, getSessionScore } from './Session';
+import { getResponseCategory, getTrialChannelState, getTrialChannelStimulus } from './Trial';
+import type { ResponseCategory } from './Trial';
+import type { LureType } from '../value-objects/Lure';
+import type { ScoringConventionId } from '../value-objects/ScoringConvention';
+import { DEFAULT_SCORING_CONVENTION, canScoreStats } from '../value-objects/ScoringConvention';
+import type { StimulusChannel } from '../value-objects/StimulusChannel';
+import type { TrainingMode } from '../value-objects/TrainingMode';
+import { getModeChannels } from '../value-objects/TrainingMode';
+
+/**
+ * One channel of one trial
+ */
+export interface TrialExportRow {
+  readonly sessionId: string;
+  /** Session start, ISO 8601 */
+  readonly sessionTimestamp: string;
+  readonly levelId: string;
+  readonly nBack: number;
+  readonly mode: TrainingMode;
+  /** Zero-based position of the trial in the session */
+  readonly trialIndex: number;
+  readonly channel: StimulusChannel;
+  /** Grid cell, letter, color or shape shown */
+  readonly stimulus: string | number | null;
+  /** Whether the stimulus matched the one N trials back */
+  readonly isTarget: boolean;
+  /** Whether the user responded, null when the trial gave no chance to */
+  readonly response: boolean | null;
+  /** Milliseconds from stimulus onset, null without a response */
+  readonly responseTime: number | null;
+  /** Lure type when the stimulus was a lure */
+  readonly lure: LureType | null;
+  readonly outcome: ResponseCategory;
+}
+
+/**
+ * Per-channel summary measures in a session row
+ */
+export type SessionChannelMeasure =
+  | 'Hits'
+  | 'Misses'
+  | 'FalseAlarms'
+  | 'CorrectRejections'
+  | 'Accuracy'
+  | 'DPrime'
+  | 'MeanResponseTime';
+
+/**
+ * One session, with channel measures as e.g. positionHits or audioDPrime;
+ * null for channels the session's mode does not train
+ */
+export type SessionExportRow = {
+  readonly sessionId: string;
+  /** Session start, ISO 8601 */
+  readonly timestamp: string;
+  readonly levelId: string;
+  readonly nBack: number;
+  readonly mode: TrainingMode;
+  readonly gridSize: number | null;
+  /** Milliseconds */
+  readonly duration: number;
+  readonly trialCount: number;
+  readonly completed: boolean;
+  readonly combinedAccuracy: number;
+  /** Score under the export's scoring convention, null for imports reported in another */
+  readonly score: number | null;
+  /** App the session was trained in */
+  readonly source: SessionSource;
+} & {
+  readonly [K in `${StimulusChannel}${SessionChannelMeasure}`]: number | null;
+};
+
+const EXPORT_CHANNELS: readonly StimulusChannel[] = ['position', 'audio', 'color', 'shape'];
+
+const CHANNEL_MEASURES: readonly SessionChannelMeasure[] = [
+  'Hits',
+  'Misses',
+  'FalseAlarms',
+  'CorrectRejections',
+  'Accuracy',
+  'DPrime',
+  'MeanResponseTime',
+];
+
+/**
+ * Column order of the trial table
+ */
+export const TRIAL_EXPORT_COLUMNS: readonly (keyof TrialExportRow)[] = [
+  'sessionId',
+  'sessionTimestamp',
+  'levelId',
+  'nBack',
+  'mode',
+  'trialIndex',
+  'channel',
+  'stimulus',
+  'isTarget',
+  'response',
+  'responseTime',
+  'lure',
+  'outcome',
+];
+
+/**
+ * Column order of the session table
+ */
+export const SESSION_EXPORT_COLUMNS: readonly (keyof SessionExportRow)[] = [
+  'sessionId',
+  'timestamp',
+  'levelId',
+  'nBack',
+  'mode',
+  'gridSize',
+  'duration',
+  'trialCount',
+  'completed',
+  'combinedAccuracy',
+  'score',
+  'source',
+  ...EXPORT_CHANNELS.flatMap((channel) =>
+    CHANNEL_MEASURES.map((measure) => `${channel}${measure}` as const)
+  ),
+];
+
+/**
+ * Trial rows of a session, for each channel its mode trains
+ */
+export function getTrialExportRows(session: SessionResult): TrialExportRow[] {
+  const channels = getModeChannels(session.mode);
+  const sessionTimestamp = session.timestamp.toISOString();
+
+  return session.trials.flatMap((trial, trialIndex) =>
+    channels.map((channel) => {
+      const state = getTrialChannelState(trial, channel);
+      return {
+        sessionId: session.sessionId,
+        sessionTimestamp,
+        levelId: session.levelId,
+        nBack: session.nBack,
+        mode: session.mode,
+        trialIndex,
+        channel,
+        stimulus: getTrialChannelStimulus(trial, channel),
+        isTarget: state.isMatch,
+        response: state.userResponse,
+        responseTime: state.responseTime,
+        lure: state.lure,
+        outcome: getResponseCategory(state),
+      };
+    })
+  );
+}
+
+/**
+ * Summary row of a session
+ */
+export function getSessionExportRow(
+  session: SessionResult,
+  convention: ScoringConventionId = DEFAULT_SCORING_CONVENTION
+): SessionExportRow {
+  const trained = getModeChannels(session.mode);
+  const channelColumns = Object.fromEntries(
+    EXPORT_CHANNELS.flatMap((channel) => {
+      const stats = trained.includes(channel) ? getSessionChannelStats(session, channel) : null;
+      const values: Record<SessionChannelMeasure, number | null> = {
+        Hits: stats?.hits ?? null,
+        Misses: stats?.misses ?? null,
+        FalseAlarms: stats?.falseAlarms ?? null,
+        CorrectRejections: stats?.correctRejections ?? null,
+        Accuracy: stats && canScoreStats(stats, 'neuralift') ? stats.accuracy : null,
+        DPrime: stats && canScoreStats(stats, 'd-prime') ? stats.dPrime : null,
+        MeanResponseTime: stats?.avgResponseTime ?? null,
+      };
+      return CHANNEL_MEASURES.map((measure) => [`${channel}${measure}`, values[measure]]);
+    })
+  ) as Record<`${StimulusChannel}${SessionChannelMeasure}`, number | null>;
+
+  return {
+    sessionId: session.sessionId,
+    timestamp: session.timestamp.toISOString(),
+    levelId: session.levelId,
+    nBack: session.nBack,
+    mode: session.mode,
+    gridSize: session.gridSize ?? null,
+    duration: session.duration,
+    trialCount: session.trials.length,
+    completed: session.completed,
+    combinedAccuracy: session.combinedAccuracy,
+    score: canScoreSession(session, convention) ? getSessionScore(session, convention) : null,
+    source: session.source ?? 'neuralift',
+    ...channelColumns,
+  };
+}
+
+/**
+ * Format one CSV field: empty for null, TRUE/FALSE for booleans
+ * (read as logicals by R and pandas), quoted when needed
+ */
+function formatCsvField(value: string | number | boolean | null): string {
+  if (value === null) return '';
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Rows as RFC 4180 CSV with a header line
+ */
+export function formatCsv<T extends object>(
+  rows: readonly T[],
+  columns: readonly (keyof T & string)[]
+): string {
+  const lines = [
+    columns.join(','),
+    ...rows.map((row) =>
+      columns
+        .map((column) => formatCsvField(row[column] as string | number | boolean | null))
+        .join(',')
+    ),
+  ];
+  return `${lines.join('\r\n')}\r\n`;
+}
@@ -7,14 +7,27 @@
 
 import type { NBackLevel } from '../value-objects/NBackLevel';
 import type { TrainingMode } from '../value-objects/TrainingMode';
+import type { GridSize } from '../value-objects/Position';
+import type { SessionLureStats } from '../value-objects/Lure';
+import type { LevelConfig } from '../../config/levels';
+import { LEVELS } from '../../config/levels';
 import {
   type PerformanceStats,
   type PerformanceRawCounts,
   createPerformanceStats,
   createEmptyPerformanceStats,
 } from '../value-objects/PerformanceStats';
-import { modeIncludesPosition, modeIncludesAudio } from '../value-objects/TrainingMode';
-import { Trial, type TrialData } from './Trial';
+import type { ScoringConventionId } from '../value-objects/ScoringConvention';
+import {
+  DEFAULT_SCORING_CONVENTION,
+  canScoreStats,
+  getScoringConvention,
+} from '../value-objects/ScoringConvention';
+import type { ResponseTimeStats } from '../value-objects/ResponseTimeStats';
+import { calculateResponseTimeStats } from '../value-objects/ResponseTimeStats';
+import { getModeChannels, modeIncludesChannel } from '../value-objects/TrainingMode';
+import type { StimulusChannel } from '../value-objects/StimulusChannel';
+import { Trial, getTrialChannelState, type TrialData } from './Trial';
 
 /**
  * Configuration for creating a session
@@ -25,8 +38,15 @@ export interface SessionConfig {
   readonly mode: TrainingMode;
   readonly trialCount: number;
   readonly trialDuration: number;
+  /** Grid side length (defaults to 3) */
+  readonly gridSize?: GridSize;
 }
 
+/**
+ * Where a session was trained: in Neuralift, or in another app and imported
+ */
+export type SessionSource = 'neuralift' | 'brain-workshop' | 'csv';
+
 /**
  * Result of a completed session
  */
@@ -35,13 +55,110 @@ export interface SessionResult {
   readonly levelId: string;
   readonly mode: TrainingMode;
   readonly nBack: NBackLevel;
+  /** Grid side length, absent for classic 3x3 sessions */
+  readonly gridSize?: GridSize;
   readonly timestamp: Date;
   readonly duration: number;
   readonly trials: TrialData[];
   readonly positionStats: PerformanceStats;
   readonly audioStats: PerformanceStats;
+  /** Color stats (triple and quad modes only) */
+  readonly colorStats?: PerformanceStats;
+  /** Shape stats (quad mode only) */
+  readonly shapeStats?: PerformanceStats;
   readonly combinedAccuracy: number;
+  /** False alarm rates on lure trials (absent on imports and older sessions) */
+  readonly lureStats?: SessionLureStats;
   readonly completed: boolean;
+  /** Absent for sessions trained in Neuralift */
+  readonly source?: SessionSource;
+}
+
+/**
+ * Whether a session was imported from another app
+ */
+export function isImportedSession(result: SessionResult): boolean {
+  return result.source !== undefined && result.source !== 'neuralift';
+}
+
+/**
+ * Whether a session counts toward unlocks and streaks: imported
+ * sessions only when the user opted in
+ */
+export function countsTowardProgress(result: SessionResult, includeImported: boolean): boolean {
+  return includeImported || !isImportedSession(result);
+}
+
+/**
+ * Whether a session was played at its level's N. Adaptive blocks keep the
+ * ID of the level they started on while their N moves, so only sessions at
+ * the level's own N count toward its unlocks, records and history.
+ * Sessions of levels not in the given list always count.
+ */
+export function isPlayedAtLevelN(
+  result: SessionResult,
+  levels: readonly LevelConfig[] = LEVELS
+): boolean {
+  const level = levels.find((candidate) => candidate.id === result.levelId);
+  return level === undefined || level.nBack === result.nBack;
+}
+
+/**
+ * Gets a channel's stats from a session result.
+ * Channels not tracked by the session return empty stats.
+ */
+export function getSessionChannelStats(
+  result: SessionResult,
+  channel: StimulusChannel
+): PerformanceStats {
+  switch (channel) {
+    case 'position':
+      return result.positionStats;
+    case 'audio':
+      return result.audioStats;
+    case 'color':
+      return result.colorStats ?? createEmptyPerformanceStats();
+    case 'shape':
+      return result.shapeStats ?? createEmptyPerformanceStats();
+  }
+}
+
+/**
+ * Whether a session can be scored under a convention. Imported sessions
+ * only score under the convention their app reported them in.
+ */
+export function canScoreSession(
+  result: SessionResult,
+  convention: ScoringConventionId = DEFAULT_SCORING_CONVENTION
+): boolean {
+  return getModeChannels(result.mode).every((channel) =>
+    canScoreStats(getSessionChannelStats(result, channel), convention)
+  );
+}
+
+/**
+ * Session score under a scoring convention, over the channels the session
+ * tracked. Check canScoreSession first for imported sessions.
+ */
+export function getSessionScore(
+  result: SessionResult,
+  convention: ScoringConventionId = DEFAULT_SCORING_CONVENTION
+): number {
+  return getScoringConvention(convention).scoreChannels(
+    getModeChannels(result.mode).map((channel) => getSessionChannelStats(result, channel))
+  );
+}
+
+/**
+ * Response time distribution pooled over every channel the session tracked
+ */
+export function getSessionResponseTimeStats(result: SessionResult): ResponseTimeStats | null {
+  const responseTimes = getModeChannels(result.mode).flatMap((channel) =>
+    result.trials
+      .map((trial) => getTrialChannelState(trial, channel).responseTime)
+      .filter((responseTime): responseTime is number => responseTime !== null)
+  );
+  return calculateResponseTimeStats(responseTimes);
 }
 
 /**
@@ -114,6 +231,15 @@ export class Session {
     return this.currentTrialIndex;
   }
 
+  /**
+   * Marks the current trial's stimulus as shown now
+   */
+  presentCurrentTrial(): void {
+    const currentTrial = this.trials[this.currentTrialIndex];
+    if (!currentTrial) return;
+    this.trials[this.currentTrialIndex] = currentTrial.withStimulusTimestamp(Date.now());
+  }
+
   /**
    * Records a position response for the current trial
    */
@@ -123,6 +249,15 @@ export class Session {
     this.trials[this.currentTrialIndex] = currentTrial.recordPositionResponse(response);
   }
 
+  /**
+   * Records a response on any channel for the current trial
+   */
+  recordChannelResponse(channel: StimulusChannel, response: boolean): void {
+    const currentTrial = this.trials[this.currentTrialIndex];
+    if (!currentTrial) return;
+    this.trials[this.currentTrialIndex] = currentTrial.recordChannelResponse(channel, response);
+  }
+
   /**
    * Records an audio response for the current trial
    */
@@ -149,23 +284,7 @@ export class Session {
     this.isCompleted = true;
 
     const duration = this.startTime ? this.endTime - this.startTime : 0;
-    const positionStats = this.calculatePositionStats();
-    const audioStats = this.calculateAudioStats();
-    const combinedAccuracy = this.calculateCombinedAccuracy(positionStats, audioStats);
-
-    return {
-      sessionId: this.sessionId,
-      levelId: this.config.levelId,
-      mode: this.config.mode,
-      nBack: this.config.nBack,
-      timestamp: new Date(this.startTime ?? Date.now()),
-      duration,
-      trials: this.trials.map((t) => t.toJSON()),
-      positionStats,
-      audioStats,
-      combinedAccuracy,
-      completed: true,
-    };
+    return this.buildResult(duration);
   }
 
   /**
@@ -193,46 +312,8 @@ export class Session {
     return this.trials;
   }
 
-  private calculatePositionStats(): PerformanceStats {
-    if (!modeIncludesPosition(this.config.mode)) {
-      return createEmptyPerformanceStats();
-    }
-
-    const counts: PerformanceRawCounts = {
-      hits: 0,
-      misses: 0,
-      falseAlarms: 0,
-      correctRejections: 0,
-      responseTimes: [],
-    };
-
-    for (const trial of this.trials) {
-      const category = trial.getPositionCategory();
-      switch (category) {
-        case 'hit':
-          counts.hits++;
-          break;
-        case 'miss':
-          counts.misses++;
-          break;
-        case 'falseAlarm':
-          counts.falseAlarms++;
-          break;
-        case 'correctRejection':
-          counts.correctRejections++;
-          break;
-      }
-
-      if (trial.positionResponseTime !== null) {
-        counts.responseTimes.push(trial.positionResponseTime);
-      }
-    }
-
-    return createPerformanceStats(counts);
-  }
-
-  private calculateAudioStats(): PerformanceStats {
-    if (!modeIncludesAudio(this.config.mode)) {
+  private calculateChannelStats(channel: StimulusChannel): PerformanceStats {
+    if (!modeIncludesChannel(this.config.mode, channel)) {
       return createEmptyPerformanceStats();
     }
 
@@ -245,7 +326,7 @@ export class Session {
     };
 
     for (const trial of this.trials) {
-      const category = trial.getAudioCategory();
+      const category = trial.getChannelCategory(channel);
       switch (category) {
         case 'hit':
           counts.hits++;
@@ -261,54 +342,52 @@ export class Session {
           break;
       }
 
-      if (trial.audioResponseTime !== null) {
-        counts.responseTimes.push(trial.audioResponseTime);
+      const responseTime = trial.getChannelState(channel).responseTime;
+      if (responseTime !== null) {
+        counts.responseTimes.push(responseTime);
       }
     }
 
     return createPerformanceStats(counts);
   }
 
-  private calculateCombinedAccuracy(
-    positionStats: PerformanceStats,
-    audioStats: PerformanceStats
-  ): number {
-    const mode = this.config.mode;
-
-    if (mode === 'single-position') {
-      return positionStats.accuracy;
-    }
-    if (mode === 'single-audio') {
-      return audioStats.accuracy;
-    }
-
-    // Dual mode - average of both
-    return (positionStats.accuracy + audioStats.accuracy) / 2;
-  }
-
   /**
-   * Serializes session to result format
+   * Combined accuracy is the average over the channels the mode tracks
    */
-  toJSON(): SessionResult {
-    const positionStats = this.calculatePositionStats();
-    const audioStats = this.calculateAudioStats();
-    const combinedAccuracy = this.calculateCombinedAccuracy(positionStats, audioStats);
-    const duration = this.startTime
-      ? (this.endTime ?? Date.now()) - this.startTime
-      : 0;
+  private buildResult(duration: number): SessionResult {
+    const channels = getModeChannels(this.config.mode);
+    const stats = new Map(channels.map((channel) => [channel, this.calculateChannelStats(channel)]));
+    const combinedAccuracy =
+      [...stats.values()].reduce((sum, channelStats) => sum + channelStats.accuracy, 0) /
+      stats.size;
+    const colorStats = stats.get('color');
+    const shapeStats = stats.get('shape');
 
     return {
       sessionId: this.sessionId,
       levelId: this.config.levelId,
       mode: this.config.mode,
       nBack: this.config.nBack,
+      ...(this.config.gridSize !== undefined ? { gridSize: this.config.gridSize } : {}),
       timestamp: new Date(this.startTime ?? Date.now()),
       duration,
       trials: this.trials.map((t) => t.toJSON()),
-      positionStats,
-      audioStats,
+      positionStats: stats.get('position') ?? createEmptyPerformanceStats(),
+      audioStats: stats.get('audio') ?? createEmptyPerformanceStats(),
+      ...(colorStats ? { colorStats } : {}),
+      ...(shapeStats ? { shapeStats } : {}),
       combinedAccuracy,
       completed: this.isCompleted,
     };
   }
+
+  /**
+   * Serializes session to result format
+   */
+  toJSON(): SessionResult {
+    const duration = this.startTime
+      ? (this.endTime ?? Date.now()) - this.startTime
+      : 0;
+    return this.buildResult(duration);
+  }
 }
@@ -0,0 +1,157 @@
+/**
+ * Session Curve
+ *
+ * Within-session performance: a sliding-window accuracy and d-prime
+ * curve across trials, and fixed-size scored blocks for long sessions.
+ */
+
+import type { TrainingMode } from '../value-objects/TrainingMode';
+import { getModeChannels } from '../value-objects/TrainingMode';
+import type { StimulusChannel } from '../value-objects/StimulusChannel';
+import {
+  type PerformanceStats,
+  type PerformanceRawCounts,
+  createPerformanceStats,
+} from '../value-objects/PerformanceStats';
+import { getResponseCategory, getTrialChannelState, type TrialData } from './Trial';
+import type { SessionResult } from './Session';
+
+/**
+ * Trials per sliding window
+ */
+export const DEFAULT_CURVE_WINDOW = 10;
+
+/**
+ * Trials per scored block
+ */
+export const DEFAULT_BLOCK_SIZE = 20;
+
+/**
+ * Performance over one window of trials
+ */
+export interface PerformanceCurvePoint {
+  /** Index of the first trial in the window */
+  readonly startTrial: number;
+  /** Index of the last trial in the window */
+  readonly endTrial: number;
+  /** Accuracy averaged over the mode's channels (0-100) */
+  readonly accuracy: number;
+  /** D-prime averaged over the mode's channels */
+  readonly dPrime: number;
+}
+
+/**
+ * A scored run of consecutive trials
+ */
+export interface SessionBlock extends PerformanceCurvePoint {
+  /** Zero-based block number */
+  readonly index: number;
+  /** Stats per channel the mode tracks */
+  readonly channelStats: Partial<Record<StimulusChannel, PerformanceStats>>;
+}
+
+/**
+ * Score a run of trials per channel and averaged over channels
+ */
+function scoreTrials(
+  trials: readonly TrialData[],
+  mode: TrainingMode
+): Pick<SessionBlock, 'accuracy' | 'dPrime' | 'channelStats'> {
+  const channels = getModeChannels(mode);
+  const channelStats: Partial<Record<StimulusChannel, PerformanceStats>> = {};
+
+  for (const channel of channels) {
+    const counts: PerformanceRawCounts = {
+      hits: 0,
+      misses: 0,
+      falseAlarms: 0,
+      correctRejections: 0,
+      responseTimes: [],
+    };
+    for (const trial of trials) {
+      const state = getTrialChannelState(trial, channel);
+      switch (getResponseCategory(state)) {
+        case 'hit':
+          counts.hits++;
+          break;
+        case 'miss':
+          counts.misses++;
+          break;
+        case 'falseAlarm':
+          counts.falseAlarms++;
+          break;
+        case 'correctRejection':
+          counts.correctRejections++;
+          break;
+      }
+      if (state.responseTime !== null) {
+        counts.responseTimes.push(state.responseTime);
+      }
+    }
+    channelStats[channel] = createPerformanceStats(counts);
+  }
+
+  const stats = channels.map((channel) => channelStats[channel]!);
+  return {
+    accuracy: stats.reduce((sum, s) => sum + s.accuracy, 0) / stats.length,
+    dPrime: stats.reduce((sum, s) => sum + s.dPrime, 0) / stats.length,
+    channelStats,
+  };
+}
+
+/**
+ * Sliding-window accuracy and d-prime, one point per window position.
+ * Sessions shorter than the window give a single point over every trial.
+ */
+export function getSessionPerformanceCurve(
+  result: Pick<SessionResult, 'mode' | 'trials'>,
+  windowSize = DEFAULT_CURVE_WINDOW
+): PerformanceCurvePoint[] {
+  const { trials } = result;
+  if (trials.length === 0) {
+    return [];
+  }
+
+  const size = Math.max(1, Math.min(windowSize, trials.length));
+  const points: PerformanceCurvePoint[] = [];
+
+  for (let startTrial = 0; startTrial + size <= trials.length; startTrial++) {
+    const { accuracy, dPrime } = scoreTrials(
+      trials.slice(startTrial, startTrial + size),
+      result.mode
+    );
+    points.push({ startTrial, endTrial: startTrial + size - 1, accuracy, dPrime });
+  }
+  return points;
+}
+
+/**
+ * Split a session into consecutive scored blocks.
+ * A trailing run shorter than half a block is folded into the last block.
+ */
+export function getSessionBlocks(
+  result: Pick<SessionResult, 'mode' | 'trials'>,
+  blockSize = DEFAULT_BLOCK_SIZE
+): SessionBlock[] {
+  const { trials } = result;
+  const size = Math.max(1, blockSize);
+  const ranges: [number, number][] = [];
+
+  for (let start = 0; start < trials.length; start += size) {
+    ranges.push([start, Math.min(start + size, trials.length)]);
+  }
+
+  const last = ranges[ranges.length - 1];
+  const previous = ranges[ranges.length - 2];
+  if (last && previous && last[1] - last[0] < size / 2) {
+    ranges.pop();
+    previous[1] = last[1];
+  }
+
+  return ranges.map(([start, end], index) => ({
+    index,
+    startTrial: start,
+    endTrial: end - 1,
+    ...scoreTrials(trials.slice(start, end), result.mode),
+  }));
+}
@@ -0,0 +1,509 @@
+/**
+ * SessionImport Entity
+ *
+ * Parses training history from other n-back apps into session results
+ * tagged with their source: Brain Workshop's stats file, and any CSV
+ * with one row per session through a column mapping.
+ * Imports carry summary percentages only, without trials or response counts.
+ */
+
+import type { SessionResult, SessionSource } from './Session';
+import type { NBackLevel } from '../value-objects/NBackLevel';
+import type { ScoringConventionId } from '../value-objects/ScoringConvention';
+import { isValidNBackLevel } from '../value-objects/NBackLevel';
+import type { PerformanceStats } from '../value-objects/PerformanceStats';
+import { createEmptyPerformanceStats } from '../value-objects/PerformanceStats';
+import type { TrainingMode } from '../value-objects/TrainingMode';
+import { getTrainingModeName, isValidTrainingMode } from '../value-objects/TrainingMode';
+import type { LevelConfig } from '../../config/levels';
+import { LEVELS } from '../../config/levels';
+
+/**
+ * A line that could not be imported
+ */
+export interface SkippedImportLine {
+  /** One-based line in the file */
+  readonly line: number;
+  readonly reason: string;
+}
+
+/**
+ * Sessions parsed from a file, oldest first, and the lines left out
+ */
+export interface ParsedImport {
+  readonly source: SessionSource;
+  readonly sessions: SessionResult[];
+  readonly skipped: SkippedImportLine[];
+}
+
+/**
+ * Session fields a CSV column can map to
+ */
+export type CsvImportField =
+  | 'timestamp'
+  | 'nBack'
+  | 'mode'
+  | 'accuracy'
+  | 'positionAccuracy'
+  | 'audioAccuracy'
+  | 'duration';
+
+/**
+ * Column index per field; timestamp, nBack and one accuracy are required
+ */
+export type CsvImportMapping = Partial<Record<CsvImportField, number>>;
+
+export interface CsvImportFieldDefinition {
+  readonly field: CsvImportField;
+  readonly label: string;
+  readonly required: boolean;
+  /** Normalized header names recognized for the field */
+  readonly aliases: readonly string[];
+}
+
+export const CSV_IMPORT_FIELDS: readonly CsvImportFieldDefinition[] = [
+  {
+    field: 'timestamp',
+    label: 'Date and time',
+    required: true,
+    aliases: ['timestamp', 'date', 'datetime', 'time', 'start', 'started', 'startedat'],
+  },
+  {
+    field: 'nBack',
+    label: 'N',
+    required: true,
+    aliases: ['n', 'nback', 'back', 'level'],
+  },
+  {
+    field: 'mode',
+    label: 'Mode (default: dual)',
+    required: false,
+    aliases: ['mode', 'type', 'game', 'gamemode'],
+  },
+  {
+    field: 'accuracy',
+    label: 'Accuracy %',
+    required: false,
+    aliases: ['accuracy', 'score', 'percent', 'correct', 'combinedaccuracy'],
+  },
+  {
+    field: 'positionAccuracy',
+    label: 'Position accuracy %',
+    required: false,
+    aliases: ['position', 'positionaccuracy', 'visual', 'visualaccuracy'],
+  },
+  {
+    field: 'audioAccuracy',
+    label: 'Audio accuracy %',
+    required: false,
+    aliases: ['audio', 'audioaccuracy', 'sound', 'auditory'],
+  },
+  {
+    field: 'duration',
+    label: 'Duration (seconds)',
+    required: false,
+    aliases: ['duration', 'seconds', 'length', 'durationseconds'],
+  },
+];
+
+/**
+ * Brain Workshop game modes by number: Dual, Position-Color-Sound,
+ * Position-Color-Image-Sound (images map to shapes), Position N-Back and
+ * Sound N-Back. Other modes have no Neuralift equivalent.
+ */
+const BRAIN_WORKSHOP_MODES: Readonly<Record<number, TrainingMode>> = {
+  2: 'dual',
+  3: 'triple',
+  6: 'quad',
+  10: 'single-position',
+  11: 'single-audio',
+};
+
+/** Brain Workshop stats columns */
+const BW_COLUMNS = {
+  timestamp: 0,
+  percent: 2,
+  mode: 3,
+  nBack: 4,
+  ticksPerTrial: 5,
+  trials: 6,
+  seconds: 25,
+} as const;
+
+type ImportChannel = 'position' | 'audio' | 'color' | 'shape';
+
+/** Brain Workshop per-modality percentage columns */
+const BW_CHANNEL_COLUMNS: readonly (readonly [ImportChannel, number])[] = [
+  ['position', 9],
+  ['audio', 10],
+  ['color', 11],
+  ['shape', 15],
+];
+
+/**
+ * Convention each source reports its percentages in. CSV columns are read
+ * as Neuralift accuracy: correct responses and rejections over trials.
+ */
+export const IMPORT_SCORING_CONVENTIONS: Readonly<
+  Record<Exclude<SessionSource, 'neuralift'>, ScoringConventionId>
+> = {
+  'brain-workshop': 'brain-workshop',
+  csv: 'neuralift',
+};
+
+/** Length of a Brain Workshop tick in seconds */
+const BW_TICK_SECONDS = 0.1;
+
+/** Aliases for mode values in CSV files */
+const MODE_ALIASES: Readonly<Record<string, TrainingMode>> = {
+  position: 'single-position',
+  visual: 'single-position',
+  audio: 'single-audio',
+  sound: 'single-audio',
+  dualnback: 'dual',
+  triplenback: 'triple',
+  quadnback: 'quad',
+};
+
+/**
+ * Lowercase letters and digits only, for matching headers and mode names
+ */
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180: quoted fields may contain
+ * commas, doubled quotes and line breaks). Blank lines are dropped.
+ */
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Map columns to fields by their header names
+ */
+export function guessCsvImportMapping(headers: readonly string[]): CsvImportMapping {
+  const normalized = headers.map(normalize);
+  const mapping: CsvImportMapping = {};
+  for (const definition of CSV_IMPORT_FIELDS) {
+    const index = normalized.findIndex((header) => definition.aliases.includes(header));
+    if (index >= 0 && !Object.values(mapping).includes(index)) {
+      mapping[definition.field] = index;
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Parse a date: epoch seconds or milliseconds, ISO 8601, or
+ * "YYYY-MM-DD HH:MM[:SS]" in local time
+ */
+function parseTimestamp(value: string): Date | null {
+  const text = value.trim();
+  if (/^\d+$/.test(text)) {
+    const epoch = Number(text);
+    return new Date(epoch < 1e11 ? epoch * 1000 : epoch);
+  }
+  const date = new Date(/^\d{4}-\d{2}-\d{2} \d/.test(text) ? text.replace(' ', 'T') : text);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * How a column writes its percentages: 0-100, or 0-1 fractions
+ */
+type PercentScale = 'percent' | 'fraction';
+
+/**
+ * Scale of a percentage column, decided from all its values: fractions
+ * when every value is between 0 and 1 and none has a percent sign.
+ * Deciding per value would read a fraction column's 1 as 1%.
+ */
+function detectPercentScale(values: readonly (string | undefined)[]): PercentScale {
+  const texts = values
+    .map((value) => value?.trim() ?? '')
+    .filter((text) => text !== '');
+  const isFraction = (text: string) => {
+    const number = Number(text);
+    return Number.isFinite(number) && number >= 0 && number <= 1;
+  };
+  return texts.length > 0 && texts.every(isFraction) ? 'fraction' : 'percent';
+}
+
+/**
+ * Parse a percentage written in the column's scale
+ */
+function parsePercent(value: string | undefined, scale: PercentScale): number | null {
+  if (value === undefined || value.trim() === '') return null;
+  const number = Number(value.trim().replace(/%$/, ''));
+  const max = scale === 'fraction' ? 1 : 100;
+  if (!Number.isFinite(number) || number < 0 || number > max) return null;
+  return scale === 'fraction' ? number * 100 : number;
+}
+
+function parseMode(value: string | undefined): TrainingMode | null {
+  if (value === undefined || value.trim() === '') return 'dual';
+  const text = value.trim().toLowerCase();
+  if (isValidTrainingMode(text)) return text;
+  return MODE_ALIASES[normalize(text)] ?? null;
+}
+
+/**
+ * The built-in classic-grid level for a mode and N
+ */
+function findImportLevel(
+  mode: TrainingMode,
+  nBack: number,
+  levels: readonly LevelConfig[]
+): LevelConfig | undefined {
+  return levels.find(
+    (level) =>
+      level.mode === mode && level.nBack === nBack && level.gridSize === undefined && !level.custom
+  );
+}
+
+/**
+ * Stats carrying only a percentage, tagged with the convention it was
+ * reported in so it is never scored as another
+ */
+function createSummaryStats(
+  accuracy: number,
+  reportedConvention: ScoringConventionId
+): PerformanceStats {
+  return { ...createEmptyPerformanceStats(), accuracy, reportedConvention };
+}
+
+/**
+ * A session result from summary values. The ID is derived from the
+ * source, time and level, so importing a file twice adds nothing.
+ */
+function createImportedSession(
+  source: Exclude<SessionSource, 'neuralift'>,
+  level: LevelConfig,
+  timestamp: Date,
+  durationMs: number,
+  accuracy: number,
+  channels: Partial<Record<ImportChannel, number>>
+): SessionResult {
+  const stats = (channel: ImportChannel) =>
+    createSummaryStats(channels[channel] ?? accuracy, IMPORT_SCORING_CONVENTIONS[source]);
+  return {
+    sessionId: `${source}-${timestamp.getTime()}-${level.id}`,
+    levelId: level.id,
+    mode: level.mode,
+    nBack: level.nBack,
+    timestamp,
+    duration: durationMs,
+    trials: [],
+    positionStats: stats('position'),
+    audioStats: stats('audio'),
+    ...(level.mode === 'triple' || level.mode === 'quad' ? { colorStats: stats('color') } : {}),
+    ...(level.mode === 'quad' ? { shapeStats: stats('shape') } : {}),
+    combinedAccuracy: accuracy,
+    completed: true,
+    source,
+  };
+}
+
+function sortSessions(sessions: SessionResult[]): SessionResult[] {
+  return sessions.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * Whether text looks like Brain Workshop's stats file: no header row,
+ * lines starting with "YYYY-MM-DD HH:MM:SS,"
+ */
+export function isBrainWorkshopStats(text: string): boolean {
+  const firstLine = text.split(/\r?\n/).find((line) => line.trim() !== '') ?? '';
+  return /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2},/.test(firstLine);
+}
+
+/**
+ * Parse Brain Workshop's stats.txt: one comma-separated line per session
+ * with the local start time, overall and per-modality percentages (0-100)
+ * in Brain Workshop's own scoring (hits / (hits + misses + false alarms)).
+ */
+export function parseBrainWorkshopStats(
+  text: string,
+  levels: readonly LevelConfig[] = LEVELS
+): ParsedImport {
+  const sessions: SessionResult[] = [];
+  const skipped: SkippedImportLine[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    if (raw.trim() === '' || raw.startsWith('#')) return;
+
+    const fields = raw.split(',').map((field) => field.trim());
+    const at = (column: number) => fields[column];
+    const timestamp = parseTimestamp(at(BW_COLUMNS.timestamp) ?? '');
+    const percent = parsePercent(at(BW_COLUMNS.percent), 'percent');
+    const modeNumber = Number(at(BW_COLUMNS.mode));
+    const nBack = Number(at(BW_COLUMNS.nBack));
+    if (fields.length <= BW_COLUMNS.trials || !timestamp || percent === null) {
+      skipped.push({ line, reason: 'Not a Brain Workshop stats line' });
+      return;
+    }
+
+    const mode = BRAIN_WORKSHOP_MODES[modeNumber];
+    if (!mode) {
+      skipped.push({ line, reason: `Brain Workshop mode ${modeNumber} has no Neuralift equivalent` });
+      return;
+    }
+    const level = findImportLevel(mode, nBack, levels);
+    if (!level) {
+      skipped.push({ line, reason: `No Neuralift level for ${getTrainingModeName(mode)} at N=${nBack}` });
+      return;
+    }
+
+    const seconds =
+      Number(at(BW_COLUMNS.seconds)) ||
+      Number(at(BW_COLUMNS.ticksPerTrial)) * Number(at(BW_COLUMNS.trials)) * BW_TICK_SECONDS ||
+      0;
+    const channels: Partial<Record<ImportChannel, number>> = {};
+    for (const [channel, column] of BW_CHANNEL_COLUMNS) {
+      const channelPercent = parsePercent(at(column), 'percent');
+      if (channelPercent !== null) channels[channel] = channelPercent;
+    }
+    sessions.push(
+      createImportedSession(
+        'brain-workshop',
+        level,
+        timestamp,
+        Math.round(seconds * 1000),
+        percent,
+        channels
+      )
+    );
+  });
+
+  return { source: 'brain-workshop', sessions: sortSessions(sessions), skipped };
+}
+
+/**
+ * Parse a CSV with a header row and one session per row
+ */
+export function parseSessionCsv(
+  text: string,
+  mapping: CsvImportMapping,
+  levels: readonly LevelConfig[] = LEVELS
+): ParsedImport {
+  const missing = CSV_IMPORT_FIELDS.filter(
+    (definition) => definition.required && mapping[definition.field] === undefined
+  );
+  if (missing.length > 0) {
+    throw new Error(`Map a column to ${missing.map((d) => d.label).join(' and ')}`);
+  }
+  if (
+    mapping.accuracy === undefined &&
+    mapping.positionAccuracy === undefined &&
+    mapping.audioAccuracy === undefined
+  ) {
+    throw new Error('Map a column to an accuracy');
+  }
+
+  const sessions: SessionResult[] = [];
+  const skipped: SkippedImportLine[] = [];
+  const rows = parseCsvRows(text).slice(1);
+  const column = (row: readonly string[], field: CsvImportField) => {
+    const index = mapping[field];
+    return index === undefined ? undefined : row[index];
+  };
+  const scales = {
+    accuracy: detectPercentScale(rows.map((row) => column(row, 'accuracy'))),
+    positionAccuracy: detectPercentScale(rows.map((row) => column(row, 'positionAccuracy'))),
+    audioAccuracy: detectPercentScale(rows.map((row) => column(row, 'audioAccuracy'))),
+  };
+
+  rows.forEach((row, index) => {
+    const line = index + 2;
+    const value = (field: CsvImportField) => column(row, field);
+    const percent = (field: keyof typeof scales) => parsePercent(value(field), scales[field]);
+
+    const timestamp = parseTimestamp(value('timestamp') ?? '');
+    const nBack = Number(value('nBack'));
+    const mode = parseMode(value('mode'));
+    if (!timestamp) {
+      skipped.push({ line, reason: 'Unreadable date' });
+      return;
+    }
+    if (!isValidNBackLevel(nBack)) {
+      skipped.push({ line, reason: 'N must be between 1 and 9' });
+      return;
+    }
+    if (!mode) {
+      skipped.push({ line, reason: `Unknown mode "${value('mode')}"` });
+      return;
+    }
+
+    const position = percent('positionAccuracy');
+    const audio = percent('audioAccuracy');
+    const channelValues = [position, audio].filter((v): v is number => v !== null);
+    const accuracy =
+      percent('accuracy') ??
+      (channelValues.length > 0
+        ? channelValues.reduce((sum, v) => sum + v, 0) / channelValues.length
+        : null);
+    if (accuracy === null) {
+      skipped.push({ line, reason: 'No accuracy' });
+      return;
+    }
+
+    const level = findImportLevel(mode, nBack as NBackLevel, levels);
+    if (!level) {
+      skipped.push({ line, reason: `No Neuralift level for ${getTrainingModeName(mode)} at N=${nBack}` });
+      return;
+    }
+
+    const seconds = Number(value('duration'));
+    sessions.push(
+      createImportedSession(
+        'csv',
+        level,
+        timestamp,
+        Number.isFinite(seconds) && seconds > 0 ? Math.round(seconds * 1000) : 0,
+        accuracy,
+        {
+          ...(position !== null && { position }),
+          ...(audio !== null && { audio }),
+        }
+      )
+    );
+  });
+
+  return { source: 'csv', sessions: sortSessions(sessions), skipped };
+}
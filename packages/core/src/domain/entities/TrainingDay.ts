@@ -0,0 +1,165 @@
+/**
+ * TrainingDay Entity
+ *
+ * The completed sessions of one calendar day, with their combined stats
+ * and whether they met the daily goal. Streaks count goal-met days.
+ */
+
+import type { SessionResult } from './Session';
+import type { DailyGoal } from '../value-objects/DailyGoal';
+
+/**
+ * Progress toward a daily goal, in the goal's unit
+ */
+export interface DailyGoalProgress {
+  readonly current: number;
+  readonly target: number;
+  readonly met: boolean;
+}
+
+/**
+ * One calendar day of training
+ */
+export interface TrainingDay {
+  /** Local calendar date, YYYY-MM-DD */
+  readonly dateKey: string;
+  /** Local midnight at the start of the day */
+  readonly date: Date;
+  readonly sessionIds: string[];
+  /** Completed sessions */
+  readonly blocks: number;
+  /** Time spent in sessions */
+  readonly minutes: number;
+  readonly averageAccuracy: number;
+  readonly bestAccuracy: number;
+  /** Levels trained, in first-played order */
+  readonly levelIds: string[];
+  readonly goal: DailyGoal;
+  readonly goalProgress: DailyGoalProgress;
+}
+
+/**
+ * Consecutive goal-met days
+ */
+export interface GoalStreak {
+  /** Run ending today, or yesterday while today's goal is still open */
+  readonly current: number;
+  readonly longest: number;
+}
+
+/**
+ * Local calendar date of a timestamp, YYYY-MM-DD
+ */
+export function getDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Progress toward a goal from one day's completed sessions
+ */
+export function getDailyGoalProgress(
+  goal: DailyGoal,
+  sessions: readonly SessionResult[]
+): DailyGoalProgress {
+  const completed = sessions.filter((session) => session.completed);
+  let current: number;
+  switch (goal.kind) {
+    case 'blocks':
+      current = completed.length;
+      break;
+    case 'minutes':
+      current = completed.reduce((sum, session) => sum + session.duration, 0) / 60000;
+      break;
+    case 'level':
+      current = completed.filter((session) => session.levelId === goal.levelId).length;
+      break;
+  }
+  return { current, target: goal.target, met: current >= goal.target };
+}
+
+/**
+ * Aggregate one day's sessions
+ */
+export function createTrainingDay(
+  date: Date,
+  sessions: readonly SessionResult[],
+  goal: DailyGoal
+): TrainingDay {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  const completed = sessions.filter((session) => session.completed);
+  const accuracies = completed.map((session) => session.combinedAccuracy);
+
+  return {
+    dateKey: getDateKey(day),
+    date: day,
+    sessionIds: completed.map((session) => session.sessionId),
+    blocks: completed.length,
+    minutes: completed.reduce((sum, session) => sum + session.duration, 0) / 60000,
+    averageAccuracy:
+      accuracies.length > 0 ? accuracies.reduce((sum, a) => sum + a, 0) / accuracies.length : 0,
+    bestAccuracy: accuracies.length > 0 ? Math.max(...accuracies) : 0,
+    levelIds: [...new Set(completed.map((session) => session.levelId))],
+    goal,
+    goalProgress: getDailyGoalProgress(goal, completed),
+  };
+}
+
+/**
+ * Group completed sessions into training days, oldest first.
+ * Days without a completed session are omitted.
+ */
+export function groupTrainingDays(
+  sessions: readonly SessionResult[],
+  goal: DailyGoal
+): TrainingDay[] {
+  const byDay = new Map<string, SessionResult[]>();
+  const sorted = [...sessions]
+    .filter((session) => session.completed)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  for (const session of sorted) {
+    const key = getDateKey(session.timestamp);
+    byDay.set(key, [...(byDay.get(key) ?? []), session]);
+  }
+
+  return [...byDay.values()].map((daySessions) =>
+    createTrainingDay(daySessions[0]!.timestamp, daySessions, goal)
+  );
+}
+
+/**
+ * The date key a number of days before or after another
+ */
+function shiftDateKey(key: string, days: number): string {
+  const [year, month, day] = key.split('-').map(Number);
+  return getDateKey(new Date(year!, month! - 1, day! + days));
+}
+
+/**
+ * Current and longest runs of consecutive goal-met days
+ */
+export function getGoalStreak(days: readonly TrainingDay[], now: Date = new Date()): GoalStreak {
+  const met = new Set(days.filter((day) => day.goalProgress.met).map((day) => day.dateKey));
+
+  let longest = 0;
+  for (const key of met) {
+    // Measure each run once, from its first day
+    if (met.has(shiftDateKey(key, -1))) continue;
+    let length = 1;
+    while (met.has(shiftDateKey(key, length))) length++;
+    longest = Math.max(longest, length);
+  }
+
+  let cursor = getDateKey(now);
+  if (!met.has(cursor)) cursor = shiftDateKey(cursor, -1);
+  let current = 0;
+  while (met.has(cursor)) {
+    current++;
+    cursor = shiftDateKey(cursor, -1);
+  }
+
+  return { current, longest };
+}
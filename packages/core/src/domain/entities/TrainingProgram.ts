@@ -0,0 +1,259 @@
+/**
+ * TrainingProgram Entity
+ *
+ * Multi-week training programs: a daily prescription of levels and block
+ * counts, and completion and adherence tracked from the session history.
+ * A block is one completed session.
+ */
+
+import type { SessionResult } from './Session';
+import type { TrainingMode } from '../value-objects/TrainingMode';
+import type { LevelConfig } from '../../config/levels';
+
+/**
+ * Blocks of one mode in a day's prescription
+ */
+export interface ProgramItem {
+  /** Mode to train; resolved to the user's level in that mode */
+  readonly mode: TrainingMode;
+  readonly blocks: number;
+}
+
+/**
+ * Consecutive training days with the same prescription
+ */
+export interface ProgramPhase {
+  readonly days: number;
+  readonly items: readonly ProgramItem[];
+}
+
+/**
+ * A multi-week program
+ */
+export interface TrainingProgram {
+  readonly id: string;
+  readonly name: string;
+  readonly description: string;
+  readonly weeks: number;
+  readonly daysPerWeek: number;
+  /** Expected training time per day in minutes */
+  readonly minutesPerDay: number;
+  /** Phases in order; their days add up to the program's training days */
+  readonly phases: readonly ProgramPhase[];
+}
+
+/**
+ * The user's enrollment in a program
+ */
+export interface ProgramEnrollment {
+  readonly programId: string;
+  readonly startedAt: Date;
+}
+
+/**
+ * Progress on one item of a day's prescription
+ */
+export interface ProgramItemStatus {
+  readonly mode: TrainingMode;
+  /** Level the item resolves to for this user */
+  readonly levelId: string;
+  readonly blocks: number;
+  /** Blocks done, capped at the prescribed count */
+  readonly completedBlocks: number;
+}
+
+/**
+ * Progress on one training day
+ */
+export interface ProgramDayStatus {
+  /** Zero-based training day of the program */
+  readonly dayIndex: number;
+  readonly items: readonly ProgramItemStatus[];
+  readonly complete: boolean;
+}
+
+export type ProgramState = 'active' | 'completed' | 'expired';
+
+/**
+ * Where the user stands in a program
+ */
+export interface ProgramStatus {
+  readonly program: TrainingProgram;
+  readonly enrollment: ProgramEnrollment;
+  readonly state: ProgramState;
+  /** Training days whose prescription was completed */
+  readonly completedDays: number;
+  readonly totalDays: number;
+  /** Training days the schedule expected by now */
+  readonly expectedDays: number;
+  /** Completed over expected days, 0-1 (null before any day was expected) */
+  readonly adherence: number | null;
+  /** Today's prescription, null once the program ended before today */
+  readonly today: ProgramDayStatus | null;
+  /** Start of the day after the program's last scheduled week */
+  readonly endsAt: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Training days in a program
+ */
+export function getProgramTotalDays(program: TrainingProgram): number {
+  return program.phases.reduce((sum, phase) => sum + phase.days, 0);
+}
+
+/**
+ * Prescription for a zero-based training day (the last phase repeats past the end)
+ */
+export function getProgramDayItems(
+  program: TrainingProgram,
+  dayIndex: number
+): readonly ProgramItem[] {
+  let start = 0;
+  for (const phase of program.phases) {
+    if (dayIndex < start + phase.days) return phase.items;
+    start += phase.days;
+  }
+  return program.phases[program.phases.length - 1]?.items ?? [];
+}
+
+/**
+ * The level an item resolves to: the current level when it is in the
+ * item's mode, else the hardest unlocked classic-grid level in that mode,
+ * else the current level.
+ */
+export function resolveProgramItemLevel(
+  item: ProgramItem,
+  currentLevelId: string,
+  unlockedLevelIds: readonly string[],
+  levels: readonly LevelConfig[]
+): LevelConfig | undefined {
+  const current = levels.find((level) => level.id === currentLevelId);
+  if (current?.mode === item.mode) return current;
+
+  const inMode = levels
+    .filter(
+      (level) =>
+        level.mode === item.mode &&
+        level.gridSize === undefined &&
+        (unlockedLevelIds.includes(level.id) || !level.unlockCriteria)
+    )
+    .sort((a, b) => b.nBack - a.nBack);
+  return inMode[0] ?? current;
+}
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+/**
+ * Progress on a day's prescription from that day's sessions. A session
+ * counts toward the first unfilled item whose level has the session's mode.
+ */
+function getDayStatus(
+  dayIndex: number,
+  items: readonly ProgramItem[],
+  sessions: readonly SessionResult[],
+  resolve: (item: ProgramItem) => LevelConfig | undefined
+): ProgramDayStatus {
+  const statuses = items.map((item) => {
+    const level = resolve(item);
+    return {
+      mode: level?.mode ?? item.mode,
+      levelId: level?.id ?? '',
+      blocks: item.blocks,
+      completedBlocks: 0,
+    };
+  });
+
+  for (const session of sessions) {
+    const status = statuses.find(
+      (s) => s.mode === session.mode && s.completedBlocks < s.blocks
+    );
+    if (status) status.completedBlocks++;
+  }
+
+  return {
+    dayIndex,
+    items: statuses,
+    complete: statuses.every((s) => s.completedBlocks >= s.blocks),
+  };
+}
+
+/**
+ * Evaluate an enrollment against the session history.
+ * Each calendar day with a completed prescription completes one training
+ * day; extra sessions on the same day do not count toward the next.
+ *
+ * @param sessions - sessions since the enrollment started, any order
+ */
+export function getProgramStatus(
+  program: TrainingProgram,
+  enrollment: ProgramEnrollment,
+  sessions: readonly SessionResult[],
+  currentLevelId: string,
+  unlockedLevelIds: readonly string[],
+  levels: readonly LevelConfig[],
+  now: Date = new Date()
+): ProgramStatus {
+  const totalDays = getProgramTotalDays(program);
+  const start = startOfDay(enrollment.startedAt);
+  const today = startOfDay(now);
+  const endsAt = new Date(start);
+  endsAt.setDate(endsAt.getDate() + program.weeks * 7);
+  const resolve = (item: ProgramItem) =>
+    resolveProgramItemLevel(item, currentLevelId, unlockedLevelIds, levels);
+
+  const byDay = new Map<number, SessionResult[]>();
+  for (const session of [...sessions].sort(
+    (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+  )) {
+    if (!session.completed || session.timestamp < start) continue;
+    const day = startOfDay(session.timestamp).getTime();
+    byDay.set(day, [...(byDay.get(day) ?? []), session]);
+  }
+
+  let completedDays = 0;
+  for (const [day, daySessions] of byDay) {
+    if (day >= today.getTime() || day >= endsAt.getTime()) break;
+    if (completedDays >= totalDays) break;
+    const items = getProgramDayItems(program, completedDays);
+    if (getDayStatus(completedDays, items, daySessions, resolve).complete) {
+      completedDays++;
+    }
+  }
+
+  let todayStatus: ProgramDayStatus | null = null;
+  if (completedDays < totalDays && today < endsAt) {
+    todayStatus = getDayStatus(
+      completedDays,
+      getProgramDayItems(program, completedDays),
+      byDay.get(today.getTime()) ?? [],
+      resolve
+    );
+    if (todayStatus.complete) completedDays++;
+  }
+
+  // Days the weekly schedule expected before today, plus today once done
+  const elapsedDays = Math.round((today.getTime() - start.getTime()) / DAY_MS);
+  const expectedDays = Math.min(
+    totalDays,
+    Math.round((elapsedDays * program.daysPerWeek) / 7) + (todayStatus?.complete ? 1 : 0)
+  );
+
+  return {
+    program,
+    enrollment,
+    state:
+      completedDays >= totalDays ? 'completed' : today >= endsAt ? 'expired' : 'active',
+    completedDays,
+    totalDays,
+    expectedDays,
+    adherence: expectedDays > 0 ? Math.min(1, completedDays / expectedDays) : null,
+    today: todayStatus,
+    endsAt,
+  };
+}
@@ -6,6 +6,8 @@
  */
 
 import type { PositionIndex } from '../value-objects/Position';
+import type { StimulusChannel } from '../value-objects/StimulusChannel';
+import type { LureType } from '../value-objects/Lure';
 
 /**
  * Raw trial data for serialization
@@ -21,6 +23,137 @@ export interface TrialData {
   readonly positionResponseTime: number | null;
   readonly audioResponseTime: number | null;
   readonly stimulusTimestamp: number;
+  /** Lure type per channel, absent when the stimulus was not a lure */
+  readonly positionLure?: LureType;
+  readonly audioLure?: LureType;
+  readonly colorLure?: LureType;
+  readonly shapeLure?: LureType;
+  /** Color channel (triple and quad modes only) */
+  readonly color?: string;
+  readonly isColorMatch?: boolean;
+  readonly userColorResponse?: boolean | null;
+  readonly colorResponseTime?: number | null;
+  /** Shape channel (quad mode only) */
+  readonly shape?: string;
+  readonly isShapeMatch?: boolean;
+  readonly userShapeResponse?: boolean | null;
+  readonly shapeResponseTime?: number | null;
+}
+
+/**
+ * Stimuli for the channels beyond position and audio, plus lure metadata
+ */
+export interface ExtraChannelStimuli {
+  readonly color?: string;
+  readonly isColorMatch?: boolean;
+  readonly shape?: string;
+  readonly isShapeMatch?: boolean;
+  readonly positionLure?: LureType;
+  readonly audioLure?: LureType;
+  readonly colorLure?: LureType;
+  readonly shapeLure?: LureType;
+}
+
+/**
+ * Match and response state of one channel within a trial
+ */
+export interface ChannelTrialState {
+  readonly isMatch: boolean;
+  readonly userResponse: boolean | null;
+  readonly responseTime: number | null;
+  /** Lure type when the stimulus was a lure */
+  readonly lure: LureType | null;
+}
+
+/**
+ * Response category for signal detection stats
+ */
+export type ResponseCategory = 'hit' | 'miss' | 'falseAlarm' | 'correctRejection';
+
+/**
+ * TrialData field names holding each channel's state
+ */
+const CHANNEL_FIELDS = {
+  position: {
+    stimulus: 'position',
+    isMatch: 'isPositionMatch',
+    response: 'userPositionResponse',
+    responseTime: 'positionResponseTime',
+    lure: 'positionLure',
+  },
+  audio: {
+    stimulus: 'audioLetter',
+    isMatch: 'isAudioMatch',
+    response: 'userAudioResponse',
+    responseTime: 'audioResponseTime',
+    lure: 'audioLure',
+  },
+  color: {
+    stimulus: 'color',
+    isMatch: 'isColorMatch',
+    response: 'userColorResponse',
+    responseTime: 'colorResponseTime',
+    lure: 'colorLure',
+  },
+  shape: {
+    stimulus: 'shape',
+    isMatch: 'isShapeMatch',
+    response: 'userShapeResponse',
+    responseTime: 'shapeResponseTime',
+    lure: 'shapeLure',
+  },
+} as const satisfies Record<StimulusChannel, Record<string, keyof TrialData>>;
+
+/**
+ * Gets the stimulus shown on a channel, or null if the channel was not part of the trial
+ */
+export function getTrialChannelStimulus(
+  trial: TrialData,
+  channel: StimulusChannel
+): string | number | null {
+  return trial[CHANNEL_FIELDS[channel].stimulus] ?? null;
+}
+
+/**
+ * Gets the match and response state of a channel from raw trial data
+ */
+export function getTrialChannelState(trial: TrialData, channel: StimulusChannel): ChannelTrialState {
+  const fields = CHANNEL_FIELDS[channel];
+  return {
+    isMatch: trial[fields.isMatch] ?? false,
+    userResponse: trial[fields.response] ?? null,
+    responseTime: trial[fields.responseTime] ?? null,
+    lure: trial[fields.lure] ?? null,
+  };
+}
+
+/**
+ * Returns a copy of the trial data with a channel response recorded
+ */
+export function withTrialChannelResponse(
+  trial: TrialData,
+  channel: StimulusChannel,
+  response: boolean,
+  responseTime: number
+): TrialData {
+  const fields = CHANNEL_FIELDS[channel];
+  return {
+    ...trial,
+    [fields.response]: response,
+    [fields.responseTime]: responseTime,
+  };
+}
+
+/**
+ * Classifies a channel's response for signal detection stats
+ */
+export function getResponseCategory(state: ChannelTrialState): ResponseCategory {
+  const responded = state.userResponse === true;
+
+  if (state.isMatch && responded) return 'hit';
+  if (state.isMatch && !responded) return 'miss';
+  if (!state.isMatch && responded) return 'falseAlarm';
+  return 'correctRejection';
 }
 
 /**
@@ -37,7 +170,8 @@ export class Trial {
     position: PositionIndex,
     audioLetter: string,
     isPositionMatch: boolean,
-    isAudioMatch: boolean
+    isAudioMatch: boolean,
+    extra: ExtraChannelStimuli = {}
   ): Trial {
     return new Trial({
       id,
@@ -50,6 +184,26 @@ export class Trial {
       positionResponseTime: null,
       audioResponseTime: null,
       stimulusTimestamp: Date.now(),
+      ...(extra.positionLure ? { positionLure: extra.positionLure } : {}),
+      ...(extra.audioLure ? { audioLure: extra.audioLure } : {}),
+      ...(extra.colorLure ? { colorLure: extra.colorLure } : {}),
+      ...(extra.shapeLure ? { shapeLure: extra.shapeLure } : {}),
+      ...(extra.color !== undefined
+        ? {
+            color: extra.color,
+            isColorMatch: extra.isColorMatch ?? false,
+            userColorResponse: null,
+            colorResponseTime: null,
+          }
+        : {}),
+      ...(extra.shape !== undefined
+        ? {
+            shape: extra.shape,
+            isShapeMatch: extra.isShapeMatch ?? false,
+            userShapeResponse: null,
+            shapeResponseTime: null,
+          }
+        : {}),
     });
   }
 
@@ -102,82 +256,102 @@ export class Trial {
   }
 
   /**
-   * Records a position response, returning a new Trial instance
+   * Stamps when the stimulus was shown, returning a new Trial instance
+   * Response times are measured from this timestamp
    */
-  recordPositionResponse(response: boolean): Trial {
-    const responseTime = Date.now() - this.data.stimulusTimestamp;
+  withStimulusTimestamp(timestamp: number): Trial {
     return new Trial({
       ...this.data,
-      userPositionResponse: response,
-      positionResponseTime: responseTime,
+      stimulusTimestamp: timestamp,
     });
   }
 
+  /**
+   * Gets the match and response state of a channel
+   */
+  getChannelState(channel: StimulusChannel): ChannelTrialState {
+    return getTrialChannelState(this.data, channel);
+  }
+
+  /**
+   * Records a response on a channel, returning a new Trial instance
+   */
+  recordChannelResponse(channel: StimulusChannel, response: boolean): Trial {
+    const responseTime = Date.now() - this.data.stimulusTimestamp;
+    return new Trial(withTrialChannelResponse(this.data, channel, response, responseTime));
+  }
+
+  /**
+   * Records a position response, returning a new Trial instance
+   */
+  recordPositionResponse(response: boolean): Trial {
+    return this.recordChannelResponse('position', response);
+  }
+
   /**
    * Records an audio response, returning a new Trial instance
    */
   recordAudioResponse(response: boolean): Trial {
-    const responseTime = Date.now() - this.data.stimulusTimestamp;
-    return new Trial({
-      ...this.data,
-      userAudioResponse: response,
-      audioResponseTime: responseTime,
-    });
+    return this.recordChannelResponse('audio', response);
   }
 
   /**
-   * Checks if position response was correct
+   * Checks if a channel's response was correct
    */
-  isPositionCorrect(): boolean {
-    if (this.data.userPositionResponse === null) {
+  isChannelCorrect(channel: StimulusChannel): boolean {
+    const state = this.getChannelState(channel);
+    if (state.userResponse === null) {
       // No response - miss if it was a match, correct rejection otherwise
-      return !this.data.isPositionMatch;
+      return !state.isMatch;
     }
-    return this.data.userPositionResponse === this.data.isPositionMatch;
+    return state.userResponse === state.isMatch;
+  }
+
+  /**
+   * Checks if position response was correct
+   */
+  isPositionCorrect(): boolean {
+    return this.isChannelCorrect('position');
   }
 
   /**
    * Checks if audio response was correct
    */
   isAudioCorrect(): boolean {
-    if (this.data.userAudioResponse === null) {
-      // No response - miss if it was a match, correct rejection otherwise
-      return !this.data.isAudioMatch;
-    }
-    return this.data.userAudioResponse === this.data.isAudioMatch;
+    return this.isChannelCorrect('audio');
   }
 
   /**
-   * Gets position response category for stats calculation
+   * Gets a channel's response category for stats calculation
    */
-  getPositionCategory(): 'hit' | 'miss' | 'falseAlarm' | 'correctRejection' {
-    const responded = this.data.userPositionResponse === true;
-    const isMatch = this.data.isPositionMatch;
+  getChannelCategory(channel: StimulusChannel): ResponseCategory {
+    return getResponseCategory(this.getChannelState(channel));
+  }
 
-    if (isMatch && responded) return 'hit';
-    if (isMatch && !responded) return 'miss';
-    if (!isMatch && responded) return 'falseAlarm';
-    return 'correctRejection';
+  /**
+   * Gets position response category for stats calculation
+   */
+  getPositionCategory(): ResponseCategory {
+    return this.getChannelCategory('position');
   }
 
   /**
    * Gets audio response category for stats calculation
    */
-  getAudioCategory(): 'hit' | 'miss' | 'falseAlarm' | 'correctRejection' {
-    const responded = this.data.userAudioResponse === true;
-    const isMatch = this.data.isAudioMatch;
-
-    if (isMatch && responded) return 'hit';
-    if (isMatch && !responded) return 'miss';
-    if (!isMatch && responded) return 'falseAlarm';
-    return 'correctRejection';
+  getAudioCategory(): ResponseCategory {
+    return this.getChannelCategory('audio');
   }
 
   /**
    * Checks if any response has been recorded
    */
   hasResponse(): boolean {
-    return this.data.userPositionResponse !== null || this.data.userAudioResponse !== null;
+    return (
+      this.data.userPositionResponse !== null ||
+      this.data.userAudioResponse !== null ||
+      (this.data.userColorResponse ?? null) !== null ||
+      (this.data.userShapeResponse ?? null) !== null
+    );
   }
 
   /**
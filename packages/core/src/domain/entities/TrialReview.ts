@@ -0,0 +1,117 @@
+/**
+ * Trial Review
+ *
+ * Per-trial outcomes for reviewing a finished session: what each channel
+ * showed, how the user responded, and why an error happened.
+ */
+
+import { getModeChannels } from '../value-objects/TrainingMode';
+import type { StimulusChannel } from '../value-objects/StimulusChannel';
+import type { LureType } from '../value-objects/Lure';
+import {
+  getResponseCategory,
+  getTrialChannelState,
+  getTrialChannelStimulus,
+  type ResponseCategory,
+} from './Trial';
+import type { SessionResult } from './Session';
+
+/**
+ * Why a channel response was wrong
+ * - missedMatch: the stimulus matched N back and the user did not respond
+ * - lureFalseAlarm: the user responded to a lure (a repeat from N-1 or N+1 back)
+ * - falseAlarm: the user responded to a non-match that was not a lure
+ */
+export type TrialErrorReason = 'missedMatch' | 'lureFalseAlarm' | 'falseAlarm';
+
+/**
+ * One channel's outcome within a trial
+ */
+export interface ChannelOutcome {
+  readonly channel: StimulusChannel;
+  /** Stimulus shown on the channel */
+  readonly stimulus: string | number | null;
+  readonly category: ResponseCategory;
+  /** Lure type when the stimulus was a lure */
+  readonly lure: LureType | null;
+  readonly responseTime: number | null;
+  /** Why the response was wrong, null when correct */
+  readonly error: TrialErrorReason | null;
+  /**
+   * Index of the earlier trial the stimulus repeated: the N-back trial for
+   * matches, the N-1 or N+1 trial for lures, otherwise null
+   */
+  readonly comparedTrialIndex: number | null;
+}
+
+/**
+ * Outcome of every tracked channel in one trial
+ */
+export interface TrialOutcome {
+  /** Zero-based position of the trial in the session */
+  readonly index: number;
+  readonly trialId: number;
+  readonly channels: readonly ChannelOutcome[];
+  /** Whether any channel was answered wrongly */
+  readonly hasError: boolean;
+  /** Whether any channel showed a lure */
+  readonly hasLure: boolean;
+}
+
+/**
+ * Gets the reason a response was wrong, or null if it was correct
+ */
+function getErrorReason(category: ResponseCategory, lure: LureType | null): TrialErrorReason | null {
+  switch (category) {
+    case 'miss':
+      return 'missedMatch';
+    case 'falseAlarm':
+      return lure ? 'lureFalseAlarm' : 'falseAlarm';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Gets how far back the stimulus repeated, or null if it did not
+ */
+function getRepeatDistance(isMatch: boolean, lure: LureType | null, nBack: number): number | null {
+  if (isMatch) return nBack;
+  if (lure === 'n-1') return nBack - 1;
+  if (lure === 'n+1') return nBack + 1;
+  return null;
+}
+
+/**
+ * Classifies every trial of a session per channel, in trial order
+ */
+export function getSessionTrialReview(
+  result: Pick<SessionResult, 'mode' | 'nBack' | 'trials'>
+): TrialOutcome[] {
+  const channels = getModeChannels(result.mode);
+
+  return result.trials.map((trial, index) => {
+    const outcomes = channels.map((channel): ChannelOutcome => {
+      const state = getTrialChannelState(trial, channel);
+      const category = getResponseCategory(state);
+      const distance = getRepeatDistance(state.isMatch, state.lure, result.nBack);
+      return {
+        channel,
+        stimulus: getTrialChannelStimulus(trial, channel),
+        category,
+        lure: state.lure,
+        responseTime: state.responseTime,
+        error: getErrorReason(category, state.lure),
+        comparedTrialIndex: distance !== null && index - distance >= 0 ? index - distance : null,
+      };
+    });
+
+    return {
+      index,
+      trialId: trial.id,
+      channels: outcomes,
+      hasError: outcomes.some((outcome) => outcome.error !== null),
+      hasLure: outcomes.some((outcome) => outcome.lure !== null),
+    };
+  });
+}
@@ -7,6 +7,8 @@
 
 import type { NBackLevel } from '../value-objects/NBackLevel';
 import type { TrainingMode } from '../value-objects/TrainingMode';
+import type { PlateauEstimate, TrendEstimate } from '../value-objects/TrendEstimate';
+import { createEmptyTrendEstimate, describeTrend } from '../value-objects/TrendEstimate';
 
 /**
  * Training preferences derived from user behavior
@@ -25,6 +27,11 @@ export interface PerformanceTrends {
   readonly overallTrend: 'improving' | 'stable' | 'declining';
   readonly positionTrend: 'improving' | 'stable' | 'declining';
   readonly audioTrend: 'improving' | 'stable' | 'declining';
+  /** Accuracy slope behind overallTrend, in points per session */
+  readonly overallEstimate: TrendEstimate;
+  readonly positionEstimate: TrendEstimate;
+  readonly audioEstimate: TrendEstimate;
+  readonly plateau: PlateauEstimate;
   readonly recentAccuracies: number[];
 }
 
@@ -87,6 +94,17 @@ export function createInitialUserProfile(id: string): UserProfile {
       overallTrend: 'stable',
       positionTrend: 'stable',
       audioTrend: 'stable',
+      overallEstimate: createEmptyTrendEstimate(),
+      positionEstimate: createEmptyTrendEstimate(),
+      audioEstimate: createEmptyTrendEstimate(),
+      plateau: {
+        detected: false,
+        startIndex: null,
+        length: 0,
+        level: null,
+        trend: null,
+        changePointIndex: null,
+      },
       recentAccuracies: [],
     },
     strengthsWeaknesses: {
@@ -116,8 +134,15 @@ export function generateProfileSummary(profile: UserProfile): string {
   lines.push(`Total sessions: ${profile.totalSessions}`);
   lines.push(`Training streak: ${profile.currentStreak} days`);
 
-  if (profile.trends.overallTrend !== 'stable') {
-    lines.push(`Performance trend: ${profile.trends.overallTrend}`);
+  if (profile.trends.overallEstimate.sufficientData) {
+    lines.push(`Accuracy trend: ${describeTrend(profile.trends.overallEstimate, '%')}`);
+  }
+
+  const { plateau } = profile.trends;
+  if (plateau.detected && plateau.level !== null) {
+    lines.push(
+      `Plateau: ${plateau.length} sessions around ${Math.round(plateau.level)}% accuracy`
+    );
   }
 
   if (profile.strengthsWeaknesses.strongerModality !== 'balanced') {
@@ -7,5 +7,12 @@
 
 export * from './Trial';
 export * from './Session';
+export * from './SessionCurve';
+export * from './TrialReview';
+export * from './PersonalRecord';
+export * from './TrainingProgram';
+export * from './TrainingDay';
+export * from './ResearchExport';
+export * from './SessionImport';
 export * from './Level';
 export * from './UserProfile';
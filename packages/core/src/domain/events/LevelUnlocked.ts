@@ -10,3 +10,15 @@ export interface LevelUnlocked extends DomainEvent {
   readonly type: 'LEVEL_UNLOCKED';
   readonly levelId: string;
 }
+
+/**
+ * Creates a LevelUnlocked event
+ */
+export function createLevelUnlockedEvent(aggregateId: string, levelId: string): LevelUnlocked {
+  return {
+    type: 'LEVEL_UNLOCKED',
+    timestamp: new Date(),
+    aggregateId,
+    levelId,
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * PersonalBestSet Event
+ *
+ * Emitted when a session sets a new personal record on its level.
+ */
+
+import type { DomainEvent } from './DomainEvent';
+import type { RecordType } from '../entities/PersonalRecord';
+
+export interface PersonalBestSet extends DomainEvent {
+  readonly type: 'PERSONAL_BEST_SET';
+  readonly levelId: string;
+  readonly recordType: RecordType;
+  readonly value: number;
+  /** Value of the replaced record, null for a first record */
+  readonly previousValue: number | null;
+}
+
+/**
+ * Creates a PersonalBestSet event
+ */
+export function createPersonalBestSetEvent(
+  aggregateId: string,
+  levelId: string,
+  recordType: RecordType,
+  value: number,
+  previousValue: number | null
+): PersonalBestSet {
+  return {
+    type: 'PERSONAL_BEST_SET',
+    timestamp: new Date(),
+    aggregateId,
+    levelId,
+    recordType,
+    value,
+    previousValue,
+  };
+}
@@ -10,3 +10,15 @@ export interface SessionStarted extends DomainEvent {
   readonly type: 'SESSION_STARTED';
   readonly levelId: string;
 }
+
+/**
+ * Creates a SessionStarted event
+ */
+export function createSessionStartedEvent(aggregateId: string, levelId: string): SessionStarted {
+  return {
+    type: 'SESSION_STARTED',
+    timestamp: new Date(),
+    aggregateId,
+    levelId,
+  };
+}
@@ -11,3 +11,20 @@ export interface TrialCompleted extends DomainEvent {
   readonly trialId: string;
   readonly correct: boolean;
 }
+
+/**
+ * Creates a TrialCompleted event
+ */
+export function createTrialCompletedEvent(
+  aggregateId: string,
+  trialId: string,
+  correct: boolean
+): TrialCompleted {
+  return {
+    type: 'TRIAL_COMPLETED',
+    timestamp: new Date(),
+    aggregateId,
+    trialId,
+    correct,
+  };
+}
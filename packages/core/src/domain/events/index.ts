@@ -10,4 +10,5 @@ export * from './SessionStarted';
 export * from './SessionCompleted';
 export * from './TrialCompleted';
 export * from './LevelUnlocked';
+export * from './PersonalBestSet';
 export * from './AnalyticsEvents';
@@ -0,0 +1,73 @@
+/**
+ * DailyGoal Value Object
+ *
+ * What a user sets out to do each day. A day counts toward the streak
+ * only when its goal is met.
+ */
+
+/**
+ * Kinds of daily goal
+ * - blocks: complete a number of sessions
+ * - minutes: train for a number of minutes
+ * - level: complete a number of sessions at one level
+ */
+export type DailyGoalKind = 'blocks' | 'minutes' | 'level';
+
+export const DAILY_GOAL_KINDS: readonly DailyGoalKind[] = ['blocks', 'minutes', 'level'];
+
+/**
+ * A daily goal
+ */
+export interface DailyGoal {
+  readonly kind: DailyGoalKind;
+  /** Sessions for 'blocks' and 'level', minutes for 'minutes' */
+  readonly target: number;
+  /** Level to train ('level' goals only) */
+  readonly levelId?: string;
+}
+
+export const DEFAULT_DAILY_GOAL: DailyGoal = { kind: 'blocks', target: 3 };
+
+/**
+ * Largest target per kind
+ */
+export const DAILY_GOAL_LIMITS: Readonly<Record<DailyGoalKind, number>> = {
+  blocks: 40,
+  minutes: 120,
+  level: 40,
+};
+
+/**
+ * Type guard for stored goals
+ */
+export function isValidDailyGoal(value: unknown): value is DailyGoal {
+  if (typeof value !== 'object' || value === null) return false;
+  const goal = value as Partial<DailyGoal>;
+  if (!goal.kind || !DAILY_GOAL_KINDS.includes(goal.kind)) return false;
+  if (
+    typeof goal.target !== 'number' ||
+    !Number.isInteger(goal.target) ||
+    goal.target < 1 ||
+    goal.target > DAILY_GOAL_LIMITS[goal.kind]
+  ) {
+    return false;
+  }
+  return goal.kind !== 'level' || (typeof goal.levelId === 'string' && goal.levelId.length > 0);
+}
+
+/**
+ * Describes a goal, e.g. "3 blocks" or "20 minutes"
+ *
+ * @param levelName - display name of a 'level' goal's level (defaults to its ID)
+ */
+export function describeDailyGoal(goal: DailyGoal, levelName?: string): string {
+  const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+  switch (goal.kind) {
+    case 'blocks':
+      return plural(goal.target, 'block');
+    case 'minutes':
+      return plural(goal.target, 'minute');
+    case 'level':
+      return `${plural(goal.target, 'block')} of ${levelName ?? goal.levelId ?? 'a level'}`;
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Lure Value Object
+ *
+ * A lure is a non-match stimulus that repeats an item from near the N-back
+ * position. Lures can only be rejected by tracking the exact position in the
+ * sequence, so false alarms on them separate true N-back updating from
+ * familiarity matching:
+ * - n-1: repeats the item from N-1 trials back (only for N >= 2)
+ * - n+1: repeats the item from N+1 trials back
+ */
+
+import type { StimulusChannel } from './StimulusChannel';
+
+export type LureType = 'n-1' | 'n+1';
+
+/**
+ * All lure types
+ */
+export const LURE_TYPES: readonly LureType[] = ['n-1', 'n+1'] as const;
+
+/**
+ * False alarm counts for one group of non-match trials
+ */
+export interface FalseAlarmCounts {
+  /** Number of trials in the group */
+  trials: number;
+  /** Trials in the group the user responded to */
+  falseAlarms: number;
+  /** falseAlarms / trials (0 when the group is empty) */
+  falseAlarmRate: number;
+}
+
+/**
+ * False alarm rates on lure trials, reported apart from other non-matches
+ */
+export interface LureStats {
+  /** All lure trials */
+  lures: FalseAlarmCounts;
+  /** Non-match trials that were not lures */
+  nonLures: FalseAlarmCounts;
+  /** Lure trials split by lure type */
+  byType: Record<LureType, FalseAlarmCounts>;
+}
+
+/**
+ * Lure stats per channel a session tracked
+ */
+export type SessionLureStats = Partial<Record<StimulusChannel, LureStats>>;
+
+/**
+ * Classifies a non-match value against the stimulus history.
+ * `history` holds the values of the trials before the current one.
+ *
+ * @returns the lure type, or null if the value is not a lure
+ */
+export function classifyLure<T>(history: readonly T[], value: T, nBack: number): LureType | null {
+  const nBackValue = history[history.length - nBack];
+  if (nBackValue === undefined || value === nBackValue) {
+    return null;
+  }
+
+  if (nBack >= 2 && history[history.length - (nBack - 1)] === value) {
+    return 'n-1';
+  }
+  if (history[history.length - (nBack + 1)] === value) {
+    return 'n+1';
+  }
+  return null;
+}
+
+/**
+ * Lists the values that would make the next trial a lure.
+ * Excludes the N-back value, which would be a match instead.
+ */
+export function getLureCandidates<T>(
+  history: readonly T[],
+  nBack: number
+): { type: LureType; value: T }[] {
+  const nBackValue = history[history.length - nBack];
+  const candidates: { type: LureType; value: T }[] = [];
+  if (nBackValue === undefined) {
+    return candidates;
+  }
+
+  const nMinusOne = nBack >= 2 ? history[history.length - (nBack - 1)] : undefined;
+  if (nMinusOne !== undefined && nMinusOne !== nBackValue) {
+    candidates.push({ type: 'n-1', value: nMinusOne });
+  }
+
+  const nPlusOne = history[history.length - (nBack + 1)];
+  if (nPlusOne !== undefined && nPlusOne !== nBackValue) {
+    candidates.push({ type: 'n+1', value: nPlusOne });
+  }
+
+  return candidates;
+}
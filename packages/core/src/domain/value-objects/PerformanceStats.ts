@@ -5,6 +5,12 @@
  * Uses signal detection theory metrics (d-prime) for cognitive assessment.
  */
 
+import type { RateCorrection } from './SignalDetection';
+import { DEFAULT_RATE_CORRECTION, calculateSignalDetection } from './SignalDetection';
+import type { ResponseTimeStats } from './ResponseTimeStats';
+import type { ScoringConventionId } from './ScoringConvention';
+import { calculateResponseTimeStats } from './ResponseTimeStats';
+
 /**
  * Performance statistics calculated from session trials
  */
@@ -23,10 +29,25 @@ export interface PerformanceStats {
   readonly falseAlarmRate: number;
   /** D-prime: sensitivity measure from signal detection theory */
   readonly dPrime: number;
+  /** Criterion c: response bias, positive when conservative */
+  readonly criterion: number;
+  /** Beta: likelihood ratio at the criterion, above 1 when conservative */
+  readonly beta: number;
+  /** A′: non-parametric sensitivity (0.5 is chance) */
+  readonly aPrime: number;
+  /** B″: non-parametric bias from -1 (liberal) to 1 (conservative) */
+  readonly bDoublePrime: number;
   /** Overall accuracy percentage (0-100) */
   readonly accuracy: number;
   /** Average response time in milliseconds (null if no responses) */
   readonly avgResponseTime: number | null;
+  /** Response time distribution (null if no responses) */
+  readonly responseTimeStats: ResponseTimeStats | null;
+  /**
+   * Convention `accuracy` was reported in, for imported summaries without
+   * response counts; absent when the stats were computed from trials
+   */
+  readonly reportedConvention?: ScoringConventionId;
 }
 
 /**
@@ -41,71 +62,14 @@ export interface PerformanceRawCounts {
 }
 
 /**
- * Calculates z-score for d-prime calculation
- * Uses approximation of inverse normal CDF
- */
-function zScore(p: number): number {
-  // Clamp to avoid infinity
-  const clampedP = Math.max(0.001, Math.min(0.999, p));
-
-  // Approximation using Abramowitz and Stegun formula
-  const a1 = -39.6968302866538;
-  const a2 = 220.946098424521;
-  const a3 = -275.928510446969;
-  const a4 = 138.357751867269;
-  const a5 = -30.6647980661472;
-  const a6 = 2.50662823884;
-
-  const b1 = -54.4760987982241;
-  const b2 = 161.585836858041;
-  const b3 = -155.698979859887;
-  const b4 = 66.8013118877197;
-  const b5 = -13.2806815528857;
-
-  const c1 = -7.78489400243029e-3;
-  const c2 = -0.322396458041136;
-  const c3 = -2.40075827716184;
-  const c4 = -2.54973253934373;
-  const c5 = 4.37466414146497;
-  const c6 = 2.93816398269878;
-
-  const d1 = 7.78469570904146e-3;
-  const d2 = 0.32246712907004;
-  const d3 = 2.445134137143;
-  const d4 = 3.75440866190742;
-
-  const pLow = 0.02425;
-  const pHigh = 1 - pLow;
-
-  let q: number;
-  let r: number;
-
-  if (clampedP < pLow) {
-    q = Math.sqrt(-2 * Math.log(clampedP));
-    return (
-      (((((c1 * q + c2) * q + c3) * q + c4) * q + c5) * q + c6) /
-      ((((d1 * q + d2) * q + d3) * q + d4) * q + 1)
-    );
-  } else if (clampedP <= pHigh) {
-    q = clampedP - 0.5;
-    r = q * q;
-    return (
-      ((((((a1 * r + a2) * r + a3) * r + a4) * r + a5) * r + a6) * q) /
-      (((((b1 * r + b2) * r + b3) * r + b4) * r + b5) * r + 1)
-    );
-  } else {
-    q = Math.sqrt(-2 * Math.log(1 - clampedP));
-    return (
-      -(((((c1 * q + c2) * q + c3) * q + c4) * q + c5) * q + c6) /
-      ((((d1 * q + d2) * q + d3) * q + d4) * q + 1)
-    );
-  }
-}
-
-/**
- * Creates PerformanceStats from raw counts
+ * Creates PerformanceStats from raw counts.
+ * The correction applies to the signal detection measures only;
+ * hitRate and falseAlarmRate stay the raw rates.
  */
-export function createPerformanceStats(counts: PerformanceRawCounts): PerformanceStats {
+export function createPerformanceStats(
+  counts: PerformanceRawCounts,
+  correction: RateCorrection = DEFAULT_RATE_CORRECTION
+): PerformanceStats {
   const { hits, misses, falseAlarms, correctRejections, responseTimes } = counts;
 
   const totalSignals = hits + misses;
@@ -116,8 +80,10 @@ export function createPerformanceStats(counts: PerformanceRawCounts): Performanc
   const hitRate = totalSignals > 0 ? hits / totalSignals : 0;
   const falseAlarmRate = totalNoise > 0 ? falseAlarms / totalNoise : 0;
 
-  // Calculate d-prime
-  const dPrime = zScore(hitRate) - zScore(falseAlarmRate);
+  const { dPrime, criterion, beta, aPrime, bDoublePrime } = calculateSignalDetection(
+    counts,
+    correction
+  );
 
   // Calculate accuracy
   const correctResponses = hits + correctRejections;
@@ -137,8 +103,13 @@ export function createPerformanceStats(counts: PerformanceRawCounts): Performanc
     hitRate,
     falseAlarmRate,
     dPrime,
+    criterion,
+    beta,
+    aPrime,
+    bDoublePrime,
     accuracy,
     avgResponseTime,
+    responseTimeStats: calculateResponseTimeStats(responseTimes),
   };
 }
 
@@ -154,7 +125,12 @@ export function createEmptyPerformanceStats(): PerformanceStats {
     hitRate: 0,
     falseAlarmRate: 0,
     dPrime: 0,
+    criterion: 0,
+    beta: 1,
+    aPrime: 0.5,
+    bDoublePrime: 0,
     accuracy: 0,
     avgResponseTime: null,
+    responseTimeStats: null,
   };
 }
@@ -1,16 +1,21 @@
 /**
  * Position Value Object
  *
- * Represents a position in the 3x3 training grid.
+ * Represents a position in the square training grid (3x3, 4x4 or 5x5).
  * Provides utilities for position manipulation and comparison.
  */
 
-import { GRID_SIZE, TOTAL_POSITIONS } from '../../config/constants';
+import { GRID_SIZE, SUPPORTED_GRID_SIZES } from '../../config/constants';
 
 /**
- * Position index type (0-8 for 3x3 grid)
+ * Side length of the training grid
  */
-export type PositionIndex = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+export type GridSize = (typeof SUPPORTED_GRID_SIZES)[number];
+
+/**
+ * Position index type (0 to gridSize² - 1, row-major)
+ */
+export type PositionIndex = number;
 
 /**
  * Position with row and column coordinates
@@ -22,23 +27,57 @@ export interface Position {
 }
 
 /**
- * Validates if a number is a valid position index
+ * Names for the 3x3 cells, kept for familiar screen reader labels
+ */
+const CLASSIC_POSITION_NAMES = [
+  'top-left',
+  'top-center',
+  'top-right',
+  'middle-left',
+  'center',
+  'middle-right',
+  'bottom-left',
+  'bottom-center',
+  'bottom-right',
+] as const;
+
+/**
+ * Validates if a number is a supported grid size
+ */
+export function isValidGridSize(value: number): value is GridSize {
+  return SUPPORTED_GRID_SIZES.includes(value as GridSize);
+}
+
+/**
+ * Gets the number of positions on a grid
  */
-export function isValidPositionIndex(value: number): value is PositionIndex {
-  return Number.isInteger(value) && value >= 0 && value < TOTAL_POSITIONS;
+export function getTotalPositions(gridSize: GridSize = GRID_SIZE): number {
+  return gridSize * gridSize;
 }
 
 /**
- * Creates a Position from an index (0-8)
+ * Validates if a number is a valid position index for a grid
  */
-export function createPosition(index: number): Position {
-  if (!isValidPositionIndex(index)) {
-    throw new Error(`Invalid position index: ${index}. Must be between 0 and ${TOTAL_POSITIONS - 1}.`);
+export function isValidPositionIndex(
+  value: number,
+  gridSize: GridSize = GRID_SIZE
+): value is PositionIndex {
+  return Number.isInteger(value) && value >= 0 && value < getTotalPositions(gridSize);
+}
+
+/**
+ * Creates a Position from an index
+ */
+export function createPosition(index: number, gridSize: GridSize = GRID_SIZE): Position {
+  if (!isValidPositionIndex(index, gridSize)) {
+    throw new Error(
+      `Invalid position index: ${index}. Must be between 0 and ${getTotalPositions(gridSize) - 1}.`
+    );
   }
 
   return {
-    row: Math.floor(index / GRID_SIZE),
-    col: index % GRID_SIZE,
+    row: Math.floor(index / gridSize),
+    col: index % gridSize,
     index,
   };
 }
@@ -46,12 +85,16 @@ export function createPosition(index: number): Position {
 /**
  * Creates a Position from row and column coordinates
  */
-export function createPositionFromCoords(row: number, col: number): Position {
-  if (row < 0 || row >= GRID_SIZE || col < 0 || col >= GRID_SIZE) {
+export function createPositionFromCoords(
+  row: number,
+  col: number,
+  gridSize: GridSize = GRID_SIZE
+): Position {
+  if (row < 0 || row >= gridSize || col < 0 || col >= gridSize) {
     throw new Error(`Invalid position coordinates: (${row}, ${col})`);
   }
 
-  const index = (row * GRID_SIZE + col) as PositionIndex;
+  const index = row * gridSize + col;
   return { row, col, index };
 }
 
@@ -63,15 +106,27 @@ export function positionsEqual(a: Position, b: Position): boolean {
 }
 
 /**
- * Gets all valid position indices
+ * Gets all valid position indices for a grid
  */
-export function getAllPositionIndices(): readonly PositionIndex[] {
-  return [0, 1, 2, 3, 4, 5, 6, 7, 8] as const;
+export function getAllPositionIndices(gridSize: GridSize = GRID_SIZE): readonly PositionIndex[] {
+  return Array.from({ length: getTotalPositions(gridSize) }, (_, index) => index);
 }
 
 /**
- * Gets a random position index
+ * Gets a random position index for a grid
  */
-export function getRandomPositionIndex(): PositionIndex {
-  return Math.floor(Math.random() * TOTAL_POSITIONS) as PositionIndex;
+export function getRandomPositionIndex(gridSize: GridSize = GRID_SIZE): PositionIndex {
+  return Math.floor(Math.random() * getTotalPositions(gridSize));
+}
+
+/**
+ * Gets a human-readable cell name for accessibility labels.
+ * 3x3 uses named cells ("top-left"); larger grids use row and column.
+ */
+export function getPositionName(index: PositionIndex, gridSize: GridSize = GRID_SIZE): string {
+  if (gridSize === 3) {
+    return CLASSIC_POSITION_NAMES[index] ?? `cell ${index + 1}`;
+  }
+  const { row, col } = createPosition(index, gridSize);
+  return `row ${row + 1}, column ${col + 1}`;
 }
@@ -0,0 +1,123 @@
+/**
+ * ResponseTimeStats Value Object
+ *
+ * Distribution of response times for a session or modality.
+ * RT variability (SD, CV and the exponential tail tau) is a common
+ * marker of lapses in attention, so it is reported next to the mean.
+ */
+
+/**
+ * One histogram bin covering [start, end) milliseconds
+ */
+export interface ResponseTimeBin {
+  readonly start: number;
+  readonly end: number;
+  readonly count: number;
+}
+
+/**
+ * Response time distribution summary
+ */
+export interface ResponseTimeStats {
+  /** Number of responses */
+  readonly count: number;
+  /** Mean response time in milliseconds */
+  readonly mean: number;
+  /** Median response time in milliseconds */
+  readonly median: number;
+  /** Sample standard deviation in milliseconds (0 for a single response) */
+  readonly standardDeviation: number;
+  /** Standard deviation / mean */
+  readonly coefficientOfVariation: number;
+  /** Sample skewness (0 with fewer than three responses) */
+  readonly skewness: number;
+  /** Ex-Gaussian mu: mean of the normal component */
+  readonly mu: number;
+  /** Ex-Gaussian sigma: standard deviation of the normal component */
+  readonly sigma: number;
+  /** Ex-Gaussian tau: mean of the exponential tail (slow responses) */
+  readonly tau: number;
+  /** Counts per fixed-width bin, from the fastest to the slowest response */
+  readonly histogram: readonly ResponseTimeBin[];
+}
+
+/**
+ * Default histogram bin width in milliseconds
+ */
+export const RESPONSE_TIME_BIN_WIDTH = 100;
+
+/**
+ * Median of a sorted, non-empty list
+ */
+function median(sorted: readonly number[]): number {
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1]! + sorted[middle]!) / 2
+    : sorted[middle]!;
+}
+
+/**
+ * Fixed-width histogram aligned to multiples of the bin width
+ */
+function buildHistogram(sorted: readonly number[], binWidth: number): ResponseTimeBin[] {
+  const first = Math.floor(sorted[0]! / binWidth) * binWidth;
+  const last = Math.floor(sorted[sorted.length - 1]! / binWidth) * binWidth;
+  const bins: ResponseTimeBin[] = [];
+
+  for (let start = first; start <= last; start += binWidth) {
+    const end = start + binWidth;
+    bins.push({
+      start,
+      end,
+      count: sorted.filter((rt) => rt >= start && rt < end).length,
+    });
+  }
+  return bins;
+}
+
+/**
+ * Calculates the response time distribution.
+ * Ex-Gaussian parameters are method-of-moments estimates: tau comes
+ * from the skewness, and a symmetric or left-skewed sample has no tail.
+ *
+ * @returns null when there are no response times
+ */
+export function calculateResponseTimeStats(
+  responseTimes: readonly number[],
+  binWidth = RESPONSE_TIME_BIN_WIDTH
+): ResponseTimeStats | null {
+  if (responseTimes.length === 0) {
+    return null;
+  }
+
+  const sorted = [...responseTimes].sort((a, b) => a - b);
+  const count = sorted.length;
+  const mean = sorted.reduce((sum, rt) => sum + rt, 0) / count;
+
+  const squaredDeviations = sorted.reduce((sum, rt) => sum + (rt - mean) ** 2, 0);
+  const variance = count > 1 ? squaredDeviations / (count - 1) : 0;
+  const standardDeviation = Math.sqrt(variance);
+
+  let skewness = 0;
+  if (count > 2 && standardDeviation > 0) {
+    const cubedDeviations = sorted.reduce((sum, rt) => sum + (rt - mean) ** 3, 0);
+    skewness =
+      ((count / ((count - 1) * (count - 2))) * cubedDeviations) / standardDeviation ** 3;
+  }
+
+  const tau = skewness > 0 ? standardDeviation * Math.cbrt(skewness / 2) : 0;
+  const sigma = Math.sqrt(Math.max(0, variance - tau ** 2));
+
+  return {
+    count,
+    mean,
+    median: median(sorted),
+    standardDeviation,
+    coefficientOfVariation: mean > 0 ? standardDeviation / mean : 0,
+    skewness,
+    mu: mean - tau,
+    sigma,
+    tau,
+    histogram: buildHistogram(sorted, binWidth),
+  };
+}
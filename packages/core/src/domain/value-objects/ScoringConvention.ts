@@ -0,0 +1,134 @@
+/**
+ * ScoringConvention Value Object
+ *
+ * How a session's trial counts become the single score users compare.
+ * Different n-back apps score differently, so the convention is a user choice.
+ */
+
+import type { PerformanceStats } from './PerformanceStats';
+import { inverseNormalCDF } from './SignalDetection';
+
+/**
+ * Available scoring conventions
+ * - neuralift: (hits + correct rejections) / trials, averaged over modalities
+ * - brain-workshop: hits / (hits + misses + false alarms), pooled over modalities
+ * - d-prime: mean d-prime over modalities
+ */
+export type ScoringConventionId = 'neuralift' | 'brain-workshop' | 'd-prime';
+
+/**
+ * Unit a convention's scores are expressed in
+ */
+export type ScoreUnit = 'percent' | 'dPrime';
+
+/**
+ * Scoring convention definition
+ */
+export interface ScoringConvention {
+  readonly id: ScoringConventionId;
+  /** Display name */
+  readonly name: string;
+  /** One-line explanation for settings */
+  readonly description: string;
+  readonly unit: ScoreUnit;
+  /** Score for a single modality */
+  scoreChannel(stats: PerformanceStats): number;
+  /** Combined score over the modalities a session tracked */
+  scoreChannels(stats: readonly PerformanceStats[]): number;
+  /**
+   * Express an accuracy threshold (percent, neuralift convention)
+   * in this convention's unit
+   */
+  threshold(minAccuracy: number): number;
+}
+
+const average = (values: readonly number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+/**
+ * Brain Workshop percentage: correct rejections are not credited.
+ * With no hits, misses or false alarms there is nothing to credit, so 0.
+ */
+function brainWorkshopScore(stats: readonly PerformanceStats[]): number {
+  const hits = stats.reduce((sum, s) => sum + s.hits, 0);
+  const counted = stats.reduce((sum, s) => sum + s.hits + s.misses + s.falseAlarms, 0);
+  if (counted > 0) {
+    return (hits / counted) * 100;
+  }
+  // Summaries imported from Brain Workshop carry its percentage but no counts
+  const reported =
+    stats.length > 0 && stats.every((s) => s.reportedConvention === 'brain-workshop');
+  return reported ? average(stats.map((s) => s.accuracy)) : 0;
+}
+
+/**
+ * All scoring conventions in display order
+ */
+export const SCORING_CONVENTIONS: readonly ScoringConvention[] = [
+  {
+    id: 'neuralift',
+    name: 'Neuralift',
+    description: 'Correct responses and correct rejections, averaged across modalities',
+    unit: 'percent',
+    scoreChannel: (stats) => stats.accuracy,
+    scoreChannels: (stats) => average(stats.map((s) => s.accuracy)),
+    threshold: (minAccuracy) => minAccuracy,
+  },
+  {
+    id: 'brain-workshop',
+    name: 'Brain Workshop',
+    description: 'Hits / (hits + misses + false alarms), ignoring correct rejections',
+    unit: 'percent',
+    scoreChannel: (stats) => brainWorkshopScore([stats]),
+    scoreChannels: brainWorkshopScore,
+    threshold: (minAccuracy) => minAccuracy,
+  },
+  {
+    id: 'd-prime',
+    name: "d' (Sensitivity)",
+    description: 'Signal detection sensitivity, unaffected by how often you press',
+    unit: 'dPrime',
+    scoreChannel: (stats) => stats.dPrime,
+    scoreChannels: (stats) => average(stats.map((s) => s.dPrime)),
+    // d' of an unbiased responder at that accuracy: 2 * z(accuracy)
+    threshold: (minAccuracy) =>
+      Number((2 * inverseNormalCDF(minAccuracy / 100)).toFixed(2)),
+  },
+] as const;
+
+/**
+ * Convention used when the user has not chosen one
+ */
+export const DEFAULT_SCORING_CONVENTION: ScoringConventionId = 'neuralift';
+
+/**
+ * Gets the definition for a scoring convention
+ */
+export function getScoringConvention(id: ScoringConventionId): ScoringConvention {
+  return SCORING_CONVENTIONS.find((convention) => convention.id === id)!;
+}
+
+/**
+ * Whether stats can be scored under a convention: stats computed from
+ * trials under any, imported summaries only under the one they were
+ * reported in
+ */
+export function canScoreStats(stats: PerformanceStats, id: ScoringConventionId): boolean {
+  return stats.reportedConvention === undefined || stats.reportedConvention === id;
+}
+
+/**
+ * Type guard for scoring convention IDs
+ */
+export function isValidScoringConvention(value: string): value is ScoringConventionId {
+  return SCORING_CONVENTIONS.some((convention) => convention.id === value);
+}
+
+/**
+ * Formats a score in its convention's unit, e.g. "78%" or "1.84"
+ */
+export function formatScore(score: number, id: ScoringConventionId): string {
+  return getScoringConvention(id).unit === 'percent'
+    ? `${Math.round(score)}%`
+    : score.toFixed(2);
+}
@@ -0,0 +1,193 @@
+/**
+ * SignalDetection
+ *
+ * Signal detection theory measures computed from hit and false alarm counts:
+ * sensitivity (d-prime, A′) and response bias (criterion c, beta, B″).
+ */
+
+/**
+ * How extreme hit and false alarm rates (0 or 1) are corrected
+ * before the z-transform.
+ *
+ * - log-linear: (count + 0.5) / (total + 1) for every rate (Hautus, 1995)
+ * - half-n: 0 becomes 1/(2N) and 1 becomes 1 - 1/(2N); other rates unchanged
+ * - none: raw rates, clamped just short of 0 and 1
+ */
+export type RateCorrection = 'log-linear' | 'half-n' | 'none';
+
+/**
+ * All rate correction methods
+ */
+export const RATE_CORRECTIONS: readonly RateCorrection[] = ['log-linear', 'half-n', 'none'] as const;
+
+/**
+ * Correction applied when none is specified
+ */
+export const DEFAULT_RATE_CORRECTION: RateCorrection = 'log-linear';
+
+/**
+ * Signal detection measures for one set of trials
+ */
+export interface SignalDetectionMeasures {
+  /** Hit rate after correction */
+  readonly hitRate: number;
+  /** False alarm rate after correction */
+  readonly falseAlarmRate: number;
+  /** Sensitivity: z(H) - z(F) */
+  readonly dPrime: number;
+  /** Criterion c: -(z(H) + z(F)) / 2. Positive is conservative, negative liberal */
+  readonly criterion: number;
+  /** Likelihood ratio at the criterion: exp(d' * c). Above 1 is conservative */
+  readonly beta: number;
+  /** Non-parametric sensitivity, 0.5 is chance and 1 is perfect */
+  readonly aPrime: number;
+  /** Non-parametric bias from -1 (liberal) to 1 (conservative) */
+  readonly bDoublePrime: number;
+}
+
+/**
+ * Rates are clamped to this distance from 0 and 1 so z stays finite
+ */
+const RATE_EPSILON = 0.001;
+
+/**
+ * Corrects a rate (count / total) for the chosen method.
+ * An empty group has no information, so it sits at chance (0.5)
+ * unless no correction is applied.
+ */
+export function correctRate(count: number, total: number, correction: RateCorrection): number {
+  if (total <= 0) {
+    return correction === 'none' ? 0 : 0.5;
+  }
+
+  switch (correction) {
+    case 'log-linear':
+      return (count + 0.5) / (total + 1);
+    case 'half-n':
+      if (count <= 0) return 1 / (2 * total);
+      if (count >= total) return 1 - 1 / (2 * total);
+      return count / total;
+    case 'none':
+      return count / total;
+  }
+}
+
+/**
+ * Approximate inverse normal CDF (probit function)
+ * Using Acklam's rational approximation
+ */
+export function inverseNormalCDF(p: number): number {
+  const clampedP = Math.max(RATE_EPSILON, Math.min(1 - RATE_EPSILON, p));
+
+  const a1 = -39.6968302866538;
+  const a2 = 220.946098424521;
+  const a3 = -275.928510446969;
+  const a4 = 138.357751867269;
+  const a5 = -30.6647980661472;
+  const a6 = 2.50662823884;
+
+  const b1 = -54.4760987982241;
+  const b2 = 161.585836858041;
+  const b3 = -155.698979859887;
+  const b4 = 66.8013118877197;
+  const b5 = -13.2806815528857;
+
+  const c1 = -7.78489400243029e-3;
+  const c2 = -0.322396458041136;
+  const c3 = -2.40075827716184;
+  const c4 = -2.54973253934373;
+  const c5 = 4.37466414146497;
+  const c6 = 2.93816398269878;
+
+  const d1 = 7.78469570904146e-3;
+  const d2 = 0.32246712907004;
+  const d3 = 2.445134137143;
+  const d4 = 3.75440866190742;
+
+  const pLow = 0.02425;
+  const pHigh = 1 - pLow;
+
+  let q: number;
+  let r: number;
+
+  if (clampedP < pLow) {
+    q = Math.sqrt(-2 * Math.log(clampedP));
+    return (
+      (((((c1 * q + c2) * q + c3) * q + c4) * q + c5) * q + c6) /
+      ((((d1 * q + d2) * q + d3) * q + d4) * q + 1)
+    );
+  } else if (clampedP <= pHigh) {
+    q = clampedP - 0.5;
+    r = q * q;
+    return (
+      ((((((a1 * r + a2) * r + a3) * r + a4) * r + a5) * r + a6) * q) /
+      (((((b1 * r + b2) * r + b3) * r + b4) * r + b5) * r + 1)
+    );
+  } else {
+    q = Math.sqrt(-2 * Math.log(1 - clampedP));
+    return (
+      -(((((c1 * q + c2) * q + c3) * q + c4) * q + c5) * q + c6) /
+      ((((d1 * q + d2) * q + d3) * q + d4) * q + 1)
+    );
+  }
+}
+
+/**
+ * Non-parametric sensitivity A′ (Pollack & Norman, 1964)
+ */
+function calculateAPrime(hitRate: number, falseAlarmRate: number): number {
+  const h = hitRate;
+  const f = falseAlarmRate;
+  if (h === f) {
+    return 0.5;
+  }
+  if (h > f) {
+    return 0.5 + ((h - f) * (1 + h - f)) / (4 * h * (1 - f));
+  }
+  return 0.5 - ((f - h) * (1 + f - h)) / (4 * f * (1 - h));
+}
+
+/**
+ * Non-parametric bias B″ (Grier, 1971)
+ */
+function calculateBDoublePrime(hitRate: number, falseAlarmRate: number): number {
+  const hitTerm = hitRate * (1 - hitRate);
+  const falseAlarmTerm = falseAlarmRate * (1 - falseAlarmRate);
+  const denominator = hitTerm + falseAlarmTerm;
+  if (denominator === 0) {
+    return 0;
+  }
+  const sign = hitRate >= falseAlarmRate ? 1 : -1;
+  return (sign * (hitTerm - falseAlarmTerm)) / denominator;
+}
+
+/**
+ * Computes every signal detection measure from raw counts.
+ * The correction applies to all measures so they describe the same rates.
+ */
+export function calculateSignalDetection(
+  counts: { hits: number; misses: number; falseAlarms: number; correctRejections: number },
+  correction: RateCorrection = DEFAULT_RATE_CORRECTION
+): SignalDetectionMeasures {
+  const hitRate = correctRate(counts.hits, counts.hits + counts.misses, correction);
+  const falseAlarmRate = correctRate(
+    counts.falseAlarms,
+    counts.falseAlarms + counts.correctRejections,
+    correction
+  );
+
+  const zHit = inverseNormalCDF(hitRate);
+  const zFalseAlarm = inverseNormalCDF(falseAlarmRate);
+  const dPrime = zHit - zFalseAlarm;
+  const criterion = -(zHit + zFalseAlarm) / 2;
+
+  return {
+    hitRate,
+    falseAlarmRate,
+    dPrime,
+    criterion,
+    beta: Math.exp(dPrime * criterion),
+    aPrime: calculateAPrime(hitRate, falseAlarmRate),
+    bDoublePrime: calculateBDoublePrime(hitRate, falseAlarmRate),
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * StimulusChannel Value Object
+ *
+ * A stimulus channel is one stream of stimuli the user tracks for matches:
+ * - position: Square location on the grid
+ * - audio: Spoken letter
+ * - color: Color of the square
+ * - shape: Shape drawn in the square
+ *
+ * Training modes are defined as lists of channels, and per-channel stats,
+ * response buttons and keyboard bindings are all driven from STIMULUS_CHANNELS.
+ */
+
+export type StimulusChannel = 'position' | 'audio' | 'color' | 'shape';
+
+/**
+ * Static description of a stimulus channel
+ */
+export interface StimulusChannelDefinition {
+  readonly id: StimulusChannel;
+  /** Short display name, e.g. "Position" */
+  readonly name: string;
+  /** Keyboard key (upper case) used to claim a match */
+  readonly key: string;
+  /** What the user compares, used in instructions */
+  readonly comparison: string;
+}
+
+/**
+ * All stimulus channels in display order
+ */
+export const STIMULUS_CHANNELS: readonly StimulusChannelDefinition[] = [
+  { id: 'position', name: 'Position', key: 'A', comparison: 'the square is in the same position' },
+  { id: 'audio', name: 'Audio', key: 'L', comparison: 'the letter sounds the same' },
+  { id: 'color', name: 'Color', key: 'F', comparison: 'the square is the same color' },
+  { id: 'shape', name: 'Shape', key: 'J', comparison: 'the shape is the same' },
+] as const;
+
+/**
+ * Colors used for the color channel
+ */
+export const STIMULUS_COLORS: readonly string[] = [
+  'red',
+  'blue',
+  'green',
+  'yellow',
+  'purple',
+  'orange',
+  'pink',
+  'white',
+] as const;
+
+/**
+ * Shapes used for the shape channel
+ */
+export const STIMULUS_SHAPES: readonly string[] = [
+  'circle',
+  'square',
+  'triangle',
+  'diamond',
+  'star',
+  'hexagon',
+  'cross',
+  'heart',
+] as const;
+
+/**
+ * Gets the definition for a stimulus channel
+ */
+export function getStimulusChannel(channel: StimulusChannel): StimulusChannelDefinition {
+  return STIMULUS_CHANNELS.find((definition) => definition.id === channel)!;
+}
+
+/**
+ * Finds the channel bound to a keyboard key (case-insensitive)
+ */
+export function getChannelForKey(
+  key: string,
+  channels: readonly StimulusChannel[]
+): StimulusChannel | null {
+  const upper = key.toUpperCase();
+  return channels.find((channel) => getStimulusChannel(channel).key === upper) ?? null;
+}
@@ -5,9 +5,13 @@
  * - single-position: Track position matches only
  * - single-audio: Track audio (letter) matches only
  * - dual: Track both position AND audio matches simultaneously
+ * - triple: Track position, audio and color
+ * - quad: Track position, audio, color and shape
  */
 
-export type TrainingMode = 'single-position' | 'single-audio' | 'dual';
+import type { StimulusChannel } from './StimulusChannel';
+
+export type TrainingMode = 'single-position' | 'single-audio' | 'dual' | 'triple' | 'quad';
 
 /**
  * All available training modes
@@ -16,8 +20,21 @@ export const TRAINING_MODES: readonly TrainingMode[] = [
   'single-position',
   'single-audio',
   'dual',
+  'triple',
+  'quad',
 ] as const;
 
+/**
+ * Stimulus channels tracked by each training mode, in display order
+ */
+const MODE_CHANNELS: Record<TrainingMode, readonly StimulusChannel[]> = {
+  'single-position': ['position'],
+  'single-audio': ['audio'],
+  dual: ['position', 'audio'],
+  triple: ['position', 'audio', 'color'],
+  quad: ['position', 'audio', 'color', 'shape'],
+};
+
 /**
  * Validates if a string is a valid training mode
  */
@@ -36,19 +53,37 @@ export function getTrainingModeName(mode: TrainingMode): string {
       return 'Audio Only';
     case 'dual':
       return 'Dual N-Back';
+    case 'triple':
+      return 'Triple N-Back';
+    case 'quad':
+      return 'Quad N-Back';
   }
 }
 
+/**
+ * Returns the stimulus channels tracked by a training mode
+ */
+export function getModeChannels(mode: TrainingMode): readonly StimulusChannel[] {
+  return MODE_CHANNELS[mode];
+}
+
+/**
+ * Checks if a training mode tracks a stimulus channel
+ */
+export function modeIncludesChannel(mode: TrainingMode, channel: StimulusChannel): boolean {
+  return MODE_CHANNELS[mode].includes(channel);
+}
+
 /**
  * Checks if a training mode includes position tracking
  */
 export function modeIncludesPosition(mode: TrainingMode): boolean {
-  return mode === 'single-position' || mode === 'dual';
+  return modeIncludesChannel(mode, 'position');
 }
 
 /**
  * Checks if a training mode includes audio tracking
  */
 export function modeIncludesAudio(mode: TrainingMode): boolean {
-  return mode === 'single-audio' || mode === 'dual';
+  return modeIncludesChannel(mode, 'audio');
 }
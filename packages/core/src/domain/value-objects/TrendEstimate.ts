@@ -0,0 +1,310 @@
+/**
+ * TrendEstimate Value Object
+ *
+ * Linear trends with confidence intervals, and plateau detection from a
+ * single change point in a piecewise-linear fit. Both refuse to conclude
+ * anything from too few data points.
+ */
+
+/**
+ * Direction of a trend, where "improving" means moving the better way
+ */
+export type TrendDirection = 'improving' | 'stable' | 'declining';
+
+/**
+ * What one step of the regression's x axis represents
+ */
+export type TrendAxis = 'session' | 'day';
+
+/**
+ * Fewest points a trend is estimated from
+ */
+export const MIN_TREND_SAMPLES = 5;
+
+/**
+ * Fewest sessions on each side of a change point, and in a plateau
+ */
+export const MIN_PLATEAU_SAMPLES = 5;
+
+/**
+ * Two-sided confidence level of trend intervals
+ */
+export const TREND_CONFIDENCE = 0.95;
+
+/**
+ * Least-squares trend of a series
+ */
+export interface TrendEstimate {
+  readonly direction: TrendDirection;
+  /** Change per step of the axis (0 when there is too little data) */
+  readonly slope: number;
+  /** Standard error of the slope */
+  readonly standardError: number;
+  /** Lower bound of the slope's confidence interval */
+  readonly lower: number;
+  /** Upper bound of the slope's confidence interval */
+  readonly upper: number;
+  readonly axis: TrendAxis;
+  /** Number of points the estimate used */
+  readonly sampleSize: number;
+  /** False when there were fewer than the minimum samples; the direction is then 'stable' */
+  readonly sufficientData: boolean;
+}
+
+/**
+ * A run of recent sessions without a meaningful trend
+ */
+export interface PlateauEstimate {
+  readonly detected: boolean;
+  /** Index of the first session of the plateau */
+  readonly startIndex: number | null;
+  /** Sessions in the plateau */
+  readonly length: number;
+  /** Mean value over the plateau */
+  readonly level: number | null;
+  /** Trend within the plateau */
+  readonly trend: TrendEstimate | null;
+  /** Index where a change point split the history, null when the whole history is one segment */
+  readonly changePointIndex: number | null;
+}
+
+/**
+ * Options for trend estimation
+ */
+export interface TrendOptions {
+  /** Whether higher values are better (default true; false for response times) */
+  readonly higherIsBetter?: boolean;
+  readonly axis?: TrendAxis;
+  readonly minSamples?: number;
+}
+
+/**
+ * Two-sided 95% critical values of Student's t for 1-10 degrees of freedom
+ */
+const T_CRITICAL_95 = [12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228];
+
+/**
+ * Two-sided 95% critical value of Student's t.
+ * Tabulated up to 10 degrees of freedom, Cornish-Fisher expansion beyond.
+ */
+function tCritical95(degreesOfFreedom: number): number {
+  const tabulated = T_CRITICAL_95[degreesOfFreedom - 1];
+  if (tabulated !== undefined) return tabulated;
+
+  const z = 1.959964;
+  const df = degreesOfFreedom;
+  return (
+    z +
+    (z ** 3 + z) / (4 * df) +
+    (5 * z ** 5 + 16 * z ** 3 + 3 * z) / (96 * df ** 2) +
+    (3 * z ** 7 + 19 * z ** 5 + 17 * z ** 3 - 15 * z) / (384 * df ** 3)
+  );
+}
+
+/**
+ * Ordinary least squares fit of y on x
+ */
+function fitLine(
+  xs: readonly number[],
+  ys: readonly number[]
+): { slope: number; intercept: number; sse: number; sxx: number } {
+  const n = xs.length;
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+
+  let sxx = 0;
+  let sxy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (xs[i]! - meanX) ** 2;
+    sxy += (xs[i]! - meanX) * (ys[i]! - meanY);
+  }
+
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const intercept = meanY - slope * meanX;
+  const sse = ys.reduce((sum, y, i) => sum + (y - (intercept + slope * xs[i]!)) ** 2, 0);
+  return { slope, intercept, sse, sxx };
+}
+
+/**
+ * Creates an estimate for a series too short to fit
+ */
+function insufficientTrend(axis: TrendAxis, sampleSize: number): TrendEstimate {
+  return {
+    direction: 'stable',
+    slope: 0,
+    standardError: 0,
+    lower: 0,
+    upper: 0,
+    axis,
+    sampleSize,
+    sufficientData: false,
+  };
+}
+
+/**
+ * Creates the estimate used before any data exists
+ */
+export function createEmptyTrendEstimate(axis: TrendAxis = 'session'): TrendEstimate {
+  return insufficientTrend(axis, 0);
+}
+
+/**
+ * Estimates the linear trend of y over x with a 95% confidence interval.
+ * The trend is improving or declining only when the interval excludes zero.
+ */
+export function estimateTrend(
+  xs: readonly number[],
+  ys: readonly number[],
+  options: TrendOptions = {}
+): TrendEstimate {
+  const axis = options.axis ?? 'session';
+  const minSamples = Math.max(3, options.minSamples ?? MIN_TREND_SAMPLES);
+  const n = Math.min(xs.length, ys.length);
+
+  if (n < minSamples) {
+    return insufficientTrend(axis, n);
+  }
+
+  const { slope, sse, sxx } = fitLine(xs.slice(0, n), ys.slice(0, n));
+  if (sxx === 0) {
+    return insufficientTrend(axis, n);
+  }
+
+  const standardError = Math.sqrt(sse / (n - 2) / sxx);
+  const margin = tCritical95(n - 2) * standardError;
+  const lower = slope - margin;
+  const upper = slope + margin;
+
+  const rising: TrendDirection = options.higherIsBetter === false ? 'declining' : 'improving';
+  const falling: TrendDirection = options.higherIsBetter === false ? 'improving' : 'declining';
+
+  return {
+    direction: lower > 0 ? rising : upper < 0 ? falling : 'stable',
+    slope,
+    standardError,
+    lower,
+    upper,
+    axis,
+    sampleSize: n,
+    sufficientData: true,
+  };
+}
+
+/**
+ * Trend of a series over its index (one step per session)
+ */
+export function estimateSessionTrend(
+  values: readonly number[],
+  options: Omit<TrendOptions, 'axis'> = {}
+): TrendEstimate {
+  return estimateTrend(
+    values.map((_, i) => i),
+    values,
+    { ...options, axis: 'session' }
+  );
+}
+
+/**
+ * Trend of dated values over time (one step per day)
+ */
+export function estimateTimeTrend(
+  points: readonly { date: Date; value: number }[],
+  options: Omit<TrendOptions, 'axis'> = {}
+): TrendEstimate {
+  const start = points[0]?.date.getTime() ?? 0;
+  return estimateTrend(
+    points.map((point) => (point.date.getTime() - start) / (24 * 60 * 60 * 1000)),
+    points.map((point) => point.value),
+    { ...options, axis: 'day' }
+  );
+}
+
+/**
+ * Finds the single change point of a piecewise-linear fit over the index.
+ * A split is kept only when it lowers the Bayesian information criterion
+ * of one line over the whole series.
+ *
+ * @returns index of the first point after the change, or null
+ */
+export function detectChangePoint(
+  values: readonly number[],
+  minSegment = MIN_PLATEAU_SAMPLES
+): number | null {
+  const n = values.length;
+  if (n < minSegment * 2) return null;
+
+  const xs = values.map((_, i) => i);
+  // Floor on the residual error so a perfect fit does not dominate the criterion
+  const floor = 1e-6 * n;
+  const bic = (sse: number, parameters: number) =>
+    n * Math.log(Math.max(sse, floor) / n) + parameters * Math.log(n);
+
+  const single = bic(fitLine(xs, values).sse, 2);
+  let best: { index: number; bic: number } | null = null;
+
+  for (let index = minSegment; index <= n - minSegment; index++) {
+    const before = fitLine(xs.slice(0, index), values.slice(0, index));
+    const after = fitLine(xs.slice(index), values.slice(index));
+    // Two lines plus the change point location
+    const split = bic(before.sse + after.sse, 5);
+    if (!best || split < best.bic) {
+      best = { index, bic: split };
+    }
+  }
+
+  return best && best.bic < single ? best.index : null;
+}
+
+/**
+ * Detects a plateau: the sessions since the last change point (or the whole
+ * history when there is none) show no trend either way.
+ */
+export function detectPlateau(
+  values: readonly number[],
+  minSamples = MIN_PLATEAU_SAMPLES
+): PlateauEstimate {
+  const changePointIndex = detectChangePoint(values, minSamples);
+  const startIndex = changePointIndex ?? 0;
+  const segment = values.slice(startIndex);
+
+  // Without a change point, only a longer flat history counts as a plateau
+  const required = changePointIndex === null ? minSamples * 2 : minSamples;
+  if (segment.length < required) {
+    return {
+      detected: false,
+      startIndex: null,
+      length: 0,
+      level: null,
+      trend: null,
+      changePointIndex,
+    };
+  }
+
+  const trend = estimateSessionTrend(segment, { minSamples });
+  const detected = trend.sufficientData && trend.direction === 'stable';
+  return {
+    detected,
+    startIndex: detected ? startIndex : null,
+    length: detected ? segment.length : 0,
+    level: detected ? segment.reduce((sum, v) => sum + v, 0) / segment.length : null,
+    trend,
+    changePointIndex,
+  };
+}
+
+/**
+ * Describes a trend with its slope and interval,
+ * e.g. "improving: +1.6 %/session (95% CI +1.3 to +1.9, n=12)"
+ */
+export function describeTrend(estimate: TrendEstimate, unit = ''): string {
+  if (!estimate.sufficientData) {
+    return `not enough data (${estimate.sampleSize} of ${MIN_TREND_SAMPLES} needed)`;
+  }
+  const signed = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+  const per = `${unit}/${estimate.axis}`;
+  return (
+    `${estimate.direction}: ${signed(estimate.slope)} ${per} ` +
+    `(${TREND_CONFIDENCE * 100}% CI ${signed(estimate.lower)} to ${signed(estimate.upper)}, ` +
+    `n=${estimate.sampleSize})`
+  );
+}
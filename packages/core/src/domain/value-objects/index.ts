@@ -7,5 +7,12 @@
 
 export * from './NBackLevel';
 export * from './TrainingMode';
+export * from './StimulusChannel';
 export * from './PerformanceStats';
+export * from './SignalDetection';
+export * from './ResponseTimeStats';
+export * from './ScoringConvention';
+export * from './DailyGoal';
 export * from './Position';
+export * from './Lure';
+export * from './TrendEstimate';
@@ -11,8 +11,35 @@ import type { IAnalyticsRepository } from './ports/IAnalyticsRepository';
 import type { IAudioPlayer } from './ports/IAudioPlayer';
 import type { ILLMService } from './ports/ILLMService';
 import type { IEventBus } from './ports/IEventBus';
+import type { ICustomLevelRepository } from './ports/ICustomLevelRepository';
+import type { IRecordRepository } from './ports/IRecordRepository';
 import { SequenceGenerator, createSequenceGenerator } from './services/SequenceGenerator';
 import { ScoringService, createScoringService } from './services/ScoringService';
+import { ProgressionService, createProgressionService } from './services/ProgressionService';
+import { AdaptiveNBackPolicy, createAdaptiveNBackPolicy } from './services/AdaptiveNBackPolicy';
+import { CustomLevelService, createCustomLevelService } from './services/CustomLevelService';
+import { RecordsService, createRecordsService } from './services/RecordsService';
+import { ProfileAnalyzer, createProfileAnalyzer } from './services/ProfileAnalyzer';
+import { ProgramService, createProgramService } from './services/ProgramService';
+import { DailyGoalService, createDailyGoalService } from './services/DailyGoalService';
+import {
+  ResearchExportService,
+  createResearchExportService,
+} from './services/ResearchExportService';
+import {
+  SessionImportService,
+  createSessionImportService,
+} from './services/SessionImportService';
+import {
+  RecommendationEngine,
+  createRecommendationEngine,
+} from './services/RecommendationEngine';
+import { createActiveSessionRegistry } from './use-cases/ActiveSessionRegistry';
+import { StartSession, createStartSession, type SessionIdGenerator } from './use-cases/StartSession';
+import { RecordResponse, createRecordResponse } from './use-cases/RecordResponse';
+import { CompleteSession, createCompleteSession } from './use-cases/CompleteSession';
+import { DiscardSession, createDiscardSession } from './use-cases/DiscardSession';
+import { GetRecommendations, createGetRecommendations } from './use-cases/GetRecommendations';
 
 /**
  * Port adapters required to create a CoreFactory instance
@@ -24,6 +51,10 @@ export interface CoreDependencies {
   audioPlayer: IAudioPlayer;
   llmService: ILLMService;
   eventBus: IEventBus;
+  customLevelRepository: ICustomLevelRepository;
+  recordRepository: IRecordRepository;
+  /** Session ID generator (defaults to a time-ordered random ID) */
+  generateSessionId?: SessionIdGenerator;
 }
 
 /**
@@ -32,6 +63,27 @@ export interface CoreDependencies {
 export interface CoreServices {
   readonly sequenceGenerator: SequenceGenerator;
   readonly scoringService: ScoringService;
+  readonly progressionService: ProgressionService;
+  readonly adaptivePolicy: AdaptiveNBackPolicy;
+  readonly customLevels: CustomLevelService;
+  readonly records: RecordsService;
+  readonly profileAnalyzer: ProfileAnalyzer;
+  readonly recommendationEngine: RecommendationEngine;
+  readonly programs: ProgramService;
+  readonly dailyGoals: DailyGoalService;
+  readonly researchExport: ResearchExportService;
+  readonly sessionImport: SessionImportService;
+}
+
+/**
+ * Session use cases - drive a full session without any UI framework
+ */
+export interface CoreUseCases {
+  readonly startSession: StartSession;
+  readonly recordResponse: RecordResponse;
+  readonly completeSession: CompleteSession;
+  readonly discardSession: DiscardSession;
+  readonly getRecommendations: GetRecommendations;
 }
 
 /**
@@ -41,6 +93,8 @@ export interface CoreRepositories {
   readonly session: ISessionRepository;
   readonly progress: IProgressRepository;
   readonly analytics: IAnalyticsRepository;
+  readonly customLevels: ICustomLevelRepository;
+  readonly records: IRecordRepository;
 }
 
 /**
@@ -49,6 +103,7 @@ export interface CoreRepositories {
 export interface CoreFactory {
   readonly dependencies: CoreDependencies;
   readonly services: CoreServices;
+  readonly useCases: CoreUseCases;
   readonly repositories: CoreRepositories;
   readonly audioPlayer: IAudioPlayer;
   readonly llmService: ILLMService;
@@ -62,17 +117,70 @@ export function createCoreFactory(dependencies: CoreDependencies): CoreFactory {
   const services: CoreServices = {
     sequenceGenerator: createSequenceGenerator(),
     scoringService: createScoringService(),
+    progressionService: createProgressionService(
+      dependencies.progressRepository,
+      dependencies.sessionRepository,
+      dependencies.eventBus
+    ),
+    adaptivePolicy: createAdaptiveNBackPolicy(),
+    customLevels: createCustomLevelService(dependencies.customLevelRepository),
+    records: createRecordsService(
+      dependencies.recordRepository,
+      dependencies.sessionRepository,
+      dependencies.eventBus
+    ),
+    profileAnalyzer: createProfileAnalyzer(),
+    recommendationEngine: createRecommendationEngine(),
+    programs: createProgramService(
+      dependencies.progressRepository,
+      dependencies.sessionRepository
+    ),
+    dailyGoals: createDailyGoalService(dependencies.sessionRepository),
+    researchExport: createResearchExportService(dependencies.sessionRepository),
+    sessionImport: createSessionImportService(dependencies.sessionRepository),
+  };
+
+  const activeSessions = createActiveSessionRegistry();
+  const useCases: CoreUseCases = {
+    startSession: createStartSession(
+      services.sequenceGenerator,
+      dependencies.eventBus,
+      activeSessions,
+      dependencies.generateSessionId,
+      (levelId) => services.customLevels.resolve(levelId)
+    ),
+    recordResponse: createRecordResponse(dependencies.eventBus, activeSessions),
+    completeSession: createCompleteSession(
+      services.scoringService,
+      services.progressionService,
+      services.records,
+      services.dailyGoals,
+      dependencies.sessionRepository,
+      dependencies.progressRepository,
+      dependencies.eventBus,
+      activeSessions
+    ),
+    discardSession: createDiscardSession(activeSessions),
+    getRecommendations: createGetRecommendations(
+      services.recommendationEngine,
+      services.progressionService,
+      dependencies.sessionRepository,
+      dependencies.progressRepository
+    ),
   };
 
   const repositories: CoreRepositories = {
     session: dependencies.sessionRepository,
     progress: dependencies.progressRepository,
     analytics: dependencies.analyticsRepository,
+    customLevels: dependencies.customLevelRepository,
+    records: dependencies.recordRepository,
   };
 
   return {
     dependencies,
     services,
+    useCases,
     repositories,
     audioPlayer: dependencies.audioPlayer,
     llmService: dependencies.llmService,
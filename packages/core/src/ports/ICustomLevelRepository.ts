@@ -0,0 +1,29 @@
+/**
+ * ICustomLevelRepository Port
+ *
+ * Interface for persisting user-defined levels.
+ */
+
+import type { CustomLevel } from '../config/levels';
+
+export interface ICustomLevelRepository {
+  /**
+   * Create or update a custom level
+   */
+  save(level: CustomLevel): Promise<void>;
+
+  /**
+   * Find a custom level by its ID
+   */
+  findById(levelId: string): Promise<CustomLevel | null>;
+
+  /**
+   * Find all custom levels, oldest first
+   */
+  findAll(): Promise<CustomLevel[]>;
+
+  /**
+   * Delete a custom level
+   */
+  delete(levelId: string): Promise<void>;
+}
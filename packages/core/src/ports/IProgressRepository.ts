@@ -4,6 +4,8 @@
  * Interface for persisting and retrieving user progress data.
  */
 
+import type { ProgramEnrollment } from '../domain/entities/TrainingProgram';
+
 /**
  * User progress data structure
  */
@@ -22,6 +24,8 @@ export interface UserProgress {
   longestStreak: number;
   /** Date of last session, null if never */
   lastSessionDate: Date | null;
+  /** Training program the user follows, absent or null when none */
+  activeProgram?: ProgramEnrollment | null;
 }
 
 export interface IProgressRepository {
@@ -0,0 +1,30 @@
+/**
+ * IRecordRepository Port
+ *
+ * Interface for persisting personal records.
+ * Records are derived from sessions, so storage is a cache that can be rebuilt.
+ */
+
+import type { PersonalRecord } from '../domain/entities/PersonalRecord';
+
+export interface IRecordRepository {
+  /**
+   * Create or replace records (one per level and record type)
+   */
+  saveAll(records: PersonalRecord[]): Promise<void>;
+
+  /**
+   * Find the records held for a level
+   */
+  findByLevel(levelId: string): Promise<PersonalRecord[]>;
+
+  /**
+   * Find every record
+   */
+  findAll(): Promise<PersonalRecord[]>;
+
+  /**
+   * Delete all records
+   */
+  clear(): Promise<void>;
+}
@@ -7,6 +7,20 @@
 
 import type { SessionResult } from '../domain/entities/Session';
 
+/**
+ * Filters for a stats-only session query; all are optional
+ */
+export interface SessionStatsQuery {
+  /** Only sessions of this level */
+  readonly levelId?: string;
+  /** Only sessions from this date on (inclusive) */
+  readonly start?: Date;
+  /** Only sessions up to this date (inclusive) */
+  readonly end?: Date;
+  /** Only this many of the most recent sessions */
+  readonly limit?: number;
+}
+
 export interface ISessionRepository {
   /**
    * Save a session result to storage
@@ -23,6 +37,11 @@ export interface ISessionRepository {
    */
   findByLevel(levelId: string): Promise<SessionResult[]>;
 
+  /**
+   * Find every session, sorted by date ascending
+   */
+  findAll(): Promise<SessionResult[]>;
+
   /**
    * Find recent sessions, sorted by date descending
    */
@@ -33,6 +52,12 @@ export interface ISessionRepository {
    */
   findByDateRange(start: Date, end: Date): Promise<SessionResult[]>;
 
+  /**
+   * Find sessions without their trials, sorted by date ascending, for
+   * callers that only read stats. Results have empty trials.
+   */
+  findStats(query?: SessionStatsQuery): Promise<SessionResult[]>;
+
   /**
    * Get total count of sessions
    */
@@ -11,3 +11,5 @@ export * from './IAnalyticsRepository';
 export * from './IAudioPlayer';
 export * from './ILLMService';
 export * from './IEventBus';
+export * from './ICustomLevelRepository';
+export * from './IRecordRepository';
@@ -0,0 +1,140 @@
+/**
+ * AdaptiveNBackPolicy
+ *
+ * Jaeggi-style adaptive difficulty rules.
+ * Decides the N-back level for the next block from the errors made in the last one.
+ */
+
+import type { SessionResult } from '../domain/entities/Session';
+import { getSessionChannelStats } from '../domain/entities/Session';
+import type { NBackLevel } from '../domain/value-objects/NBackLevel';
+import type { PerformanceStats } from '../domain/value-objects/PerformanceStats';
+import { getModeChannels, modeIncludesChannel } from '../domain/value-objects/TrainingMode';
+import { STIMULUS_CHANNELS, type StimulusChannel } from '../domain/value-objects/StimulusChannel';
+
+/**
+ * Thresholds for adaptive level changes
+ */
+export interface AdaptivePolicyConfig {
+  /** Raise N when every modality has fewer errors than this (default: 3) */
+  raiseBelowErrors: number;
+  /** Lower N when any modality has more errors than this (default: 5) */
+  lowerAboveErrors: number;
+  /** Lowest N the policy will move to (default: 1) */
+  minNBack: NBackLevel;
+  /** Highest N the policy will move to (default: 9) */
+  maxNBack: NBackLevel;
+}
+
+/**
+ * Errors (misses + false alarms) per modality for a block.
+ * Null when the modality was not part of the block.
+ */
+export type BlockErrors = Record<StimulusChannel, number | null>;
+
+/**
+ * Outcome of evaluating a block
+ */
+export interface AdaptiveDecision {
+  /** N-back level the block was played at */
+  previousNBack: NBackLevel;
+  /** N-back level to use for the next block */
+  nextNBack: NBackLevel;
+  /** Direction of the change */
+  direction: 'up' | 'down' | 'hold';
+  /** Errors counted per modality */
+  errors: BlockErrors;
+}
+
+const DEFAULT_CONFIG: AdaptivePolicyConfig = {
+  raiseBelowErrors: 3,
+  lowerAboveErrors: 5,
+  minNBack: 1,
+  maxNBack: 9,
+};
+
+/**
+ * AdaptiveNBackPolicy
+ *
+ * Pure rule object - carries no state between blocks.
+ * Callers feed each completed block in and keep the returned N.
+ */
+export class AdaptiveNBackPolicy {
+  private readonly config: AdaptivePolicyConfig;
+
+  constructor(config: Partial<AdaptivePolicyConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Decide the next N-back level from a completed block
+   */
+  evaluate(result: SessionResult): AdaptiveDecision {
+    const errors = this.countBlockErrors(result);
+    const counted = getModeChannels(result.mode)
+      .map((channel) => errors[channel])
+      .filter((count): count is number => count !== null);
+
+    const previousNBack = result.nBack;
+    let direction: AdaptiveDecision['direction'] = 'hold';
+
+    if (counted.length > 0) {
+      if (counted.some((count) => count > this.config.lowerAboveErrors)) {
+        direction = 'down';
+      } else if (counted.every((count) => count < this.config.raiseBelowErrors)) {
+        direction = 'up';
+      }
+    }
+
+    const nextNBack = this.applyDirection(previousNBack, direction);
+
+    return {
+      previousNBack,
+      nextNBack,
+      direction: nextNBack === previousNBack ? 'hold' : direction,
+      errors,
+    };
+  }
+
+  /**
+   * Count errors per modality included in the block's training mode
+   */
+  countBlockErrors(result: SessionResult): BlockErrors {
+    const errors = {} as BlockErrors;
+    for (const { id: channel } of STIMULUS_CHANNELS) {
+      errors[channel] = modeIncludesChannel(result.mode, channel)
+        ? this.countErrors(getSessionChannelStats(result, channel))
+        : null;
+    }
+    return errors;
+  }
+
+  /**
+   * Errors for a single modality: misses plus false alarms
+   */
+  countErrors(stats: PerformanceStats): number {
+    return stats.misses + stats.falseAlarms;
+  }
+
+  private applyDirection(
+    nBack: NBackLevel,
+    direction: AdaptiveDecision['direction']
+  ): NBackLevel {
+    if (direction === 'up') {
+      return Math.min(nBack + 1, this.config.maxNBack) as NBackLevel;
+    }
+    if (direction === 'down') {
+      return Math.max(nBack - 1, this.config.minNBack) as NBackLevel;
+    }
+    return nBack;
+  }
+}
+
+/**
+ * Factory function to create an AdaptiveNBackPolicy instance
+ */
+export function createAdaptiveNBackPolicy(
+  config: Partial<AdaptivePolicyConfig> = {}
+): AdaptiveNBackPolicy {
+  return new AdaptiveNBackPolicy(config);
+}
@@ -0,0 +1,199 @@
+/**
+ * CustomLevelService
+ *
+ * Creates, edits and deletes user-defined levels, and resolves level IDs
+ * across the built-in catalog and the user's own levels.
+ */
+
+import type { NBackLevel } from '../domain/value-objects/NBackLevel';
+import { isValidNBackLevel } from '../domain/value-objects/NBackLevel';
+import type { TrainingMode } from '../domain/value-objects/TrainingMode';
+import { isValidTrainingMode } from '../domain/value-objects/TrainingMode';
+import type { ICustomLevelRepository } from '../ports/ICustomLevelRepository';
+import type { CustomLevel, LevelConfig } from '../config/levels';
+import {
+  CUSTOM_LEVEL_ID_PREFIX,
+  CUSTOM_LEVEL_LIMITS,
+  getLevelById,
+  isCustomLevelId,
+} from '../config/levels';
+
+/**
+ * Settings a user chooses when building a level
+ */
+export interface CustomLevelInput {
+  name: string;
+  nBack: NBackLevel;
+  mode: TrainingMode;
+  trialCount: number;
+  trialDuration: number;
+  matchProbability: number;
+  /** Defaults to a summary of the settings */
+  description?: string;
+}
+
+/**
+ * Default ID suffix generator (time-ordered with a random suffix)
+ */
+function generateLevelIdSuffix(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Lists the problems with a custom level input, empty when valid
+ */
+export function validateCustomLevelInput(input: CustomLevelInput): string[] {
+  const errors: string[] = [];
+  const limits = CUSTOM_LEVEL_LIMITS;
+
+  if (input.name.trim().length === 0) {
+    errors.push('Name is required');
+  }
+  if (!isValidNBackLevel(input.nBack)) {
+    errors.push('N must be between 1 and 9');
+  }
+  if (!isValidTrainingMode(input.mode)) {
+    errors.push(`Unknown mode: ${input.mode}`);
+  }
+  if (
+    !Number.isInteger(input.trialCount) ||
+    input.trialCount < limits.minTrialCount ||
+    input.trialCount > limits.maxTrialCount
+  ) {
+    errors.push(
+      `Trial count must be a whole number between ${limits.minTrialCount} and ${limits.maxTrialCount}`
+    );
+  }
+  if (input.trialCount <= input.nBack) {
+    errors.push('Trial count must be greater than N');
+  }
+  if (
+    input.trialDuration < limits.minTrialDuration ||
+    input.trialDuration > limits.maxTrialDuration
+  ) {
+    errors.push(
+      `Trial duration must be between ${limits.minTrialDuration} and ${limits.maxTrialDuration} ms`
+    );
+  }
+  if (
+    input.matchProbability < limits.minMatchProbability ||
+    input.matchProbability > limits.maxMatchProbability
+  ) {
+    errors.push(
+      `Match rate must be between ${limits.minMatchProbability * 100}% and ${limits.maxMatchProbability * 100}%`
+    );
+  }
+
+  return errors;
+}
+
+/**
+ * CustomLevelService
+ *
+ * Validates level settings before they reach the repository.
+ * Invalid input throws with every problem listed.
+ */
+export class CustomLevelService {
+  constructor(
+    private readonly repository: ICustomLevelRepository,
+    private readonly generateIdSuffix: () => string = generateLevelIdSuffix
+  ) {}
+
+  /**
+   * All custom levels, oldest first
+   */
+  async list(): Promise<CustomLevel[]> {
+    return this.repository.findAll();
+  }
+
+  /**
+   * Find a custom level by ID
+   */
+  async get(levelId: string): Promise<CustomLevel | null> {
+    return this.repository.findById(levelId);
+  }
+
+  /**
+   * Create and persist a new custom level
+   */
+  async create(input: CustomLevelInput): Promise<CustomLevel> {
+    this.assertValid(input);
+
+    const now = new Date();
+    const id = `${CUSTOM_LEVEL_ID_PREFIX}${this.generateIdSuffix()}`;
+    const level = this.buildLevel(id, input, now, now);
+    await this.repository.save(level);
+    return level;
+  }
+
+  /**
+   * Replace the settings of an existing custom level
+   */
+  async update(levelId: string, input: CustomLevelInput): Promise<CustomLevel> {
+    const existing = await this.repository.findById(levelId);
+    if (!existing) {
+      throw new Error(`Custom level not found: ${levelId}`);
+    }
+    this.assertValid(input);
+
+    const level = this.buildLevel(levelId, input, existing.createdAt, new Date());
+    await this.repository.save(level);
+    return level;
+  }
+
+  /**
+   * Delete a custom level. Sessions played on it are kept.
+   */
+  async delete(levelId: string): Promise<void> {
+    await this.repository.delete(levelId);
+  }
+
+  /**
+   * Resolve a level ID to a built-in or custom level
+   */
+  async resolve(levelId: string): Promise<LevelConfig | undefined> {
+    const builtIn = getLevelById(levelId);
+    if (builtIn || !isCustomLevelId(levelId)) {
+      return builtIn;
+    }
+    return (await this.repository.findById(levelId)) ?? undefined;
+  }
+
+  private assertValid(input: CustomLevelInput): void {
+    const errors = validateCustomLevelInput(input);
+    if (errors.length > 0) {
+      throw new Error(`Invalid custom level: ${errors.join('; ')}`);
+    }
+  }
+
+  private buildLevel(
+    id: string,
+    input: CustomLevelInput,
+    createdAt: Date,
+    updatedAt: Date
+  ): CustomLevel {
+    const description = input.description?.trim();
+    return {
+      id,
+      name: input.name.trim(),
+      nBack: input.nBack,
+      mode: input.mode,
+      description:
+        description ||
+        `${input.nBack}-back, ${input.trialCount} trials, ${Math.round(input.matchProbability * 100)}% match rate`,
+      trialCount: input.trialCount,
+      trialDuration: input.trialDuration,
+      matchProbability: input.matchProbability,
+      custom: true,
+      createdAt,
+      updatedAt,
+    };
+  }
+}
+
+/**
+ * Factory function to create a CustomLevelService instance
+ */
+export function createCustomLevelService(repository: ICustomLevelRepository): CustomLevelService {
+  return new CustomLevelService(repository);
+}
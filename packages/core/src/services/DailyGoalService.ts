@@ -0,0 +1,82 @@
+/**
+ * DailyGoalService
+ *
+ * Groups the stored sessions into training days against the user's
+ * daily goal, and derives goal streaks from them.
+ */
+
+import type { GoalStreak, TrainingDay } from '../domain/entities/TrainingDay';
+import {
+  createTrainingDay,
+  getGoalStreak,
+  groupTrainingDays,
+} from '../domain/entities/TrainingDay';
+import { countsTowardProgress } from '../domain/entities/Session';
+import type { DailyGoal } from '../domain/value-objects/DailyGoal';
+import type { ISessionRepository } from '../ports/ISessionRepository';
+
+/**
+ * DailyGoalService
+ *
+ * Read-only over the session repository; goals are passed in because
+ * they are a user setting, not part of the session history. Sessions
+ * imported from other apps count only when includeImported is set.
+ */
+export class DailyGoalService {
+  constructor(private readonly sessionRepository: ISessionRepository) {}
+
+  /**
+   * Training days in a date range (every stored day without one), oldest first
+   */
+  async getTrainingDays(
+    goal: DailyGoal,
+    start?: Date,
+    end?: Date,
+    includeImported = false
+  ): Promise<TrainingDay[]> {
+    const sessions = await this.sessionRepository.findStats(start && end ? { start, end } : {});
+    return groupTrainingDays(
+      sessions.filter((session) => countsTowardProgress(session, includeImported)),
+      goal
+    );
+  }
+
+  /**
+   * Today's training day, empty when nothing was completed yet
+   */
+  async getToday(
+    goal: DailyGoal,
+    now: Date = new Date(),
+    includeImported = false
+  ): Promise<TrainingDay> {
+    const start = new Date(now);
+    start.setHours(0, 0, 0, 0);
+    const sessions = await this.sessionRepository.findStats({ start, end: now });
+    return createTrainingDay(
+      start,
+      sessions.filter((session) => countsTowardProgress(session, includeImported)),
+      goal
+    );
+  }
+
+  /**
+   * Current and longest goal streaks over the whole history
+   */
+  async getStreak(
+    goal: DailyGoal,
+    now: Date = new Date(),
+    includeImported = false
+  ): Promise<GoalStreak> {
+    return getGoalStreak(
+      await this.getTrainingDays(goal, undefined, undefined, includeImported),
+      now
+    );
+  }
+}
+
+/**
+ * Factory function to create a DailyGoalService instance
+ */
+export function createDailyGoalService(sessionRepository: ISessionRepository): DailyGoalService {
+  return new DailyGoalService(sessionRepository);
+}
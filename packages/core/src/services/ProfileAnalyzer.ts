@@ -6,9 +6,24 @@
  */
 
 import type { SessionResult } from '../domain/entities/Session';
+import {
+  DEFAULT_CURVE_WINDOW,
+  getSessionPerformanceCurve,
+} from '../domain/entities/SessionCurve';
 import type { UserProgress } from '../ports/IProgressRepository';
 import type { AnalyticsEvent } from '../ports/IAnalyticsRepository';
 import type { UserProfile } from '../domain/entities/UserProfile';
+import type { PlateauEstimate, TrendEstimate } from '../domain/value-objects/TrendEstimate';
+import {
+  createEmptyTrendEstimate,
+  detectPlateau,
+  estimateSessionTrend,
+} from '../domain/value-objects/TrendEstimate';
+
+/**
+ * Most recent sessions that trends and plateaus are estimated from
+ */
+const TREND_SESSIONS = 20;
 
 /**
  * Error pattern identified in user behavior
@@ -35,8 +50,12 @@ export interface UserBehavioralProfile {
   performance: {
     averageAccuracy: number;
     accuracyTrend: 'improving' | 'stable' | 'declining';
+    /** Accuracy trend over sessions, in points per session */
+    accuracyTrendEstimate: TrendEstimate;
     averageResponseTime: number;
     responseTimeTrend: 'faster' | 'stable' | 'slower';
+    /** Trend of each session's mean response time, in ms per session */
+    responseTimeTrendEstimate: TrendEstimate;
     positionStrength: number;
     audioStrength: number;
     commonErrorPatterns: ErrorPattern[];
@@ -49,7 +68,10 @@ export interface UserBehavioralProfile {
     levelsCompleted: number;
     averageAttemptsPerLevel: number;
     plateauDetected: boolean;
+    /** Days spanned by the plateau */
     plateauDuration: number | null;
+    /** Change-point plateau analysis of accuracy */
+    plateau: PlateauEstimate;
     recommendedNextLevel: string | null;
   };
 
@@ -120,6 +142,9 @@ export class ProfileAnalyzer {
   ): UserProfile {
     const behavioral = this.buildBehavioralProfile(sessions, progress, events);
     const nBackLevel = this.extractNBackLevel(progress.currentLevel);
+    const trendSessions = sessions.slice(-TREND_SESSIONS);
+    const positionTrend = estimateSessionTrend(trendSessions.map((s) => s.positionStats.accuracy));
+    const audioTrend = estimateSessionTrend(trendSessions.map((s) => s.audioStats.accuracy));
 
     return {
       id: 'user-profile',
@@ -136,8 +161,12 @@ export class ProfileAnalyzer {
       },
       trends: {
         overallTrend: behavioral.performance.accuracyTrend,
-        positionTrend: behavioral.performance.accuracyTrend,
-        audioTrend: behavioral.performance.accuracyTrend,
+        positionTrend: positionTrend.direction,
+        audioTrend: audioTrend.direction,
+        overallEstimate: behavioral.performance.accuracyTrendEstimate,
+        positionEstimate: positionTrend,
+        audioEstimate: audioTrend,
+        plateau: behavioral.learning.plateau,
         recentAccuracies: sessions.slice(-10).map((s) => s.combinedAccuracy),
       },
       strengthsWeaknesses: {
@@ -170,22 +199,34 @@ export class ProfileAnalyzer {
     }
 
     const recentSessions = sessions.slice(-10);
+    const trendSessions = sessions.slice(-TREND_SESSIONS);
     const accuracies = recentSessions.map((s) => s.combinedAccuracy);
     const avgAccuracy = this.average(accuracies);
-    const accuracyTrend = this.calculateTrend(accuracies);
+    const accuracyTrendEstimate = estimateSessionTrend(
+      trendSessions.map((s) => s.combinedAccuracy)
+    );
 
     const responseTimes = this.extractResponseTimes(recentSessions);
     const avgResponseTime = this.average(responseTimes);
-    const responseTimeTrend = this.calculateResponseTimeTrend(responseTimes);
+    // One mean per session, skipping sessions without responses
+    const sessionResponseTimes = trendSessions
+      .map((s) => this.extractResponseTimes([s]))
+      .filter((times) => times.length > 0)
+      .map((times) => this.average(times));
+    const responseTimeTrendEstimate = estimateSessionTrend(sessionResponseTimes, {
+      higherIsBetter: false,
+    });
 
     const positionAccuracies = recentSessions.map((s) => s.positionStats.accuracy);
     const audioAccuracies = recentSessions.map((s) => s.audioStats.accuracy);
 
     return {
       averageAccuracy: avgAccuracy,
-      accuracyTrend,
+      accuracyTrend: accuracyTrendEstimate.direction,
+      accuracyTrendEstimate,
       averageResponseTime: avgResponseTime,
-      responseTimeTrend,
+      responseTimeTrend: this.toResponseTimeTrend(responseTimeTrendEstimate),
+      responseTimeTrendEstimate,
       positionStrength: this.average(positionAccuracies) / 100,
       audioStrength: this.average(audioAccuracies) / 100,
       commonErrorPatterns: this.findErrorPatterns(recentSessions),
@@ -197,8 +238,10 @@ export class ProfileAnalyzer {
     return {
       averageAccuracy: 0,
       accuracyTrend: 'stable' as const,
+      accuracyTrendEstimate: createEmptyTrendEstimate(),
       averageResponseTime: 0,
       responseTimeTrend: 'stable' as const,
+      responseTimeTrendEstimate: createEmptyTrendEstimate(),
       positionStrength: 0.5,
       audioStrength: 0.5,
       commonErrorPatterns: [],
@@ -284,29 +327,48 @@ export class ProfileAnalyzer {
     return patterns;
   }
 
+  /**
+   * Fatigue onset from each session's within-session accuracy curve:
+   * the first window 15+ points below the early-session best, when the
+   * rest of the session stays below on average
+   */
   private detectFatigue(sessions: SessionResult[]): FatigueIndicator[] {
-    const indicators: FatigueIndicator[] = [];
+    const onsets: number[] = [];
+    const drops: number[] = [];
 
     for (const session of sessions) {
-      const trials = session.trials;
-      if (trials.length < 10) continue;
+      if (session.trials.length < DEFAULT_CURVE_WINDOW * 2) continue;
 
-      const firstHalf = trials.slice(0, Math.floor(trials.length / 2));
-      const secondHalf = trials.slice(Math.floor(trials.length / 2));
+      const curve = getSessionPerformanceCurve(session);
+      const baselinePoints = curve.slice(0, Math.max(1, Math.floor(curve.length / 3)));
+      const baseline = Math.max(...baselinePoints.map((point) => point.accuracy));
 
-      const firstHalfCorrect = this.calculateTrialAccuracy(firstHalf);
-      const secondHalfCorrect = this.calculateTrialAccuracy(secondHalf);
+      for (let i = baselinePoints.length; i < curve.length; i++) {
+        const point = curve[i]!;
+        if (baseline - point.accuracy <= 15) continue;
 
-      if (firstHalfCorrect - secondHalfCorrect > 15) {
-        indicators.push({
-          type: 'accuracy_drop',
-          typicalOnset: Math.floor(trials.length / 2),
-          severity: firstHalfCorrect - secondHalfCorrect > 25 ? 'severe' : 'moderate',
-        });
+        const remaining = curve.slice(i).map((p) => p.accuracy);
+        const drop = baseline - this.average(remaining);
+        if (drop > 15) {
+          onsets.push(point.endTrial);
+          drops.push(drop);
+        }
+        break;
       }
     }
 
-    return indicators;
+    if (onsets.length === 0) {
+      return [];
+    }
+
+    const typicalDrop = this.median(drops);
+    return [
+      {
+        type: 'accuracy_drop',
+        typicalOnset: Math.round(this.median(onsets)),
+        severity: typicalDrop > 25 ? 'severe' : 'moderate',
+      },
+    ];
   }
 
   private calculateTrialAccuracy(trials: SessionResult['trials']): number {
@@ -339,15 +401,16 @@ export class ProfileAnalyzer {
   private analyzeLearning(sessions: SessionResult[], progress: UserProgress) {
     const levelHistory = this.getLevelHistory(sessions);
     const progressionRate = this.calculateProgressionRate(sessions, progress);
-    const plateauInfo = this.detectPlateau(sessions);
+    const plateau = detectPlateau(sessions.slice(-TREND_SESSIONS).map((s) => s.combinedAccuracy));
 
     return {
       currentLevel: progress.currentLevel,
       progressionRate,
       levelsCompleted: Math.max(0, progress.unlockedLevels.length - 2),
       averageAttemptsPerLevel: this.calculateAverageAttempts(levelHistory),
-      plateauDetected: plateauInfo.detected,
-      plateauDuration: plateauInfo.duration,
+      plateauDetected: plateau.detected,
+      plateauDuration: this.getPlateauDuration(sessions.slice(-TREND_SESSIONS), plateau),
+      plateau,
       recommendedNextLevel: this.recommendNextLevel(sessions, progress),
     };
   }
@@ -380,26 +443,20 @@ export class ProfileAnalyzer {
     return this.average(attempts);
   }
 
-  private detectPlateau(sessions: SessionResult[]): { detected: boolean; duration: number | null } {
-    if (sessions.length < 10) return { detected: false, duration: null };
-
-    const recentAccuracies = sessions.slice(-10).map((s) => s.combinedAccuracy);
-    const variance = this.calculateVariance(recentAccuracies);
-    const average = this.average(recentAccuracies);
+  /**
+   * Days from the first to the last session of a plateau
+   */
+  private getPlateauDuration(sessions: SessionResult[], plateau: PlateauEstimate): number | null {
+    if (!plateau.detected || plateau.startIndex === null) return null;
 
-    if (variance < 5 && average < 80) {
-      const firstSession = sessions[sessions.length - 10];
-      const lastSession = sessions[sessions.length - 1];
-      if (firstSession && lastSession) {
-        const duration = Math.floor(
-          (lastSession.timestamp.getTime() - firstSession.timestamp.getTime()) /
-            (24 * 60 * 60 * 1000)
-        );
-        return { detected: true, duration };
-      }
-    }
+    const firstSession = sessions[plateau.startIndex];
+    const lastSession = sessions[sessions.length - 1];
+    if (!firstSession || !lastSession) return null;
 
-    return { detected: false, duration: null };
+    return Math.floor(
+      (lastSession.timestamp.getTime() - firstSession.timestamp.getTime()) /
+        (24 * 60 * 60 * 1000)
+    );
   }
 
   private recommendNextLevel(sessions: SessionResult[], progress: UserProgress): string | null {
@@ -627,6 +684,15 @@ export class ProfileAnalyzer {
     return nums.reduce((a, b) => a + b, 0) / nums.length;
   }
 
+  private median(nums: number[]): number {
+    if (nums.length === 0) return 0;
+    const sorted = [...nums].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0
+      ? (sorted[middle - 1]! + sorted[middle]!) / 2
+      : sorted[middle]!;
+  }
+
   private calculateVariance(nums: number[]): number {
     if (nums.length === 0) return 0;
     const avg = this.average(nums);
@@ -634,26 +700,9 @@ export class ProfileAnalyzer {
     return this.average(squaredDiffs);
   }
 
-  private calculateTrend(values: number[]): 'improving' | 'stable' | 'declining' {
-    if (values.length < 3) return 'stable';
-
-    const firstHalf = values.slice(0, Math.floor(values.length / 2));
-    const secondHalf = values.slice(Math.floor(values.length / 2));
-
-    const firstAvg = this.average(firstHalf);
-    const secondAvg = this.average(secondHalf);
-
-    const diff = secondAvg - firstAvg;
-
-    if (diff > 5) return 'improving';
-    if (diff < -5) return 'declining';
-    return 'stable';
-  }
-
-  private calculateResponseTimeTrend(values: number[]): 'faster' | 'stable' | 'slower' {
-    const trend = this.calculateTrend(values);
-    if (trend === 'declining') return 'faster';
-    if (trend === 'improving') return 'slower';
+  private toResponseTimeTrend(estimate: TrendEstimate): 'faster' | 'stable' | 'slower' {
+    if (estimate.direction === 'improving') return 'faster';
+    if (estimate.direction === 'declining') return 'slower';
     return 'stable';
   }
 
@@ -0,0 +1,98 @@
+/**
+ * ProgramService
+ *
+ * Enrolls the user in a training program and tracks today's
+ * prescription and adherence from the session history.
+ */
+
+import type {
+  ProgramEnrollment,
+  ProgramStatus,
+  TrainingProgram,
+} from '../domain/entities/TrainingProgram';
+import { getProgramStatus } from '../domain/entities/TrainingProgram';
+import type { IProgressRepository } from '../ports/IProgressRepository';
+import type { ISessionRepository } from '../ports/ISessionRepository';
+import type { LevelConfig } from '../config/levels';
+import { LEVELS } from '../config/levels';
+import { PROGRAMS } from '../config/programs';
+
+/**
+ * ProgramService
+ *
+ * Stores the enrollment with the user's progress; completion is always
+ * derived from sessions, so nothing else needs to be kept in sync.
+ */
+export class ProgramService {
+  constructor(
+    private readonly progressRepository: IProgressRepository,
+    private readonly sessionRepository: ISessionRepository,
+    private readonly programs: readonly TrainingProgram[] = PROGRAMS,
+    private readonly levels: readonly LevelConfig[] = LEVELS
+  ) {}
+
+  /**
+   * Programs the user can enroll in
+   */
+  getPrograms(): readonly TrainingProgram[] {
+    return this.programs;
+  }
+
+  /**
+   * Start a program from today, replacing any current enrollment
+   */
+  async enroll(programId: string, now: Date = new Date()): Promise<ProgramEnrollment> {
+    if (!this.programs.some((program) => program.id === programId)) {
+      throw new Error(`Unknown training program: ${programId}`);
+    }
+
+    const enrollment: ProgramEnrollment = { programId, startedAt: now };
+    const progress = await this.progressRepository.get();
+    await this.progressRepository.save({ ...progress, activeProgram: enrollment });
+    return enrollment;
+  }
+
+  /**
+   * Stop following the current program
+   */
+  async leave(): Promise<void> {
+    const progress = await this.progressRepository.get();
+    await this.progressRepository.save({ ...progress, activeProgram: null });
+  }
+
+  /**
+   * Status of the current enrollment, null when not enrolled
+   */
+  async getStatus(now: Date = new Date()): Promise<ProgramStatus | null> {
+    const progress = await this.progressRepository.get();
+    const enrollment = progress.activeProgram;
+    const program = this.programs.find((p) => p.id === enrollment?.programId);
+    if (!enrollment || !program) {
+      return null;
+    }
+
+    // The whole first day counts, including sessions before enrolling
+    const start = new Date(enrollment.startedAt);
+    start.setHours(0, 0, 0, 0);
+    const sessions = await this.sessionRepository.findStats({ start, end: now });
+    return getProgramStatus(
+      program,
+      enrollment,
+      sessions,
+      progress.currentLevel,
+      progress.unlockedLevels,
+      this.levels,
+      now
+    );
+  }
+}
+
+/**
+ * Factory function to create a ProgramService instance
+ */
+export function createProgramService(
+  progressRepository: IProgressRepository,
+  sessionRepository: ISessionRepository
+): ProgramService {
+  return new ProgramService(progressRepository, sessionRepository);
+}
@@ -5,7 +5,264 @@
  * Determines when users can advance to higher N-back levels.
  */
 
-// Placeholder - will be implemented in Epic 03
-export interface ProgressionService {
-  checkProgression(): void;
+import type { SessionResult } from '../domain/entities/Session';
+import { countsTowardProgress, isPlayedAtLevelN } from '../domain/entities/Session';
+import type { UnlockProgress } from '../domain/entities/Level';
+import { evaluateUnlockCriteria } from '../domain/entities/Level';
+import type { LevelUnlocked } from '../domain/events/LevelUnlocked';
+import { createLevelUnlockedEvent } from '../domain/events/LevelUnlocked';
+import type { IProgressRepository, UserProgress } from '../ports/IProgressRepository';
+import type { ISessionRepository } from '../ports/ISessionRepository';
+import type { IEventBus } from '../ports/IEventBus';
+import type { LevelConfig } from '../config/levels';
+import { LEVELS } from '../config/levels';
+import type { ScoringConventionId } from '../domain/value-objects/ScoringConvention';
+import { DEFAULT_SCORING_CONVENTION } from '../domain/value-objects/ScoringConvention';
+
+/**
+ * Session history per level, most recent first
+ */
+export type SessionHistory = ReadonlyMap<string, readonly SessionResult[]>;
+
+/**
+ * Outcome of evaluating a completed session for progression
+ */
+export interface ProgressionResult {
+  /** IDs of levels newly unlocked by the session */
+  readonly unlockedLevelIds: string[];
+  /** Events published for the newly unlocked levels */
+  readonly events: LevelUnlocked[];
+  /** progress.currentLevel after the unlocks */
+  readonly currentLevel: string;
+}
+
+/**
+ * Whether a level is the next step after another in the same track:
+ * same mode and grid, one N higher and unlocked from it
+ */
+function isNextStep(from: LevelConfig, to: LevelConfig): boolean {
+  return (
+    to.mode === from.mode &&
+    to.gridSize === from.gridSize &&
+    to.nBack === from.nBack + 1 &&
+    (to.unlockCriteria?.requiredLevels.includes(from.id) ?? false)
+  );
+}
+
+/**
+ * ProgressionService
+ *
+ * Evaluates level unlock criteria against session history,
+ * persists newly unlocked levels and publishes LevelUnlocked events.
+ * Works on the built-in catalog: custom levels are always unlocked and
+ * cannot carry unlock criteria (see CustomLevel), so they are never evaluated.
+ */
+export class ProgressionService {
+  constructor(
+    private readonly progressRepository: IProgressRepository,
+    private readonly sessionRepository: ISessionRepository,
+    private readonly eventBus: IEventBus,
+    private readonly levels: readonly LevelConfig[] = LEVELS
+  ) {}
+
+  /**
+   * Find the locked levels a session may have unlocked: those that
+   * require the session's level and whose criteria the history now meets.
+   * Pure - does not touch the repositories or event bus.
+   */
+  findUnlockableLevels(
+    session: SessionResult,
+    progress: UserProgress,
+    history: SessionHistory,
+    convention: ScoringConventionId = DEFAULT_SCORING_CONVENTION
+  ): LevelConfig[] {
+    if (!session.completed) {
+      return [];
+    }
+
+    return this.levels.filter(
+      (level) =>
+        level.unlockCriteria !== undefined &&
+        level.unlockCriteria.requiredLevels.includes(session.levelId) &&
+        !progress.unlockedLevels.includes(level.id) &&
+        evaluateUnlockCriteria(level.unlockCriteria, history, convention).met
+    );
+  }
+
+  /**
+   * Unlock every level the session qualifies for and publish events, and
+   * move the current level on when one is its next step.
+   * Expects the session to be saved already so it is part of the history.
+   *
+   * @param includeImported - count sessions imported from other apps
+   */
+  async processSessionResult(
+    session: SessionResult,
+    progress: UserProgress,
+    convention: ScoringConventionId = DEFAULT_SCORING_CONVENTION,
+    includeImported = false
+  ): Promise<ProgressionResult> {
+    const candidates = this.levels.filter((level) =>
+      level.unlockCriteria?.requiredLevels.includes(session.levelId)
+    );
+    const history = await this.loadHistory(candidates, includeImported);
+    const unlockable = this.findUnlockableLevels(session, progress, history, convention);
+    const unlockedLevelIds: string[] = [];
+    const events: LevelUnlocked[] = [];
+
+    for (const level of unlockable) {
+      await this.progressRepository.unlockLevel(level.id);
+
+      const event = createLevelUnlockedEvent(session.sessionId, level.id);
+      this.eventBus.publish(event);
+
+      unlockedLevelIds.push(level.id);
+      events.push(event);
+    }
+
+    const currentLevel = await this.advanceCurrentLevel(progress.currentLevel, unlockable);
+    return { unlockedLevelIds, events, currentLevel };
+  }
+
+  /**
+   * Unlock every locked level whose criteria the history meets, in level
+   * order so a chain unlocks in one pass, and publish events. The current
+   * level moves along its track as far as the unlocks reach. For history
+   * that did not arrive as completed sessions, such as imports.
+   */
+  async unlockEarnedLevels(
+    convention: ScoringConventionId = DEFAULT_SCORING_CONVENTION,
+    includeImported = false
+  ): Promise<ProgressionResult> {
+    const progress = await this.progressRepository.get();
+    const unlocked = new Set(progress.unlockedLevels);
+    const history = await this.loadHistory(this.levels, includeImported);
+    const unlockedLevels: LevelConfig[] = [];
+    const events: LevelUnlocked[] = [];
+
+    for (const level of this.levels) {
+      const criteria = level.unlockCriteria;
+      if (
+        !criteria ||
+        unlocked.has(level.id) ||
+        !criteria.requiredLevels.every((id) => this.isAvailable(id, unlocked)) ||
+        !evaluateUnlockCriteria(criteria, history, convention).met
+      ) {
+        continue;
+      }
+
+      await this.progressRepository.unlockLevel(level.id);
+      unlocked.add(level.id);
+
+      // Attribute the unlock to the latest session it rests on
+      const latest = criteria.requiredLevels
+        .flatMap((id) => history.get(id)?.slice(0, 1) ?? [])
+        .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())[0];
+      const event = createLevelUnlockedEvent(latest?.sessionId ?? level.id, level.id);
+      this.eventBus.publish(event);
+
+      unlockedLevels.push(level);
+      events.push(event);
+    }
+
+    const currentLevel = await this.advanceCurrentLevel(progress.currentLevel, unlockedLevels);
+    return {
+      unlockedLevelIds: unlockedLevels.map((level) => level.id),
+      events,
+      currentLevel,
+    };
+  }
+
+  /**
+   * Progress toward each level's unlock conditions, keyed by level ID.
+   * Levels without unlock criteria are omitted.
+   *
+   * @param includeImported - count sessions imported from other apps
+   */
+  async getUnlockProgress(
+    levels: readonly LevelConfig[],
+    convention: ScoringConventionId = DEFAULT_SCORING_CONVENTION,
+    includeImported = false
+  ): Promise<Map<string, UnlockProgress>> {
+    const history = await this.loadHistory(levels, includeImported);
+    const progress = new Map<string, UnlockProgress>();
+    for (const level of levels) {
+      if (level.unlockCriteria) {
+        progress.set(
+          level.id,
+          evaluateUnlockCriteria(level.unlockCriteria, history, convention)
+        );
+      }
+    }
+    return progress;
+  }
+
+  /**
+   * Move the current level to the last of the newly unlocked levels that
+   * continues its track, and persist it when it changed
+   */
+  private async advanceCurrentLevel(
+    currentLevelId: string,
+    unlocked: readonly LevelConfig[]
+  ): Promise<string> {
+    let current = this.levels.find((level) => level.id === currentLevelId);
+    for (const level of unlocked) {
+      if (current && isNextStep(current, level)) {
+        current = level;
+      }
+    }
+
+    const nextLevelId = current?.id ?? currentLevelId;
+    if (nextLevelId !== currentLevelId) {
+      await this.progressRepository.updateField('currentLevel', nextLevelId);
+    }
+    return nextLevelId;
+  }
+
+  /**
+   * Whether a level is unlocked or needs no unlocking
+   */
+  private isAvailable(levelId: string, unlocked: ReadonlySet<string>): boolean {
+    return (
+      unlocked.has(levelId) ||
+      this.levels.some((level) => level.id === levelId && !level.unlockCriteria)
+    );
+  }
+
+  /**
+   * Load the sessions of every level the given levels require
+   */
+  private async loadHistory(
+    levels: readonly LevelConfig[],
+    includeImported: boolean
+  ): Promise<SessionHistory> {
+    const levelIds = new Set(levels.flatMap((level) => level.unlockCriteria?.requiredLevels ?? []));
+    const history = new Map<string, SessionResult[]>();
+
+    for (const levelId of levelIds) {
+      const sessions = await this.sessionRepository.findStats({ levelId });
+      history.set(
+        levelId,
+        sessions
+          .filter(
+            (session) =>
+              countsTowardProgress(session, includeImported) &&
+              isPlayedAtLevelN(session, this.levels)
+          )
+          .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+      );
+    }
+    return history;
+  }
+}
+
+/**
+ * Factory function to create a ProgressionService instance
+ */
+export function createProgressionService(
+  progressRepository: IProgressRepository,
+  sessionRepository: ISessionRepository,
+  eventBus: IEventBus
+): ProgressionService {
+  return new ProgressionService(progressRepository, sessionRepository, eventBus);
 }
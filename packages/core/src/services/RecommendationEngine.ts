@@ -2,10 +2,307 @@
  * RecommendationEngine Service
  *
  * Generates training recommendations based on performance.
- * Suggests optimal level and session timing.
+ * Deterministic and offline: the same history always yields the same plan.
  */
 
-// Placeholder - will be implemented in Epic 03
-export interface RecommendationEngine {
-  recommend(): void;
+import type { SessionResult } from '../domain/entities/Session';
+import { isPlayedAtLevelN } from '../domain/entities/Session';
+import type { UnlockProgress } from '../domain/entities/Level';
+import { getSessionPerformanceCurve } from '../domain/entities/SessionCurve';
+import type { UserProgress } from '../ports/IProgressRepository';
+import type { TrainingRecommendation } from '../ports/ILLMService';
+import type { LevelConfig } from '../config/levels';
+import { LEVELS } from '../config/levels';
+import type { TrainingMode } from '../domain/value-objects/TrainingMode';
+import { modeIncludesAudio, modeIncludesPosition } from '../domain/value-objects/TrainingMode';
+
+/**
+ * Thresholds the engine's rules compare against
+ */
+export interface RecommendationConfig {
+  /** Mean accuracy on the current level below which an easier level is suggested */
+  readonly struggleAccuracy: number;
+  /** Position/audio accuracy gap that counts as a modality imbalance */
+  readonly imbalanceGap: number;
+  /** Drop in accuracy, across today's sessions or within the last one, that counts as fatigue */
+  readonly fatigueDrop: number;
+  /** Sessions in one day after which a break is suggested */
+  readonly dailySessionLimit: number;
+  /** Recent sessions per rule */
+  readonly window: number;
+}
+
+export const DEFAULT_RECOMMENDATION_CONFIG: RecommendationConfig = {
+  struggleAccuracy: 60,
+  imbalanceGap: 10,
+  fatigueDrop: 15,
+  dailySessionLimit: 6,
+  window: 5,
+};
+
+/**
+ * What the engine plans from
+ */
+export interface RecommendationInput {
+  /** Recent sessions, oldest first */
+  readonly sessions: readonly SessionResult[];
+  readonly progress: UserProgress;
+  /** Unlock progress of locked levels, keyed by level ID */
+  readonly unlockProgress?: ReadonlyMap<string, UnlockProgress>;
+  /** Reference time for today's sessions (default: now) */
+  readonly now?: Date;
+}
+
+/**
+ * RecommendationEngine
+ *
+ * Ranks levels to play next from recent sessions, unlock state,
+ * modality imbalance and fatigue. Each rule contributes at most one
+ * recommendation; a level suggested twice keeps its best rank.
+ */
+export class RecommendationEngine {
+  constructor(
+    private readonly config: RecommendationConfig = DEFAULT_RECOMMENDATION_CONFIG,
+    private readonly levels: readonly LevelConfig[] = LEVELS
+  ) {}
+
+  /**
+   * Ranked recommendations, priority 1 first
+   */
+  recommend(input: RecommendationInput): TrainingRecommendation[] {
+    const sessions = input.sessions.filter((session) => session.completed);
+    const unlocked = new Set(input.progress.unlockedLevels);
+    const current = this.resolveCurrentLevel(input.progress, sessions);
+
+    if (!current) {
+      return [];
+    }
+    if (sessions.length === 0) {
+      return [
+        {
+          recommendedLevel: current.id,
+          reason: `Start with ${current.name} to learn how n-back matching works`,
+          priority: 1,
+        },
+      ];
+    }
+
+    const candidates: TrainingRecommendation[] = [];
+    const push = (level: LevelConfig | undefined, reason: string, priority: number) => {
+      if (level) candidates.push({ recommendedLevel: level.id, reason, priority });
+    };
+
+    const easier = this.findEasierLevel(current, unlocked);
+    const fatigue = this.describeFatigue(sessions, input.now ?? new Date());
+    if (fatigue) {
+      push(easier ?? current, `${fatigue} Take a break, or keep it light at an easier level`, 1);
+    }
+
+    const recent = sessions
+      .filter((s) => s.levelId === current.id && isPlayedAtLevelN(s, this.levels))
+      .slice(-this.config.window);
+    const recentAccuracy = average(recent.map((s) => s.combinedAccuracy));
+    if (recent.length >= 2 && recentAccuracy < this.config.struggleAccuracy && easier) {
+      push(
+        easier,
+        `Your recent accuracy on ${current.name} is ${Math.round(recentAccuracy)}%. ` +
+          `Consolidate at ${easier.name} before stepping back up`,
+        1
+      );
+    }
+
+    const played = new Set(sessions.map((s) => s.levelId));
+    const successors = this.levels.filter((level) =>
+      level.unlockCriteria?.requiredLevels.includes(current.id)
+    );
+    const ready = successors.find((level) => unlocked.has(level.id) && !played.has(level.id));
+    if (ready) {
+      push(ready, `You've unlocked ${ready.name}: you're ready to move up`, 2);
+    } else {
+      push(current, this.describePractice(current, successors, unlocked, input.unlockProgress), 2);
+    }
+
+    const weaker = this.findWeakerModality(sessions);
+    if (weaker) {
+      const target = this.findSingleModalityLevel(weaker.mode, current.nBack, unlocked);
+      push(
+        target,
+        `Your ${weaker.channel} accuracy trails by ${Math.round(weaker.gap)} points. ` +
+          `Single-${weaker.channel} practice targets it directly`,
+        3
+      );
+    }
+
+    const unplayed = this.levels.find(
+      (level) => unlocked.has(level.id) && !played.has(level.id) && level.id !== current.id
+    );
+    if (unplayed) {
+      push(unplayed, `Try ${unplayed.name}, which you've unlocked but not played`, 4);
+    }
+
+    return rank(candidates);
+  }
+
+  /**
+   * The progress's current level, else the last session's level,
+   * else the first starter level
+   */
+  private resolveCurrentLevel(
+    progress: UserProgress,
+    sessions: readonly SessionResult[]
+  ): LevelConfig | undefined {
+    const lastLevelId = sessions[sessions.length - 1]?.levelId;
+    return (
+      this.levels.find((level) => level.id === progress.currentLevel) ??
+      this.levels.find((level) => level.id === lastLevelId) ??
+      this.levels.find((level) => !level.unlockCriteria)
+    );
+  }
+
+  /**
+   * The unlocked level one N below in the same mode and grid
+   */
+  private findEasierLevel(
+    level: LevelConfig,
+    unlocked: ReadonlySet<string>
+  ): LevelConfig | undefined {
+    return this.levels.find(
+      (candidate) =>
+        candidate.mode === level.mode &&
+        candidate.gridSize === level.gridSize &&
+        candidate.nBack === level.nBack - 1 &&
+        (unlocked.has(candidate.id) || !candidate.unlockCriteria)
+    );
+  }
+
+  /**
+   * The hardest unlocked classic-grid level of a single-channel mode, up to nBack
+   */
+  private findSingleModalityLevel(
+    mode: TrainingMode,
+    nBack: number,
+    unlocked: ReadonlySet<string>
+  ): LevelConfig | undefined {
+    return this.levels
+      .filter(
+        (level) =>
+          level.mode === mode &&
+          level.gridSize === undefined &&
+          level.nBack <= nBack &&
+          (unlocked.has(level.id) || !level.unlockCriteria)
+      )
+      .sort((a, b) => b.nBack - a.nBack)[0];
+  }
+
+  /**
+   * Reason to keep practicing the current level, naming the next unlock
+   */
+  private describePractice(
+    current: LevelConfig,
+    successors: readonly LevelConfig[],
+    unlocked: ReadonlySet<string>,
+    unlockProgress: ReadonlyMap<string, UnlockProgress> | undefined
+  ): string {
+    const next = successors.find((level) => !unlocked.has(level.id));
+    if (!next) {
+      return `Keep practicing ${current.name} to build consistency`;
+    }
+
+    const sessionsCondition = unlockProgress
+      ?.get(next.id)
+      ?.conditions.find(
+        (condition) => condition.kind === 'sessions' && condition.levelId === current.id
+      );
+    if (sessionsCondition) {
+      return (
+        `Keep practicing ${current.name} to unlock ${next.name} ` +
+        `(${sessionsCondition.current} of ${sessionsCondition.target} qualifying sessions)`
+      );
+    }
+    return `Keep practicing ${current.name} to unlock ${next.name}`;
+  }
+
+  /**
+   * The weaker of position and audio over recent sessions that train both
+   */
+  private findWeakerModality(
+    sessions: readonly SessionResult[]
+  ): { channel: 'position' | 'audio'; mode: TrainingMode; gap: number } | null {
+    const both = sessions
+      .filter((s) => modeIncludesPosition(s.mode) && modeIncludesAudio(s.mode))
+      .slice(-this.config.window);
+    if (both.length < 2) return null;
+
+    const gap =
+      average(both.map((s) => s.positionStats.accuracy)) -
+      average(both.map((s) => s.audioStats.accuracy));
+    if (Math.abs(gap) < this.config.imbalanceGap) return null;
+
+    return gap > 0
+      ? { channel: 'audio', mode: 'single-audio', gap }
+      : { channel: 'position', mode: 'single-position', gap: -gap };
+  }
+
+  /**
+   * Signs of fatigue: many sessions today, accuracy falling across today's
+   * sessions, or a drop late in the last session. Null when rested.
+   */
+  private describeFatigue(sessions: readonly SessionResult[], now: Date): string | null {
+    const today = sessions.filter((s) => s.timestamp.toDateString() === now.toDateString());
+    if (today.length >= this.config.dailySessionLimit) {
+      return `You've trained ${today.length} times today.`;
+    }
+
+    if (today.length >= 3) {
+      const peak = Math.max(...today.slice(0, -1).map((s) => s.combinedAccuracy));
+      const last = today[today.length - 1]!.combinedAccuracy;
+      if (peak - last >= this.config.fatigueDrop) {
+        return `Your accuracy has dropped ${Math.round(peak - last)} points since your best session today.`;
+      }
+    }
+
+    const last = sessions[sessions.length - 1];
+    if (last && today.includes(last)) {
+      const curve = getSessionPerformanceCurve(last);
+      const third = Math.floor(curve.length / 3);
+      if (third > 0) {
+        const early = average(curve.slice(0, third).map((point) => point.accuracy));
+        const late = average(curve.slice(-third).map((point) => point.accuracy));
+        if (early - late >= this.config.fatigueDrop) {
+          return `Your accuracy fell ${Math.round(early - late)} points late in your last session.`;
+        }
+      }
+    }
+
+    return null;
+  }
+}
+
+function average(values: readonly number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+/**
+ * Sort by priority, keep each level's first recommendation, renumber 1..n
+ */
+function rank(candidates: readonly TrainingRecommendation[]): TrainingRecommendation[] {
+  const seen = new Set<string>();
+  return [...candidates]
+    .sort((a, b) => a.priority - b.priority)
+    .filter((candidate) => {
+      if (seen.has(candidate.recommendedLevel)) return false;
+      seen.add(candidate.recommendedLevel);
+      return true;
+    })
+    .map((candidate, index) => ({ ...candidate, priority: index + 1 }));
+}
+
+/**
+ * Factory function to create a RecommendationEngine instance
+ */
+export function createRecommendationEngine(
+  config: RecommendationConfig = DEFAULT_RECOMMENDATION_CONFIG,
+  levels: readonly LevelConfig[] = LEVELS
+): RecommendationEngine {
+  return new RecommendationEngine(config, levels);
 }
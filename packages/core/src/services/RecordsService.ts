@@ -0,0 +1,99 @@
+/**
+ * RecordsService
+ *
+ * Detects and stores per-level personal records, and rebuilds them
+ * from the stored session history on demand.
+ */
+
+import type { SessionResult } from '../domain/entities/Session';
+import { isImportedSession, isPlayedAtLevelN } from '../domain/entities/Session';
+import type { PersonalRecord } from '../domain/entities/PersonalRecord';
+import { applySessionRecords, buildPersonalRecords } from '../domain/entities/PersonalRecord';
+import { createPersonalBestSetEvent } from '../domain/events/PersonalBestSet';
+import type { IRecordRepository } from '../ports/IRecordRepository';
+import type { ISessionRepository } from '../ports/ISessionRepository';
+import type { IEventBus } from '../ports/IEventBus';
+import type { LevelConfig } from '../config/levels';
+import { LEVELS } from '../config/levels';
+
+/**
+ * RecordsService
+ *
+ * Compares each completed session against its level's records, persists
+ * the ones it beats and publishes PersonalBestSet for each.
+ */
+export class RecordsService {
+  constructor(
+    private readonly recordRepository: IRecordRepository,
+    private readonly sessionRepository: ISessionRepository,
+    private readonly eventBus: IEventBus,
+    private readonly levels: readonly LevelConfig[] = LEVELS
+  ) {}
+
+  /**
+   * Update the session's level records and publish events.
+   * Sessions played away from their level's N set no records.
+   *
+   * @returns the records the session set
+   */
+  async processSessionResult(session: SessionResult): Promise<PersonalRecord[]> {
+    if (!isPlayedAtLevelN(session, this.levels)) {
+      return [];
+    }
+    const held = await this.recordRepository.findByLevel(session.levelId);
+    const { broken } = applySessionRecords(held, session);
+    if (broken.length === 0) {
+      return [];
+    }
+
+    await this.recordRepository.saveAll(broken);
+    for (const record of broken) {
+      this.eventBus.publish(
+        createPersonalBestSetEvent(
+          session.sessionId,
+          record.levelId,
+          record.type,
+          record.value,
+          record.previousValue
+        )
+      );
+    }
+    return broken;
+  }
+
+  /**
+   * Get the records held, for one level or every level
+   */
+  async getRecords(levelId?: string): Promise<PersonalRecord[]> {
+    return levelId
+      ? this.recordRepository.findByLevel(levelId)
+      : this.recordRepository.findAll();
+  }
+
+  /**
+   * Replace the stored records with ones rebuilt from every stored session.
+   * Imported sessions are left out: their summaries have no d' or response times.
+   * So are sessions played away from their level's N.
+   * Does not publish events.
+   */
+  async rebuild(): Promise<PersonalRecord[]> {
+    const sessions = await this.sessionRepository.findAll();
+    const records = buildPersonalRecords(
+      sessions.filter((s) => !isImportedSession(s) && isPlayedAtLevelN(s, this.levels))
+    );
+    await this.recordRepository.clear();
+    await this.recordRepository.saveAll(records);
+    return records;
+  }
+}
+
+/**
+ * Factory function to create a RecordsService instance
+ */
+export function createRecordsService(
+  recordRepository: IRecordRepository,
+  sessionRepository: ISessionRepository,
+  eventBus: IEventBus
+): RecordsService {
+  return new RecordsService(recordRepository, sessionRepository, eventBus);
+}
@@ -0,0 +1,67 @@
+/**
+ * ResearchExportService
+ *
+ * Builds the per-trial and per-session export tables for a date range
+ * and a set of levels.
+ */
+
+import type { SessionExportRow, TrialExportRow } from '../domain/entities/ResearchExport';
+import { getSessionExportRow, getTrialExportRows } from '../domain/entities/ResearchExport';
+import type { ScoringConventionId } from '../domain/value-objects/ScoringConvention';
+import type { ISessionRepository } from '../ports/ISessionRepository';
+
+/**
+ * Which sessions to export
+ */
+export interface ResearchExportFilter {
+  /** Earliest session start (default: the first session) */
+  readonly from?: Date | undefined;
+  /** Latest session start (default: now) */
+  readonly to?: Date | undefined;
+  /** Levels to include (default: every level) */
+  readonly levelIds?: readonly string[] | undefined;
+  /** Convention for the session score column (default: neuralift) */
+  readonly scoringConvention?: ScoringConventionId | undefined;
+}
+
+/**
+ * Export tables, both ordered by session start
+ */
+export interface ResearchExport {
+  readonly sessions: SessionExportRow[];
+  readonly trials: TrialExportRow[];
+}
+
+/**
+ * ResearchExportService
+ *
+ * Read-only over the session repository.
+ */
+export class ResearchExportService {
+  constructor(private readonly sessionRepository: ISessionRepository) {}
+
+  async export(filter: ResearchExportFilter = {}): Promise<ResearchExport> {
+    const sessions = await this.sessionRepository.findByDateRange(
+      filter.from ?? new Date(0),
+      filter.to ?? new Date()
+    );
+    const levelIds = filter.levelIds ? new Set(filter.levelIds) : null;
+    const selected = sessions
+      .filter((session) => !levelIds || levelIds.has(session.levelId))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    return {
+      sessions: selected.map((session) => getSessionExportRow(session, filter.scoringConvention)),
+      trials: selected.flatMap(getTrialExportRows),
+    };
+  }
+}
+
+/**
+ * Factory function to create a ResearchExportService instance
+ */
+export function createResearchExportService(
+  sessionRepository: ISessionRepository
+): ResearchExportService {
+  return new ResearchExportService(sessionRepository);
+}
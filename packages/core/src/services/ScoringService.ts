@@ -6,8 +6,35 @@
  */
 
 import type { TrainingMode } from '../domain/value-objects/TrainingMode';
+import { getModeChannels } from '../domain/value-objects/TrainingMode';
+import type { StimulusChannel } from '../domain/value-objects/StimulusChannel';
+import type {
+  FalseAlarmCounts,
+  LureStats,
+  LureType,
+  SessionLureStats,
+} from '../domain/value-objects/Lure';
+import { LURE_TYPES } from '../domain/value-objects/Lure';
+import type { TrialData } from '../domain/entities/Trial';
+import type { SessionResult } from '../domain/entities/Session';
+import { getSessionScore } from '../domain/entities/Session';
+import { getTrialChannelState } from '../domain/entities/Trial';
 import type { PerformanceStats, PerformanceRawCounts } from '../domain/value-objects/PerformanceStats';
 import { createPerformanceStats, createEmptyPerformanceStats } from '../domain/value-objects/PerformanceStats';
+import type { RateCorrection } from '../domain/value-objects/SignalDetection';
+import {
+  DEFAULT_RATE_CORRECTION,
+  inverseNormalCDF,
+} from '../domain/value-objects/SignalDetection';
+import type {
+  ScoringConvention,
+  ScoringConventionId,
+} from '../domain/value-objects/ScoringConvention';
+import {
+  DEFAULT_SCORING_CONVENTION,
+  SCORING_CONVENTIONS,
+  getScoringConvention,
+} from '../domain/value-objects/ScoringConvention';
 
 /**
  * Represents a single trial result for scoring
@@ -19,6 +46,8 @@ export interface TrialResult {
   userResponse: boolean | null;
   /** Response time in milliseconds (null if no response) */
   responseTime: number | null;
+  /** Lure type when the trial was a lure (non-match) */
+  lure?: LureType | null;
 }
 
 /**
@@ -30,17 +59,28 @@ export interface DualTrialResult {
 }
 
 /**
- * Combined session result with separate position/audio stats
+ * Trial results grouped by stimulus channel
+ */
+export type ChannelTrialResults = Partial<Record<StimulusChannel, TrialResult[]>>;
+
+/**
+ * Combined session result with separate per-channel stats
  */
 export interface SessionScoringResult {
   /** Position performance stats */
   positionStats: PerformanceStats;
   /** Audio performance stats */
   audioStats: PerformanceStats;
+  /** Color performance stats (triple and quad modes) */
+  colorStats?: PerformanceStats;
+  /** Shape performance stats (quad mode) */
+  shapeStats?: PerformanceStats;
   /** Combined accuracy (mode-dependent weighting) */
   combinedAccuracy: number;
   /** Combined d-prime */
   combinedDPrime: number;
+  /** Lure false alarm rates per channel the mode tracks */
+  lureStats: SessionLureStats;
 }
 
 /**
@@ -50,10 +90,18 @@ export interface SessionScoringResult {
  * Handles edge cases and uses signal detection theory metrics.
  */
 export class ScoringService {
+  /**
+   * @param correction - extreme-rate correction used for d-prime and the bias measures
+   */
+  constructor(private readonly correction: RateCorrection = DEFAULT_RATE_CORRECTION) {}
+
   /**
    * Calculate performance statistics from a set of trial results
    */
-  calculateStats(trials: TrialResult[]): PerformanceStats {
+  calculateStats(
+    trials: TrialResult[],
+    correction: RateCorrection = this.correction
+  ): PerformanceStats {
     if (trials.length === 0) {
       return createEmptyPerformanceStats();
     }
@@ -91,158 +139,29 @@ export class ScoringService {
       }
     }
 
-    return createPerformanceStats(counts);
+    return createPerformanceStats(counts, correction);
   }
 
   /**
-   * Calculate performance statistics with log-linear correction
-   * This version applies correction for extreme rates (0 or 1)
-   * to prevent infinite d-prime values
+   * Calculate performance statistics with log-linear correction,
+   * regardless of the service's configured correction
+   *
+   * @deprecated Use calculateStats(trials, 'log-linear')
    */
   calculateStatsWithCorrection(trials: TrialResult[]): PerformanceStats {
-    if (trials.length === 0) {
-      return createEmptyPerformanceStats();
-    }
-
-    let hits = 0;
-    let misses = 0;
-    let falseAlarms = 0;
-    let correctRejections = 0;
-    const responseTimes: number[] = [];
-
-    for (const trial of trials) {
-      const userResponded = trial.userResponse === true;
-
-      if (trial.isMatch) {
-        if (userResponded) {
-          hits++;
-        } else {
-          misses++;
-        }
-      } else {
-        if (userResponded) {
-          falseAlarms++;
-        } else {
-          correctRejections++;
-        }
-      }
-
-      if (trial.responseTime !== null) {
-        responseTimes.push(trial.responseTime);
-      }
-    }
-
-    const totalSignals = hits + misses;
-    const totalNoise = falseAlarms + correctRejections;
-    const total = totalSignals + totalNoise;
-
-    // Apply log-linear correction: (count + 0.5) / (total + 1)
-    const hitRate = totalSignals > 0 ? (hits + 0.5) / (totalSignals + 1) : 0.5;
-    const falseAlarmRate = totalNoise > 0 ? (falseAlarms + 0.5) / (totalNoise + 1) : 0.5;
-
-    // Calculate d-prime with corrected rates
-    const dPrime = this.calculateDPrime(hitRate, falseAlarmRate);
-
-    // Calculate accuracy (no correction needed)
-    const correctResponses = hits + correctRejections;
-    const accuracy = total > 0 ? (correctResponses / total) * 100 : 0;
-
-    // Calculate average response time
-    const avgResponseTime =
-      responseTimes.length > 0
-        ? responseTimes.reduce((sum, t) => sum + t, 0) / responseTimes.length
-        : null;
-
-    return {
-      hits,
-      misses,
-      falseAlarms,
-      correctRejections,
-      hitRate,
-      falseAlarmRate,
-      dPrime,
-      accuracy,
-      avgResponseTime,
-    };
+    return this.calculateStats(trials, 'log-linear');
   }
 
   /**
    * Calculate d-prime using inverse normal CDF
-   * d' = Z(hitRate) - Z(falseAlarmRate)
+   * d' = Z(hitRate) - Z(falseAlarmRate), with rates clamped to 0.01–0.99
    */
   calculateDPrime(hitRate: number, falseAlarmRate: number): number {
     // Clamp rates to avoid infinity
     const clampedHR = Math.max(0.01, Math.min(0.99, hitRate));
     const clampedFAR = Math.max(0.01, Math.min(0.99, falseAlarmRate));
 
-    const zHR = this.inverseNormalCDF(clampedHR);
-    const zFAR = this.inverseNormalCDF(clampedFAR);
-
-    return Number((zHR - zFAR).toFixed(2));
-  }
-
-  /**
-   * Approximate inverse normal CDF (probit function)
-   * Using Abramowitz and Stegun approximation
-   */
-  private inverseNormalCDF(p: number): number {
-    // Coefficients for rational approximation
-    const a = [
-      -3.969683028665376e1,
-      2.209460984245205e2,
-      -2.759285104469687e2,
-      1.383577518672690e2,
-      -3.066479806614716e1,
-      2.506628277459239e0,
-    ];
-    const b = [
-      -5.447609879822406e1,
-      1.615858368580409e2,
-      -1.556989798598866e2,
-      6.680131188771972e1,
-      -1.328068155288572e1,
-    ];
-    const c = [
-      -7.784894002430293e-3,
-      -3.223964580411365e-1,
-      -2.400758277161838e0,
-      -2.549732539343734e0,
-      4.374664141464968e0,
-      2.938163982698783e0,
-    ];
-    const d = [
-      7.784695709041462e-3,
-      3.224671290700398e-1,
-      2.445134137142996e0,
-      3.754408661907416e0,
-    ];
-
-    const pLow = 0.02425;
-    const pHigh = 1 - pLow;
-
-    let q: number;
-    let r: number;
-
-    if (p < pLow) {
-      q = Math.sqrt(-2 * Math.log(p));
-      return (
-        (((((c[0]! * q + c[1]!) * q + c[2]!) * q + c[3]!) * q + c[4]!) * q + c[5]!) /
-        ((((d[0]! * q + d[1]!) * q + d[2]!) * q + d[3]!) * q + 1)
-      );
-    } else if (p <= pHigh) {
-      q = p - 0.5;
-      r = q * q;
-      return (
-        ((((((a[0]! * r + a[1]!) * r + a[2]!) * r + a[3]!) * r + a[4]!) * r + a[5]!) * q) /
-        (((((b[0]! * r + b[1]!) * r + b[2]!) * r + b[3]!) * r + b[4]!) * r + 1)
-      );
-    } else {
-      q = Math.sqrt(-2 * Math.log(1 - p));
-      return (
-        -(((((c[0]! * q + c[1]!) * q + c[2]!) * q + c[3]!) * q + c[4]!) * q + c[5]!) /
-        ((((d[0]! * q + d[1]!) * q + d[2]!) * q + d[3]!) * q + 1)
-      );
-    }
+    return Number((inverseNormalCDF(clampedHR) - inverseNormalCDF(clampedFAR)).toFixed(2));
   }
 
   /**
@@ -253,36 +172,91 @@ export class ScoringService {
     audioTrials: TrialResult[],
     mode: TrainingMode
   ): SessionScoringResult {
-    const positionStats = this.calculateStatsWithCorrection(positionTrials);
-    const audioStats = this.calculateStatsWithCorrection(audioTrials);
-
-    let combinedAccuracy: number;
-    let combinedDPrime: number;
+    return this.calculateChannelSessionResult(
+      { position: positionTrials, audio: audioTrials },
+      mode
+    );
+  }
 
-    switch (mode) {
-      case 'single-position':
-        combinedAccuracy = positionStats.accuracy;
-        combinedDPrime = positionStats.dPrime;
-        break;
-      case 'single-audio':
-        combinedAccuracy = audioStats.accuracy;
-        combinedDPrime = audioStats.dPrime;
-        break;
-      case 'dual':
-        // Average of both for dual mode
-        combinedAccuracy = (positionStats.accuracy + audioStats.accuracy) / 2;
-        combinedDPrime = (positionStats.dPrime + audioStats.dPrime) / 2;
-        break;
+  /**
+   * Calculate full session result from per-channel trial results.
+   * Combined accuracy and d-prime average the channels the mode tracks.
+   */
+  calculateChannelSessionResult(
+    channelTrials: ChannelTrialResults,
+    mode: TrainingMode
+  ): SessionScoringResult {
+    const statsFor = (channel: StimulusChannel): PerformanceStats =>
+      this.calculateStats(channelTrials[channel] ?? []);
+
+    const channels = getModeChannels(mode);
+    const channelStats = channels.map(statsFor);
+    const lureStats: SessionLureStats = {};
+    for (const channel of channels) {
+      lureStats[channel] = this.calculateLureStats(channelTrials[channel] ?? []);
     }
+    const combinedAccuracy =
+      channelStats.reduce((sum, stats) => sum + stats.accuracy, 0) / channelStats.length;
+    const combinedDPrime =
+      channelStats.reduce((sum, stats) => sum + stats.dPrime, 0) / channelStats.length;
 
     return {
-      positionStats,
-      audioStats,
+      positionStats: statsFor('position'),
+      audioStats: statsFor('audio'),
+      ...(channels.includes('color') ? { colorStats: statsFor('color') } : {}),
+      ...(channels.includes('shape') ? { shapeStats: statsFor('shape') } : {}),
       combinedAccuracy,
       combinedDPrime,
+      lureStats,
+    };
+  }
+
+  /**
+   * Calculate false alarm rates on lure trials separately from the
+   * remaining non-match trials. Match trials are ignored.
+   */
+  calculateLureStats(trials: TrialResult[]): LureStats {
+    const nonMatches = trials.filter((t) => !t.isMatch);
+    const byType = {} as Record<LureType, FalseAlarmCounts>;
+    for (const type of LURE_TYPES) {
+      byType[type] = this.countFalseAlarms(nonMatches.filter((t) => t.lure === type));
+    }
+
+    return {
+      lures: this.countFalseAlarms(nonMatches.filter((t) => t.lure)),
+      nonLures: this.countFalseAlarms(nonMatches.filter((t) => !t.lure)),
+      byType,
+    };
+  }
+
+  private countFalseAlarms(trials: TrialResult[]): FalseAlarmCounts {
+    const falseAlarms = trials.filter((t) => t.userResponse === true).length;
+    return {
+      trials: trials.length,
+      falseAlarms,
+      falseAlarmRate: trials.length > 0 ? falseAlarms / trials.length : 0,
     };
   }
 
+  /**
+   * Calculate full session result directly from trial data
+   */
+  calculateTrialDataResult(trials: readonly TrialData[], mode: TrainingMode): SessionScoringResult {
+    const channelTrials: ChannelTrialResults = {};
+    for (const channel of getModeChannels(mode)) {
+      channelTrials[channel] = trials.map((trial) => {
+        const state = getTrialChannelState(trial, channel);
+        return {
+          isMatch: state.isMatch,
+          userResponse: state.userResponse,
+          responseTime: state.responseTime,
+          lure: state.lure,
+        };
+      });
+    }
+    return this.calculateChannelSessionResult(channelTrials, mode);
+  }
+
   /**
    * Calculate session result from dual trial results
    */
@@ -296,6 +270,33 @@ export class ScoringService {
     return this.calculateSessionResult(positionTrials, audioTrials, mode);
   }
 
+  /**
+   * Scoring conventions users can choose between
+   */
+  getScoringConventions(): readonly ScoringConvention[] {
+    return SCORING_CONVENTIONS;
+  }
+
+  /**
+   * Score a session under a scoring convention
+   */
+  scoreSession(
+    result: SessionResult,
+    convention: ScoringConventionId = DEFAULT_SCORING_CONVENTION
+  ): number {
+    return getSessionScore(result, convention);
+  }
+
+  /**
+   * Score a single modality under a scoring convention
+   */
+  scoreChannel(
+    stats: PerformanceStats,
+    convention: ScoringConventionId = DEFAULT_SCORING_CONVENTION
+  ): number {
+    return getScoringConvention(convention).scoreChannel(stats);
+  }
+
   /**
    * Determine performance level based on d-prime
    * Used for progression decisions
@@ -319,6 +320,8 @@ export class ScoringService {
 /**
  * Factory function to create a ScoringService instance
  */
-export function createScoringService(): ScoringService {
-  return new ScoringService();
+export function createScoringService(
+  correction: RateCorrection = DEFAULT_RATE_CORRECTION
+): ScoringService {
+  return new ScoringService(correction);
 }
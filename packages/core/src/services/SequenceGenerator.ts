@@ -2,13 +2,90 @@
  * SequenceGenerator Service
  *
  * Generates pseudo-random sequences for training sessions.
- * Ensures appropriate match frequency based on N-back level.
+ * Ensures appropriate match frequency based on N-back level, either by
+ * per-trial match probability or by placing an exact number of targets.
  * Supports seeded RNG for reproducible sequences.
  */
 
 import type { NBackLevel } from '../domain/value-objects/NBackLevel';
 import type { TrainingMode } from '../domain/value-objects/TrainingMode';
-import { modeIncludesPosition, modeIncludesAudio } from '../domain/value-objects/TrainingMode';
+import {
+  modeIncludesPosition,
+  modeIncludesAudio,
+  modeIncludesChannel,
+} from '../domain/value-objects/TrainingMode';
+import type { StimulusChannel } from '../domain/value-objects/StimulusChannel';
+import { STIMULUS_COLORS, STIMULUS_SHAPES } from '../domain/value-objects/StimulusChannel';
+import type { GridSize } from '../domain/value-objects/Position';
+import { getTotalPositions } from '../domain/value-objects/Position';
+import type { LureType } from '../domain/value-objects/Lure';
+import { classifyLure, getLureCandidates } from '../domain/value-objects/Lure';
+import { GRID_SIZE } from '../config/constants';
+
+/**
+ * Exact number of targets to place in a sequence.
+ * Position-only, audio-only and dual targets occupy distinct trials;
+ * color and shape targets are placed independently of them.
+ */
+export interface TargetCounts {
+  /** Trials that match on position only */
+  position: number;
+  /** Trials that match on audio only */
+  audio: number;
+  /** Trials that match on both position and audio */
+  dual: number;
+  /** Color targets (triple and quad modes; probabilistic when omitted) */
+  color?: number;
+  /** Shape targets (quad mode; probabilistic when omitted) */
+  shape?: number;
+}
+
+/**
+ * Brain Workshop standard block: 6 position, 6 audio and 2 dual targets
+ * over 20 + N trials
+ */
+export const BRAIN_WORKSHOP_TARGET_COUNTS: TargetCounts = {
+  position: 6,
+  audio: 6,
+  dual: 2,
+};
+
+/** Match probability per channel when none is given */
+const DEFAULT_MATCH_PROBABILITY = 0.3;
+
+/**
+ * Exact target counts matching a per-trial match probability over the
+ * trials after the N-back warmup. Position and audio overlap on as many
+ * dual targets as independent draws would produce.
+ */
+export function deriveTargetCounts(
+  mode: TrainingMode,
+  nBack: number,
+  trialCount: number,
+  matchProbability = DEFAULT_MATCH_PROBABILITY
+): TargetCounts {
+  const eligible = Math.max(trialCount - nBack, 0);
+  const perChannel = Math.round(matchProbability * eligible);
+  const includesPosition = modeIncludesPosition(mode);
+  const includesAudio = modeIncludesAudio(mode);
+
+  let dual = 0;
+  if (includesPosition && includesAudio) {
+    // Enough overlap that the single-channel targets fit in the eligible trials
+    dual = Math.max(
+      Math.round(matchProbability * matchProbability * eligible),
+      2 * perChannel - eligible
+    );
+  }
+
+  return {
+    position: includesPosition ? perChannel - dual : 0,
+    audio: includesAudio ? perChannel - dual : 0,
+    dual,
+    ...(modeIncludesChannel(mode, 'color') ? { color: perChannel } : {}),
+    ...(modeIncludesChannel(mode, 'shape') ? { shape: perChannel } : {}),
+  };
+}
 
 /**
  * Configuration for sequence generation
@@ -20,10 +97,26 @@ export interface SequenceConfig {
   trialCount: number;
   /** Training mode */
   mode: TrainingMode;
+  /** Grid side length (default: 3) */
+  gridSize?: GridSize;
   /** Probability of position match (default: 0.3) */
   positionMatchProbability?: number;
   /** Probability of audio match (default: 0.3) */
   audioMatchProbability?: number;
+  /** Probability of color match (default: 0.3) */
+  colorMatchProbability?: number;
+  /** Probability of shape match (default: 0.3) */
+  shapeMatchProbability?: number;
+  /**
+   * Probability that a non-match stimulus is deliberately placed as an
+   * N-1 or N+1 lure, per channel (default: 0 - lures only occur by chance)
+   */
+  lureProbability?: number;
+  /**
+   * Place exactly this many targets instead of drawing each trial against
+   * the match probabilities. Channels the mode does not track are ignored.
+   */
+  targetCounts?: TargetCounts;
   /** Optional seed for reproducible sequences */
   seed?: number;
 }
@@ -32,7 +125,7 @@ export interface SequenceConfig {
  * Represents a generated trial in the sequence
  */
 export interface GeneratedTrial {
-  /** Position index (0-8) for 3x3 grid */
+  /** Position index (row-major, 0 to gridSize² - 1) */
   position: number;
   /** Letter to speak */
   audioLetter: string;
@@ -40,6 +133,19 @@ export interface GeneratedTrial {
   isPositionMatch: boolean;
   /** Whether this trial is an audio match */
   isAudioMatch: boolean;
+  /** Square color (triple and quad modes only) */
+  color?: string;
+  /** Whether this trial is a color match */
+  isColorMatch?: boolean;
+  /** Shape (quad mode only) */
+  shape?: string;
+  /** Whether this trial is a shape match */
+  isShapeMatch?: boolean;
+  /** Lure type per channel, set only when the stimulus is a lure */
+  positionLure?: LureType;
+  audioLure?: LureType;
+  colorLure?: LureType;
+  shapeLure?: LureType;
 }
 
 /**
@@ -70,11 +176,8 @@ export class SequenceGenerator {
    */
   private static readonly LETTERS = ['C', 'H', 'K', 'L', 'Q', 'R', 'S', 'T'];
 
-  /** Number of positions in the 3x3 grid */
-  private static readonly GRID_SIZE = 9;
-
   /** Default match probability */
-  private static readonly DEFAULT_MATCH_PROBABILITY = 0.3;
+  private static readonly DEFAULT_MATCH_PROBABILITY = DEFAULT_MATCH_PROBABILITY;
 
   /**
    * Generates a sequence of trials based on the provided configuration
@@ -84,20 +187,33 @@ export class SequenceGenerator {
       nBack,
       trialCount,
       mode,
+      gridSize = GRID_SIZE,
       positionMatchProbability = SequenceGenerator.DEFAULT_MATCH_PROBABILITY,
       audioMatchProbability = SequenceGenerator.DEFAULT_MATCH_PROBABILITY,
+      colorMatchProbability = SequenceGenerator.DEFAULT_MATCH_PROBABILITY,
+      shapeMatchProbability = SequenceGenerator.DEFAULT_MATCH_PROBABILITY,
+      lureProbability = 0,
+      targetCounts,
       seed,
     } = config;
 
     // Use seeded RNG if seed provided, otherwise use Math.random
     const random = seed !== undefined ? createSeededRandom(seed) : Math.random.bind(Math);
+    const targets = targetCounts
+      ? this.planTargets(targetCounts, mode, nBack, trialCount, random)
+      : undefined;
 
+    const totalPositions = getTotalPositions(gridSize);
     const trials: GeneratedTrial[] = [];
     const positions: number[] = [];
     const letters: string[] = [];
+    const colors: string[] = [];
+    const shapes: string[] = [];
 
     const includesPosition = modeIncludesPosition(mode);
     const includesAudio = modeIncludesAudio(mode);
+    const includesColor = modeIncludesChannel(mode, 'color');
+    const includesShape = modeIncludesChannel(mode, 'shape');
 
     for (let i = 0; i < trialCount; i++) {
       let position: number;
@@ -109,27 +225,31 @@ export class SequenceGenerator {
       const canBeMatch = i >= nBack;
 
       // Determine if this trial should be a position match
-      const shouldBePositionMatch =
-        canBeMatch &&
-        includesPosition &&
-        random() < positionMatchProbability &&
-        !this.wasRecentMatch(trials, 'position', nBack);
+      const shouldBePositionMatch = targets
+        ? targets.position?.has(i) === true
+        : canBeMatch &&
+          includesPosition &&
+          random() < positionMatchProbability &&
+          !this.wasRecentMatch(trials, 'position', nBack);
 
       // Determine if this trial should be an audio match
-      const shouldBeAudioMatch =
-        canBeMatch &&
-        includesAudio &&
-        random() < audioMatchProbability &&
-        !this.wasRecentMatch(trials, 'audio', nBack);
+      const shouldBeAudioMatch = targets
+        ? targets.audio?.has(i) === true
+        : canBeMatch &&
+          includesAudio &&
+          random() < audioMatchProbability &&
+          !this.wasRecentMatch(trials, 'audio', nBack);
 
       // Generate position
       if (shouldBePositionMatch && positions.length >= nBack) {
         position = positions[i - nBack]!;
         isPositionMatch = true;
       } else {
-        // Generate random position, avoiding match if we shouldn't match
+        // Place a lure if requested, otherwise a random position that avoids a match
         const excludePosition = canBeMatch && positions.length >= nBack ? positions[i - nBack] : -1;
-        position = this.randomPositionExcluding(excludePosition!, random);
+        position =
+          (includesPosition ? this.pickLure(positions, nBack, lureProbability, random) : undefined) ??
+          this.randomPositionExcluding(excludePosition!, totalPositions, random);
       }
 
       // Generate audio letter
@@ -137,24 +257,137 @@ export class SequenceGenerator {
         letter = letters[i - nBack]!;
         isAudioMatch = true;
       } else {
-        // Generate random letter, avoiding match if we shouldn't match
+        // Place a lure if requested, otherwise a random letter that avoids a match
         const excludeLetter = canBeMatch && letters.length >= nBack ? letters[i - nBack] : '';
-        letter = this.randomLetterExcluding(excludeLetter!, random);
+        letter =
+          (includesAudio ? this.pickLure(letters, nBack, lureProbability, random) : undefined) ??
+          this.randomLetterExcluding(excludeLetter!, random);
       }
 
+      const positionLure = includesPosition ? classifyLure(positions, position, nBack) : null;
+      const audioLure = includesAudio ? classifyLure(letters, letter, nBack) : null;
       positions.push(position);
       letters.push(letter);
-      trials.push({
+      const trial: GeneratedTrial = {
         position,
         audioLetter: letter,
         isPositionMatch,
         isAudioMatch,
-      });
+        ...(positionLure ? { positionLure } : {}),
+        ...(audioLure ? { audioLure } : {}),
+      };
+
+      // Extra channels draw from the RNG after position and audio,
+      // so seeded dual sequences are unchanged
+      if (includesColor) {
+        const shouldBeColorMatch = targets?.color
+          ? targets.color.has(i)
+          : canBeMatch && random() < colorMatchProbability && !trials[i - 1]?.isColorMatch;
+        const { value, isMatch } = this.generateChannelValue(
+          colors,
+          STIMULUS_COLORS,
+          nBack,
+          shouldBeColorMatch,
+          lureProbability,
+          random
+        );
+        const colorLure = classifyLure(colors, value, nBack);
+        colors.push(value);
+        trial.color = value;
+        trial.isColorMatch = isMatch;
+        if (colorLure) trial.colorLure = colorLure;
+      }
+
+      if (includesShape) {
+        const shouldBeShapeMatch = targets?.shape
+          ? targets.shape.has(i)
+          : canBeMatch && random() < shapeMatchProbability && !trials[i - 1]?.isShapeMatch;
+        const { value, isMatch } = this.generateChannelValue(
+          shapes,
+          STIMULUS_SHAPES,
+          nBack,
+          shouldBeShapeMatch,
+          lureProbability,
+          random
+        );
+        const shapeLure = classifyLure(shapes, value, nBack);
+        shapes.push(value);
+        trial.shape = value;
+        trial.isShapeMatch = isMatch;
+        if (shapeLure) trial.shapeLure = shapeLure;
+      }
+
+      trials.push(trial);
     }
 
     return trials;
   }
 
+  /**
+   * Chooses which trials are targets for each channel.
+   * Targets are spread uniformly over the trials after the N-back warmup.
+   */
+  private planTargets(
+    counts: TargetCounts,
+    mode: TrainingMode,
+    nBack: number,
+    trialCount: number,
+    random: () => number
+  ): Partial<Record<StimulusChannel, Set<number>>> {
+    const includesPosition = modeIncludesPosition(mode);
+    const includesAudio = modeIncludesAudio(mode);
+    const eligible = Math.max(trialCount - nBack, 0);
+
+    const dual = includesPosition && includesAudio ? counts.dual : 0;
+    const positionOnly = includesPosition ? counts.position : 0;
+    const audioOnly = includesAudio ? counts.audio : 0;
+    const required = dual + positionOnly + audioOnly;
+    if (required > eligible) {
+      throw new Error(
+        `Cannot place ${required} targets in ${eligible} trials after the ${nBack}-back warmup`
+      );
+    }
+
+    const order = this.shuffledIndices(nBack, trialCount, random);
+    const dualIndices = order.slice(0, dual);
+    const plan: Partial<Record<StimulusChannel, Set<number>>> = {};
+
+    if (includesPosition) {
+      plan.position = new Set([...dualIndices, ...order.slice(dual, dual + positionOnly)]);
+    }
+    if (includesAudio) {
+      plan.audio = new Set([...dualIndices, ...order.slice(dual + positionOnly, required)]);
+    }
+
+    for (const channel of ['color', 'shape'] as const) {
+      const count = counts[channel];
+      if (count === undefined || !modeIncludesChannel(mode, channel)) continue;
+      if (count > eligible) {
+        throw new Error(
+          `Cannot place ${count} ${channel} targets in ${eligible} trials after the ${nBack}-back warmup`
+        );
+      }
+      plan[channel] = new Set(this.shuffledIndices(nBack, trialCount, random).slice(0, count));
+    }
+
+    return plan;
+  }
+
+  /**
+   * Fisher-Yates shuffle of the trial indices in [start, end)
+   */
+  private shuffledIndices(start: number, end: number, random: () => number): number[] {
+    const indices: number[] = [];
+    for (let i = start; i < end; i++) {
+      indices.push(i);
+    }
+    for (let i = indices.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [indices[i], indices[j]] = [indices[j]!, indices[i]!];
+    }
+    return indices;
+  }
+
   /**
    * Checks if there was a match in the most recent trial
    * Used to prevent consecutive matches which create predictable patterns
@@ -169,13 +402,67 @@ export class SequenceGenerator {
     return type === 'position' ? lastTrial.isPositionMatch : lastTrial.isAudioMatch;
   }
 
+  /**
+   * Picks a lure value for a non-match trial with the given probability.
+   * Draws from the RNG only when lures are enabled, so seeded sequences
+   * without lures are unchanged.
+   */
+  private pickLure<T>(
+    history: readonly T[],
+    nBack: number,
+    lureProbability: number,
+    random: () => number
+  ): T | undefined {
+    if (lureProbability <= 0) return undefined;
+
+    const candidates = getLureCandidates(history, nBack);
+    if (candidates.length === 0 || random() >= lureProbability) return undefined;
+
+    return candidates[Math.floor(random() * candidates.length)]!.value;
+  }
+
+  /**
+   * Picks the next value for an extra channel: the value from N trials back
+   * when a match is wanted, a lure when one is drawn, otherwise any other
+   * value from the pool
+   */
+  private generateChannelValue(
+    history: readonly string[],
+    pool: readonly string[],
+    nBack: number,
+    shouldMatch: boolean,
+    lureProbability: number,
+    random: () => number
+  ): { value: string; isMatch: boolean } {
+    const nBackValue = history.length >= nBack ? history[history.length - nBack] : undefined;
+
+    if (shouldMatch && nBackValue !== undefined) {
+      return { value: nBackValue, isMatch: true };
+    }
+
+    const lure = this.pickLure(history, nBack, lureProbability, random);
+    if (lure !== undefined) {
+      return { value: lure, isMatch: false };
+    }
+
+    let value: string;
+    do {
+      value = pool[Math.floor(random() * pool.length)]!;
+    } while (value === nBackValue);
+    return { value, isMatch: false };
+  }
+
   /**
    * Generates a random position, excluding the specified position
    */
-  private randomPositionExcluding(exclude: number, random: () => number): number {
+  private randomPositionExcluding(
+    exclude: number,
+    totalPositions: number,
+    random: () => number
+  ): number {
     let pos: number;
     do {
-      pos = Math.floor(random() * SequenceGenerator.GRID_SIZE);
+      pos = Math.floor(random() * totalPositions);
     } while (pos === exclude);
     return pos;
   }
@@ -201,10 +488,24 @@ export class SequenceGenerator {
   }
 
   /**
-   * Returns the grid size (number of positions)
+   * Returns the colors used for the color channel
+   */
+  static getAvailableColors(): readonly string[] {
+    return STIMULUS_COLORS;
+  }
+
+  /**
+   * Returns the shapes used for the shape channel
+   */
+  static getAvailableShapes(): readonly string[] {
+    return STIMULUS_SHAPES;
+  }
+
+  /**
+   * Returns the number of positions for a grid size (default 3x3)
    */
-  static getGridSize(): number {
-    return SequenceGenerator.GRID_SIZE;
+  static getGridSize(gridSize: GridSize = GRID_SIZE): number {
+    return getTotalPositions(gridSize);
   }
 }
 
@@ -0,0 +1,53 @@
+/**
+ * SessionImportService
+ *
+ * Stores sessions parsed from other apps' history files.
+ */
+
+import type { SessionResult } from '../domain/entities/Session';
+import type { ISessionRepository } from '../ports/ISessionRepository';
+
+/**
+ * Outcome of storing imported sessions
+ */
+export interface SessionImportResult {
+  readonly added: number;
+  /** Sessions already stored, e.g. from importing the same file before */
+  readonly duplicates: number;
+}
+
+/**
+ * SessionImportService
+ *
+ * Imported sessions are saved as they are; they do not touch progress
+ * totals, records or unlocks. ProgressionService.unlockEarnedLevels
+ * applies them to unlocks when the user counts imported sessions.
+ */
+export class SessionImportService {
+  constructor(private readonly sessionRepository: ISessionRepository) {}
+
+  async importSessions(sessions: readonly SessionResult[]): Promise<SessionImportResult> {
+    let added = 0;
+    let duplicates = 0;
+
+    for (const session of sessions) {
+      if (await this.sessionRepository.findById(session.sessionId)) {
+        duplicates++;
+        continue;
+      }
+      await this.sessionRepository.save(session);
+      added++;
+    }
+
+    return { added, duplicates };
+  }
+}
+
+/**
+ * Factory function to create a SessionImportService instance
+ */
+export function createSessionImportService(
+  sessionRepository: ISessionRepository
+): SessionImportService {
+  return new SessionImportService(sessionRepository);
+}
@@ -10,3 +10,10 @@ export * from './ScoringService';
 export * from './ProgressionService';
 export * from './ProfileAnalyzer';
 export * from './RecommendationEngine';
+export * from './AdaptiveNBackPolicy';
+export * from './CustomLevelService';
+export * from './RecordsService';
+export * from './ProgramService';
+export * from './DailyGoalService';
+export * from './ResearchExportService';
+export * from './SessionImportService';
@@ -0,0 +1,51 @@
+/**
+ * ActiveSessionRegistry
+ *
+ * In-memory registry of sessions that have been started but not yet completed.
+ * Shared by the session use cases so they can address a session by ID.
+ */
+
+import type { Session } from '../domain/entities/Session';
+
+export class ActiveSessionRegistry {
+  private readonly sessions = new Map<string, Session>();
+
+  /**
+   * Registers a started session
+   */
+  register(session: Session): void {
+    this.sessions.set(session.getId(), session);
+  }
+
+  /**
+   * Gets an active session, or null if it is unknown or already completed
+   */
+  get(sessionId: string): Session | null {
+    return this.sessions.get(sessionId) ?? null;
+  }
+
+  /**
+   * Gets an active session, throwing if it does not exist
+   */
+  require(sessionId: string): Session {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`No active session with ID: ${sessionId}`);
+    }
+    return session;
+  }
+
+  /**
+   * Removes a session from the registry
+   */
+  remove(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+}
+
+/**
+ * Factory function to create an ActiveSessionRegistry instance
+ */
+export function createActiveSessionRegistry(): ActiveSessionRegistry {
+  return new ActiveSessionRegistry();
+}
@@ -4,17 +4,180 @@
  * Finalizes a session and calculates performance metrics.
  */
 
-// Placeholder - will be implemented in Epic 03
+import type { Session, SessionResult } from '../domain/entities/Session';
+import type { SessionLureStats } from '../domain/value-objects/Lure';
+import type { ScoringConventionId } from '../domain/value-objects/ScoringConvention';
+import { DEFAULT_SCORING_CONVENTION } from '../domain/value-objects/ScoringConvention';
+import { createSessionCompletedEvent } from '../domain/events/SessionCompleted';
+import type { ISessionRepository } from '../ports/ISessionRepository';
+import type { IProgressRepository } from '../ports/IProgressRepository';
+import type { IEventBus } from '../ports/IEventBus';
+import type { ScoringService } from '../services/ScoringService';
+import type { ProgressionService } from '../services/ProgressionService';
+import type { RecordsService } from '../services/RecordsService';
+import type { DailyGoalService } from '../services/DailyGoalService';
+import type { DailyGoal } from '../domain/value-objects/DailyGoal';
+import { DEFAULT_DAILY_GOAL } from '../domain/value-objects/DailyGoal';
+import type { TrainingDay } from '../domain/entities/TrainingDay';
+import type { PersonalRecord } from '../domain/entities/PersonalRecord';
+import type { ActiveSessionRegistry } from './ActiveSessionRegistry';
+
 export interface CompleteSessionInput {
   sessionId: string;
+  /** Convention for the score and unlock checks (default: neuralift) */
+  scoringConvention?: ScoringConventionId;
+  /** Goal a day must meet to extend the streak (default: 3 blocks) */
+  dailyGoal?: DailyGoal;
+  /** Count sessions imported from other apps toward unlocks and the streak */
+  includeImported?: boolean;
 }
 
 export interface CompleteSessionOutput {
   accuracy: number;
   dPrime: number;
+  /** Session score in the requested convention */
+  score: number;
+  scoringConvention: ScoringConventionId;
+  /** True when the session unlocked at least one level */
   levelUp: boolean;
+  /** IDs of levels newly unlocked by the session */
+  unlockedLevelIds: string[];
+  /** Personal records the session set on its level */
+  personalBests: PersonalRecord[];
+  /** Today's training day, including this session */
+  trainingDay: TrainingDay;
+  /** False alarm rates on lure trials per channel */
+  lureStats: SessionLureStats;
+  /** The scored and persisted session */
+  result: SessionResult;
 }
 
-export interface CompleteSession {
-  execute(input: CompleteSessionInput): Promise<CompleteSessionOutput>;
+/**
+ * CompleteSession
+ *
+ * Scores an active session, persists it, updates progress and goal streak,
+ * applies level unlocks, records personal bests and publishes SessionCompleted.
+ */
+export class CompleteSession {
+  constructor(
+    private readonly scoringService: ScoringService,
+    private readonly progressionService: ProgressionService,
+    private readonly recordsService: RecordsService,
+    private readonly dailyGoalService: DailyGoalService,
+    private readonly sessionRepository: ISessionRepository,
+    private readonly progressRepository: IProgressRepository,
+    private readonly eventBus: IEventBus,
+    private readonly registry: ActiveSessionRegistry
+  ) {}
+
+  async execute(input: CompleteSessionInput): Promise<CompleteSessionOutput> {
+    const session = this.registry.require(input.sessionId);
+    try {
+      return await this.finalize(session, input);
+    } finally {
+      // A session completes once, so a failed save leaves nothing to retry
+      this.registry.remove(input.sessionId);
+    }
+  }
+
+  private async finalize(
+    session: Session,
+    input: CompleteSessionInput
+  ): Promise<CompleteSessionOutput> {
+    const scoringConvention = input.scoringConvention ?? DEFAULT_SCORING_CONVENTION;
+    const completed = session.complete();
+
+    // Score with the corrected d' used across the app
+    const scoring = this.scoringService.calculateTrialDataResult(completed.trials, completed.mode);
+
+    const result: SessionResult = {
+      ...completed,
+      positionStats: scoring.positionStats,
+      audioStats: scoring.audioStats,
+      ...(scoring.colorStats ? { colorStats: scoring.colorStats } : {}),
+      ...(scoring.shapeStats ? { shapeStats: scoring.shapeStats } : {}),
+      combinedAccuracy: scoring.combinedAccuracy,
+      lureStats: scoring.lureStats,
+    };
+
+    await this.sessionRepository.save(result);
+
+    // A day extends the streak only once its goal is met
+    const dailyGoal = input.dailyGoal ?? DEFAULT_DAILY_GOAL;
+    const includeImported = input.includeImported ?? false;
+    const streak = await this.dailyGoalService.getStreak(
+      dailyGoal,
+      result.timestamp,
+      includeImported
+    );
+    const trainingDay = await this.dailyGoalService.getToday(
+      dailyGoal,
+      result.timestamp,
+      includeImported
+    );
+    const progress = await this.progressRepository.get();
+    await this.progressRepository.save({
+      ...progress,
+      totalSessions: progress.totalSessions + 1,
+      totalTime: progress.totalTime + result.duration,
+      currentStreak: streak.current,
+      longestStreak: Math.max(progress.longestStreak, streak.longest),
+      lastSessionDate: result.timestamp,
+    });
+
+    const progression = await this.progressionService.processSessionResult(
+      result,
+      progress,
+      scoringConvention,
+      includeImported
+    );
+    const personalBests = await this.recordsService.processSessionResult(result);
+
+    this.eventBus.publish(
+      createSessionCompletedEvent(
+        input.sessionId,
+        result.levelId,
+        result.combinedAccuracy,
+        result.duration
+      )
+    );
+
+    return {
+      accuracy: scoring.combinedAccuracy,
+      dPrime: scoring.combinedDPrime,
+      score: this.scoringService.scoreSession(result, scoringConvention),
+      scoringConvention,
+      levelUp: progression.unlockedLevelIds.length > 0,
+      unlockedLevelIds: progression.unlockedLevelIds,
+      personalBests,
+      trainingDay,
+      lureStats: scoring.lureStats,
+      result,
+    };
+  }
+}
+
+/**
+ * Factory function to create a CompleteSession use case
+ */
+export function createCompleteSession(
+  scoringService: ScoringService,
+  progressionService: ProgressionService,
+  recordsService: RecordsService,
+  dailyGoalService: DailyGoalService,
+  sessionRepository: ISessionRepository,
+  progressRepository: IProgressRepository,
+  eventBus: IEventBus,
+  registry: ActiveSessionRegistry
+): CompleteSession {
+  return new CompleteSession(
+    scoringService,
+    progressionService,
+    recordsService,
+    dailyGoalService,
+    sessionRepository,
+    progressRepository,
+    eventBus,
+    registry
+  );
 }
@@ -0,0 +1,39 @@
+/**
+ * DiscardSession Use Case
+ *
+ * Drops an active session that will not be completed.
+ */
+
+import type { ActiveSessionRegistry } from './ActiveSessionRegistry';
+
+export interface DiscardSessionInput {
+  sessionId: string;
+}
+
+export interface DiscardSessionOutput {
+  /** False when no active session had the ID (e.g. it was already completed) */
+  discarded: boolean;
+}
+
+/**
+ * DiscardSession
+ *
+ * Removes a session from the active registry without scoring or saving it,
+ * for sessions that are reset, quit or left mid-way.
+ */
+export class DiscardSession {
+  constructor(private readonly registry: ActiveSessionRegistry) {}
+
+  execute(input: DiscardSessionInput): DiscardSessionOutput {
+    const discarded = this.registry.get(input.sessionId) !== null;
+    this.registry.remove(input.sessionId);
+    return { discarded };
+  }
+}
+
+/**
+ * Factory function to create a DiscardSession use case
+ */
+export function createDiscardSession(registry: ActiveSessionRegistry): DiscardSession {
+  return new DiscardSession(registry);
+}
@@ -4,12 +4,80 @@
  * Generates personalized training recommendations.
  */
 
-// Placeholder - will be implemented in Epic 03
-export interface RecommendationOutput {
-  suggestedLevel: string;
-  message: string;
+import type { ScoringConventionId } from '../domain/value-objects/ScoringConvention';
+import { DEFAULT_SCORING_CONVENTION } from '../domain/value-objects/ScoringConvention';
+import type { ISessionRepository } from '../ports/ISessionRepository';
+import type { IProgressRepository } from '../ports/IProgressRepository';
+import type { TrainingRecommendation } from '../ports/ILLMService';
+import type { ProgressionService } from '../services/ProgressionService';
+import type { RecommendationEngine } from '../services/RecommendationEngine';
+import type { LevelConfig } from '../config/levels';
+import { LEVELS } from '../config/levels';
+
+/**
+ * Sessions the engine plans from
+ */
+const RECENT_SESSION_COUNT = 30;
+
+export interface GetRecommendationsInput {
+  /** Convention for the unlock progress in reasons (default: neuralift) */
+  scoringConvention?: ScoringConventionId;
+  /** Reference time for today's sessions (default: now) */
+  now?: Date;
+  /** Count sessions imported from other apps toward unlock progress */
+  includeImported?: boolean;
 }
 
-export interface GetRecommendations {
-  execute(): Promise<RecommendationOutput>;
+export interface GetRecommendationsOutput {
+  /** Ranked recommendations, priority 1 first */
+  recommendations: TrainingRecommendation[];
+}
+
+/**
+ * GetRecommendations
+ *
+ * Loads recent sessions, progress and unlock progress of locked levels,
+ * and plans the next session with the offline RecommendationEngine.
+ */
+export class GetRecommendations {
+  constructor(
+    private readonly engine: RecommendationEngine,
+    private readonly progressionService: ProgressionService,
+    private readonly sessionRepository: ISessionRepository,
+    private readonly progressRepository: IProgressRepository,
+    private readonly levels: readonly LevelConfig[] = LEVELS
+  ) {}
+
+  async execute(input: GetRecommendationsInput = {}): Promise<GetRecommendationsOutput> {
+    const [recent, progress] = await Promise.all([
+      this.sessionRepository.findStats({ limit: RECENT_SESSION_COUNT }),
+      this.progressRepository.get(),
+    ]);
+    const locked = this.levels.filter((level) => !progress.unlockedLevels.includes(level.id));
+    const unlockProgress = await this.progressionService.getUnlockProgress(
+      locked,
+      input.scoringConvention ?? DEFAULT_SCORING_CONVENTION,
+      input.includeImported ?? false
+    );
+
+    const recommendations = this.engine.recommend({
+      sessions: [...recent].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()),
+      progress,
+      unlockProgress,
+      ...(input.now && { now: input.now }),
+    });
+    return { recommendations };
+  }
+}
+
+/**
+ * Factory function to create a GetRecommendations use case
+ */
+export function createGetRecommendations(
+  engine: RecommendationEngine,
+  progressionService: ProgressionService,
+  sessionRepository: ISessionRepository,
+  progressRepository: IProgressRepository
+): GetRecommendations {
+  return new GetRecommendations(engine, progressionService, sessionRepository, progressRepository);
 }
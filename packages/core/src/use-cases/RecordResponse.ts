@@ -4,14 +4,78 @@
  * Records a user's response to a trial stimulus.
  */
 
-// Placeholder - will be implemented in Epic 03
+import { createTrialCompletedEvent } from '../domain/events/TrialCompleted';
+import type { StimulusChannel } from '../domain/value-objects/StimulusChannel';
+import type { IEventBus } from '../ports/IEventBus';
+import type { ActiveSessionRegistry } from './ActiveSessionRegistry';
+
 export interface RecordResponseInput {
   sessionId: string;
   trialIndex: number;
+  /** User claimed a position match */
   positionMatch: boolean;
+  /** User claimed an audio match */
   audioMatch: boolean;
+  /** User claimed a color match (triple and quad modes) */
+  colorMatch?: boolean;
+  /** User claimed a shape match (quad mode) */
+  shapeMatch?: boolean;
+}
+
+export interface RecordResponseOutput {
+  /** False when the response arrived for a trial that is no longer current */
+  recorded: boolean;
+  /** Whether every claimed match was an actual match */
+  correct: boolean;
 }
 
-export interface RecordResponse {
-  execute(input: RecordResponseInput): Promise<void>;
+/**
+ * RecordResponse
+ *
+ * Applies match claims to the current trial of an active session
+ * and publishes TrialCompleted with the correctness of the response.
+ */
+export class RecordResponse {
+  constructor(
+    private readonly eventBus: IEventBus,
+    private readonly registry: ActiveSessionRegistry
+  ) {}
+
+  async execute(input: RecordResponseInput): Promise<RecordResponseOutput> {
+    const session = this.registry.require(input.sessionId);
+    const trial = session.getCurrentTrial();
+
+    // Late responses for a trial that has already ended are dropped
+    if (!trial || session.getCurrentTrialIndex() !== input.trialIndex) {
+      return { recorded: false, correct: false };
+    }
+
+    const claimed: StimulusChannel[] = [];
+    if (input.positionMatch) claimed.push('position');
+    if (input.audioMatch) claimed.push('audio');
+    if (input.colorMatch) claimed.push('color');
+    if (input.shapeMatch) claimed.push('shape');
+
+    for (const channel of claimed) {
+      session.recordChannelResponse(channel, true);
+    }
+
+    const correct = claimed.every((channel) => trial.getChannelState(channel).isMatch);
+
+    this.eventBus.publish(
+      createTrialCompletedEvent(input.sessionId, String(input.trialIndex), correct)
+    );
+
+    return { recorded: true, correct };
+  }
+}
+
+/**
+ * Factory function to create a RecordResponse use case
+ */
+export function createRecordResponse(
+  eventBus: IEventBus,
+  registry: ActiveSessionRegistry
+): RecordResponse {
+  return new RecordResponse(eventBus, registry);
 }
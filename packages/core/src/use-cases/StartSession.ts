@@ -4,15 +4,152 @@
  * Initializes a new training session with the specified level.
  */
 
-// Placeholder - will be implemented in Epic 03
+import { Session } from '../domain/entities/Session';
+import { Trial } from '../domain/entities/Trial';
+import type { NBackLevel } from '../domain/value-objects/NBackLevel';
+import { createSessionStartedEvent } from '../domain/events/SessionStarted';
+import type { IEventBus } from '../ports/IEventBus';
+import type { SequenceGenerator, TargetCounts } from '../services/SequenceGenerator';
+import { deriveTargetCounts } from '../services/SequenceGenerator';
+import type { LevelConfig } from '../config/levels';
+import { getLevelById } from '../config/levels';
+import {
+  DEFAULT_LURE_PROBABILITY,
+  DEFAULT_TRIALS_PER_SESSION,
+  DEFAULT_TRIAL_DURATION_MS,
+} from '../config/constants';
+import type { ActiveSessionRegistry } from './ActiveSessionRegistry';
+
 export interface StartSessionInput {
   levelId: string;
+  /** Overrides the level's N (e.g. adaptive mode) */
+  nBack?: NBackLevel;
+  /** Number of trials (defaults to the level's, then DEFAULT_TRIALS_PER_SESSION) */
+  trialCount?: number;
+  /** Trial duration in ms (defaults to the level's, then DEFAULT_TRIAL_DURATION_MS) */
+  trialDuration?: number;
+  /**
+   * Probability of placing N-1/N+1 lures on non-match trials
+   * (defaults to the level's, then DEFAULT_LURE_PROBABILITY)
+   */
+  lureProbability?: number;
+  /**
+   * Place exactly this many targets (e.g. BRAIN_WORKSHOP_TARGET_COUNTS).
+   * Defaults to the counts the level's match probability gives over the trial count.
+   */
+  targetCounts?: TargetCounts;
+  /** Seed for a reproducible sequence */
+  seed?: number;
 }
 
 export interface StartSessionOutput {
   sessionId: string;
+  /** The created session, ready to be started by the caller */
+  session: Session;
 }
 
-export interface StartSession {
-  execute(input: StartSessionInput): Promise<StartSessionOutput>;
+/**
+ * Resolves a level ID to its configuration (built-in or user-defined)
+ */
+export type LevelResolver = (
+  levelId: string
+) => LevelConfig | undefined | Promise<LevelConfig | undefined>;
+
+/**
+ * Generates unique session IDs
+ */
+export type SessionIdGenerator = () => string;
+
+/**
+ * Default session ID generator (time-ordered with a random suffix)
+ */
+export function generateSessionId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * StartSession
+ *
+ * Generates the trial sequence for a level, creates the Session entity,
+ * registers it as active and publishes SessionStarted.
+ * The caller calls session.start() when the first stimulus is shown.
+ */
+export class StartSession {
+  constructor(
+    private readonly sequenceGenerator: SequenceGenerator,
+    private readonly eventBus: IEventBus,
+    private readonly registry: ActiveSessionRegistry,
+    private readonly generateId: SessionIdGenerator = generateSessionId,
+    private readonly resolveLevel: LevelResolver = getLevelById
+  ) {}
+
+  async execute(input: StartSessionInput): Promise<StartSessionOutput> {
+    const level = await this.resolveLevel(input.levelId);
+    if (!level) {
+      throw new Error(`Unknown level: ${input.levelId}`);
+    }
+
+    const nBack = input.nBack ?? level.nBack;
+    const trialCount = input.trialCount ?? level.trialCount ?? DEFAULT_TRIALS_PER_SESSION;
+    const matchProbability = level.matchProbability;
+    const lureProbability =
+      input.lureProbability ?? level.lureProbability ?? DEFAULT_LURE_PROBABILITY;
+    const targetCounts =
+      input.targetCounts ?? deriveTargetCounts(level.mode, nBack, trialCount, matchProbability);
+
+    const generated = this.sequenceGenerator.generate({
+      nBack,
+      trialCount,
+      mode: level.mode,
+      ...(level.gridSize !== undefined ? { gridSize: level.gridSize } : {}),
+      ...(matchProbability !== undefined
+        ? {
+            positionMatchProbability: matchProbability,
+            audioMatchProbability: matchProbability,
+            colorMatchProbability: matchProbability,
+            shapeMatchProbability: matchProbability,
+          }
+        : {}),
+      lureProbability,
+      targetCounts,
+      ...(input.seed !== undefined ? { seed: input.seed } : {}),
+    });
+
+    const trials = generated.map(
+      ({ position, audioLetter, isPositionMatch, isAudioMatch, ...extra }, index) =>
+        Trial.create(index, position, audioLetter, isPositionMatch, isAudioMatch, extra)
+    );
+
+    const sessionId = this.generateId();
+    const session = new Session(
+      sessionId,
+      {
+        levelId: level.id,
+        nBack,
+        mode: level.mode,
+        trialCount: trials.length,
+        trialDuration: input.trialDuration ?? level.trialDuration ?? DEFAULT_TRIAL_DURATION_MS,
+        ...(level.gridSize !== undefined ? { gridSize: level.gridSize } : {}),
+      },
+      trials
+    );
+
+    this.registry.register(session);
+    this.eventBus.publish(createSessionStartedEvent(sessionId, level.id));
+
+    return { sessionId, session };
+  }
+}
+
+/**
+ * Factory function to create a StartSession use case
+ */
+export function createStartSession(
+  sequenceGenerator: SequenceGenerator,
+  eventBus: IEventBus,
+  registry: ActiveSessionRegistry,
+  generateId: SessionIdGenerator = generateSessionId,
+  resolveLevel: LevelResolver = getLevelById
+): StartSession {
+  return new StartSession(sequenceGenerator, eventBus, registry, generateId, resolveLevel);
 }
@@ -5,9 +5,11 @@
  * domain entities and services through port interfaces.
  */
 
+export * from './ActiveSessionRegistry';
 export * from './StartSession';
 export * from './RecordResponse';
 export * from './CompleteSession';
+export * from './DiscardSession';
 export * from './GetRecommendations';
 export * from './UnlockLevel';
 export * from './BuildUserProfile';
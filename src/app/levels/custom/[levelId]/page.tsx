@@ -0,0 +1,115 @@
+'use client';
+
+import { use, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { BackgroundOrbs } from '@/components/ui/BackgroundOrbs';
+import { BackButton } from '@/components/layout/BackButton';
+import { Card, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Spinner } from '@/components/ui/Spinner';
+import { CustomLevelForm } from '@/components/levels/CustomLevelForm';
+import { useCustomLevels } from '@/application/hooks';
+import type { CustomLevelInput } from '@neuralift/core';
+
+interface EditCustomLevelPageProps {
+  params: Promise<{ levelId: string }>;
+}
+
+export default function EditCustomLevelPage({ params }: EditCustomLevelPageProps) {
+  const { levelId } = use(params);
+  const router = useRouter();
+  const { levels, loading, updateLevel, deleteLevel } = useCustomLevels();
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const level = levels.find((l) => l.id === levelId);
+
+  const handleSubmit = async (input: CustomLevelInput) => {
+    await updateLevel(levelId, input);
+    router.push('/levels');
+  };
+
+  const handleDelete = async () => {
+    await deleteLevel(levelId);
+    router.push('/levels');
+  };
+
+  if (loading) {
+    return (
+      <main id="main-content" className="min-h-screen bg-gradient-neural flex items-center justify-center">
+        <BackgroundOrbs />
+        <Spinner size="lg" />
+      </main>
+    );
+  }
+
+  if (!level) {
+    return (
+      <main id="main-content" className="min-h-screen bg-gradient-neural flex items-center justify-center">
+        <BackgroundOrbs />
+        <Card variant="elevated" padding="lg" className="max-w-md">
+          <CardContent className="text-center">
+            <p className="text-text-primary text-lg mb-4">Level not found</p>
+            <Link href="/levels">
+              <Button>Back to Levels</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </main>
+    );
+  }
+
+  return (
+    <main id="main-content" className="min-h-screen bg-gradient-neural p-6 pb-20">
+      <BackgroundOrbs />
+
+      <div className="max-w-lg mx-auto">
+        <BackButton href="/levels" label="Back to Levels" className="mb-6" />
+
+        <h1 className="text-3xl font-bold text-text-primary mb-2">Edit Level</h1>
+        <p className="text-text-secondary mb-8">{level.name}</p>
+
+        <div className="space-y-6">
+          <Card>
+            <CardContent>
+              <CustomLevelForm
+                initial={{
+                  name: level.name,
+                  nBack: level.nBack,
+                  mode: level.mode,
+                  trialCount: level.trialCount,
+                  trialDuration: level.trialDuration,
+                  matchProbability: level.matchProbability,
+                }}
+                submitLabel="Save Changes"
+                onSubmit={handleSubmit}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="flex flex-col gap-3">
+              <p className="text-sm text-text-secondary">
+                Deleting a level keeps the sessions you played on it.
+              </p>
+              {confirmDelete ? (
+                <div className="flex gap-3">
+                  <Button variant="danger" fullWidth onClick={() => void handleDelete()}>
+                    Confirm Delete
+                  </Button>
+                  <Button variant="secondary" fullWidth onClick={() => setConfirmDelete(false)}>
+                    Cancel
+                  </Button>
+                </div>
+              ) : (
+                <Button variant="secondary" fullWidth onClick={() => setConfirmDelete(true)}>
+                  Delete Level
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </main>
+  );
+}
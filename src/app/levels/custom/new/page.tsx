@@ -0,0 +1,38 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { BackgroundOrbs } from '@/components/ui/BackgroundOrbs';
+import { BackButton } from '@/components/layout/BackButton';
+import { Card, CardContent } from '@/components/ui/Card';
+import { CustomLevelForm } from '@/components/levels/CustomLevelForm';
+import { useCustomLevels } from '@/application/hooks';
+import type { CustomLevelInput } from '@neuralift/core';
+
+export default function NewCustomLevelPage() {
+  const router = useRouter();
+  const { createLevel } = useCustomLevels();
+
+  const handleSubmit = async (input: CustomLevelInput) => {
+    const level = await createLevel(input);
+    router.push(`/train/${level.id}`);
+  };
+
+  return (
+    <main id="main-content" className="min-h-screen bg-gradient-neural p-6 pb-20">
+      <BackgroundOrbs />
+
+      <div className="max-w-lg mx-auto">
+        <BackButton href="/levels" label="Back to Levels" className="mb-6" />
+
+        <h1 className="text-3xl font-bold text-text-primary mb-2">Create Level</h1>
+        <p className="text-text-secondary mb-8">Design your own training session</p>
+
+        <Card>
+          <CardContent>
+            <CustomLevelForm submitLabel="Create Level" onSubmit={handleSubmit} />
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  );
+}
@@ -1,11 +1,33 @@
 'use client';
 
 import { BackgroundOrbs } from '@/components/ui/BackgroundOrbs';
+import Link from 'next/link';
 import { BackButton } from '@/components/layout/BackButton';
+import { Button } from '@/components/ui/Button';
 import { PhaseSection } from '@/components/levels/PhaseSection';
 import { LevelCard } from '@/components/levels/LevelCard';
 import { LEVELS, type LevelConfig } from '@neuralift/core';
 import { isFeatureEnabled, type FeatureFlag } from '@/config/features';
+import {
+  useCustomLevels,
+  useProgress,
+  useScoringConvention,
+  useSettings,
+  useUnlockProgress,
+} from '@/application/hooks';
+
+/**
+ * IDs of the generated track levels for a range of N
+ */
+function trackLevelIds(prefixes: string[], minNBack: number, maxNBack: number): string[] {
+  const ids: string[] = [];
+  for (const prefix of prefixes) {
+    for (let n = minNBack; n <= maxNBack; n++) {
+      ids.push(`${prefix}-${n}`);
+    }
+  }
+  return ids;
+}
 
 // Phase configuration with feature flags
 const PHASES = [
@@ -33,13 +55,68 @@ const PHASES = [
     levelIds: ['dual-2', 'dual-3'],
     featureFlag: 'FEATURE_PHASE_ADVANCED' as FeatureFlag,
   },
+  {
+    id: 'mastery',
+    title: 'Mastery',
+    description: 'Hold more in mind with 3 to 5-back single and dual training',
+    accentColor: 'cyan' as const,
+    levelIds: [...trackLevelIds(['position', 'audio'], 3, 5), ...trackLevelIds(['dual'], 4, 5)],
+    featureFlag: 'FEATURE_PHASE_MASTERY' as FeatureFlag,
+  },
+  {
+    id: 'elite',
+    title: 'Elite',
+    description: 'The far end of working memory: 6 to 9-back',
+    accentColor: 'magenta' as const,
+    levelIds: trackLevelIds(['position', 'audio', 'dual'], 6, 9),
+    featureFlag: 'FEATURE_PHASE_ELITE' as FeatureFlag,
+  },
+  {
+    id: 'expert',
+    title: 'Expert',
+    description: 'Add color and shape streams with triple and quad n-back',
+    accentColor: 'gold' as const,
+    levelIds: ['triple-2', 'quad-2'],
+    featureFlag: 'FEATURE_PHASE_EXPERT' as FeatureFlag,
+  },
+  {
+    id: 'spatial',
+    title: 'Spatial',
+    description: 'Raise spatial load on larger grids without raising N',
+    accentColor: 'cyan' as const,
+    levelIds: ['position-2-4x4', 'dual-2-4x4', 'dual-2-5x5'],
+    featureFlag: 'FEATURE_PHASE_SPATIAL' as FeatureFlag,
+  },
 ];
 
+/**
+ * Whether a level is unlocked or needs no unlocking
+ */
+function isLevelAvailable(level: LevelConfig, unlockedLevelIds: ReadonlySet<string>): boolean {
+  return !level.unlockCriteria || unlockedLevelIds.has(level.id);
+}
+
+/**
+ * Whether every level that a level unlocks has been unlocked
+ */
+function isLevelComplete(levelId: string, unlockedLevelIds: ReadonlySet<string>): boolean {
+  const next = LEVELS.filter((level) => level.unlockCriteria?.requiredLevels.includes(levelId));
+  return next.length > 0 && next.every((level) => unlockedLevelIds.has(level.id));
+}
+
 export default function LevelsPage() {
-  // TODO: Connect to useProgress hook for real data
-  const unlockedLevelIds = ['position-1', 'audio-1', 'position-2', 'audio-2'];
-  const completedLevelIds = ['position-1'];
-  const currentLevelId = 'audio-1';
+  const { progress } = useProgress();
+  const unlockedLevelIds = new Set(progress?.unlockedLevels ?? []);
+  const currentLevelId = progress?.currentLevel;
+  const { levels: customLevels } = useCustomLevels();
+  const { conventionId } = useScoringConvention();
+  const { settings } = useSettings();
+  const { progress: unlockProgress } = useUnlockProgress(
+    LEVELS,
+    conventionId,
+    settings?.includeImportedSessions
+  );
+  const customLevelsEnabled = isFeatureEnabled('FEATURE_CUSTOM_LEVELS');
 
   // Create a map for quick level lookup
   const levelMap = new Map<string, LevelConfig>();
@@ -84,15 +161,44 @@ export default function LevelsPage() {
                   <LevelCard
                     key={level.id}
                     level={level}
-                    locked={!isPhaseEnabled || !unlockedLevelIds.includes(level.id)}
-                    complete={completedLevelIds.includes(level.id)}
+                    locked={!isPhaseEnabled || !isLevelAvailable(level, unlockedLevelIds)}
+                    complete={isLevelComplete(level.id, unlockedLevelIds)}
                     recommended={isPhaseEnabled && level.id === currentLevelId}
+                    unlockProgress={isPhaseEnabled ? unlockProgress.get(level.id) : undefined}
                   />
                 ))}
               </div>
             </PhaseSection>
           );
         })}
+
+        {/* User-defined levels - always unlocked */}
+        {customLevelsEnabled && (
+          <PhaseSection
+            title="Custom"
+            description="Your own levels with the settings you choose"
+            accentColor="magenta"
+          >
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {customLevels.map((level) => (
+                <div key={level.id} className="flex flex-col gap-2">
+                  <LevelCard level={level} />
+                  <Link
+                    href={`/levels/custom/${level.id}`}
+                    className="text-sm text-text-secondary hover:text-text-primary text-center"
+                  >
+                    Edit
+                  </Link>
+                </div>
+              ))}
+            </div>
+            <Link href="/levels/custom/new" className="block mt-4">
+              <Button variant="secondary" fullWidth>
+                Create Level
+              </Button>
+            </Link>
+          </PhaseSection>
+        )}
       </div>
     </main>
   );
@@ -9,9 +9,16 @@ import { LearnMoreCard } from '@/components/landing/LearnMoreCard';
 import { JourneyMap } from '@/components/landing/JourneyMap';
 import { TodayStats } from '@/components/landing/TodayStats';
 import { GuidedTour } from '@/components/help';
-import { useProgress } from '@/application/hooks';
+import {
+  useDailyGoal,
+  useProgress,
+  useRecommendations,
+  useScoringConvention,
+  useTrainingProgram,
+} from '@/application/hooks';
 import { db, type DBSession } from '@/infrastructure/database';
 import { cn } from '@/lib/utils';
+import { describeDailyGoal, getLevelById } from '@neuralift/core';
 
 function NavIcon({
   href,
@@ -42,6 +49,10 @@ function NavIcon({
 
 export default function HomePage() {
   const { progress } = useProgress();
+  const { scoreSession, format } = useScoringConvention();
+  const { recommendations } = useRecommendations();
+  const { status: programStatus } = useTrainingProgram();
+  const { goal, today, streak } = useDailyGoal();
   const [todaySessions, setTodaySessions] = useState<DBSession[]>([]);
 
   // Load today's sessions
@@ -62,18 +73,19 @@ export default function HomePage() {
 
   // Calculate stats
   const sessionsToday = todaySessions.length;
-  const bestAccuracy = useMemo(() => {
-    if (todaySessions.length === 0) return 0;
-    return Math.round(
-      Math.max(...todaySessions.map((s) => s.combinedAccuracy))
-    );
-  }, [todaySessions]);
-  const currentStreak = progress?.currentStreak ?? 0;
+  const bestScore = useMemo(() => {
+    const scores = todaySessions
+      .map(scoreSession)
+      .filter((score): score is number => score !== null);
+    if (scores.length === 0) return format(0);
+    return format(Math.max(...scores));
+  }, [todaySessions, scoreSession, format]);
+  const currentStreak = streak.current;
   const unlockedLevels = progress?.unlockedLevels ?? [];
 
   // Calculate current level number from level ID
   const currentLevelNum = useMemo(() => {
-    const levelId = progress?.currentLevel ?? 'position-1back';
+    const levelId = progress?.currentLevel ?? 'position-1';
     const match = levelId.match(/(\d+)/);
     const numStr = match?.[1];
     return numStr ? parseInt(numStr, 10) : 1;
@@ -129,7 +141,7 @@ export default function HomePage() {
 
         {/* Action Cards */}
         <div className="flex flex-col sm:flex-row gap-4 mb-12 w-full max-w-md" data-tour="quick-start">
-          <QuickStartCard />
+          <QuickStartCard recommendation={recommendations[0]} />
           <LearnMoreCard />
         </div>
 
@@ -147,8 +159,14 @@ export default function HomePage() {
           <TodayStats
             className="w-full max-w-lg"
             sessionsToday={sessionsToday}
-            bestAccuracy={bestAccuracy}
+            bestScore={bestScore}
             currentStreak={currentStreak}
+            goalLabel={describeDailyGoal(
+              goal,
+              goal.levelId ? getLevelById(goal.levelId)?.name : undefined
+            )}
+            goalProgress={today?.goalProgress}
+            program={programStatus}
           />
         </div>
       </div>
@@ -2,6 +2,7 @@
 
 import { useEffect, useState, useMemo } from 'react';
 import {
+  Button,
   Card,
   CardContent,
   CardHeader,
@@ -15,9 +16,20 @@ import {
   StatsSummary,
   AccuracyChart,
   SessionHistory,
+  PersonalRecordsList,
+  TrendSummary,
+  ResearchExportPanel,
 } from '@/components/progress';
-import { useProgress } from '@/application/hooks';
+import {
+  useDailyGoal,
+  usePersonalRecords,
+  useProgress,
+  useResearchExport,
+  useScoringConvention,
+  useUserProfile,
+} from '@/application/hooks';
 import { db, type DBSession } from '@/infrastructure/database';
+import { LEVELS, describeDailyGoal, getLevelById } from '@neuralift/core';
 
 /**
  * Loading skeleton for progress page
@@ -77,6 +89,12 @@ function ProgressLoadingSkeleton() {
 
 export default function ProgressPage() {
   const { progress, loading: progressLoading } = useProgress();
+  const { convention, scoreSession, format } = useScoringConvention();
+  const { records, rebuild: rebuildRecords } = usePersonalRecords();
+  const { profile } = useUserProfile();
+  const { goal, recentDays, streak } = useDailyGoal();
+  const researchExport = useResearchExport();
+  const [rebuilding, setRebuilding] = useState(false);
   const [sessions, setSessions] = useState<DBSession[]>([]);
   const [sessionsLoading, setSessionsLoading] = useState(true);
 
@@ -102,15 +120,28 @@ export default function ProgressPage() {
     void loadSessions();
   }, []);
 
-  // Calculate average accuracy from sessions
-  const averageAccuracy = useMemo(() => {
-    if (sessions.length === 0) return undefined;
-    const total = sessions.reduce((sum, s) => sum + s.combinedAccuracy, 0);
-    return total / sessions.length;
-  }, [sessions]);
+  // Average score in the user's scoring convention
+  const averageScore = useMemo(() => {
+    const scores = sessions
+      .map(scoreSession)
+      .filter((score): score is number => score !== null);
+    if (scores.length === 0) return undefined;
+    return format(scores.reduce((sum, score) => sum + score, 0) / scores.length);
+  }, [sessions, scoreSession, format]);
 
   const loading = progressLoading || sessionsLoading;
 
+  const handleRebuildRecords = async () => {
+    setRebuilding(true);
+    try {
+      await rebuildRecords();
+    } catch (error) {
+      console.error('[ProgressPage] Failed to rebuild records:', error);
+    } finally {
+      setRebuilding(false);
+    }
+  };
+
   return (
     <main id="main-content" className="min-h-screen p-6 pb-20">
       <div className="max-w-4xl mx-auto">
@@ -137,8 +168,13 @@ export default function ProgressPage() {
               </CardHeader>
               <CardContent>
                 <StreakDisplay
-                  current={progress?.currentStreak ?? 0}
-                  longest={progress?.longestStreak ?? 0}
+                  current={streak.current}
+                  longest={streak.longest}
+                  goalLabel={describeDailyGoal(
+                    goal,
+                    goal.levelId ? getLevelById(goal.levelId)?.name : undefined
+                  )}
+                  days={recentDays}
                 />
               </CardContent>
             </Card>
@@ -152,7 +188,7 @@ export default function ProgressPage() {
                 <StatsSummary
                   totalSessions={progress?.totalSessions ?? 0}
                   totalTime={progress?.totalTime ?? 0}
-                  averageAccuracy={averageAccuracy}
+                  averageScore={averageScore}
                 />
               </CardContent>
             </Card>
@@ -161,12 +197,53 @@ export default function ProgressPage() {
             <Card className="md:col-span-2">
               <CardHeader>
                 <div className="flex items-center gap-2">
-                  <CardTitle>Accuracy Trend</CardTitle>
+                  <CardTitle>Score Trend</CardTitle>
                   <HelpTrigger contentKey="result-accuracy" />
                 </div>
               </CardHeader>
               <CardContent>
-                <AccuracyChart sessions={sessions} />
+                <AccuracyChart
+                  sessions={sessions}
+                  scoreSession={scoreSession}
+                  unit={convention.unit}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Accuracy Trend */}
+            {profile && (
+              <Card className="md:col-span-2">
+                <CardHeader>
+                  <CardTitle>Accuracy Trend</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <TrendSummary
+                    overall={profile.trends.overallEstimate}
+                    position={profile.trends.positionEstimate}
+                    audio={profile.trends.audioEstimate}
+                    plateau={profile.trends.plateau}
+                  />
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Personal Records */}
+            <Card className="md:col-span-2">
+              <CardHeader>
+                <div className="flex items-center justify-between gap-2">
+                  <CardTitle>Personal Bests</CardTitle>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => void handleRebuildRecords()}
+                    disabled={rebuilding}
+                  >
+                    {rebuilding ? 'Rebuilding…' : 'Rebuild'}
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <PersonalRecordsList records={records} />
               </CardContent>
             </Card>
 
@@ -176,7 +253,29 @@ export default function ProgressPage() {
                 <CardTitle>Recent Sessions</CardTitle>
               </CardHeader>
               <CardContent>
-                <SessionHistory sessions={sessions} />
+                <SessionHistory
+                  sessions={sessions}
+                  convention={convention}
+                  scoreSession={scoreSession}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Research Export */}
+            <Card className="md:col-span-2">
+              <CardHeader>
+                <CardTitle>Export Data</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ResearchExportPanel
+                  levels={LEVELS}
+                  exporting={researchExport.exporting}
+                  error={researchExport.error}
+                  lastRowCount={researchExport.lastRowCount}
+                  onExport={(table, format, filter) =>
+                    void researchExport.exportTable(table, format, filter)
+                  }
+                />
               </CardContent>
             </Card>
           </div>
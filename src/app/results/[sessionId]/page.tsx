@@ -1,10 +1,23 @@
 'use client';
 
-import { use } from 'react';
+import { use, useMemo } from 'react';
+import {
+  canScoreSession,
+  formatScore,
+  getModeChannels,
+  getScoringConvention,
+  getSessionBlocks,
+  getSessionChannelStats,
+  getSessionPerformanceCurve,
+  getSessionScore,
+  getSessionTrialReview,
+  type SessionResult,
+} from '@neuralift/core';
 import Link from 'next/link';
 import { motion } from 'framer-motion';
 import { BackgroundOrbs } from '@/components/ui/BackgroundOrbs';
 import { Button } from '@/components/ui/Button';
+import { Spinner } from '@/components/ui/Spinner';
 import {
   Card,
   CardHeader,
@@ -15,39 +28,29 @@ import {
   ScoreCircle,
   StatComparison,
   StatsTable,
+  LureStatsTable,
   CoachNotes,
+  ResponseTimePanel,
+  SessionCurveChart,
+  TrialTimeline,
+  TrialReplay,
+  PersonalBestBanner,
 } from '@/components/results';
+import {
+  useLevel,
+  usePersonalRecords,
+  useScoringConvention,
+  useSessionResult,
+  useTrialReplay,
+} from '@/application/hooks';
+
+/** d' that fills the score circle: hit and false alarm rates of 0.99 and 0.01 */
+const MAX_CIRCLE_D_PRIME = 4.65;
 
 interface ResultsPageProps {
   params: Promise<{ sessionId: string }>;
 }
 
-// Demo session data (will be replaced with real data from session repository)
-function getDemoSession() {
-  return {
-    sessionId: 'demo',
-    levelId: 'dual-2',
-    levelName: 'Dual 2-Back',
-    combinedAccuracy: 78,
-    positionStats: {
-      accuracy: 82,
-      hits: 8,
-      misses: 2,
-      falseAlarms: 1,
-      correctRejections: 9,
-      dPrime: 1.84,
-    },
-    audioStats: {
-      accuracy: 74,
-      hits: 7,
-      misses: 3,
-      falseAlarms: 2,
-      correctRejections: 8,
-      dPrime: 1.42,
-    },
-  };
-}
-
 function getDemoFeedback() {
   return {
     feedback:
@@ -64,10 +67,63 @@ function getDemoFeedback() {
 
 export default function ResultsPage({ params }: ResultsPageProps) {
   const { sessionId } = use(params);
+  const { session, loading } = useSessionResult(sessionId);
 
-  // Get session data (demo for now)
-  const session = getDemoSession();
+  if (loading) {
+    return (
+      <main id="main-content" className="min-h-screen bg-gradient-neural flex items-center justify-center">
+        <BackgroundOrbs />
+        <Spinner size="lg" />
+      </main>
+    );
+  }
+
+  if (!session) {
+    return (
+      <main id="main-content" className="min-h-screen bg-gradient-neural flex items-center justify-center">
+        <BackgroundOrbs />
+        <Card variant="elevated" padding="lg" className="max-w-md">
+          <CardContent className="text-center">
+            <p className="text-text-primary text-lg mb-4">Session not found</p>
+            <Link href="/progress">
+              <Button>View Progress</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </main>
+    );
+  }
+
+  return <SessionResults session={session} />;
+}
+
+interface SessionResultsProps {
+  session: SessionResult;
+}
+
+/**
+ * Results of a loaded session
+ */
+function SessionResults({ session }: SessionResultsProps) {
+  const { sessionId } = session;
+  const { level } = useLevel(session.levelId);
   const feedback = getDemoFeedback();
+  const channels = getModeChannels(session.mode);
+  const { convention: chosenConvention } = useScoringConvention();
+  // Imports reported in another convention are shown in their own
+  const convention = canScoreSession(session, chosenConvention.id)
+    ? chosenConvention
+    : getScoringConvention(session.positionStats.reportedConvention ?? chosenConvention.id);
+  const score = getSessionScore(session, convention.id);
+  const { lureStats } = session;
+  const hasLures = channels.some((channel) => (lureStats?.[channel]?.lures.trials ?? 0) > 0);
+  const curve = useMemo(() => getSessionPerformanceCurve(session), [session]);
+  const blocks = useMemo(() => getSessionBlocks(session), [session]);
+  const review = useMemo(() => getSessionTrialReview(session), [session]);
+  const replay = useTrialReplay(session.trials, level?.trialDuration);
+  const replayOutcome = review[replay.index];
+  const { records } = usePersonalRecords();
+  const personalBests = records.filter((record) => record.sessionId === sessionId);
 
   return (
     <main id="main-content" className="min-h-screen bg-gradient-neural py-8 px-4">
@@ -83,7 +139,7 @@ export default function ResultsPage({ params }: ResultsPageProps) {
           <h1 className="text-3xl font-bold text-text-primary mb-2">
             Session Complete!
           </h1>
-          <p className="text-text-secondary">{session.levelName}</p>
+          <p className="text-text-secondary">{level?.name ?? session.levelId}</p>
         </motion.div>
 
         {/* Score Circle */}
@@ -93,9 +149,23 @@ export default function ResultsPage({ params }: ResultsPageProps) {
           animate={{ opacity: 1, scale: 1 }}
           transition={{ delay: 0.1 }}
         >
-          <ScoreCircle accuracy={session.combinedAccuracy} />
+          <ScoreCircle
+            score={score}
+            max={convention.unit === 'percent' ? 100 : MAX_CIRCLE_D_PRIME}
+            display={formatScore(score, convention.id)}
+            label={
+              convention !== chosenConvention
+                ? `${convention.name} score`
+                : convention.unit === 'percent'
+                  ? 'Accuracy'
+                  : "d' (Sensitivity)"
+            }
+          />
         </motion.div>
 
+        {/* New Personal Bests */}
+        <PersonalBestBanner records={personalBests} className="mb-8" />
+
         {/* Position vs Audio Comparison */}
         <motion.div
           className="flex justify-center mb-8"
@@ -123,6 +193,95 @@ export default function ResultsPage({ params }: ResultsPageProps) {
               <StatsTable
                 positionStats={session.positionStats}
                 audioStats={session.audioStats}
+                colorStats={session.colorStats}
+                shapeStats={session.shapeStats}
+              />
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        {/* Lure False Alarms */}
+        {lureStats && hasLures && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.31 }}
+          >
+            <Card variant="default" padding="md" className="mb-6">
+              <CardHeader>
+                <CardTitle className="text-lg">Lures</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <LureStatsTable channels={channels} lureStats={lureStats} />
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
+
+        {/* Within-Session Curve */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.32 }}
+        >
+          <Card variant="default" padding="md" className="mb-6">
+            <CardHeader>
+              <CardTitle className="text-lg">Across the Session</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <SessionCurveChart points={curve} blocks={blocks} />
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        {/* Trial by Trial */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.34 }}
+        >
+          <Card variant="default" padding="md" className="mb-6">
+            <CardHeader>
+              <CardTitle className="text-lg">Trial by Trial</CardTitle>
+            </CardHeader>
+            <CardContent className="flex flex-col gap-6">
+              {replay.trial && replayOutcome && (
+                <TrialReplay
+                  trial={replay.trial}
+                  outcome={replayOutcome}
+                  totalTrials={review.length}
+                  playing={replay.playing}
+                  onPlay={replay.play}
+                  onPause={replay.pause}
+                  onPrevious={replay.previous}
+                  onNext={replay.next}
+                />
+              )}
+              <TrialTimeline
+                outcomes={review}
+                selectedIndex={replay.index}
+                onSelect={replay.goTo}
+              />
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        {/* Response Times */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.35 }}
+        >
+          <Card variant="default" padding="md" className="mb-6">
+            <CardHeader>
+              <CardTitle className="text-lg">Response Times</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ResponseTimePanel
+                channels={channels.map((channel) => ({
+                  channel,
+                  stats: getSessionChannelStats(session, channel).responseTimeStats,
+                }))}
               />
             </CardContent>
           </Card>
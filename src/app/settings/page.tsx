@@ -1,10 +1,35 @@
 'use client';
 
-import { Card, CardContent, Slider, Toggle, Select, Skeleton } from '@/components/ui';
+import { useRef, useState } from 'react';
+import { Button, Card, CardContent, Slider, Toggle, Select, Skeleton } from '@/components/ui';
 import { BackButton } from '@/components/layout';
 import { HelpTrigger } from '@/components/help';
-import { useSettings } from '@/application/hooks';
+import {
+  useBackup,
+  useSessionImport,
+  useSettings,
+  useTrainingProgram,
+} from '@/application/hooks';
 import { cn } from '@/lib/utils';
+import {
+  CSV_IMPORT_FIELDS,
+  LEVELS,
+  SCORING_CONVENTIONS,
+  getScoringConvention,
+  type DailyGoal,
+  type CsvImportField,
+  type DailyGoalKind,
+  type ScoringConventionId,
+} from '@neuralift/core';
+
+/**
+ * Target slider range per daily goal kind
+ */
+const DAILY_GOAL_TARGETS: Record<DailyGoalKind, { min: number; max: number; step: number; unit: string }> = {
+  blocks: { min: 1, max: 20, step: 1, unit: 'blocks' },
+  minutes: { min: 5, max: 60, step: 5, unit: 'min' },
+  level: { min: 1, max: 20, step: 1, unit: 'blocks' },
+};
 
 /**
  * SettingRow Component
@@ -37,6 +62,319 @@ function SettingRow({
   );
 }
 
+/**
+ * DataSettings Component
+ * Downloads a backup, and previews and restores a backup file
+ */
+function DataSettings() {
+  const { preview, fileName, mode, busy, error, restored, download, selectFile, setMode, restore, cancel } =
+    useBackup();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) void selectFile(file);
+  };
+
+  const modeOptions = [
+    { value: 'merge', label: 'Merge with data on this device' },
+    { value: 'replace', label: 'Replace data on this device' },
+  ];
+
+  const formatDate = (date: Date) => date.toLocaleDateString();
+
+  return (
+    <>
+      <SettingRow
+        label="Backup"
+        helpKey="setting-backup"
+        description="Download all training data on this device as a file"
+      >
+        <Button variant="secondary" size="sm" onClick={() => void download()} disabled={busy}>
+          Download Backup
+        </Button>
+      </SettingRow>
+
+      <SettingRow
+        label="Restore"
+        helpKey="setting-restore"
+        description="Load a backup file and review it before restoring"
+      >
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={() => fileInput.current?.click()}
+          disabled={busy}
+        >
+          Choose File
+        </Button>
+
+        {error && (
+          <p className="mt-3 text-sm text-error" role="alert">
+            {error.message}
+          </p>
+        )}
+        {restored && !preview && (
+          <p className="mt-3 text-sm text-success">Backup restored.</p>
+        )}
+
+        {preview && (
+          <div className="mt-4 space-y-3">
+            <p className="text-sm text-text-secondary">
+              <span className="text-text-primary">{fileName}</span>, exported{' '}
+              {formatDate(preview.exportedAt)}
+              {preview.sourceVersion < 2 && ' (older format, will be upgraded)'}
+            </p>
+
+            <Select
+              options={modeOptions}
+              value={mode}
+              onChange={(value) => void setMode(value as typeof mode)}
+            />
+
+            <ul className="text-sm text-text-secondary space-y-1">
+              <li>
+                {preview.sessions.added} of {preview.sessions.incoming} sessions added
+                {preview.sessions.duplicates > 0 &&
+                  `, ${preview.sessions.duplicates} already here`}
+                {preview.sessionRange &&
+                  ` (${formatDate(preview.sessionRange.from)} – ${formatDate(preview.sessionRange.to)})`}
+              </li>
+              <li>
+                {preview.customLevels.added} custom levels added
+                {preview.customLevels.updated > 0 && `, ${preview.customLevels.updated} updated`}
+              </li>
+              <li>
+                {preview.analyticsEvents.added} of {preview.analyticsEvents.incoming} analytics events
+                added
+              </li>
+              <li>
+                Progress:{' '}
+                {preview.progress === 'keep'
+                  ? 'unchanged'
+                  : preview.progress === 'merge'
+                    ? 'merged (unlocks combined, best totals kept)'
+                    : 'replaced'}
+              </li>
+              <li>Settings: {preview.settings === 'keep' ? 'unchanged' : 'replaced'}</li>
+            </ul>
+
+            {mode === 'replace' && (
+              <p className="text-sm text-error">
+                Deletes {preview.removed.sessions} sessions, {preview.removed.customLevels} custom
+                levels and {preview.removed.analyticsEvents} analytics events on this device.
+              </p>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                variant={mode === 'replace' ? 'danger' : 'primary'}
+                size="sm"
+                onClick={() => void restore()}
+                disabled={busy}
+              >
+                {mode === 'replace' ? 'Replace Data' : 'Merge Data'}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={cancel} disabled={busy}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </SettingRow>
+    </>
+  );
+}
+
+/**
+ * ImportSettings Component
+ * Imports history from other apps, and whether it counts toward progress
+ */
+function ImportSettings({
+  includeImported,
+  convention,
+  onIncludeImportedChange,
+}: {
+  includeImported: boolean;
+  convention: ScoringConventionId;
+  onIncludeImportedChange: (include: boolean) => Promise<void>;
+}) {
+  const {
+    fileName,
+    format,
+    headers,
+    mapping,
+    parsed,
+    busy,
+    error,
+    result,
+    selectFile,
+    setMapping,
+    confirm,
+    cancel,
+    applyToUnlocks,
+  } = useSessionImport(includeImported, convention);
+  const [unlockMessage, setUnlockMessage] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) void selectFile(file);
+  };
+
+  const handleIncludeChange = async (include: boolean) => {
+    setUnlockMessage(null);
+    try {
+      await onIncludeImportedChange(include);
+      if (include) {
+        const unlocked = await applyToUnlocks();
+        if (unlocked.length > 0) {
+          setUnlockMessage(`Unlocked ${unlocked.length} level${unlocked.length > 1 ? 's' : ''}.`);
+        }
+      }
+    } catch (err) {
+      console.error('[SettingsPage] Failed to apply imported sessions:', err);
+    }
+  };
+
+  const columnOptions = [
+    { value: 'none', label: 'Not in file' },
+    ...headers.map((header, index) => ({ value: index, label: header || `Column ${index + 1}` })),
+  ];
+
+  const updateMapping = (field: CsvImportField, value: string | number) => {
+    const next = { ...mapping };
+    if (typeof value === 'number') next[field] = value;
+    else delete next[field];
+    setMapping(next);
+  };
+
+  const first = parsed?.sessions[0];
+  const last = parsed?.sessions[parsed.sessions.length - 1];
+
+  return (
+    <>
+      <SettingRow
+        label="Import History"
+        helpKey="setting-import-history"
+        description="Brain Workshop's stats.txt, or a CSV with one session per row"
+      >
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".txt,.csv,text/plain,text/csv"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={() => fileInput.current?.click()}
+          disabled={busy}
+        >
+          Choose File
+        </Button>
+
+        {fileName && (
+          <p className="mt-3 text-sm text-text-secondary">
+            <span className="text-text-primary">{fileName}</span>
+            {format === 'brain-workshop' ? ', Brain Workshop stats' : ', CSV'}
+          </p>
+        )}
+
+        {format === 'csv' && (
+          <div className="mt-3 grid grid-cols-2 gap-2">
+            {CSV_IMPORT_FIELDS.map((definition) => (
+              <label
+                key={definition.field}
+                className="flex flex-col gap-1 text-xs text-text-secondary"
+              >
+                {definition.label}
+                {definition.required && ' *'}
+                <Select
+                  options={columnOptions}
+                  value={mapping[definition.field] ?? 'none'}
+                  onChange={(value) => updateMapping(definition.field, value)}
+                />
+              </label>
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <p className="mt-3 text-sm text-error" role="alert">
+            {error.message}
+          </p>
+        )}
+
+        {parsed && (
+          <div className="mt-4 space-y-3">
+            <p className="text-sm text-text-secondary">
+              {parsed.sessions.length} sessions to import
+              {first &&
+                last &&
+                ` (${first.timestamp.toLocaleDateString()} – ${last.timestamp.toLocaleDateString()})`}
+              {parsed.skipped.length > 0 && `, ${parsed.skipped.length} lines skipped`}
+            </p>
+            {parsed.skipped.length > 0 && (
+              <ul className="text-xs text-text-muted space-y-0.5">
+                {parsed.skipped.slice(0, 3).map((skip) => (
+                  <li key={skip.line}>
+                    Line {skip.line}: {skip.reason}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => void confirm()}
+                disabled={busy || parsed.sessions.length === 0}
+              >
+                Import
+              </Button>
+              <Button variant="ghost" size="sm" onClick={cancel} disabled={busy}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {result && (
+          <p className="mt-3 text-sm text-success">
+            Imported {result.added} sessions
+            {result.duplicates > 0 && `, ${result.duplicates} already here`}
+            {result.unlockedLevelIds.length > 0 &&
+              `, unlocked ${result.unlockedLevelIds.length} levels`}
+            .
+          </p>
+        )}
+      </SettingRow>
+
+      <SettingRow
+        label="Count Imported Sessions"
+        helpKey="setting-count-imported"
+        description="Let imported history unlock levels and extend your streak"
+      >
+        <Toggle
+          checked={includeImported}
+          onChange={(e) => void handleIncludeChange(e.target.checked)}
+        />
+        {unlockMessage && <p className="mt-3 text-sm text-success">{unlockMessage}</p>}
+      </SettingRow>
+    </>
+  );
+}
+
 /**
  * Loading skeleton for settings
  */
@@ -55,6 +393,7 @@ function SettingsLoadingSkeleton() {
 
 export default function SettingsPage() {
   const { settings, loading, updateSetting, resetSettings } = useSettings();
+  const { programs, status: programStatus, enroll, leave } = useTrainingProgram();
 
   const sessionLengthOptions = [
     { value: 15, label: '15 trials' },
@@ -63,6 +402,45 @@ export default function SettingsPage() {
     { value: 30, label: '30 trials' },
   ];
 
+  const scoringConventionOptions = SCORING_CONVENTIONS.map((convention) => ({
+    value: convention.id,
+    label: convention.name,
+  }));
+
+  const programOptions = [
+    { value: 'none', label: 'None' },
+    ...programs.map((program) => ({ value: program.id, label: program.name })),
+  ];
+
+  const handleProgramChange = async (programId: string) => {
+    try {
+      await (programId === 'none' ? leave() : enroll(programId));
+    } catch (error) {
+      console.error('[SettingsPage] Failed to change training program:', error);
+    }
+  };
+
+  const dailyGoalKindOptions = [
+    { value: 'blocks', label: 'Blocks' },
+    { value: 'minutes', label: 'Minutes trained' },
+    { value: 'level', label: 'Blocks at a level' },
+  ];
+
+  const levelOptions = LEVELS.map((level) => ({ value: level.id, label: level.name }));
+
+  const updateDailyGoal = (updates: Partial<DailyGoal>) => {
+    if (!settings) return;
+    const { levelId, ...goal } = { ...settings.dailyGoal, ...updates };
+    const range = DAILY_GOAL_TARGETS[goal.kind];
+    const target = Math.min(range.max, Math.max(range.min, goal.target));
+    void updateSetting(
+      'dailyGoal',
+      goal.kind === 'level'
+        ? { ...goal, target, levelId: levelId ?? LEVELS[0]?.id ?? '' }
+        : { ...goal, target }
+    );
+  };
+
   const formatDuration = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
 
   return (
@@ -131,6 +509,65 @@ export default function SettingsPage() {
                     }
                   />
                 </SettingRow>
+
+                <SettingRow
+                  label="Scoring"
+                  helpKey="setting-scoring-convention"
+                  description={getScoringConvention(settings.scoringConvention).description}
+                >
+                  <Select
+                    value={settings.scoringConvention}
+                    options={scoringConventionOptions}
+                    onChange={(value) =>
+                      updateSetting('scoringConvention', value as ScoringConventionId)
+                    }
+                  />
+                </SettingRow>
+
+                <SettingRow
+                  label="Daily Goal"
+                  helpKey="setting-daily-goal"
+                  description="What a day needs to count toward your streak"
+                >
+                  <div className="space-y-3">
+                    <Select
+                      value={settings.dailyGoal.kind}
+                      options={dailyGoalKindOptions}
+                      onChange={(value) => updateDailyGoal({ kind: value as DailyGoalKind })}
+                    />
+                    {settings.dailyGoal.kind === 'level' && (
+                      <Select
+                        value={settings.dailyGoal.levelId ?? ''}
+                        options={levelOptions}
+                        onChange={(value) => updateDailyGoal({ levelId: String(value) })}
+                      />
+                    )}
+                    <Slider
+                      value={settings.dailyGoal.target}
+                      min={DAILY_GOAL_TARGETS[settings.dailyGoal.kind].min}
+                      max={DAILY_GOAL_TARGETS[settings.dailyGoal.kind].max}
+                      step={DAILY_GOAL_TARGETS[settings.dailyGoal.kind].step}
+                      onChange={(value) => updateDailyGoal({ target: value })}
+                      formatValue={(v) => `${v} ${DAILY_GOAL_TARGETS[settings.dailyGoal.kind].unit}`}
+                    />
+                  </div>
+                </SettingRow>
+
+                <SettingRow
+                  label="Training Program"
+                  helpKey="setting-training-program"
+                  description={
+                    programStatus
+                      ? `${programStatus.program.description}. Started ${programStatus.enrollment.startedAt.toLocaleDateString()}.`
+                      : 'Follow a multi-week plan with a daily prescription'
+                  }
+                >
+                  <Select
+                    value={programStatus?.program.id ?? 'none'}
+                    options={programOptions}
+                    onChange={(value) => void handleProgramChange(value as string)}
+                  />
+                </SettingRow>
               </CardContent>
             </Card>
 
@@ -207,6 +644,24 @@ export default function SettingsPage() {
               </CardContent>
             </Card>
 
+            {/* Data */}
+            <Card>
+              <CardContent>
+                <h2 className="text-lg font-semibold text-text-primary mb-4">
+                  Data
+                </h2>
+
+                <DataSettings />
+                <ImportSettings
+                  includeImported={settings.includeImportedSessions}
+                  convention={settings.scoringConvention}
+                  onIncludeImportedChange={(include) =>
+                    updateSetting('includeImportedSessions', include)
+                  }
+                />
+              </CardContent>
+            </Card>
+
             {/* Reset Button */}
             <div className="pt-4">
               <button
@@ -13,9 +13,11 @@ import {
   CardFooter,
 } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
+import { Spinner } from '@/components/ui/Spinner';
 import { ControlInstructions } from '@/components/training/ControlInstructions';
 import { SessionInfo } from '@/components/training/SessionInfo';
-import { getLevelById } from '@neuralift/core';
+import { useLevel } from '@/application/hooks';
+import { DEFAULT_TRIALS_PER_SESSION, DEFAULT_TRIAL_DURATION_MS } from '@neuralift/core';
 
 interface BriefingPageProps {
   params: Promise<{ levelId: string }>;
@@ -23,7 +25,16 @@ interface BriefingPageProps {
 
 export default function BriefingPage({ params }: BriefingPageProps) {
   const { levelId } = use(params);
-  const level = getLevelById(levelId);
+  const { level, loading } = useLevel(levelId);
+
+  if (loading) {
+    return (
+      <main id="main-content" className="min-h-screen bg-gradient-neural flex items-center justify-center">
+        <BackgroundOrbs />
+        <Spinner size="lg" />
+      </main>
+    );
+  }
 
   if (!level) {
     return (
@@ -49,6 +60,10 @@ export default function BriefingPage({ params }: BriefingPageProps) {
         return 'Audio Only';
       case 'dual':
         return 'Dual Mode';
+      case 'triple':
+        return 'Triple Mode';
+      case 'quad':
+        return 'Quad Mode';
       default:
         return mode;
     }
@@ -81,7 +96,10 @@ export default function BriefingPage({ params }: BriefingPageProps) {
             <ControlInstructions mode={level.mode} nBack={level.nBack} />
 
             {/* Session Info */}
-            <SessionInfo trialCount={20} trialDurationMs={3000} />
+            <SessionInfo
+              trialCount={level.trialCount ?? DEFAULT_TRIALS_PER_SESSION}
+              trialDurationMs={level.trialDuration ?? DEFAULT_TRIAL_DURATION_MS}
+            />
 
             {/* Tips */}
             <div className="p-4 rounded-xl bg-surface-subtle">
@@ -1,10 +1,12 @@
 'use client';
 
-import { use, useState, useEffect, useCallback, useRef } from 'react';
+import { use, useEffect, useCallback, useRef } from 'react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import { AnimatePresence } from 'framer-motion';
 import { BackgroundOrbs } from '@/components/ui/BackgroundOrbs';
 import { ProgressBar } from '@/components/ui/ProgressBar';
+import { Button } from '@/components/ui/Button';
 import {
   TrainingGrid,
   ResponseButtons,
@@ -12,27 +14,18 @@ import {
   CountdownOverlay,
   PauseOverlay,
 } from '@/components/training';
-import { getLevelById } from '@neuralift/core';
+import { getChannelForKey, type LevelConfig } from '@neuralift/core';
 import { useLiveRegion } from '@/components/a11y';
-import { useCore } from '@/application/providers/CoreProvider';
+import { useLevel, useTrainingSession } from '@/application/hooks';
 import { useNavigation } from '@/components/navigation';
 
-// Training letters used for audio
-const TRAINING_LETTERS = ['C', 'H', 'K', 'L', 'Q', 'R', 'S', 'T'] as const;
-type TrainingLetter = (typeof TRAINING_LETTERS)[number];
-
 interface TrainingSessionPageProps {
   params: Promise<{ levelId: string }>;
 }
 
-type SessionStatus = 'initializing' | 'countdown' | 'active' | 'paused' | 'completed';
-
 export default function TrainingSessionPage({ params }: TrainingSessionPageProps) {
   const { levelId } = use(params);
-  const router = useRouter();
-  const level = getLevelById(levelId);
-  const { announce } = useLiveRegion();
-  const core = useCore();
+  const { level, loading: levelLoading } = useLevel(levelId);
   const { hideNavigation, showNavigation } = useNavigation();
 
   // Hide navigation during training session
@@ -43,202 +36,152 @@ export default function TrainingSessionPage({ params }: TrainingSessionPageProps
     };
   }, [hideNavigation, showNavigation]);
 
-  // Session state
-  const [status, setStatus] = useState<SessionStatus>('initializing');
-  const [countdownValue, setCountdownValue] = useState(3);
-  const [currentTrial, setCurrentTrial] = useState(0);
-  const [activePosition, setActivePosition] = useState<number | null>(null);
-  const [positionPressed, setPositionPressed] = useState(false);
-  const [audioPressed, setAudioPressed] = useState(false);
-  const [_currentLetter, setCurrentLetter] = useState<TrainingLetter | null>(null);
-
-  // Audio tracking refs
-  const audioInitializedRef = useRef(false);
-  const lastPlayedTrialRef = useRef(0);
-
-  const totalTrials = 20;
+  if (!level) {
+    return (
+      <main id="main-content" className="min-h-screen bg-gradient-neural flex items-center justify-center">
+        <BackgroundOrbs />
+        {!levelLoading && <p className="text-text-primary">Level not found</p>}
+      </main>
+    );
+  }
 
-  // Helper to get random letter
-  const getRandomLetter = useCallback((): TrainingLetter => {
-    const index = Math.floor(Math.random() * TRAINING_LETTERS.length);
-    return TRAINING_LETTERS[index] as TrainingLetter;
-  }, []);
+  return <TrainingSession key={level.id} level={level} />;
+}
 
-  // Initialize audio on mount
-  useEffect(() => {
-    if (!audioInitializedRef.current) {
-      audioInitializedRef.current = true;
-      core.audioPlayer.initialize().catch((err) => {
-        console.warn('Failed to initialize audio:', err);
-      });
-    }
-  }, [core.audioPlayer]);
+interface TrainingSessionProps {
+  level: LevelConfig;
+}
 
-  // Start countdown when component mounts
+/**
+ * One session of a resolved level, from countdown to its results
+ */
+function TrainingSession({ level }: TrainingSessionProps) {
+  const router = useRouter();
+  const { announce } = useLiveRegion();
+  const {
+    status,
+    currentTrial,
+    progress: { current: currentTrialNumber, total: totalTrials },
+    countdownValue,
+    gridSize,
+    channels,
+    respondedChannels,
+    currentNBack,
+    stimulusVisible,
+    error,
+    start,
+    pause,
+    resume,
+    respondChannel,
+    finishSession,
+    reset,
+  } = useTrainingSession(level);
+
+  const startedRef = useRef(false);
+  const finishingRef = useRef(false);
+  const previousStatusRef = useRef(status);
+
+  // Start a fresh session once the page mounts
   useEffect(() => {
-    if (!level) return;
+    if (startedRef.current) return;
+    startedRef.current = true;
+    reset();
+    void start();
+  }, [reset, start]);
 
-    const timer = setTimeout(() => {
-      setStatus('countdown');
-    }, 500);
-
-    return () => clearTimeout(timer);
-  }, [level]);
-
-  // Countdown logic
+  // Announce the countdown, the start and the end of the session
   useEffect(() => {
-    if (status !== 'countdown') return;
+    const previousStatus = previousStatusRef.current;
+    previousStatusRef.current = status;
 
-    if (countdownValue > 0) {
-      // Announce countdown
+    if (status === 'countdown') {
       announce(String(countdownValue), 'assertive');
-      const timer = setTimeout(() => {
-        setCountdownValue((prev) => prev - 1);
-      }, 1000);
-      return () => clearTimeout(timer);
-    } else {
-      // Announce start
+    } else if (status === 'active' && previousStatus === 'countdown') {
       announce('Go! Session started.', 'assertive');
-      // Start the session after showing "GO!"
-      const timer = setTimeout(() => {
-        setStatus('active');
-        setCurrentTrial(1);
-        // Show first position
-        setActivePosition(Math.floor(Math.random() * 9));
-        // Play first audio letter
-        const letter = getRandomLetter();
-        setCurrentLetter(letter);
-        core.audioPlayer.playLetter(letter).catch((err) => {
-          console.warn('Failed to play letter:', err);
-        });
-        lastPlayedTrialRef.current = 1;
-      }, 500);
-      return () => clearTimeout(timer);
+    } else if (status === 'completed' && previousStatus !== 'completed') {
+      announce('Session complete! Loading results.', 'assertive');
     }
-  }, [status, countdownValue, announce, getRandomLetter, core.audioPlayer]);
+  }, [status, countdownValue, announce]);
 
-  // Trial progression (simplified demo logic)
+  // Announce milestone trials (every 5)
   useEffect(() => {
     if (status !== 'active') return;
-
-    // Announce milestone trials (every 5)
-    if (currentTrial > 0 && currentTrial % 5 === 0 && currentTrial < totalTrials) {
-      announce(`Trial ${currentTrial} of ${totalTrials}`, 'polite');
+    if (currentTrialNumber % 5 === 0 && currentTrialNumber < totalTrials) {
+      announce(`Trial ${currentTrialNumber} of ${totalTrials}`, 'polite');
     }
+  }, [status, currentTrialNumber, totalTrials, announce]);
 
-    // Clear position after a delay
-    const hideTimer = setTimeout(() => {
-      setActivePosition(null);
-    }, 500);
-
-    // Advance to next trial
-    const trialTimer = setTimeout(() => {
-      if (currentTrial >= totalTrials) {
-        announce('Session complete! Loading results.', 'assertive');
-        setStatus('completed');
-        // Play completion sound
-        core.audioPlayer.playFeedback('complete').catch((err) => {
-          console.warn('Failed to play completion sound:', err);
-        });
-      } else {
-        const nextTrial = currentTrial + 1;
-        setCurrentTrial(nextTrial);
-        setActivePosition(Math.floor(Math.random() * 9));
-        setPositionPressed(false);
-        setAudioPressed(false);
-        // Play audio letter for new trial (only if we haven't played it yet)
-        if (lastPlayedTrialRef.current < nextTrial) {
-          const letter = getRandomLetter();
-          setCurrentLetter(letter);
-          core.audioPlayer.playLetter(letter).catch((err) => {
-            console.warn('Failed to play letter:', err);
-          });
-          lastPlayedTrialRef.current = nextTrial;
-        }
-      }
-    }, 3000);
-
-    return () => {
-      clearTimeout(hideTimer);
-      clearTimeout(trialTimer);
-    };
-  }, [status, currentTrial, announce, getRandomLetter, core.audioPlayer]);
-
-  // Handle completion
+  // Save the finished session and show its results
   useEffect(() => {
-    if (status === 'completed') {
-      // Navigate to results page (using demo session ID)
-      const demoSessionId = `demo-${Date.now()}`;
-      router.push(`/results/${demoSessionId}`);
-    }
-  }, [status, router]);
+    if (status !== 'completed' || finishingRef.current) return;
+    finishingRef.current = true;
 
-  const handlePositionMatch = useCallback(() => {
-    if (status !== 'active') return;
-    setPositionPressed(true);
-    // Play feedback sound (demo: randomly correct/incorrect since we're not tracking actual matches)
-    const isCorrect = Math.random() > 0.5;
-    core.audioPlayer.playFeedback(isCorrect ? 'correct' : 'incorrect').catch((err) => {
-      console.warn('Failed to play feedback:', err);
+    void finishSession().then((result) => {
+      if (result) {
+        router.push(`/results/${result.sessionId}`);
+      }
     });
-  }, [status, core.audioPlayer]);
+  }, [status, finishSession, router]);
 
-  const handleAudioMatch = useCallback(() => {
-    if (status !== 'active') return;
-    setAudioPressed(true);
-    // Play feedback sound (demo: randomly correct/incorrect since we're not tracking actual matches)
-    const isCorrect = Math.random() > 0.5;
-    core.audioPlayer.playFeedback(isCorrect ? 'correct' : 'incorrect').catch((err) => {
-      console.warn('Failed to play feedback:', err);
-    });
-  }, [status, core.audioPlayer]);
+  const handlePositionMatch = useCallback(() => respondChannel('position'), [respondChannel]);
 
   const handlePause = useCallback(() => {
-    setStatus('paused');
+    pause();
     announce('Session paused. Press Escape or click Resume to continue.', 'assertive');
-  }, [announce]);
+  }, [pause, announce]);
 
   const handleResume = useCallback(() => {
-    setStatus('active');
+    resume();
     announce('Session resumed.', 'assertive');
-  }, [announce]);
+  }, [resume, announce]);
 
   const handleQuit = useCallback(() => {
+    reset();
     router.push('/levels');
-  }, [router]);
+  }, [reset, router]);
 
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (status === 'paused' && e.key === 'Escape') {
-        setStatus('active');
+        handleResume();
         return;
       }
 
       if (status !== 'active') return;
 
-      if (e.key === 'a' || e.key === 'A') {
-        handlePositionMatch();
-      } else if (e.key === 'l' || e.key === 'L') {
-        handleAudioMatch();
-      } else if (e.key === 'Escape') {
-        setStatus('paused');
+      if (e.key === 'Escape') {
+        handlePause();
+        return;
+      }
+
+      const channel = getChannelForKey(e.key, channels);
+      if (channel) {
+        respondChannel(channel);
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [status, handlePositionMatch, handleAudioMatch]);
+  }, [status, channels, respondChannel, handlePause, handleResume]);
 
-  if (!level) {
+  if (error) {
     return (
-      <main id="main-content" className="min-h-screen bg-gradient-neural flex items-center justify-center">
+      <main id="main-content" className="min-h-screen bg-gradient-neural flex flex-col items-center justify-center gap-4 p-4">
         <BackgroundOrbs />
-        <p className="text-text-primary">Level not found</p>
+        <p className="text-text-primary" role="alert">
+          Something went wrong with this session: {error.message}
+        </p>
+        <Link href="/levels">
+          <Button>Back to Levels</Button>
+        </Link>
       </main>
     );
   }
 
+  const showStimulus = status === 'active' && stimulusVisible && currentTrial !== undefined;
+  const trialNumber = status === 'idle' || status === 'countdown' ? 0 : currentTrialNumber;
+
   return (
     <main id="main-content" className="min-h-screen bg-gradient-neural flex flex-col items-center justify-center p-4">
       <BackgroundOrbs />
@@ -258,7 +201,7 @@ export default function TrainingSessionPage({ params }: TrainingSessionPageProps
       {/* Session Header */}
       <SessionHeader
         levelName={level.name}
-        current={currentTrial}
+        current={trialNumber}
         total={totalTrials}
         onPause={handlePause}
       />
@@ -266,13 +209,16 @@ export default function TrainingSessionPage({ params }: TrainingSessionPageProps
       {/* N-Back Indicator */}
       <div className="mb-6 text-center">
         <span className="text-text-tertiary text-sm">
-          Remember {level.nBack} step{level.nBack > 1 ? 's' : ''} back
+          Remember {currentNBack} step{currentNBack > 1 ? 's' : ''} back
         </span>
       </div>
 
       {/* Training Grid */}
       <TrainingGrid
-        activePosition={activePosition}
+        activePosition={showStimulus ? currentTrial.position : null}
+        gridSize={gridSize}
+        activeColor={showStimulus ? currentTrial.color ?? null : null}
+        activeShape={showStimulus ? currentTrial.shape ?? null : null}
         className="mb-8"
         onGridClick={handlePositionMatch}
         disabled={status !== 'active'}
@@ -281,16 +227,14 @@ export default function TrainingSessionPage({ params }: TrainingSessionPageProps
       {/* Response Buttons */}
       <ResponseButtons
         mode={level.mode}
-        onPositionMatch={handlePositionMatch}
-        onAudioMatch={handleAudioMatch}
+        onMatch={respondChannel}
         disabled={status !== 'active'}
-        positionPressed={positionPressed}
-        audioPressed={audioPressed}
+        pressedChannels={respondedChannels}
       />
 
       {/* Progress Bar */}
       <ProgressBar
-        value={currentTrial}
+        value={trialNumber}
         max={totalTrials}
         showLabel
         className="w-full max-w-md mt-8"
@@ -14,3 +14,22 @@ export {
 export { useLLMFeedback, type UseLLMFeedbackReturn } from './useLLMFeedback';
 export { useSettings, type UseSettingsReturn, type Settings } from './useSettings';
 export { useDataSync, type UseDataSyncReturn } from './useDataSync';
+export { useCustomLevels, type UseCustomLevelsReturn } from './useCustomLevels';
+export { useLevel, type UseLevelReturn } from './useLevel';
+export { useUnlockProgress, type UseUnlockProgressReturn } from './useUnlockProgress';
+export { useScoringConvention, type UseScoringConventionReturn } from './useScoringConvention';
+export { useTrialReplay, type UseTrialReplayReturn } from './useTrialReplay';
+export { usePersonalRecords, type UsePersonalRecordsReturn } from './usePersonalRecords';
+export { useUserProfile, type UseUserProfileReturn } from './useUserProfile';
+export { useRecommendations, type UseRecommendationsReturn } from './useRecommendations';
+export { useTrainingProgram, type UseTrainingProgramReturn } from './useTrainingProgram';
+export { useDailyGoal, type UseDailyGoalReturn } from './useDailyGoal';
+export { useBackup, type UseBackupReturn } from './useBackup';
+export {
+  useResearchExport,
+  type UseResearchExportReturn,
+  type ResearchExportTable,
+  type ResearchExportFormat,
+} from './useResearchExport';
+export { useSessionImport, type UseSessionImportReturn } from './useSessionImport';
+export { useSessionResult, type UseSessionResultReturn } from './useSessionResult';
@@ -0,0 +1,156 @@
+'use client';
+
+/**
+ * useBackup Hook
+ *
+ * Downloading a backup of all local data, and restoring one: the chosen
+ * file is validated and previewed before anything is written.
+ */
+
+import { useState, useCallback } from 'react';
+import { useCore } from '../providers/CoreProvider';
+import {
+  createBackup,
+  getBackupFileName,
+  parseBackup,
+  previewRestore,
+  restoreBackup,
+  type Backup,
+  type RestoreMode,
+  type RestorePreview,
+} from '@/infrastructure/database';
+import { downloadFile } from '@/lib/utils';
+
+/**
+ * A validated backup waiting to be restored
+ */
+interface PendingRestore {
+  fileName: string;
+  backup: Backup;
+  sourceVersion: number;
+}
+
+/**
+ * Hook return type
+ */
+export interface UseBackupReturn {
+  /** What restoring the chosen file would change, null without a file */
+  preview: RestorePreview | null;
+  /** Name of the chosen file */
+  fileName: string | null;
+  /** How the chosen file will be restored */
+  mode: RestoreMode;
+  /** Whether a download, preview or restore is in progress */
+  busy: boolean;
+  /** Why the last action failed, e.g. an invalid file */
+  error: Error | null;
+  /** Set after a successful restore until another file is chosen */
+  restored: boolean;
+  /** Download a backup of all local data */
+  download: () => Promise<void>;
+  /** Validate and preview a backup file */
+  selectFile: (file: File) => Promise<void>;
+  /** Switch between merging and replacing, updating the preview */
+  setMode: (mode: RestoreMode) => Promise<void>;
+  /** Restore the chosen file and rebuild personal records */
+  restore: () => Promise<void>;
+  /** Discard the chosen file */
+  cancel: () => void;
+}
+
+export function useBackup(): UseBackupReturn {
+  const core = useCore();
+  const recordsService = core.services.records;
+  const [pending, setPending] = useState<PendingRestore | null>(null);
+  const [preview, setPreview] = useState<RestorePreview | null>(null);
+  const [mode, setModeState] = useState<RestoreMode>('merge');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [restored, setRestored] = useState(false);
+
+  /**
+   * Run an action, keeping its error for display
+   */
+  const run = useCallback(async (action: () => Promise<void>, fallback: string) => {
+    try {
+      setBusy(true);
+      setError(null);
+      await action();
+    } catch (err) {
+      const actionError = err instanceof Error ? err : new Error(fallback);
+      setError(actionError);
+      console.error('[useBackup]', fallback, actionError);
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const download = useCallback(
+    () =>
+      run(async () => {
+        const backup = await createBackup();
+        downloadFile(
+          JSON.stringify(backup, null, 2),
+          getBackupFileName(backup),
+          'application/json'
+        );
+      }, 'Failed to create backup'),
+    [run]
+  );
+
+  const selectFile = useCallback(
+    (file: File) => {
+      setPending(null);
+      setPreview(null);
+      setRestored(false);
+      return run(async () => {
+        const { backup, sourceVersion } = parseBackup(await file.text());
+        setPreview(await previewRestore(backup, mode, sourceVersion));
+        setPending({ fileName: file.name, backup, sourceVersion });
+      }, 'Failed to read backup');
+    },
+    [run, mode]
+  );
+
+  const setMode = useCallback(
+    (nextMode: RestoreMode) => {
+      setModeState(nextMode);
+      if (!pending) return Promise.resolve();
+      return run(async () => {
+        setPreview(await previewRestore(pending.backup, nextMode, pending.sourceVersion));
+      }, 'Failed to preview backup');
+    },
+    [run, pending]
+  );
+
+  const restore = useCallback(() => {
+    if (!pending) return Promise.resolve();
+    return run(async () => {
+      await restoreBackup(pending.backup, mode);
+      await recordsService.rebuild();
+      setPending(null);
+      setPreview(null);
+      setRestored(true);
+    }, 'Failed to restore backup');
+  }, [run, pending, mode, recordsService]);
+
+  const cancel = useCallback(() => {
+    setPending(null);
+    setPreview(null);
+    setError(null);
+  }, []);
+
+  return {
+    preview,
+    fileName: pending?.fileName ?? null,
+    mode,
+    busy,
+    error,
+    restored,
+    download,
+    selectFile,
+    setMode,
+    restore,
+    cancel,
+  };
+}
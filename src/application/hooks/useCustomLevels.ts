@@ -0,0 +1,101 @@
+'use client';
+
+/**
+ * useCustomLevels Hook
+ *
+ * Lists the user's own levels and creates, edits and deletes them.
+ */
+
+import { useEffect, useState, useCallback } from 'react';
+import { useCore } from '../providers/CoreProvider';
+import { dataSyncService } from '@/infrastructure/sync';
+import type { CustomLevel, CustomLevelInput } from '@neuralift/core';
+
+/**
+ * Hook return type
+ */
+export interface UseCustomLevelsReturn {
+  /** Custom levels, oldest first */
+  levels: CustomLevel[];
+  /** Loading state */
+  loading: boolean;
+  /** Error state */
+  error: Error | null;
+  /** Create a level (throws when the input is invalid) */
+  createLevel: (input: CustomLevelInput) => Promise<CustomLevel>;
+  /** Replace a level's settings (throws when the input is invalid) */
+  updateLevel: (levelId: string, input: CustomLevelInput) => Promise<CustomLevel>;
+  /** Delete a level */
+  deleteLevel: (levelId: string) => Promise<void>;
+  /** Refresh from the database */
+  refresh: () => Promise<void>;
+}
+
+export function useCustomLevels(): UseCustomLevelsReturn {
+  const core = useCore();
+  const customLevels = core.services.customLevels;
+  const [levels, setLevels] = useState<CustomLevel[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  /**
+   * Load custom levels
+   */
+  const loadLevels = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setLevels(await customLevels.list());
+    } catch (err) {
+      const loadError = err instanceof Error ? err : new Error('Failed to load custom levels');
+      setError(loadError);
+      console.error('[useCustomLevels] Failed to load:', loadError);
+    } finally {
+      setLoading(false);
+    }
+  }, [customLevels]);
+
+  const createLevel = useCallback(
+    async (input: CustomLevelInput) => {
+      const level = await customLevels.create(input);
+      dataSyncService.markPendingChanges();
+      await loadLevels();
+      return level;
+    },
+    [customLevels, loadLevels]
+  );
+
+  const updateLevel = useCallback(
+    async (levelId: string, input: CustomLevelInput) => {
+      const level = await customLevels.update(levelId, input);
+      dataSyncService.markPendingChanges();
+      await loadLevels();
+      return level;
+    },
+    [customLevels, loadLevels]
+  );
+
+  const deleteLevel = useCallback(
+    async (levelId: string) => {
+      await customLevels.delete(levelId);
+      dataSyncService.markPendingChanges();
+      await loadLevels();
+    },
+    [customLevels, loadLevels]
+  );
+
+  // Load levels on mount
+  useEffect(() => {
+    void loadLevels();
+  }, [loadLevels]);
+
+  return {
+    levels,
+    loading,
+    error,
+    createLevel,
+    updateLevel,
+    deleteLevel,
+    refresh: loadLevels,
+  };
+}
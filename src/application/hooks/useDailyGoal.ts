@@ -0,0 +1,111 @@
+'use client';
+
+/**
+ * useDailyGoal Hook
+ *
+ * The user's daily goal, today's training day and recent days, and the
+ * streak of consecutive days on which the goal was met.
+ */
+
+import { useEffect, useState, useCallback } from 'react';
+import { useCore } from '../providers/CoreProvider';
+import { useSettings } from './useSettings';
+import {
+  DEFAULT_DAILY_GOAL,
+  createTrainingDay,
+  getDateKey,
+  type DailyGoal,
+  type GoalStreak,
+  type TrainingDay,
+} from '@neuralift/core';
+
+/**
+ * Calendar days of history returned in recentDays
+ */
+const RECENT_DAY_COUNT = 7;
+
+/**
+ * Hook return type
+ */
+export interface UseDailyGoalReturn {
+  /** Goal from settings (default until settings load) */
+  goal: DailyGoal;
+  /** Today's training day, null until loaded */
+  today: TrainingDay | null;
+  /** The last 7 calendar days, oldest first, including days without training */
+  recentDays: TrainingDay[];
+  /** Consecutive goal-met days */
+  streak: GoalStreak;
+  /** Loading state */
+  loading: boolean;
+  /** Error state */
+  error: Error | null;
+  /** Refresh from the database */
+  refresh: () => Promise<void>;
+}
+
+export function useDailyGoal(): UseDailyGoalReturn {
+  const core = useCore();
+  const dailyGoalService = core.services.dailyGoals;
+  const { settings } = useSettings();
+  const goal = settings?.dailyGoal ?? DEFAULT_DAILY_GOAL;
+  const includeImported = settings?.includeImportedSessions ?? false;
+  const [today, setToday] = useState<TrainingDay | null>(null);
+  const [recentDays, setRecentDays] = useState<TrainingDay[]>([]);
+  const [streak, setStreak] = useState<GoalStreak>({ current: 0, longest: 0 });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  /**
+   * Load training days and streak
+   */
+  const loadDays = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const now = new Date();
+      const start = new Date(now);
+      start.setHours(0, 0, 0, 0);
+      start.setDate(start.getDate() - (RECENT_DAY_COUNT - 1));
+
+      const [days, goalStreak] = await Promise.all([
+        dailyGoalService.getTrainingDays(goal, start, now, includeImported),
+        dailyGoalService.getStreak(goal, now, includeImported),
+      ]);
+
+      // Fill in the days without training
+      const byKey = new Map(days.map((day) => [day.dateKey, day]));
+      const recent: TrainingDay[] = [];
+      for (let i = 0; i < RECENT_DAY_COUNT; i++) {
+        const date = new Date(start);
+        date.setDate(start.getDate() + i);
+        recent.push(byKey.get(getDateKey(date)) ?? createTrainingDay(date, [], goal));
+      }
+
+      setRecentDays(recent);
+      setToday(recent[recent.length - 1] ?? null);
+      setStreak(goalStreak);
+    } catch (err) {
+      const loadError = err instanceof Error ? err : new Error('Failed to load daily goal');
+      setError(loadError);
+      console.error('[useDailyGoal] Failed to load:', loadError);
+    } finally {
+      setLoading(false);
+    }
+  }, [dailyGoalService, goal, includeImported]);
+
+  // Load on mount and when the goal changes
+  useEffect(() => {
+    void loadDays();
+  }, [loadDays]);
+
+  return {
+    goal,
+    today,
+    recentDays,
+    streak,
+    loading,
+    error,
+    refresh: loadDays,
+  };
+}
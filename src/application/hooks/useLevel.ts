@@ -0,0 +1,55 @@
+'use client';
+
+/**
+ * useLevel Hook
+ *
+ * Resolves a level ID to a built-in or user-defined level.
+ * Built-in levels resolve synchronously; custom levels load from storage.
+ */
+
+import { useEffect, useState } from 'react';
+import { useCore } from '../providers/CoreProvider';
+import { getLevelById, type LevelConfig } from '@neuralift/core';
+
+/**
+ * Hook return type
+ */
+export interface UseLevelReturn {
+  /** The resolved level, undefined while loading or when not found */
+  level: LevelConfig | undefined;
+  /** Loading state (custom levels only) */
+  loading: boolean;
+}
+
+export function useLevel(levelId: string): UseLevelReturn {
+  const core = useCore();
+  const builtIn = getLevelById(levelId);
+  const [custom, setCustom] = useState<{ levelId: string; level: LevelConfig | undefined } | null>(
+    null
+  );
+
+  useEffect(() => {
+    if (builtIn) return;
+
+    let cancelled = false;
+    core.services.customLevels
+      .resolve(levelId)
+      .then((level) => {
+        if (!cancelled) setCustom({ levelId, level });
+      })
+      .catch((err) => {
+        console.error('[useLevel] Failed to resolve level:', err);
+        if (!cancelled) setCustom({ levelId, level: undefined });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [builtIn, levelId, core.services.customLevels]);
+
+  if (builtIn) {
+    return { level: builtIn, loading: false };
+  }
+  const resolved = custom?.levelId === levelId ? custom : null;
+  return { level: resolved?.level, loading: resolved === null };
+}
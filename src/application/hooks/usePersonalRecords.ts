@@ -0,0 +1,70 @@
+'use client';
+
+/**
+ * usePersonalRecords Hook
+ *
+ * Personal records per level, with a rebuild from the stored session history.
+ */
+
+import { useEffect, useState, useCallback } from 'react';
+import { useCore } from '../providers/CoreProvider';
+import type { PersonalRecord } from '@neuralift/core';
+
+/**
+ * Hook return type
+ */
+export interface UsePersonalRecordsReturn {
+  /** Records held, for the given level or every level */
+  records: PersonalRecord[];
+  /** Loading state */
+  loading: boolean;
+  /** Error state */
+  error: Error | null;
+  /** Recompute every record from the stored sessions */
+  rebuild: () => Promise<void>;
+  /** Refresh from the database */
+  refresh: () => Promise<void>;
+}
+
+export function usePersonalRecords(levelId?: string): UsePersonalRecordsReturn {
+  const core = useCore();
+  const recordsService = core.services.records;
+  const [records, setRecords] = useState<PersonalRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  /**
+   * Load records
+   */
+  const loadRecords = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setRecords(await recordsService.getRecords(levelId));
+    } catch (err) {
+      const loadError = err instanceof Error ? err : new Error('Failed to load personal records');
+      setError(loadError);
+      console.error('[usePersonalRecords] Failed to load:', loadError);
+    } finally {
+      setLoading(false);
+    }
+  }, [recordsService, levelId]);
+
+  const rebuild = useCallback(async () => {
+    await recordsService.rebuild();
+    await loadRecords();
+  }, [recordsService, loadRecords]);
+
+  // Load records on mount and when the level changes
+  useEffect(() => {
+    void loadRecords();
+  }, [loadRecords]);
+
+  return {
+    records,
+    loading,
+    error,
+    rebuild,
+    refresh: loadRecords,
+  };
+}
@@ -0,0 +1,72 @@
+'use client';
+
+/**
+ * useRecommendations Hook
+ *
+ * Ranked next-session recommendations from the offline engine in core,
+ * available without the LLM.
+ */
+
+import { useEffect, useState, useCallback } from 'react';
+import { useCore } from '../providers/CoreProvider';
+import { useScoringConvention } from './useScoringConvention';
+import { useSettings } from './useSettings';
+import type { TrainingRecommendation } from '@neuralift/core';
+
+/**
+ * Hook return type
+ */
+export interface UseRecommendationsReturn {
+  /** Ranked recommendations, priority 1 first */
+  recommendations: TrainingRecommendation[];
+  /** Loading state */
+  loading: boolean;
+  /** Error state */
+  error: Error | null;
+  /** Replan from the database */
+  refresh: () => Promise<void>;
+}
+
+export function useRecommendations(): UseRecommendationsReturn {
+  const core = useCore();
+  const { getRecommendations } = core.useCases;
+  const { conventionId } = useScoringConvention();
+  const { settings } = useSettings();
+  const includeImported = settings?.includeImportedSessions ?? false;
+  const [recommendations, setRecommendations] = useState<TrainingRecommendation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  /**
+   * Load recommendations
+   */
+  const loadRecommendations = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const output = await getRecommendations.execute({
+        scoringConvention: conventionId,
+        includeImported,
+      });
+      setRecommendations(output.recommendations);
+    } catch (err) {
+      const loadError = err instanceof Error ? err : new Error('Failed to load recommendations');
+      setError(loadError);
+      console.error('[useRecommendations] Failed to load:', loadError);
+    } finally {
+      setLoading(false);
+    }
+  }, [getRecommendations, conventionId, includeImported]);
+
+  // Load recommendations on mount and when the convention changes
+  useEffect(() => {
+    void loadRecommendations();
+  }, [loadRecommendations]);
+
+  return {
+    recommendations,
+    loading,
+    error,
+    refresh: loadRecommendations,
+  };
+}
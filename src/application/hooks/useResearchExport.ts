@@ -0,0 +1,88 @@
+'use client';
+
+/**
+ * useResearchExport Hook
+ *
+ * Downloads the per-trial or per-session table as CSV or JSON,
+ * scored in the user's scoring convention.
+ */
+
+import { useState, useCallback } from 'react';
+import { useCore } from '../providers/CoreProvider';
+import { useScoringConvention } from './useScoringConvention';
+import {
+  SESSION_EXPORT_COLUMNS,
+  TRIAL_EXPORT_COLUMNS,
+  formatCsv,
+  type ResearchExportFilter,
+} from '@neuralift/core';
+import { downloadFile } from '@/lib/utils';
+
+export type ResearchExportTable = 'trials' | 'sessions';
+export type ResearchExportFormat = 'csv' | 'json';
+
+/**
+ * Hook return type
+ */
+export interface UseResearchExportReturn {
+  /** Whether an export is in progress */
+  exporting: boolean;
+  /** Why the last export failed */
+  error: Error | null;
+  /** Rows in the last exported table, null before the first export */
+  lastRowCount: number | null;
+  /** Download a table for the sessions matching the filter */
+  exportTable: (
+    table: ResearchExportTable,
+    format: ResearchExportFormat,
+    filter: Omit<ResearchExportFilter, 'scoringConvention'>
+  ) => Promise<void>;
+}
+
+export function useResearchExport(): UseResearchExportReturn {
+  const core = useCore();
+  const exportService = core.services.researchExport;
+  const { conventionId } = useScoringConvention();
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [lastRowCount, setLastRowCount] = useState<number | null>(null);
+
+  const exportTable = useCallback(
+    async (
+      table: ResearchExportTable,
+      format: ResearchExportFormat,
+      filter: Omit<ResearchExportFilter, 'scoringConvention'>
+    ) => {
+      try {
+        setExporting(true);
+        setError(null);
+        const data = await exportService.export({ ...filter, scoringConvention: conventionId });
+        const fileName = `neuralift-${table}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+        const contents =
+          format === 'json'
+            ? JSON.stringify(data[table], null, 2)
+            : table === 'trials'
+              ? formatCsv(data.trials, TRIAL_EXPORT_COLUMNS)
+              : formatCsv(data.sessions, SESSION_EXPORT_COLUMNS);
+
+        downloadFile(contents, fileName, format === 'csv' ? 'text/csv' : 'application/json');
+        setLastRowCount(data[table].length);
+      } catch (err) {
+        const exportError = err instanceof Error ? err : new Error('Failed to export data');
+        setError(exportError);
+        console.error('[useResearchExport] Failed to export:', exportError);
+      } finally {
+        setExporting(false);
+      }
+    },
+    [exportService, conventionId]
+  );
+
+  return {
+    exporting,
+    error,
+    lastRowCount,
+    exportTable,
+  };
+}
@@ -0,0 +1,76 @@
+'use client';
+
+/**
+ * useScoringConvention Hook
+ *
+ * The user's chosen scoring convention, with helpers to score and
+ * format stored sessions the same way on every screen.
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useSettings } from './useSettings';
+import {
+  DEFAULT_SCORING_CONVENTION,
+  canScoreStats,
+  createEmptyPerformanceStats,
+  formatScore,
+  getModeChannels,
+  getScoringConvention,
+  type PerformanceStats,
+  type ScoringConvention,
+  type ScoringConventionId,
+  type StimulusChannel,
+  type TrainingMode,
+} from '@neuralift/core';
+import type { DBSession } from '@/infrastructure/database';
+
+/**
+ * Hook return type
+ */
+export interface UseScoringConventionReturn {
+  /** Chosen convention (default until settings load) */
+  convention: ScoringConvention;
+  conventionId: ScoringConventionId;
+  /**
+   * Score a stored session in the chosen convention; null for imports
+   * reported in another convention
+   */
+  scoreSession: (session: DBSession) => number | null;
+  /** Format a score in the chosen convention's unit */
+  format: (score: number) => string;
+}
+
+/**
+ * Stats of the channels a stored session tracked
+ */
+function getChannelStats(session: DBSession): PerformanceStats[] {
+  const stored: Record<StimulusChannel, PerformanceStats | undefined> = {
+    position: session.positionStats,
+    audio: session.audioStats,
+    color: session.colorStats,
+    shape: session.shapeStats,
+  };
+  return getModeChannels(session.mode as TrainingMode).map(
+    (channel) => stored[channel] ?? createEmptyPerformanceStats()
+  );
+}
+
+export function useScoringConvention(): UseScoringConventionReturn {
+  const { settings } = useSettings();
+  const conventionId = settings?.scoringConvention ?? DEFAULT_SCORING_CONVENTION;
+  const convention = useMemo(() => getScoringConvention(conventionId), [conventionId]);
+
+  const scoreSession = useCallback(
+    (session: DBSession) => {
+      const stats = getChannelStats(session);
+      return stats.every((channel) => canScoreStats(channel, conventionId))
+        ? convention.scoreChannels(stats)
+        : null;
+    },
+    [convention, conventionId]
+  );
+
+  const format = useCallback((score: number) => formatScore(score, conventionId), [conventionId]);
+
+  return { convention, conventionId, scoreSession, format };
+}
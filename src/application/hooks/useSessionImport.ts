@@ -0,0 +1,178 @@
+'use client';
+
+/**
+ * useSessionImport Hook
+ *
+ * Importing training history from Brain Workshop's stats file or a CSV
+ * with a column mapping. The file is parsed and previewed before import.
+ */
+
+import { useState, useCallback } from 'react';
+import { useCore } from '../providers/CoreProvider';
+import {
+  guessCsvImportMapping,
+  isBrainWorkshopStats,
+  parseBrainWorkshopStats,
+  parseCsvRows,
+  parseSessionCsv,
+  type CsvImportMapping,
+  type ParsedImport,
+  type ScoringConventionId,
+  type SessionImportResult,
+} from '@neuralift/core';
+
+/**
+ * A file waiting to be imported
+ */
+interface PendingImport {
+  fileName: string;
+  text: string;
+  format: 'brain-workshop' | 'csv';
+  /** Header row of a CSV file */
+  headers: string[];
+}
+
+/**
+ * Hook return type
+ */
+export interface UseSessionImportReturn {
+  /** Name of the chosen file */
+  fileName: string | null;
+  /** Detected format of the chosen file */
+  format: 'brain-workshop' | 'csv' | null;
+  /** Header row of a CSV file, for the column mapping */
+  headers: string[];
+  /** Column per field of a CSV file */
+  mapping: CsvImportMapping;
+  /** Sessions parsed from the file and lines left out, null until parsed */
+  parsed: ParsedImport | null;
+  /** Whether a file is being read or imported */
+  busy: boolean;
+  /** Why the file could not be read or imported */
+  error: Error | null;
+  /** Outcome of the last import, with the levels it unlocked */
+  result: (SessionImportResult & { unlockedLevelIds: string[] }) | null;
+  /** Read and parse a file, detecting its format */
+  selectFile: (file: File) => Promise<void>;
+  /** Change the CSV column mapping and parse again */
+  setMapping: (mapping: CsvImportMapping) => void;
+  /** Store the parsed sessions */
+  confirm: () => Promise<void>;
+  /** Discard the chosen file */
+  cancel: () => void;
+  /** Apply imported history to unlocks, after opting in to counting it */
+  applyToUnlocks: () => Promise<string[]>;
+}
+
+/**
+ * @param includeImported - whether imported sessions count toward unlocks
+ * @param convention - convention for unlock checks
+ */
+export function useSessionImport(
+  includeImported = false,
+  convention?: ScoringConventionId
+): UseSessionImportReturn {
+  const core = useCore();
+  const { sessionImport, progressionService } = core.services;
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [mapping, setMappingState] = useState<CsvImportMapping>({});
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [result, setResult] = useState<UseSessionImportReturn['result']>(null);
+
+  /**
+   * Parse a file's text, keeping parse errors for display
+   */
+  const parse = useCallback((file: PendingImport, csvMapping: CsvImportMapping) => {
+    try {
+      setError(null);
+      setParsed(
+        file.format === 'brain-workshop'
+          ? parseBrainWorkshopStats(file.text)
+          : parseSessionCsv(file.text, csvMapping)
+      );
+    } catch (err) {
+      setParsed(null);
+      setError(err instanceof Error ? err : new Error('Failed to read file'));
+    }
+  }, []);
+
+  const selectFile = useCallback(
+    async (file: File) => {
+      setResult(null);
+      try {
+        setBusy(true);
+        const text = await file.text();
+        const format = isBrainWorkshopStats(text) ? 'brain-workshop' : 'csv';
+        const headers = format === 'csv' ? (parseCsvRows(text)[0] ?? []) : [];
+        const next: PendingImport = { fileName: file.name, text, format, headers };
+        const guessed = guessCsvImportMapping(headers);
+        setPending(next);
+        setMappingState(guessed);
+        parse(next, guessed);
+      } catch (err) {
+        const readError = err instanceof Error ? err : new Error('Failed to read file');
+        setError(readError);
+        console.error('[useSessionImport] Failed to read:', readError);
+      } finally {
+        setBusy(false);
+      }
+    },
+    [parse]
+  );
+
+  const setMapping = useCallback(
+    (next: CsvImportMapping) => {
+      setMappingState(next);
+      if (pending) parse(pending, next);
+    },
+    [pending, parse]
+  );
+
+  const applyToUnlocks = useCallback(async () => {
+    const progression = await progressionService.unlockEarnedLevels(convention, true);
+    return progression.unlockedLevelIds;
+  }, [progressionService, convention]);
+
+  const confirm = useCallback(async () => {
+    if (!parsed) return;
+    try {
+      setBusy(true);
+      setError(null);
+      const imported = await sessionImport.importSessions(parsed.sessions);
+      const unlockedLevelIds = includeImported ? await applyToUnlocks() : [];
+      setResult({ ...imported, unlockedLevelIds });
+      setPending(null);
+      setParsed(null);
+    } catch (err) {
+      const importError = err instanceof Error ? err : new Error('Failed to import sessions');
+      setError(importError);
+      console.error('[useSessionImport] Failed to import:', importError);
+    } finally {
+      setBusy(false);
+    }
+  }, [parsed, sessionImport, includeImported, applyToUnlocks]);
+
+  const cancel = useCallback(() => {
+    setPending(null);
+    setParsed(null);
+    setError(null);
+  }, []);
+
+  return {
+    fileName: pending?.fileName ?? null,
+    format: pending?.format ?? null,
+    headers: pending?.headers ?? [],
+    mapping,
+    parsed,
+    busy,
+    error,
+    result,
+    selectFile,
+    setMapping,
+    confirm,
+    cancel,
+    applyToUnlocks,
+  };
+}
@@ -0,0 +1,62 @@
+'use client';
+
+/**
+ * useSessionResult Hook
+ *
+ * Loads one stored session, with its trials, for its results screen.
+ */
+
+import { useEffect, useState, useCallback } from 'react';
+import { useCore } from '../providers/CoreProvider';
+import type { SessionResult } from '@neuralift/core';
+
+/**
+ * Hook return type
+ */
+export interface UseSessionResultReturn {
+  /** The session, null while loading or when it was not found */
+  session: SessionResult | null;
+  /** Loading state */
+  loading: boolean;
+  /** Error state */
+  error: Error | null;
+  /** Reload from the database */
+  refresh: () => Promise<void>;
+}
+
+export function useSessionResult(sessionId: string): UseSessionResultReturn {
+  const core = useCore();
+  const sessionRepository = core.repositories.session;
+  const [session, setSession] = useState<SessionResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  /**
+   * Load the session
+   */
+  const loadSession = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setSession(await sessionRepository.findById(sessionId));
+    } catch (err) {
+      const loadError = err instanceof Error ? err : new Error('Failed to load session');
+      setError(loadError);
+      console.error('[useSessionResult] Failed to load:', loadError);
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionRepository, sessionId]);
+
+  // Load the session on mount and when the ID changes
+  useEffect(() => {
+    void loadSession();
+  }, [loadSession]);
+
+  return {
+    session,
+    loading,
+    error,
+    refresh: loadSession,
+  };
+}
@@ -8,6 +8,14 @@
 
 import { useEffect, useState, useCallback } from 'react';
 import { db, type DBSettings } from '@/infrastructure/database';
+import {
+  DEFAULT_DAILY_GOAL,
+  DEFAULT_SCORING_CONVENTION,
+  isValidDailyGoal,
+  isValidScoringConvention,
+  type DailyGoal,
+  type ScoringConventionId,
+} from '@neuralift/core';
 
 /**
  * User settings type (without id field)
@@ -20,6 +28,10 @@ export interface Settings {
   showBriefing: boolean;
   soundEnabled: boolean;
   volume: number;
+  scoringConvention: ScoringConventionId;
+  dailyGoal: DailyGoal;
+  /** Count sessions imported from other apps toward unlocks and streaks */
+  includeImportedSessions: boolean;
 }
 
 /**
@@ -53,6 +65,9 @@ const DEFAULT_SETTINGS: Settings = {
   showBriefing: true,
   soundEnabled: true,
   volume: 80,
+  scoringConvention: DEFAULT_SCORING_CONVENTION,
+  dailyGoal: DEFAULT_DAILY_GOAL,
+  includeImportedSessions: false,
 };
 
 export function useSettings(): UseSettingsReturn {
@@ -73,8 +88,23 @@ export function useSettings(): UseSettingsReturn {
 
       const dbSettings = await db.settings.get(1);
       if (dbSettings) {
-        const { id, updated, ...settingsData } = dbSettings;
-        setSettings(settingsData);
+        const {
+          id,
+          updated,
+          scoringConvention,
+          dailyGoal,
+          includeImportedSessions,
+          ...settingsData
+        } = dbSettings;
+        setSettings({
+          ...settingsData,
+          scoringConvention:
+            scoringConvention && isValidScoringConvention(scoringConvention)
+              ? scoringConvention
+              : DEFAULT_SCORING_CONVENTION,
+          dailyGoal: isValidDailyGoal(dailyGoal) ? dailyGoal : DEFAULT_DAILY_GOAL,
+          includeImportedSessions: includeImportedSessions ?? false,
+        });
       } else {
         setSettings(DEFAULT_SETTINGS);
       }
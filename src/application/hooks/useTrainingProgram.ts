@@ -0,0 +1,85 @@
+'use client';
+
+/**
+ * useTrainingProgram Hook
+ *
+ * The training program the user follows, today's prescription and
+ * adherence, and enrolling in or leaving a program.
+ */
+
+import { useEffect, useState, useCallback } from 'react';
+import { useCore } from '../providers/CoreProvider';
+import type { ProgramStatus, TrainingProgram } from '@neuralift/core';
+
+/**
+ * Hook return type
+ */
+export interface UseTrainingProgramReturn {
+  /** Programs the user can enroll in */
+  programs: readonly TrainingProgram[];
+  /** Status of the current enrollment, null when not enrolled */
+  status: ProgramStatus | null;
+  /** Loading state */
+  loading: boolean;
+  /** Error state */
+  error: Error | null;
+  /** Start a program from today */
+  enroll: (programId: string) => Promise<void>;
+  /** Stop following the current program */
+  leave: () => Promise<void>;
+  /** Refresh from the database */
+  refresh: () => Promise<void>;
+}
+
+export function useTrainingProgram(): UseTrainingProgramReturn {
+  const core = useCore();
+  const programService = core.services.programs;
+  const [status, setStatus] = useState<ProgramStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  /**
+   * Load the program status
+   */
+  const loadStatus = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setStatus(await programService.getStatus());
+    } catch (err) {
+      const loadError = err instanceof Error ? err : new Error('Failed to load training program');
+      setError(loadError);
+      console.error('[useTrainingProgram] Failed to load:', loadError);
+    } finally {
+      setLoading(false);
+    }
+  }, [programService]);
+
+  const enroll = useCallback(
+    async (programId: string) => {
+      await programService.enroll(programId);
+      await loadStatus();
+    },
+    [programService, loadStatus]
+  );
+
+  const leave = useCallback(async () => {
+    await programService.leave();
+    await loadStatus();
+  }, [programService, loadStatus]);
+
+  // Load the status on mount
+  useEffect(() => {
+    void loadStatus();
+  }, [loadStatus]);
+
+  return {
+    programs: programService.getPrograms(),
+    status,
+    loading,
+    error,
+    enroll,
+    leave,
+    refresh: loadStatus,
+  };
+}
@@ -8,10 +8,10 @@
  * - Trial progression and timing
  * - Response handling with immediate feedback
  * - Session completion and scoring
+ * - Adaptive N-back adjustment between blocks (when enabled in settings)
  */
 
-import { useCallback, useEffect, useRef } from 'react';
-import { nanoid } from 'nanoid';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useCore } from '../providers/CoreProvider';
 import {
   useSessionStore,
@@ -21,14 +21,27 @@ import {
   selectIsComplete,
 } from '../stores/sessionStore';
 import { useAnalytics, type TrackEventInput } from './useAnalytics';
+import { useSettings } from './useSettings';
 import {
+  DEFAULT_LURE_PROBABILITY,
   DEFAULT_TRIAL_DURATION_MS,
   DEFAULT_TRIALS_PER_SESSION,
   type LevelConfig,
+  type NBackLevel,
   type TrialData,
   type SessionResult,
+  type AdaptiveDecision,
+  type Session,
+  type StimulusChannel,
+  type GridSize,
+  GRID_SIZE,
+  getModeChannels,
+  getTrialChannelState,
 } from '@neuralift/core';
 
+/** How long each trial's visual stimulus stays on the grid, in ms */
+const STIMULUS_DISPLAY_MS = 500;
+
 /**
  * Extended level config with session-specific settings
  */
@@ -53,12 +66,27 @@ export interface UseTrainingSessionReturn {
   countdownValue: number;
   showFeedback: boolean;
   feedbackType: 'correct' | 'incorrect' | null;
+  /** Grid side length for this level */
+  gridSize: GridSize;
+  /** Stimulus channels tracked in this level's mode, in display order */
+  channels: readonly StimulusChannel[];
+  /** Channels already responded to in the current trial */
+  respondedChannels: StimulusChannel[];
+  /** N-back level the next (or current) block is played at */
+  currentNBack: NBackLevel;
+  /** Adaptive decision from the last finished block, null when adaptive mode is off */
+  adaptiveDecision: AdaptiveDecision | null;
+  /** Whether the current trial's visual stimulus is on the grid */
+  stimulusVisible: boolean;
+  /** Error state */
+  error: Error | null;
 
   // Actions
   initialize: () => Promise<void>;
   start: () => Promise<void>;
   pause: () => void;
   resume: () => void;
+  respondChannel: (channel: StimulusChannel) => void;
   respondPosition: () => void;
   respondAudio: () => void;
   finishSession: () => Promise<SessionResult | null>;
@@ -68,12 +96,23 @@ export interface UseTrainingSessionReturn {
 export function useTrainingSession(levelConfig: SessionLevelConfig): UseTrainingSessionReturn {
   const core = useCore();
   const { track, trackImmediate } = useAnalytics();
+  const { settings } = useSettings();
   const trialTimerRef = useRef<NodeJS.Timeout | null>(null);
   const countdownTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const stimulusTimerRef = useRef<NodeJS.Timeout | null>(null);
+  // Core session entity driven alongside the UI store
+  const coreSessionRef = useRef<Session | null>(null);
 
   // Get effective config values
   const trialCount = levelConfig.trialCount ?? DEFAULT_TRIALS_PER_SESSION;
   const trialDuration = levelConfig.trialDuration ?? DEFAULT_TRIAL_DURATION_MS;
+  const lureProbability = levelConfig.lureProbability ?? DEFAULT_LURE_PROBABILITY;
+  const adaptiveMode = settings?.adaptiveMode ?? false;
+  const scoringConvention = settings?.scoringConvention;
+  const dailyGoal = settings?.dailyGoal;
+  const includeImported = settings?.includeImportedSessions ?? false;
+  const channels = getModeChannels(levelConfig.mode);
+  const gridSize = levelConfig.gridSize ?? GRID_SIZE;
 
   // Store state and actions
   const {
@@ -92,16 +131,27 @@ export function useTrainingSession(levelConfig: SessionLevelConfig): UseTraining
     startSession,
     pauseSession,
     resumeSession,
-    recordPositionResponse,
-    recordAudioResponse,
+    respondedChannels,
+    recordChannelResponse,
     advanceToNextTrial,
     startTrial,
     showTrialFeedback,
     hideFeedback,
     completeSession,
     resetSession,
+    adaptiveCarry,
+    setAdaptiveCarry,
   } = useSessionStore();
 
+  // Adaptive mode carries N across consecutive blocks of the same level
+  const currentNBack: NBackLevel =
+    adaptiveMode && adaptiveCarry?.levelId === levelConfig.id
+      ? adaptiveCarry.nBack
+      : levelConfig.nBack;
+  const [adaptiveDecision, setAdaptiveDecision] = useState<AdaptiveDecision | null>(null);
+  const [stimulusVisible, setStimulusVisible] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
   // Selectors
   const currentTrial = useSessionStore(selectCurrentTrial);
   const progress = useSessionStore(selectProgress);
@@ -120,6 +170,10 @@ export function useTrainingSession(levelConfig: SessionLevelConfig): UseTraining
       clearInterval(countdownTimerRef.current);
       countdownTimerRef.current = null;
     }
+    if (stimulusTimerRef.current) {
+      clearTimeout(stimulusTimerRef.current);
+      stimulusTimerRef.current = null;
+    }
   }, []);
 
   /**
@@ -128,66 +182,44 @@ export function useTrainingSession(levelConfig: SessionLevelConfig): UseTraining
   const initialize = useCallback(async () => {
     clearTimers();
 
-    const newSessionId = nanoid();
-
-    // Generate sequence using core service
-    const generatedTrials = core.services.sequenceGenerator.generate({
-      nBack: levelConfig.nBack,
+    // Create the session and its trial sequence in core
+    const { sessionId: newSessionId, session } = await core.useCases.startSession.execute({
+      levelId: levelConfig.id,
+      nBack: currentNBack,
       trialCount,
-      mode: levelConfig.mode,
+      trialDuration,
+      lureProbability,
     });
+    coreSessionRef.current = session;
 
-    // Convert to TrialData format
-    const trialData: TrialData[] = generatedTrials.map((trial, index) => ({
-      id: index,
-      position: trial.position as 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8,
-      audioLetter: trial.audioLetter,
-      isPositionMatch: trial.isPositionMatch,
-      isAudioMatch: trial.isAudioMatch,
-      userPositionResponse: null,
-      userAudioResponse: null,
-      positionResponseTime: null,
-      audioResponseTime: null,
-      stimulusTimestamp: 0,
-    }));
+    const trialData: TrialData[] = session.getTrials().map((trial) => trial.toJSON());
 
     initializeSession({
       sessionId: newSessionId,
       levelId: levelConfig.id,
-      nBack: levelConfig.nBack,
+      nBack: currentNBack,
       mode: levelConfig.mode,
       trials: trialData,
     });
 
-    // Initialize audio player
-    await core.audioPlayer.initialize();
+    // Initialize audio player; the session still runs without sound
+    try {
+      await core.audioPlayer.initialize();
+    } catch (err) {
+      console.error('[useTrainingSession] Failed to initialize audio:', err);
+    }
   }, [
-    core.services.sequenceGenerator,
+    core.useCases.startSession,
     core.audioPlayer,
     levelConfig,
+    currentNBack,
     trialCount,
+    trialDuration,
+    lureProbability,
     initializeSession,
     clearTimers,
   ]);
 
-  /**
-   * Play the current trial
-   */
-  const playTrial = useCallback(async () => {
-    if (!currentTrial || status !== 'active') return;
-
-    // Mark trial start time
-    startTrial();
-
-    // Play audio letter
-    await core.audioPlayer.playLetter(currentTrial.audioLetter);
-
-    // Set timer for trial duration
-    trialTimerRef.current = setTimeout(() => {
-      onTrialEnd();
-    }, trialDuration);
-  }, [currentTrial, status, core.audioPlayer, trialDuration, startTrial]);
-
   /**
    * Handle trial end
    */
@@ -200,43 +232,78 @@ export function useTrainingSession(levelConfig: SessionLevelConfig): UseTraining
     const state = useSessionStore.getState();
     const trial = state.trials[state.currentTrialIndex];
 
-    // Track trial completion
+    // Track trial completion on each channel the mode tracks, e.g.
+    // positionCorrect, positionResponseTime and wasPositionMatch
     if (trial && sessionId) {
-      const positionCorrect = trial.userPositionResponse === trial.isPositionMatch ||
-        (trial.userPositionResponse === null && !trial.isPositionMatch);
-      const audioCorrect = trial.userAudioResponse === trial.isAudioMatch ||
-        (trial.userAudioResponse === null && !trial.isAudioMatch);
-
-      track({
-        type: 'TRIAL_COMPLETED',
-        category: 'trial',
-        sessionId,
-        payload: {
-          trialIndex: state.currentTrialIndex,
-          positionCorrect,
-          audioCorrect,
-          positionResponseTime: trial.positionResponseTime,
-          audioResponseTime: trial.audioResponseTime,
-          wasPositionMatch: trial.isPositionMatch,
-          wasAudioMatch: trial.isAudioMatch,
-        },
-      });
+      const payload: Record<string, unknown> = { trialIndex: state.currentTrialIndex };
+      for (const channel of channels) {
+        const { isMatch, userResponse, responseTime } = getTrialChannelState(trial, channel);
+        const label = channel.charAt(0).toUpperCase() + channel.slice(1);
+        // No response is correct on a non-match
+        payload[`${channel}Correct`] = (userResponse ?? false) === isMatch;
+        payload[`${channel}ResponseTime`] = responseTime;
+        payload[`was${label}Match`] = isMatch;
+      }
+
+      track({ type: 'TRIAL_COMPLETED', category: 'trial', sessionId, payload });
     }
 
     // Check if this was the last trial
     if (state.currentTrialIndex >= state.trials.length - 1) {
       completeSession();
     } else {
+      coreSessionRef.current?.advanceToNextTrial();
       advanceToNextTrial();
     }
-  }, [sessionId, track, advanceToNextTrial, completeSession]);
+  }, [sessionId, channels, track, advanceToNextTrial, completeSession]);
+
+  /**
+   * Play the current trial: show its stimulus, speak its letter and end it
+   * after the trial duration
+   */
+  const playTrial = useCallback(async () => {
+    const state = useSessionStore.getState();
+    const trial = state.trials[state.currentTrialIndex];
+    if (!trial || state.status !== 'active') return;
+
+    // Never leave an earlier play's timers running
+    clearTimers();
+
+    // Mark trial start time
+    startTrial();
+    coreSessionRef.current?.presentCurrentTrial();
+
+    setStimulusVisible(true);
+    stimulusTimerRef.current = setTimeout(() => {
+      setStimulusVisible(false);
+    }, STIMULUS_DISPLAY_MS);
+
+    // Set timer for trial duration
+    trialTimerRef.current = setTimeout(() => {
+      onTrialEnd();
+    }, trialDuration);
+
+    // Play audio letter
+    try {
+      await core.audioPlayer.playLetter(trial.audioLetter);
+    } catch (err) {
+      console.error('[useTrainingSession] Failed to play letter:', err);
+    }
+  }, [core.audioPlayer, trialDuration, clearTimers, startTrial, onTrialEnd]);
 
   /**
    * Start the session with countdown
    */
   const start = useCallback(async () => {
-    if (!sessionId) {
-      await initialize();
+    if (!useSessionStore.getState().sessionId) {
+      try {
+        await initialize();
+      } catch (err) {
+        const startError = err instanceof Error ? err : new Error('Failed to start session');
+        setError(startError);
+        console.error('[useTrainingSession] Failed to start:', startError);
+        return;
+      }
     }
 
     startCountdown();
@@ -254,6 +321,7 @@ export function useTrainingSession(levelConfig: SessionLevelConfig): UseTraining
         }
 
         startSession();
+        coreSessionRef.current?.start();
 
         // Track session start
         const state = useSessionStore.getState();
@@ -262,7 +330,7 @@ export function useTrainingSession(levelConfig: SessionLevelConfig): UseTraining
           category: 'session',
           payload: {
             levelId: levelConfig.id,
-            nBack: levelConfig.nBack,
+            nBack: currentNBack,
             mode: levelConfig.mode,
             trialCount: state.trials.length,
           },
@@ -271,61 +339,73 @@ export function useTrainingSession(levelConfig: SessionLevelConfig): UseTraining
           sessionStartEvent.sessionId = state.sessionId;
         }
         void trackImmediate(sessionStartEvent);
-
-        // Start first trial
-        void playTrial();
       } else {
         setCountdownValue(count);
       }
     }, 1000);
   }, [
-    sessionId,
     initialize,
     startCountdown,
     setCountdownValue,
     startSession,
     trackImmediate,
     levelConfig,
-    playTrial,
+    currentNBack,
   ]);
 
   /**
-   * Handle position response
+   * Handle a match claim on a stimulus channel
    */
-  const respondPosition = useCallback(() => {
+  const respondChannel = useCallback((channel: StimulusChannel) => {
     if (status !== 'active' || !currentTrial) return;
 
     const state = useSessionStore.getState();
-    if (state.hasRespondedPosition) return;
-
-    const isCorrect = currentTrial.isPositionMatch;
-    recordPositionResponse();
+    if (state.respondedChannels.includes(channel)) return;
+
+    const isCorrect = getTrialChannelState(currentTrial, channel).isMatch;
+    recordChannelResponse(channel);
+    if (sessionId) {
+      core.useCases.recordResponse
+        .execute({
+          sessionId,
+          trialIndex: state.currentTrialIndex,
+          positionMatch: channel === 'position',
+          audioMatch: channel === 'audio',
+          colorMatch: channel === 'color',
+          shapeMatch: channel === 'shape',
+        })
+        .catch((err: unknown) => {
+          const responseError = err instanceof Error ? err : new Error('Failed to record response');
+          setError(responseError);
+          console.error('[useTrainingSession] Failed to record response:', responseError);
+        });
+    }
 
     // Play feedback sound
     void core.audioPlayer.playFeedback(isCorrect ? 'correct' : 'incorrect');
     showTrialFeedback(isCorrect ? 'correct' : 'incorrect');
 
     setTimeout(hideFeedback, 200);
-  }, [status, currentTrial, recordPositionResponse, core.audioPlayer, showTrialFeedback, hideFeedback]);
+  }, [
+    status,
+    currentTrial,
+    sessionId,
+    recordChannelResponse,
+    core.useCases.recordResponse,
+    core.audioPlayer,
+    showTrialFeedback,
+    hideFeedback,
+  ]);
 
   /**
-   * Handle audio response
+   * Handle position response
    */
-  const respondAudio = useCallback(() => {
-    if (status !== 'active' || !currentTrial) return;
-
-    const state = useSessionStore.getState();
-    if (state.hasRespondedAudio) return;
+  const respondPosition = useCallback(() => respondChannel('position'), [respondChannel]);
 
-    const isCorrect = currentTrial.isAudioMatch;
-    recordAudioResponse();
-
-    // Play feedback sound
-    void core.audioPlayer.playFeedback(isCorrect ? 'correct' : 'incorrect');
-    showTrialFeedback(isCorrect ? 'correct' : 'incorrect');
-
-    setTimeout(hideFeedback, 200);
-  }, [status, currentTrial, recordAudioResponse, core.audioPlayer, showTrialFeedback, hideFeedback]);
+  /**
+   * Handle audio response
+   */
+  const respondAudio = useCallback(() => respondChannel('audio'), [respondChannel]);
 
   /**
    * Pause the session
@@ -336,12 +416,11 @@ export function useTrainingSession(levelConfig: SessionLevelConfig): UseTraining
   }, [clearTimers, pauseSession]);
 
   /**
-   * Resume the session
+   * Resume the session, replaying the interrupted trial
    */
   const resume = useCallback(() => {
     resumeSession();
-    void playTrial();
-  }, [resumeSession, playTrial]);
+  }, [resumeSession]);
 
   /**
    * Finish and save the session
@@ -351,59 +430,45 @@ export function useTrainingSession(levelConfig: SessionLevelConfig): UseTraining
 
     clearTimers();
 
-    const state = useSessionStore.getState();
-    const endTime = Date.now();
-
-    // Calculate scores using scoring service
-    const positionTrials = state.trials.map((t) => ({
-      isMatch: t.isPositionMatch,
-      userResponse: t.userPositionResponse,
-      responseTime: t.positionResponseTime,
-    }));
-
-    const audioTrials = state.trials.map((t) => ({
-      isMatch: t.isAudioMatch,
-      userResponse: t.userAudioResponse,
-      responseTime: t.audioResponseTime,
-    }));
-
-    const scoringResult = core.services.scoringService.calculateSessionResult(
-      positionTrials,
-      audioTrials,
-      state.mode!
-    );
-
-    const duration = state.startTime ? endTime - state.startTime : 0;
-
-    // Create session result matching SessionResult interface
-    const sessionResult: SessionResult = {
-      sessionId,
-      levelId: state.levelId!,
-      nBack: state.nBack!,
-      mode: state.mode!,
-      timestamp: new Date(state.startTime ?? endTime),
-      duration,
-      trials: state.trials,
-      positionStats: scoringResult.positionStats,
-      audioStats: scoringResult.audioStats,
-      combinedAccuracy: scoringResult.combinedAccuracy,
-      completed: true,
-    };
-
-    // Save to repository
-    await core.repositories.session.save(sessionResult);
-
-    // Update progress
-    const progressData = await core.repositories.progress.get();
-    await core.repositories.progress.save({
-      ...progressData,
-      totalSessions: progressData.totalSessions + 1,
-      totalTime: progressData.totalTime + duration,
-      lastSessionDate: new Date(),
-    });
+    // Score, persist, update progress and unlock levels in core
+    const completed = await core.useCases.completeSession
+      .execute({
+        sessionId,
+        ...(scoringConvention && { scoringConvention }),
+        ...(dailyGoal && { dailyGoal }),
+        includeImported,
+      })
+      .catch((err: unknown) => {
+        const finishError = err instanceof Error ? err : new Error('Failed to save session');
+        setError(finishError);
+        console.error('[useTrainingSession] Failed to save session:', finishError);
+        return null;
+      });
+    if (!completed) return null;
+    const { result: sessionResult, dPrime, unlockedLevelIds } = completed;
+    coreSessionRef.current = null;
+
+    for (const unlockedLevelId of unlockedLevelIds) {
+      void trackImmediate({
+        type: 'LEVEL_UNLOCKED',
+        category: 'performance',
+        sessionId,
+        payload: {
+          levelId: unlockedLevelId,
+          unlockedBy: sessionResult.levelId,
+          accuracy: sessionResult.combinedAccuracy,
+        },
+      });
+    }
 
-    // Update streak
-    await core.repositories.progress.updateStreak();
+    // Carry the adjusted N into the next block
+    if (adaptiveMode) {
+      const decision = core.services.adaptivePolicy.evaluate(sessionResult);
+      setAdaptiveDecision(decision);
+      setAdaptiveCarry({ levelId: sessionResult.levelId, nBack: decision.nextNBack });
+    } else {
+      setAdaptiveDecision(null);
+    }
 
     // Track completion
     void trackImmediate({
@@ -411,12 +476,12 @@ export function useTrainingSession(levelConfig: SessionLevelConfig): UseTraining
       category: 'session',
       sessionId,
       payload: {
-        levelId: state.levelId,
-        nBack: state.nBack,
-        mode: state.mode,
-        accuracy: scoringResult.combinedAccuracy,
-        dPrime: scoringResult.combinedDPrime,
-        duration,
+        levelId: sessionResult.levelId,
+        nBack: sessionResult.nBack,
+        mode: sessionResult.mode,
+        accuracy: sessionResult.combinedAccuracy,
+        dPrime,
+        duration: sessionResult.duration,
       },
     });
 
@@ -427,11 +492,15 @@ export function useTrainingSession(levelConfig: SessionLevelConfig): UseTraining
   }, [
     sessionId,
     clearTimers,
-    core.services.scoringService,
-    core.repositories.session,
-    core.repositories.progress,
+    core.useCases.completeSession,
+    core.services.adaptivePolicy,
     core.audioPlayer,
     trackImmediate,
+    adaptiveMode,
+    scoringConvention,
+    dailyGoal,
+    includeImported,
+    setAdaptiveCarry,
   ]);
 
   /**
@@ -439,22 +508,34 @@ export function useTrainingSession(levelConfig: SessionLevelConfig): UseTraining
    */
   const reset = useCallback(() => {
     clearTimers();
+    // Drop an unfinished session from core; completed ones are already gone
+    const activeSessionId = useSessionStore.getState().sessionId;
+    if (activeSessionId) {
+      core.useCases.discardSession.execute({ sessionId: activeSessionId });
+    }
+    coreSessionRef.current = null;
+    setError(null);
     resetSession();
-  }, [clearTimers, resetSession]);
+  }, [clearTimers, core.useCases.discardSession, resetSession]);
 
-  // Auto-advance trials when index changes
+  // Play each trial as the session starts, advances or resumes
   useEffect(() => {
-    if (status === 'active' && currentTrialIndex > 0) {
+    if (status === 'active') {
       void playTrial();
     }
   }, [currentTrialIndex, status, playTrial]);
 
   // Cleanup on unmount
   useEffect(() => {
+    const { discardSession } = core.useCases;
     return () => {
       clearTimers();
+      const activeSessionId = useSessionStore.getState().sessionId;
+      if (activeSessionId) {
+        discardSession.execute({ sessionId: activeSessionId });
+      }
     };
-  }, [clearTimers]);
+  }, [clearTimers, core.useCases]);
 
   return {
     // State
@@ -467,12 +548,20 @@ export function useTrainingSession(levelConfig: SessionLevelConfig): UseTraining
     countdownValue,
     showFeedback,
     feedbackType,
+    gridSize,
+    channels,
+    respondedChannels,
+    currentNBack,
+    adaptiveDecision,
+    stimulusVisible,
+    error,
 
     // Actions
     initialize,
     start,
     pause,
     resume,
+    respondChannel,
     respondPosition,
     respondAudio,
     finishSession,
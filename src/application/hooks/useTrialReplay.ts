@@ -0,0 +1,123 @@
+'use client';
+
+/**
+ * useTrialReplay Hook
+ *
+ * Steps through a finished session's trials, replaying each stimulus on
+ * the grid and speaking its letter again through the audio player.
+ */
+
+import { useEffect, useState, useCallback, useRef } from 'react';
+import { useCore } from '../providers/CoreProvider';
+import { DEFAULT_TRIAL_DURATION_MS, type TrialData } from '@neuralift/core';
+
+/**
+ * Hook return type
+ */
+export interface UseTrialReplayReturn {
+  /** Index of the trial being shown */
+  index: number;
+  /** Trial being shown (undefined for an empty session) */
+  trial: TrialData | undefined;
+  /** Whether the replay is advancing on its own */
+  playing: boolean;
+  /** Start or resume the replay (restarts from the first trial at the end) */
+  play: () => void;
+  /** Pause on the current trial */
+  pause: () => void;
+  /** Show a trial and speak its letter */
+  goTo: (index: number) => void;
+  next: () => void;
+  previous: () => void;
+}
+
+export function useTrialReplay(
+  trials: readonly TrialData[],
+  trialDuration = DEFAULT_TRIAL_DURATION_MS
+): UseTrialReplayReturn {
+  const core = useCore();
+  const audioPlayer = core.audioPlayer;
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const audioReadyRef = useRef(false);
+
+  const lastIndex = trials.length - 1;
+
+  /**
+   * Speak a trial's letter, initializing audio on first use
+   */
+  const speak = useCallback(
+    async (trialIndex: number) => {
+      const trial = trials[trialIndex];
+      if (!trial) return;
+      try {
+        if (!audioReadyRef.current) {
+          await audioPlayer.initialize();
+          audioReadyRef.current = true;
+        }
+        await audioPlayer.playLetter(trial.audioLetter);
+      } catch (err) {
+        console.error('[useTrialReplay] Failed to play letter:', err);
+      }
+    },
+    [trials, audioPlayer]
+  );
+
+  const goTo = useCallback(
+    (target: number) => {
+      const clamped = Math.max(0, Math.min(target, lastIndex));
+      setIndex(clamped);
+      void speak(clamped);
+    },
+    [lastIndex, speak]
+  );
+
+  const play = useCallback(() => {
+    if (trials.length === 0) return;
+    setPlaying(true);
+    goTo(index >= lastIndex ? 0 : index);
+  }, [trials.length, index, lastIndex, goTo]);
+
+  const pause = useCallback(() => {
+    setPlaying(false);
+  }, []);
+
+  const next = useCallback(() => {
+    setPlaying(false);
+    goTo(index + 1);
+  }, [index, goTo]);
+
+  const previous = useCallback(() => {
+    setPlaying(false);
+    goTo(index - 1);
+  }, [index, goTo]);
+
+  // Advance one trial per trial duration while playing, stopping after the last
+  useEffect(() => {
+    if (!playing) return;
+    const timer = setTimeout(() => {
+      if (index >= lastIndex) {
+        setPlaying(false);
+      } else {
+        goTo(index + 1);
+      }
+    }, trialDuration);
+    return () => clearTimeout(timer);
+  }, [playing, index, lastIndex, trialDuration, goTo]);
+
+  // Stop any speech when leaving the page
+  useEffect(() => {
+    return () => audioPlayer.stop();
+  }, [audioPlayer]);
+
+  return {
+    index,
+    trial: trials[index],
+    playing,
+    play,
+    pause,
+    goTo,
+    next,
+    previous,
+  };
+}
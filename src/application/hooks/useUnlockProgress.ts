@@ -0,0 +1,68 @@
+'use client';
+
+/**
+ * useUnlockProgress Hook
+ *
+ * Progress toward each level's unlock conditions, from the stored session history.
+ */
+
+import { useEffect, useState, useCallback } from 'react';
+import { useCore } from '../providers/CoreProvider';
+import type { LevelConfig, ScoringConventionId, UnlockProgress } from '@neuralift/core';
+
+/**
+ * Hook return type
+ */
+export interface UseUnlockProgressReturn {
+  /** Unlock progress keyed by level ID (levels without criteria are absent) */
+  progress: Map<string, UnlockProgress>;
+  /** Loading state */
+  loading: boolean;
+  /** Error state */
+  error: Error | null;
+  /** Refresh from the database */
+  refresh: () => Promise<void>;
+}
+
+export function useUnlockProgress(
+  levels: readonly LevelConfig[],
+  convention?: ScoringConventionId,
+  includeImported = false
+): UseUnlockProgressReturn {
+  const core = useCore();
+  const progressionService = core.services.progressionService;
+  const [progress, setProgress] = useState<Map<string, UnlockProgress>>(() => new Map());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  /**
+   * Load unlock progress
+   */
+  const loadProgress = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setProgress(
+        await progressionService.getUnlockProgress(levels, convention, includeImported)
+      );
+    } catch (err) {
+      const loadError = err instanceof Error ? err : new Error('Failed to load unlock progress');
+      setError(loadError);
+      console.error('[useUnlockProgress] Failed to load:', loadError);
+    } finally {
+      setLoading(false);
+    }
+  }, [progressionService, levels, convention, includeImported]);
+
+  // Load progress on mount and when the levels or convention change
+  useEffect(() => {
+    void loadProgress();
+  }, [loadProgress]);
+
+  return {
+    progress,
+    loading,
+    error,
+    refresh: loadProgress,
+  };
+}
@@ -0,0 +1,75 @@
+'use client';
+
+/**
+ * useUserProfile Hook
+ *
+ * The profile built from the stored session history, including accuracy
+ * trends with their confidence intervals and plateau detection.
+ */
+
+import { useEffect, useState, useCallback } from 'react';
+import { useCore } from '../providers/CoreProvider';
+import type { UserProfile } from '@neuralift/core';
+
+/**
+ * Analytics events considered when building the profile
+ */
+const PROFILE_EVENT_LIMIT = 500;
+
+/**
+ * Hook return type
+ */
+export interface UseUserProfileReturn {
+  /** Profile, null until loaded */
+  profile: UserProfile | null;
+  /** Loading state */
+  loading: boolean;
+  /** Error state */
+  error: Error | null;
+  /** Rebuild from the database */
+  refresh: () => Promise<void>;
+}
+
+export function useUserProfile(): UseUserProfileReturn {
+  const core = useCore();
+  const { profileAnalyzer } = core.services;
+  const { session: sessionRepository, progress: progressRepository, analytics } =
+    core.repositories;
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  /**
+   * Build the profile
+   */
+  const loadProfile = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [sessions, progress, events] = await Promise.all([
+        sessionRepository.findAll(),
+        progressRepository.get(),
+        analytics.getRecentEvents(PROFILE_EVENT_LIMIT),
+      ]);
+      setProfile(profileAnalyzer.buildUserProfile(sessions, progress, events));
+    } catch (err) {
+      const loadError = err instanceof Error ? err : new Error('Failed to build user profile');
+      setError(loadError);
+      console.error('[useUserProfile] Failed to load:', loadError);
+    } finally {
+      setLoading(false);
+    }
+  }, [profileAnalyzer, sessionRepository, progressRepository, analytics]);
+
+  // Build the profile on mount
+  useEffect(() => {
+    void loadProfile();
+  }, [loadProfile]);
+
+  return {
+    profile,
+    loading,
+    error,
+    refresh: loadProfile,
+  };
+}
@@ -18,10 +18,12 @@ export {
   selectIsActive,
   selectIsComplete,
   selectDuration,
+  selectCanRespond,
   selectCanRespondPosition,
   selectCanRespondAudio,
   type SessionStatus,
   type SessionInitConfig,
+  type AdaptiveCarry,
 } from './stores';
 
 // Hooks
@@ -8,12 +8,15 @@
  */
 
 import { createContext, useContext, useMemo, type ReactNode } from 'react';
+import { nanoid } from 'nanoid';
 import { createCoreFactory, type CoreFactory } from '@neuralift/core';
 
 // Infrastructure adapters (stub implementations for now)
 import { DexieSessionRepository } from '@/infrastructure/repositories/DexieSessionRepository';
 import { DexieProgressRepository } from '@/infrastructure/repositories/DexieProgressRepository';
 import { DexieAnalyticsRepository } from '@/infrastructure/repositories/DexieAnalyticsRepository';
+import { DexieCustomLevelRepository } from '@/infrastructure/repositories/DexieCustomLevelRepository';
+import { DexieRecordRepository } from '@/infrastructure/repositories/DexieRecordRepository';
 import { HowlerAudioPlayer } from '@/infrastructure/audio/HowlerAudioPlayer';
 import { AnthropicLLMService } from '@/infrastructure/llm/AnthropicLLMService';
 import { BrowserEventBus } from '@/infrastructure/events/BrowserEventBus';
@@ -33,6 +36,9 @@ export function CoreProvider({ children }: CoreProviderProps) {
       audioPlayer: new HowlerAudioPlayer(),
       llmService: new AnthropicLLMService(),
       eventBus: new BrowserEventBus(),
+      customLevelRepository: new DexieCustomLevelRepository(),
+      recordRepository: new DexieRecordRepository(),
+      generateSessionId: nanoid,
     });
   }, []);
 
@@ -5,8 +5,10 @@ export {
   selectIsActive,
   selectIsComplete,
   selectDuration,
+  selectCanRespond,
   selectCanRespondPosition,
   selectCanRespondAudio,
   type SessionStatus,
   type SessionInitConfig,
+  type AdaptiveCarry,
 } from './sessionStore';
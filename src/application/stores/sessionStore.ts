@@ -9,7 +9,14 @@
 
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
-import type { TrainingMode, NBackLevel, TrialData } from '@neuralift/core';
+import {
+  modeIncludesChannel,
+  withTrialChannelResponse,
+  type TrainingMode,
+  type NBackLevel,
+  type TrialData,
+  type StimulusChannel,
+} from '@neuralift/core';
 
 /**
  * Session status states
@@ -27,6 +34,14 @@ export interface SessionInitConfig {
   trials: TrialData[];
 }
 
+/**
+ * N-back level carried between consecutive adaptive blocks of a level
+ */
+export interface AdaptiveCarry {
+  levelId: string;
+  nBack: NBackLevel;
+}
+
 /**
  * Session store state
  */
@@ -47,17 +62,17 @@ interface SessionState {
   currentTrialIndex: number;
   trialStartTime: number | null;
 
-  // Responses for current trial
-  positionResponseTime: number | null;
-  audioResponseTime: number | null;
-  hasRespondedPosition: boolean;
-  hasRespondedAudio: boolean;
+  // Channels already responded to in the current trial
+  respondedChannels: StimulusChannel[];
 
   // UI state
   showFeedback: boolean;
   feedbackType: 'correct' | 'incorrect' | null;
   countdownValue: number;
 
+  // Adaptive mode (survives resetSession so N carries across blocks)
+  adaptiveCarry: AdaptiveCarry | null;
+
   // Actions
   initializeSession: (config: SessionInitConfig) => void;
   startCountdown: () => void;
@@ -65,14 +80,14 @@ interface SessionState {
   startSession: () => void;
   pauseSession: () => void;
   resumeSession: () => void;
-  recordPositionResponse: () => void;
-  recordAudioResponse: () => void;
+  recordChannelResponse: (channel: StimulusChannel) => void;
   advanceToNextTrial: () => void;
   startTrial: () => void;
   showTrialFeedback: (type: 'correct' | 'incorrect') => void;
   hideFeedback: () => void;
   completeSession: () => void;
   resetSession: () => void;
+  setAdaptiveCarry: (carry: AdaptiveCarry | null) => void;
 }
 
 /**
@@ -89,10 +104,7 @@ const initialState = {
   trials: [],
   currentTrialIndex: 0,
   trialStartTime: null,
-  positionResponseTime: null,
-  audioResponseTime: null,
-  hasRespondedPosition: false,
-  hasRespondedAudio: false,
+  respondedChannels: [] as StimulusChannel[],
   showFeedback: false,
   feedbackType: null,
   countdownValue: 3,
@@ -105,6 +117,7 @@ export const useSessionStore = create<SessionState>()(
   devtools(
     (set, get) => ({
       ...initialState,
+      adaptiveCarry: null,
 
       /**
        * Initialize a new session with configuration
@@ -121,10 +134,7 @@ export const useSessionStore = create<SessionState>()(
           startTime: null,
           endTime: null,
           trialStartTime: null,
-          hasRespondedPosition: false,
-          hasRespondedAudio: false,
-          positionResponseTime: null,
-          audioResponseTime: null,
+          respondedChannels: [],
           showFeedback: false,
           feedbackType: null,
           countdownValue: 3,
@@ -175,52 +185,21 @@ export const useSessionStore = create<SessionState>()(
       },
 
       /**
-       * Record a position response for the current trial
-       */
-      recordPositionResponse: () => {
-        const state = get();
-        if (state.hasRespondedPosition || state.status !== 'active') return;
-
-        const responseTime = state.trialStartTime
-          ? Date.now() - state.trialStartTime
-          : 0;
-
-        set({
-          hasRespondedPosition: true,
-          positionResponseTime: responseTime,
-          trials: state.trials.map((trial, i) =>
-            i === state.currentTrialIndex
-              ? {
-                  ...trial,
-                  userPositionResponse: true,
-                  positionResponseTime: responseTime,
-                }
-              : trial
-          ),
-        });
-      },
-
-      /**
-       * Record an audio response for the current trial
+       * Record a match claim on a stimulus channel for the current trial
        */
-      recordAudioResponse: () => {
+      recordChannelResponse: (channel: StimulusChannel) => {
         const state = get();
-        if (state.hasRespondedAudio || state.status !== 'active') return;
+        if (state.respondedChannels.includes(channel) || state.status !== 'active') return;
 
         const responseTime = state.trialStartTime
           ? Date.now() - state.trialStartTime
           : 0;
 
         set({
-          hasRespondedAudio: true,
-          audioResponseTime: responseTime,
+          respondedChannels: [...state.respondedChannels, channel],
           trials: state.trials.map((trial, i) =>
             i === state.currentTrialIndex
-              ? {
-                  ...trial,
-                  userAudioResponse: true,
-                  audioResponseTime: responseTime,
-                }
+              ? withTrialChannelResponse(trial, channel, true, responseTime)
               : trial
           ),
         });
@@ -241,10 +220,7 @@ export const useSessionStore = create<SessionState>()(
         } else {
           set({
             currentTrialIndex: nextIndex,
-            hasRespondedPosition: false,
-            hasRespondedAudio: false,
-            positionResponseTime: null,
-            audioResponseTime: null,
+            respondedChannels: [],
             showFeedback: false,
             feedbackType: null,
           });
@@ -288,6 +264,13 @@ export const useSessionStore = create<SessionState>()(
       resetSession: () => {
         set(initialState);
       },
+
+      /**
+       * Set the N-back level to use for the next adaptive block
+       */
+      setAdaptiveCarry: (carry: AdaptiveCarry | null) => {
+        set({ adaptiveCarry: carry });
+      },
     }),
     { name: 'session-store' }
   )
@@ -336,18 +319,23 @@ export const selectDuration = (state: SessionState): number => {
   return endTime - state.startTime;
 };
 
+/**
+ * Check if user can respond on a stimulus channel
+ */
+export const selectCanRespond =
+  (channel: StimulusChannel) =>
+  (state: SessionState): boolean =>
+    state.status === 'active' &&
+    !state.respondedChannels.includes(channel) &&
+    state.mode !== null &&
+    modeIncludesChannel(state.mode, channel);
+
 /**
  * Check if user can respond to position
  */
-export const selectCanRespondPosition = (state: SessionState): boolean =>
-  state.status === 'active' &&
-  !state.hasRespondedPosition &&
-  (state.mode === 'single-position' || state.mode === 'dual');
+export const selectCanRespondPosition = selectCanRespond('position');
 
 /**
  * Check if user can respond to audio
  */
-export const selectCanRespondAudio = (state: SessionState): boolean =>
-  state.status === 'active' &&
-  !state.hasRespondedAudio &&
-  (state.mode === 'single-audio' || state.mode === 'dual');
+export const selectCanRespondAudio = selectCanRespond('audio');
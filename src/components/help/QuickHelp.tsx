@@ -3,18 +3,19 @@
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { cn } from '@/lib/utils';
+import { getModeChannels, getStimulusChannel, type TrainingMode } from '@neuralift/core';
+import { CHANNEL_THEMES } from '@/components/training/channelTheme';
 
 interface QuickHelpProps {
   nBack: number;
-  mode: 'single-position' | 'single-audio' | 'dual';
+  mode: TrainingMode;
   className?: string;
 }
 
 export function QuickHelp({ nBack, mode, className }: QuickHelpProps) {
   const [isExpanded, setIsExpanded] = useState(false);
 
-  const showPosition = mode === 'single-position' || mode === 'dual';
-  const showAudio = mode === 'single-audio' || mode === 'dual';
+  const channels = getModeChannels(mode).map(getStimulusChannel);
 
   return (
     <div className={cn('relative', className)}>
@@ -80,35 +81,27 @@ export function QuickHelp({ nBack, mode, className }: QuickHelpProps) {
               </h4>
 
               <div className="space-y-3 text-sm">
-                {showPosition && (
-                  <div className="flex items-start gap-3">
-                    <div className="w-8 h-8 rounded-lg bg-accent-cyan/10 flex items-center justify-center flex-shrink-0">
-                      <span className="text-accent-cyan font-mono text-xs">A</span>
+                {channels.map((channel) => (
+                  <div key={channel.id} className="flex items-start gap-3">
+                    <div
+                      className={cn(
+                        'w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0',
+                        CHANNEL_THEMES[channel.id].badge
+                      )}
+                    >
+                      <span className={cn('font-mono text-xs', CHANNEL_THEMES[channel.id].text)}>
+                        {channel.key}
+                      </span>
                     </div>
                     <div>
-                      <p className="text-text-primary font-medium">Position Match</p>
+                      <p className="text-text-primary font-medium">{channel.name} Match</p>
                       <p className="text-text-secondary text-xs">
-                        Press when the square is in the same spot as {nBack} turn
+                        Press when {channel.comparison} as {nBack} turn
                         {nBack > 1 ? 's' : ''} ago
                       </p>
                     </div>
                   </div>
-                )}
-
-                {showAudio && (
-                  <div className="flex items-start gap-3">
-                    <div className="w-8 h-8 rounded-lg bg-accent-magenta/10 flex items-center justify-center flex-shrink-0">
-                      <span className="text-accent-magenta font-mono text-xs">L</span>
-                    </div>
-                    <div>
-                      <p className="text-text-primary font-medium">Audio Match</p>
-                      <p className="text-text-secondary text-xs">
-                        Press when the letter is the same as {nBack} turn
-                        {nBack > 1 ? 's' : ''} ago
-                      </p>
-                    </div>
-                  </div>
-                )}
+                ))}
 
                 <div className="pt-2 border-t border-border-subtle">
                   <p className="text-text-tertiary text-xs">
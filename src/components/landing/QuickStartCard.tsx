@@ -4,12 +4,17 @@ import Link from 'next/link';
 import { Card, CardContent } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { cn } from '@/lib/utils';
+import { getLevelById, type TrainingRecommendation } from '@neuralift/core';
 
 interface QuickStartCardProps {
+  /** Top-ranked recommendation; without one the card links to the level list */
+  recommendation?: TrainingRecommendation | undefined;
   className?: string;
 }
 
-export function QuickStartCard({ className }: QuickStartCardProps) {
+export function QuickStartCard({ recommendation, className }: QuickStartCardProps) {
+  const level = recommendation ? getLevelById(recommendation.recommendedLevel) : undefined;
+
   return (
     <Card
       variant="interactive"
@@ -44,14 +49,14 @@ export function QuickStartCard({ className }: QuickStartCardProps) {
         <div>
           <h3 className="font-semibold text-text-primary text-lg">Quick Start</h3>
           <p className="text-text-secondary text-sm mt-1">
-            Jump right into training
+            {recommendation && level ? recommendation.reason : 'Jump right into training'}
           </p>
         </div>
 
         {/* Button */}
-        <Link href="/levels" className="w-full">
+        <Link href={level ? `/train/${level.id}` : '/levels'} className="w-full">
           <Button variant="primary" fullWidth>
-            Start Training
+            {level ? `Start ${level.name}` : 'Start Training'}
           </Button>
         </Link>
       </CardContent>
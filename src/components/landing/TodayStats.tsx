@@ -2,12 +2,69 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { cn } from '@/lib/utils';
+import { getLevelById, type DailyGoalProgress, type ProgramStatus } from '@neuralift/core';
 
 interface TodayStatsProps {
   className?: string;
   sessionsToday?: number;
-  bestAccuracy?: number;
+  /** Best score today, formatted in the user's scoring convention */
+  bestScore?: string;
+  /** Consecutive days the daily goal was met */
   currentStreak?: number;
+  /** The daily goal, e.g. "3 blocks" */
+  goalLabel?: string | undefined;
+  /** Today's progress toward the daily goal */
+  goalProgress?: DailyGoalProgress | undefined;
+  /** Training program status, null or absent when not enrolled */
+  program?: ProgramStatus | null;
+}
+
+/**
+ * Today's prescription from the training program and adherence so far
+ */
+function ProgramPrescription({ status }: { status: ProgramStatus }) {
+  const { program, today, completedDays, totalDays, adherence } = status;
+
+  return (
+    <div className="mt-6 pt-4 border-t border-border-subtle text-sm">
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <span className="font-medium text-text-primary">{program.name}</span>
+        <span className="text-text-tertiary">
+          {completedDays}/{totalDays} days
+          {adherence !== null && ` · ${Math.round(adherence * 100)}% on schedule`}
+        </span>
+      </div>
+
+      {today ? (
+        <ul className="space-y-1">
+          {today.items.map((item) => (
+            <li key={item.mode} className="flex items-center justify-between gap-3">
+              <span className="text-text-secondary">
+                {getLevelById(item.levelId)?.name ?? item.levelId}
+              </span>
+              <span
+                className={cn(
+                  'font-mono',
+                  item.completedBlocks >= item.blocks ? 'text-success' : 'text-text-primary'
+                )}
+              >
+                {item.completedBlocks}/{item.blocks} blocks
+              </span>
+            </li>
+          ))}
+          {today.complete && (
+            <li className="text-success">Today&apos;s prescription is done.</li>
+          )}
+        </ul>
+      ) : (
+        <p className="text-text-secondary">
+          {status.state === 'completed'
+            ? 'Program complete. Pick a new one in settings.'
+            : 'This program has ended. Pick a new one in settings.'}
+        </p>
+      )}
+    </div>
+  );
 }
 
 interface StatItemProps {
@@ -45,8 +102,11 @@ function StatItem({ label, value, icon, accentColor }: StatItemProps) {
 export function TodayStats({
   className,
   sessionsToday = 0,
-  bestAccuracy = 0,
+  bestScore = '0%',
   currentStreak = 0,
+  goalLabel,
+  goalProgress,
+  program,
 }: TodayStatsProps) {
   return (
     <Card variant="default" padding="md" className={className}>
@@ -80,7 +140,7 @@ export function TodayStats({
           {/* Best Score */}
           <StatItem
             label="Best Score"
-            value={`${bestAccuracy}%`}
+            value={bestScore}
             accentColor="magenta"
             icon={
               <svg
@@ -126,6 +186,38 @@ export function TodayStats({
             }
           />
         </div>
+
+        {goalLabel && goalProgress && (
+          <div className="mt-6 text-sm">
+            <div className="flex items-center justify-between gap-3 mb-2">
+              <span className="text-text-secondary">Daily goal: {goalLabel}</span>
+              <span
+                className={cn(
+                  'font-mono',
+                  goalProgress.met ? 'text-success' : 'text-text-primary'
+                )}
+              >
+                {Math.floor(goalProgress.current)}/{goalProgress.target}
+              </span>
+            </div>
+            <div
+              className="h-2 rounded-full bg-surface-subtle overflow-hidden"
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={goalProgress.target}
+              aria-valuenow={Math.min(goalProgress.current, goalProgress.target)}
+            >
+              <div
+                className={cn('h-full', goalProgress.met ? 'bg-success' : 'bg-accent-gold')}
+                style={{
+                  width: `${Math.min(100, (goalProgress.current / goalProgress.target) * 100)}%`,
+                }}
+              />
+            </div>
+          </div>
+        )}
+
+        {program && <ProgramPrescription status={program} />}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,184 @@
+'use client';
+
+import { useState } from 'react';
+import { Button, Select, Slider } from '@/components/ui';
+import { cn } from '@/lib/utils';
+import {
+  CUSTOM_LEVEL_LIMITS,
+  TRAINING_MODES,
+  getTrainingModeName,
+  validateCustomLevelInput,
+  type CustomLevelInput,
+  type NBackLevel,
+  type TrainingMode,
+} from '@neuralift/core';
+
+interface CustomLevelFormProps {
+  /** Starting values (edit mode) */
+  initial?: CustomLevelInput;
+  /** Label for the submit button */
+  submitLabel: string;
+  /** Persist the level; a thrown error is shown under the form */
+  onSubmit: (input: CustomLevelInput) => Promise<void>;
+  className?: string;
+}
+
+const DEFAULT_INPUT: CustomLevelInput = {
+  name: '',
+  nBack: 2,
+  mode: 'dual',
+  trialCount: 20,
+  trialDuration: 3000,
+  matchProbability: 0.3,
+};
+
+const N_BACK_OPTIONS = Array.from({ length: 9 }, (_, i) => ({
+  value: i + 1,
+  label: `${i + 1}-back`,
+}));
+
+const MODE_OPTIONS = TRAINING_MODES.map((mode) => ({
+  value: mode,
+  label: getTrainingModeName(mode),
+}));
+
+/**
+ * FormRow Component
+ * Label and description above a single control
+ */
+function FormRow({
+  label,
+  htmlFor,
+  description,
+  children,
+}: {
+  label: string;
+  htmlFor?: string;
+  description?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="flex flex-col gap-3 py-4 border-b border-border-subtle last:border-0">
+      <label htmlFor={htmlFor} className="text-text-primary font-medium">
+        {label}
+      </label>
+      {description && <p className="text-sm text-text-secondary">{description}</p>}
+      <div className="mt-1">{children}</div>
+    </div>
+  );
+}
+
+export function CustomLevelForm({
+  initial = DEFAULT_INPUT,
+  submitLabel,
+  onSubmit,
+  className,
+}: CustomLevelFormProps) {
+  const [input, setInput] = useState<CustomLevelInput>(initial);
+  const [saving, setSaving] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const errors = validateCustomLevelInput(input);
+  const limits = CUSTOM_LEVEL_LIMITS;
+
+  const update = <K extends keyof CustomLevelInput>(key: K, value: CustomLevelInput[K]) => {
+    setInput((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (errors.length > 0) return;
+
+    setSaving(true);
+    setSubmitError(null);
+    try {
+      await onSubmit(input);
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Failed to save level');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className={cn('flex flex-col', className)}>
+      <FormRow label="Name" htmlFor="custom-level-name">
+        <input
+          id="custom-level-name"
+          type="text"
+          value={input.name}
+          maxLength={40}
+          placeholder="My level"
+          onChange={(e) => update('name', e.target.value)}
+          className={cn(
+            'w-full h-10 px-3 rounded-lg',
+            'bg-surface-subtle border border-border-default',
+            'text-text-primary text-sm placeholder:text-text-muted',
+            'focus:outline-none focus-visible:ring-2 focus-visible:ring-accent-cyan'
+          )}
+        />
+      </FormRow>
+
+      <FormRow label="N-Back" description="How many steps back to compare">
+        <Select
+          value={input.nBack}
+          options={N_BACK_OPTIONS}
+          onChange={(value) => update('nBack', value as NBackLevel)}
+        />
+      </FormRow>
+
+      <FormRow label="Mode" description="Which stimulus streams to track">
+        <Select
+          value={input.mode}
+          options={MODE_OPTIONS}
+          onChange={(value) => update('mode', value as TrainingMode)}
+        />
+      </FormRow>
+
+      <FormRow label="Trial Count" description="Number of trials per session">
+        <Slider
+          value={input.trialCount}
+          min={limits.minTrialCount}
+          max={limits.maxTrialCount}
+          step={5}
+          onChange={(value) => update('trialCount', value)}
+        />
+      </FormRow>
+
+      <FormRow label="Trial Duration" description="Time each stimulus is shown">
+        <Slider
+          value={input.trialDuration}
+          min={limits.minTrialDuration}
+          max={limits.maxTrialDuration}
+          step={250}
+          onChange={(value) => update('trialDuration', value)}
+          formatValue={(ms) => `${(ms / 1000).toFixed(2)}s`}
+        />
+      </FormRow>
+
+      <FormRow label="Match Rate" description="Chance that each stream matches on a trial">
+        <Slider
+          value={Math.round(input.matchProbability * 100)}
+          min={limits.minMatchProbability * 100}
+          max={limits.maxMatchProbability * 100}
+          step={5}
+          onChange={(value) => update('matchProbability', value / 100)}
+          formatValue={(percent) => `${percent}%`}
+        />
+      </FormRow>
+
+      {(errors.length > 0 || submitError) && (
+        <ul className="mt-4 space-y-1 text-sm text-error" role="alert">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+          {submitError && <li>{submitError}</li>}
+        </ul>
+      )}
+
+      <Button type="submit" fullWidth className="mt-6" disabled={saving || errors.length > 0}>
+        {saving ? 'Saving...' : submitLabel}
+      </Button>
+    </form>
+  );
+}
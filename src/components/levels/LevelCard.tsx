@@ -3,7 +3,16 @@
 import Link from 'next/link';
 import { Card, CardContent } from '@/components/ui/Card';
 import { cn } from '@/lib/utils';
-import type { LevelConfig } from '@neuralift/core';
+import {
+  formatScore,
+  getLevelById,
+  getScoringConvention,
+  getStimulusChannel,
+  type ScoringConventionId,
+  type LevelConfig,
+  type UnlockConditionProgress,
+  type UnlockProgress,
+} from '@neuralift/core';
 
 interface LevelCardProps {
   level: LevelConfig;
@@ -11,15 +20,94 @@ interface LevelCardProps {
   complete?: boolean;
   recommended?: boolean;
   bestAccuracy?: number;
+  /** Progress toward the unlock conditions, shown while locked */
+  unlockProgress?: UnlockProgress | undefined;
   className?: string;
 }
 
+/**
+ * Label and progress text for one unlock condition
+ */
+function describeCondition(
+  condition: UnlockConditionProgress,
+  window: number,
+  convention: ScoringConventionId
+): { label: string; value: string } {
+  // Score conditions are measured in the user's scoring convention
+  const scoreLabel = getScoringConvention(convention).unit === 'dPrime' ? 'd′' : 'Score';
+  const scoreValue = `${formatScore(condition.current, convention)} / ${formatScore(condition.target, convention)}`;
+
+  switch (condition.kind) {
+    case 'accuracy':
+      return { label: scoreLabel, value: scoreValue };
+    case 'dPrime':
+      return {
+        label: 'd′',
+        value: `${condition.current.toFixed(2)} / ${condition.target.toFixed(1)}`,
+      };
+    case 'modalityAccuracy':
+      return {
+        label: `${condition.channel ? getStimulusChannel(condition.channel).name : 'Modality'} ${scoreLabel.toLowerCase()}`,
+        value: scoreValue,
+      };
+    case 'sessions':
+      return {
+        label: window > 1 ? `Qualifying sessions (last ${window})` : 'Qualifying session',
+        value: `${condition.current} / ${condition.target}`,
+      };
+  }
+}
+
+/**
+ * UnlockBreakdown Component
+ * Lists each unlock condition per required level with its progress
+ */
+function UnlockBreakdown({ level, progress }: { level: LevelConfig; progress: UnlockProgress }) {
+  const window = level.unlockCriteria?.qualifyingSessions?.window ?? 1;
+  const requiredLevelIds = [...new Set(progress.conditions.map((condition) => condition.levelId))];
+
+  return (
+    <div className="mt-3 space-y-2 text-xs">
+      {requiredLevelIds.map((levelId) => (
+        <div key={levelId}>
+          <p className="text-text-secondary font-medium mb-1">
+            {getLevelById(levelId)?.name ?? levelId}
+          </p>
+          <ul className="space-y-0.5">
+            {progress.conditions
+              .filter((condition) => condition.levelId === levelId)
+              .map((condition) => {
+                const { label, value } = describeCondition(
+                  condition,
+                  window,
+                  progress.scoringConvention
+                );
+                return (
+                  <li
+                    key={`${condition.kind}-${condition.channel ?? ''}`}
+                    className="flex items-center justify-between gap-2"
+                  >
+                    <span className="text-text-tertiary">{label}</span>
+                    <span className={condition.met ? 'text-success' : 'text-text-muted'}>
+                      {value}
+                    </span>
+                  </li>
+                );
+              })}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export function LevelCard({
   level,
   locked = false,
   complete = false,
   recommended = false,
   bestAccuracy,
+  unlockProgress,
   className,
 }: LevelCardProps) {
   const getModeColor = (mode: string) => {
@@ -84,6 +172,9 @@ export function LevelCard({
         {/* Description */}
         <p className="text-text-tertiary text-sm flex-1">{level.description}</p>
 
+        {/* Unlock Progress */}
+        {locked && unlockProgress && <UnlockBreakdown level={level} progress={unlockProgress} />}
+
         {/* Status Indicators */}
         <div className="flex items-center justify-between mt-3 pt-3 border-t border-border-subtle">
           {complete ? (
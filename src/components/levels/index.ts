@@ -1,2 +1,3 @@
 export { PhaseSection } from './PhaseSection';
 export { LevelCard } from './LevelCard';
+export { CustomLevelForm } from './CustomLevelForm';
@@ -2,26 +2,38 @@
 
 import { useMemo } from 'react';
 import { cn } from '@/lib/utils';
+import type { ScoreUnit } from '@neuralift/core';
 import type { DBSession } from '@/infrastructure/database';
 
 interface AccuracyChartProps {
   sessions: DBSession[];
+  /** Score a session in the user's scoring convention, null when it has none */
+  scoreSession: (session: DBSession) => number | null;
+  /** Unit of the scores (sets the y-axis range) */
+  unit: ScoreUnit;
   className?: string;
 }
 
-export function AccuracyChart({ sessions, className }: AccuracyChartProps) {
+/** D-prime is plotted against this ceiling */
+const MAX_DPRIME = 4;
+
+export function AccuracyChart({ sessions, scoreSession, unit, className }: AccuracyChartProps) {
   const chartData = useMemo(() => {
-    // Take last 10 sessions, sorted by timestamp ascending (oldest first)
+    // Take last 10 scored sessions, sorted by timestamp ascending (oldest first)
     const recentSessions = [...sessions]
       .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+      .flatMap((session) => {
+        const score = scoreSession(session);
+        return score === null ? [] : [{ score, date: new Date(session.timestamp) }];
+      })
       .slice(-10);
 
-    return recentSessions.map((session, index) => ({
+    return recentSessions.map(({ score, date }, index) => ({
       index,
-      accuracy: session.combinedAccuracy,
-      date: new Date(session.timestamp),
+      accuracy: score,
+      date,
     }));
-  }, [sessions]);
+  }, [sessions, scoreSession]);
 
   if (chartData.length === 0) {
     return (
@@ -36,7 +48,7 @@ export function AccuracyChart({ sessions, className }: AccuracyChartProps) {
     );
   }
 
-  const maxAccuracy = 100;
+  const maxAccuracy = unit === 'percent' ? 100 : MAX_DPRIME;
   const minAccuracy = 0;
   const chartHeight = 160;
   const chartWidth = 100; // percentage
@@ -44,9 +56,10 @@ export function AccuracyChart({ sessions, className }: AccuracyChartProps) {
   // Calculate positions
   const points = chartData.map((d, i) => {
     const x = (i / Math.max(chartData.length - 1, 1)) * chartWidth;
+    const clamped = Math.max(minAccuracy, Math.min(maxAccuracy, d.accuracy));
     const y =
       chartHeight -
-      ((d.accuracy - minAccuracy) / (maxAccuracy - minAccuracy)) * chartHeight;
+      ((clamped - minAccuracy) / (maxAccuracy - minAccuracy)) * chartHeight;
     return { x, y, accuracy: d.accuracy, date: d.date };
   });
 
@@ -71,9 +84,19 @@ export function AccuracyChart({ sessions, className }: AccuracyChartProps) {
     <div className={cn('relative', className)}>
       {/* Y-axis labels */}
       <div className="absolute left-0 top-0 h-40 flex flex-col justify-between text-xs text-text-tertiary pr-2">
-        <span>100%</span>
-        <span>50%</span>
-        <span>0%</span>
+        {unit === 'percent' ? (
+          <>
+            <span>100%</span>
+            <span>50%</span>
+            <span>0%</span>
+          </>
+        ) : (
+          <>
+            <span>{MAX_DPRIME}</span>
+            <span>{MAX_DPRIME / 2}</span>
+            <span>0</span>
+          </>
+        )}
       </div>
 
       {/* Chart area */}
@@ -0,0 +1,59 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import { RECORD_TYPES, getLevelById, type PersonalRecord } from '@neuralift/core';
+import { RECORD_LABELS, formatRecordValue } from '@/components/results/PersonalBestBanner';
+
+interface PersonalRecordsListProps {
+  records: PersonalRecord[];
+  className?: string;
+}
+
+/**
+ * Personal records grouped by level, levels in ID order
+ */
+export function PersonalRecordsList({ records, className }: PersonalRecordsListProps) {
+  if (records.length === 0) {
+    return (
+      <div className={cn('py-8 text-center text-text-tertiary', className)}>
+        Complete a session to set your first records.
+      </div>
+    );
+  }
+
+  const levelIds = [...new Set(records.map((record) => record.levelId))].sort();
+
+  return (
+    <div className={cn('grid sm:grid-cols-2 gap-4', className)}>
+      {levelIds.map((levelId) => {
+        const levelRecords = new Map(
+          records.filter((record) => record.levelId === levelId).map((r) => [r.type, r])
+        );
+        return (
+          <div key={levelId} className="rounded-xl bg-surface-subtle p-4">
+            <p className="font-medium text-text-primary mb-2">
+              {getLevelById(levelId)?.name ?? levelId}
+            </p>
+            <ul className="space-y-1 text-sm">
+              {RECORD_TYPES.map((type) => {
+                const record = levelRecords.get(type);
+                if (!record) return null;
+                return (
+                  <li key={type} className="flex items-center justify-between gap-3">
+                    <span className="text-text-secondary">{RECORD_LABELS[type]}</span>
+                    <span
+                      className="font-mono text-text-primary"
+                      title={record.achievedAt.toLocaleDateString()}
+                    >
+                      {formatRecordValue(type, record.value)}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
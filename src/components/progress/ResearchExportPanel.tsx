@@ -0,0 +1,148 @@
+'use client';
+
+import { useState } from 'react';
+import { Button, Select } from '@/components/ui';
+import { cn } from '@/lib/utils';
+
+type ExportTable = 'trials' | 'sessions';
+type ExportFormat = 'csv' | 'json';
+
+interface ResearchExportPanelProps {
+  /** Levels offered in the level filter */
+  levels: readonly { id: string; name: string }[];
+  exporting: boolean;
+  error: Error | null;
+  /** Rows in the last exported table, null before the first export */
+  lastRowCount: number | null;
+  onExport: (
+    table: ExportTable,
+    format: ExportFormat,
+    filter: { from?: Date | undefined; to?: Date | undefined; levelIds?: string[] | undefined }
+  ) => void;
+  className?: string;
+}
+
+const EXPORTS: { table: ExportTable; format: ExportFormat; label: string }[] = [
+  { table: 'trials', format: 'csv', label: 'Trials CSV' },
+  { table: 'trials', format: 'json', label: 'Trials JSON' },
+  { table: 'sessions', format: 'csv', label: 'Sessions CSV' },
+  { table: 'sessions', format: 'json', label: 'Sessions JSON' },
+];
+
+const inputClassName = cn(
+  'w-full h-10 px-3 rounded-lg',
+  'bg-surface-subtle border border-border-default',
+  'text-text-primary text-sm',
+  'focus:outline-none focus-visible:ring-2 focus-visible:ring-accent-cyan'
+);
+
+/**
+ * Local midnight of a yyyy-mm-dd date input value, or its last millisecond
+ */
+function parseDateInput(value: string, endOfDay: boolean): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(`${value}T00:00:00`);
+  if (endOfDay) date.setHours(23, 59, 59, 999);
+  return date;
+}
+
+/**
+ * ResearchExportPanel Component
+ * Filters by date range and level, and downloads the per-trial
+ * or per-session table as CSV or JSON
+ */
+export function ResearchExportPanel({
+  levels,
+  exporting,
+  error,
+  lastRowCount,
+  onExport,
+  className,
+}: ResearchExportPanelProps) {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [levelId, setLevelId] = useState('all');
+
+  const levelOptions = [
+    { value: 'all', label: 'All levels' },
+    ...levels.map((level) => ({ value: level.id, label: level.name })),
+  ];
+
+  const handleExport = (table: ExportTable, format: ExportFormat) => {
+    onExport(table, format, {
+      from: parseDateInput(from, false),
+      to: parseDateInput(to, true),
+      levelIds: levelId === 'all' ? undefined : [levelId],
+    });
+  };
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <p className="text-sm text-text-secondary">
+        The trial table has one row per trial and channel: stimulus, target, response, response
+        time, lure and outcome. The session table has one row per session with per-channel hits,
+        misses, accuracy, d′ and mean response time.
+      </p>
+
+      <div className="grid sm:grid-cols-3 gap-3">
+        <label className="flex flex-col gap-1 text-sm text-text-secondary">
+          From
+          <input
+            type="date"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => setFrom(e.target.value)}
+            className={inputClassName}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-text-secondary">
+          To
+          <input
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setTo(e.target.value)}
+            className={inputClassName}
+          />
+        </label>
+        <div className="flex flex-col gap-1 text-sm text-text-secondary">
+          Level
+          <Select
+            options={levelOptions}
+            value={levelId}
+            onChange={(value) => setLevelId(String(value))}
+            aria-label="Level"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {EXPORTS.map(({ table, format, label }) => (
+          <Button
+            key={label}
+            variant="secondary"
+            size="sm"
+            onClick={() => handleExport(table, format)}
+            disabled={exporting}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      {error ? (
+        <p className="text-sm text-error" role="alert">
+          {error.message}
+        </p>
+      ) : (
+        lastRowCount !== null && (
+          <p className="text-sm text-text-muted">
+            {lastRowCount === 0
+              ? 'No sessions match these filters.'
+              : `Exported ${lastRowCount} rows.`}
+          </p>
+        )
+      )}
+    </div>
+  );
+}
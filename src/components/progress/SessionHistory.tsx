@@ -2,10 +2,20 @@
 
 import Link from 'next/link';
 import { cn } from '@/lib/utils';
+import {
+  CUSTOM_LEVEL_ID_PREFIX,
+  formatScore,
+  getLevelById,
+  type ScoringConvention,
+} from '@neuralift/core';
 import type { DBSession } from '@/infrastructure/database';
 
 interface SessionHistoryProps {
   sessions: DBSession[];
+  /** Convention the scores are shown in */
+  convention: ScoringConvention;
+  /** Score a session in that convention, null for imports reported in another */
+  scoreSession: (session: DBSession) => number | null;
   className?: string;
 }
 
@@ -54,25 +64,30 @@ function formatDuration(ms: number): string {
 }
 
 function getLevelDisplayName(levelId: string): string {
-  // Parse level ID like "position-2back" or "dual-3back"
-  const parts = levelId.split('-');
-  const modePart = parts[0];
-  const nBackPart = parts[1];
-  if (parts.length >= 2 && modePart && nBackPart) {
-    const mode = modePart.charAt(0).toUpperCase() + modePart.slice(1);
-    const nBack = nBackPart.replace('back', '-Back');
-    return `${mode} ${nBack}`;
-  }
-  return levelId;
+  if (levelId.startsWith(CUSTOM_LEVEL_ID_PREFIX)) return 'Custom Level';
+  return getLevelById(levelId)?.name ?? levelId;
 }
 
-function getAccuracyColor(accuracy: number): string {
-  if (accuracy >= 80) return 'text-success';
-  if (accuracy >= 60) return 'text-accent-gold';
+/**
+ * Names of the apps sessions can be imported from
+ */
+const SOURCE_LABELS: Record<string, string> = {
+  'brain-workshop': 'Brain Workshop',
+  csv: 'Imported',
+};
+
+function getScoreColor(score: number, convention: ScoringConvention): string {
+  if (score >= convention.threshold(80)) return 'text-success';
+  if (score >= convention.threshold(60)) return 'text-accent-gold';
   return 'text-error';
 }
 
-export function SessionHistory({ sessions, className }: SessionHistoryProps) {
+export function SessionHistory({
+  sessions,
+  convention,
+  scoreSession,
+  className,
+}: SessionHistoryProps) {
   if (sessions.length === 0) {
     return (
       <div
@@ -92,56 +107,63 @@ export function SessionHistory({ sessions, className }: SessionHistoryProps) {
 
   return (
     <div className={cn('space-y-2', className)}>
-      {sessions.map((session) => (
-        <Link
-          key={session.sessionId}
-          href={`/results/${session.sessionId}`}
-          className={cn(
-            'flex items-center justify-between p-4 rounded-xl',
-            'bg-surface-subtle hover:bg-surface-hover',
-            'border border-transparent hover:border-border-hover',
-            'transition-all duration-200',
-            'group'
-          )}
-        >
-          <div className="flex flex-col gap-1">
-            <span className="text-text-primary font-medium group-hover:text-accent-cyan transition-colors">
-              {getLevelDisplayName(session.levelId)}
-            </span>
-            <span className="text-sm text-text-tertiary">
-              {formatDate(session.timestamp)} &middot; {formatDuration(session.duration)}
-            </span>
-          </div>
-
-          <div className="flex items-center gap-4">
-            <div className="text-right">
-              <span
-                className={cn(
-                  'text-lg font-semibold',
-                  getAccuracyColor(session.combinedAccuracy)
+      {sessions.map((session) => {
+        const score = scoreSession(session);
+        return (
+          <Link
+            key={session.sessionId}
+            href={`/results/${session.sessionId}`}
+            className={cn(
+              'flex items-center justify-between p-4 rounded-xl',
+              'bg-surface-subtle hover:bg-surface-hover',
+              'border border-transparent hover:border-border-hover',
+              'transition-all duration-200',
+              'group'
+            )}
+          >
+            <div className="flex flex-col gap-1">
+              <span className="text-text-primary font-medium group-hover:text-accent-cyan transition-colors">
+                {getLevelDisplayName(session.levelId)}
+              </span>
+              <span className="text-sm text-text-tertiary">
+                {formatDate(session.timestamp)} &middot; {formatDuration(session.duration)}
+                {session.source && SOURCE_LABELS[session.source] && (
+                  <> &middot; {SOURCE_LABELS[session.source]}</>
                 )}
-              >
-                {Math.round(session.combinedAccuracy)}%
               </span>
-              <span className="text-sm text-text-tertiary ml-1">accuracy</span>
             </div>
 
-            <svg
-              className="w-4 h-4 text-text-tertiary group-hover:text-accent-cyan transition-colors"
-              fill="none"
-              viewBox="0 0 24 24"
-              stroke="currentColor"
-              strokeWidth={2}
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                d="M9 5l7 7-7 7"
-              />
-            </svg>
-          </div>
-        </Link>
-      ))}
+            <div className="flex items-center gap-4">
+              <div className="text-right">
+                {score === null ? (
+                  <span className="text-lg font-semibold text-text-tertiary">—</span>
+                ) : (
+                  <span className={cn('text-lg font-semibold', getScoreColor(score, convention))}>
+                    {formatScore(score, convention.id)}
+                  </span>
+                )}
+                <span className="text-sm text-text-tertiary ml-1">
+                  {convention.unit === 'dPrime' ? 'd′' : 'score'}
+                </span>
+              </div>
+
+              <svg
+                className="w-4 h-4 text-text-tertiary group-hover:text-accent-cyan transition-colors"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+                strokeWidth={2}
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  d="M9 5l7 7-7 7"
+                />
+              </svg>
+            </div>
+          </Link>
+        );
+      })}
     </div>
   );
 }
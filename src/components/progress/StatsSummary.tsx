@@ -5,7 +5,8 @@ import { cn } from '@/lib/utils';
 interface StatsSummaryProps {
   totalSessions: number;
   totalTime: number;
-  averageAccuracy?: number | undefined;
+  /** Average session score, already formatted in the user's scoring convention */
+  averageScore?: string | undefined;
   className?: string;
 }
 
@@ -23,7 +24,7 @@ function formatTime(ms: number): string {
 export function StatsSummary({
   totalSessions,
   totalTime,
-  averageAccuracy,
+  averageScore,
   className,
 }: StatsSummaryProps) {
   return (
@@ -42,12 +43,10 @@ export function StatsSummary({
         <div className="text-sm text-text-secondary">Total Time</div>
       </div>
 
-      {/* Average Accuracy */}
+      {/* Average Score */}
       <div className="text-center">
-        <div className="text-3xl font-bold text-accent-cyan">
-          {averageAccuracy !== undefined ? `${Math.round(averageAccuracy)}%` : '-'}
-        </div>
-        <div className="text-sm text-text-secondary">Avg Accuracy</div>
+        <div className="text-3xl font-bold text-accent-cyan">{averageScore ?? '-'}</div>
+        <div className="text-sm text-text-secondary">Avg Score</div>
       </div>
     </div>
   );
@@ -1,47 +1,88 @@
 'use client';
 
 import { cn } from '@/lib/utils';
+import type { TrainingDay } from '@neuralift/core';
 
 interface StreakDisplayProps {
+  /** Consecutive days the daily goal was met */
   current: number;
   longest: number;
+  /** The goal a day must meet, e.g. "3 blocks" */
+  goalLabel?: string | undefined;
+  /** Recent days, oldest first, shown as a strip of met/missed days */
+  days?: TrainingDay[] | undefined;
   className?: string;
 }
 
-export function StreakDisplay({ current, longest, className }: StreakDisplayProps) {
+export function StreakDisplay({ current, longest, goalLabel, days, className }: StreakDisplayProps) {
   const isActive = current > 0;
 
   return (
-    <div className={cn('flex items-center gap-8', className)}>
-      {/* Current Streak */}
-      <div className="flex flex-col items-center">
-        <div
-          className={cn(
-            'text-5xl font-bold mb-2',
-            isActive ? 'text-accent-gold' : 'text-text-tertiary'
-          )}
-        >
-          {current}
+    <div className={cn('flex flex-col gap-4', className)}>
+      <div className="flex items-center gap-8">
+        {/* Current Streak */}
+        <div className="flex flex-col items-center">
+          <div
+            className={cn(
+              'text-5xl font-bold mb-2',
+              isActive ? 'text-accent-gold' : 'text-text-tertiary'
+            )}
+          >
+            {current}
+          </div>
+          <div className="flex items-center gap-2">
+            <span className={cn('text-2xl', isActive && 'animate-pulse')}>
+              {isActive ? String.fromCodePoint(0x1f525) : String.fromCodePoint(0x1f9ca)}
+            </span>
+            <span className="text-sm text-text-secondary">Current</span>
+          </div>
         </div>
-        <div className="flex items-center gap-2">
-          <span className={cn('text-2xl', isActive && 'animate-pulse')}>
-            {isActive ? String.fromCodePoint(0x1f525) : String.fromCodePoint(0x1f9ca)}
-          </span>
-          <span className="text-sm text-text-secondary">Current</span>
-        </div>
-      </div>
 
-      {/* Divider */}
-      <div className="h-16 w-px bg-border-subtle" />
+        {/* Divider */}
+        <div className="h-16 w-px bg-border-subtle" />
 
-      {/* Longest Streak */}
-      <div className="flex flex-col items-center">
-        <div className="text-5xl font-bold text-text-primary mb-2">{longest}</div>
-        <div className="flex items-center gap-2">
-          <span className="text-2xl">{String.fromCodePoint(0x1f3c6)}</span>
-          <span className="text-sm text-text-secondary">Best</span>
+        {/* Longest Streak */}
+        <div className="flex flex-col items-center">
+          <div className="text-5xl font-bold text-text-primary mb-2">{longest}</div>
+          <div className="flex items-center gap-2">
+            <span className="text-2xl">{String.fromCodePoint(0x1f3c6)}</span>
+            <span className="text-sm text-text-secondary">Best</span>
+          </div>
         </div>
       </div>
+
+      {goalLabel && (
+        <p className="text-sm text-text-secondary">
+          Days in a row meeting your goal of {goalLabel}
+        </p>
+      )}
+
+      {days && days.length > 0 && (
+        <ul className="flex gap-2" aria-label="Daily goal, recent days">
+          {days.map((day) => (
+            <li
+              key={day.dateKey}
+              className="flex flex-col items-center gap-1"
+              title={`${day.date.toLocaleDateString()}: ${day.blocks} block${day.blocks === 1 ? '' : 's'}, ${Math.round(day.minutes)} min`}
+            >
+              <span
+                className={cn(
+                  'w-6 h-6 rounded-full border',
+                  day.goalProgress.met
+                    ? 'bg-accent-gold border-accent-gold'
+                    : day.blocks > 0
+                      ? 'bg-accent-gold/20 border-accent-gold/40'
+                      : 'border-border-subtle'
+                )}
+                aria-label={day.goalProgress.met ? 'Goal met' : 'Goal not met'}
+              />
+              <span className="text-xs text-text-tertiary">
+                {day.date.toLocaleDateString(undefined, { weekday: 'narrow' })}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 }
@@ -0,0 +1,86 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import {
+  MIN_TREND_SAMPLES,
+  TREND_CONFIDENCE,
+  type PlateauEstimate,
+  type TrendDirection,
+  type TrendEstimate,
+} from '@neuralift/core';
+
+interface TrendSummaryProps {
+  /** Combined accuracy trend */
+  overall: TrendEstimate;
+  position: TrendEstimate;
+  audio: TrendEstimate;
+  plateau: PlateauEstimate;
+  className?: string;
+}
+
+const DIRECTION_COLORS: Record<TrendDirection, string> = {
+  improving: 'text-success',
+  stable: 'text-text-secondary',
+  declining: 'text-error',
+};
+
+function formatSlope(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+}
+
+function TrendRow({ label, estimate }: { label: string; estimate: TrendEstimate }) {
+  return (
+    <li className="flex items-center justify-between gap-3">
+      <span className="text-text-secondary">{label}</span>
+      {estimate.sufficientData ? (
+        <span
+          className="font-mono text-right"
+          title={`${TREND_CONFIDENCE * 100}% confidence interval over ${estimate.sampleSize} sessions`}
+        >
+          <span className={DIRECTION_COLORS[estimate.direction]}>
+            {formatSlope(estimate.slope)}%/{estimate.axis}
+          </span>
+          <span className="text-text-tertiary">
+            {' '}
+            [{formatSlope(estimate.lower)}, {formatSlope(estimate.upper)}] n={estimate.sampleSize}
+          </span>
+        </span>
+      ) : (
+        <span className="text-text-tertiary">
+          {estimate.sampleSize} of {MIN_TREND_SAMPLES} sessions
+        </span>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Accuracy slopes with their confidence intervals, and plateau status
+ */
+export function TrendSummary({ overall, position, audio, plateau, className }: TrendSummaryProps) {
+  return (
+    <div className={cn('space-y-4', className)}>
+      <p className="text-sm text-text-secondary">
+        {!overall.sufficientData
+          ? `Complete at least ${MIN_TREND_SAMPLES} sessions to estimate a trend.`
+          : overall.direction === 'stable'
+            ? 'No clear trend yet: the interval includes zero.'
+            : `Accuracy is ${overall.direction} by about ${Math.abs(overall.slope).toFixed(1)} points per session.`}
+      </p>
+
+      <ul className="space-y-1 text-sm">
+        <TrendRow label="Combined" estimate={overall} />
+        <TrendRow label="Position" estimate={position} />
+        <TrendRow label="Audio" estimate={audio} />
+      </ul>
+
+      {plateau.detected && plateau.level !== null && (
+        <p className="rounded-xl bg-surface-subtle p-3 text-sm text-text-secondary">
+          Plateau: your last {plateau.length} sessions have held steady around{' '}
+          <span className="font-mono text-text-primary">{Math.round(plateau.level)}%</span>
+          {plateau.changePointIndex !== null && ' since your progress last changed pace'}.
+        </p>
+      )}
+    </div>
+  );
+}
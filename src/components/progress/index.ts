@@ -2,3 +2,6 @@ export { StreakDisplay } from './StreakDisplay';
 export { StatsSummary } from './StatsSummary';
 export { AccuracyChart } from './AccuracyChart';
 export { SessionHistory } from './SessionHistory';
+export { PersonalRecordsList } from './PersonalRecordsList';
+export { TrendSummary } from './TrendSummary';
+export { ResearchExportPanel } from './ResearchExportPanel';
@@ -0,0 +1,80 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import {
+  getStimulusChannel,
+  type FalseAlarmCounts,
+  type LureStats,
+  type SessionLureStats,
+  type StimulusChannel,
+} from '@neuralift/core';
+import { CHANNEL_THEMES } from '@/components/training/channelTheme';
+
+interface LureStatsTableProps {
+  /** Lure stats per channel, in display order */
+  channels: readonly StimulusChannel[];
+  lureStats: SessionLureStats;
+  className?: string;
+}
+
+const formatRate = ({ trials, falseAlarms, falseAlarmRate }: FalseAlarmCounts) =>
+  trials > 0 ? `${Math.round(falseAlarmRate * 100)}% (${falseAlarms}/${trials})` : '—';
+
+/**
+ * False alarm rates on lure trials next to the rate on other non-matches.
+ * A higher lure rate means matches are being judged by familiarity rather
+ * than by position in the sequence.
+ */
+export function LureStatsTable({ channels, lureStats, className }: LureStatsTableProps) {
+  const columns = channels.flatMap((channel) => {
+    const stats = lureStats[channel];
+    return stats ? [{ channel, stats }] : [];
+  });
+
+  const rows: { label: string; value: (stats: LureStats) => string; isSpecial?: boolean }[] = [
+    { label: 'Lures', value: (stats) => formatRate(stats.lures), isSpecial: true },
+    { label: 'N-1 Lures', value: (stats) => formatRate(stats.byType['n-1']) },
+    { label: 'N+1 Lures', value: (stats) => formatRate(stats.byType['n+1']) },
+    { label: 'Other Non-Matches', value: (stats) => formatRate(stats.nonLures), isSpecial: true },
+  ];
+
+  return (
+    <div className={cn('overflow-x-auto', className)}>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-border-subtle">
+            <th className="py-2 text-left text-text-tertiary font-medium">
+              False Alarms
+            </th>
+            {columns.map(({ channel }) => (
+              <th
+                key={channel}
+                className={cn('py-2 text-right font-medium', CHANNEL_THEMES[channel].text)}
+              >
+                {getStimulusChannel(channel).name}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr
+              key={row.label}
+              className={cn(
+                'border-b border-border-subtle last:border-0',
+                row.isSpecial && 'bg-surface-subtle'
+              )}
+            >
+              <td className="py-2 text-text-secondary">{row.label}</td>
+              {columns.map(({ channel, stats }) => (
+                <td key={channel} className="py-2 text-right text-text-primary font-mono">
+                  {row.value(stats)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
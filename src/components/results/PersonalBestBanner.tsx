@@ -0,0 +1,73 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { cn } from '@/lib/utils';
+import type { PersonalRecord, RecordType } from '@neuralift/core';
+
+interface PersonalBestBannerProps {
+  /** Records set by this session */
+  records: PersonalRecord[];
+  className?: string;
+}
+
+export const RECORD_LABELS: Record<RecordType, string> = {
+  accuracy: 'Highest accuracy',
+  dPrime: 'Highest d′',
+  medianResponseTime: 'Fastest median response',
+  longestCorrectRun: 'Longest correct run',
+  firstCleanSession: 'First clean session',
+};
+
+/**
+ * Formats a record value in its unit
+ */
+export function formatRecordValue(type: RecordType, value: number): string {
+  switch (type) {
+    case 'accuracy':
+      return `${Math.round(value)}%`;
+    case 'dPrime':
+      return value.toFixed(2);
+    case 'medianResponseTime':
+      return `${Math.round(value)} ms`;
+    case 'longestCorrectRun':
+    case 'firstCleanSession':
+      return `${value} trials`;
+  }
+}
+
+export function PersonalBestBanner({ records, className }: PersonalBestBannerProps) {
+  if (records.length === 0) return null;
+
+  return (
+    <motion.div
+      className={cn(
+        'rounded-2xl border border-accent-gold/40 bg-accent-gold/10 p-5 text-center',
+        className
+      )}
+      initial={{ opacity: 0, scale: 0.9 }}
+      animate={{ opacity: 1, scale: 1 }}
+      transition={{ type: 'spring', stiffness: 200, damping: 15 }}
+      role="status"
+    >
+      <p className="text-lg font-bold text-accent-gold mb-3">
+        {String.fromCodePoint(0x1f3c6)} New personal best{records.length > 1 ? 's' : ''}!
+      </p>
+      <ul className="space-y-1 text-sm">
+        {records.map((record) => (
+          <li key={record.type} className="flex items-center justify-between gap-3">
+            <span className="text-text-secondary">{RECORD_LABELS[record.type]}</span>
+            <span className="font-mono text-text-primary">
+              {formatRecordValue(record.type, record.value)}
+              {record.previousValue !== null && (
+                <span className="text-text-tertiary">
+                  {' '}
+                  (was {formatRecordValue(record.type, record.previousValue)})
+                </span>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </motion.div>
+  );
+}
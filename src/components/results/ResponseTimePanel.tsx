@@ -0,0 +1,104 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import { getStimulusChannel, type ResponseTimeStats, type StimulusChannel } from '@neuralift/core';
+import { CHANNEL_THEMES } from '@/components/training/channelTheme';
+
+interface ResponseTimePanelProps {
+  /** Distribution per modality (null when the modality had no responses) */
+  channels: { channel: StimulusChannel; stats: ResponseTimeStats | null }[];
+  className?: string;
+}
+
+const formatMs = (ms: number) => `${Math.round(ms)} ms`;
+
+/**
+ * Histogram Component
+ * Vertical bars, one per response time bin
+ */
+function Histogram({ stats, channel }: { stats: ResponseTimeStats; channel: StimulusChannel }) {
+  const maxCount = Math.max(...stats.histogram.map((bin) => bin.count));
+  const first = stats.histogram[0];
+  const last = stats.histogram[stats.histogram.length - 1];
+
+  return (
+    <div>
+      <div
+        className="flex items-end gap-px h-16"
+        role="img"
+        aria-label={`${getStimulusChannel(channel).name} response time histogram`}
+      >
+        {stats.histogram.map((bin) => (
+          <div
+            key={bin.start}
+            title={`${bin.start}–${bin.end} ms: ${bin.count}`}
+            className={cn('flex-1 rounded-t-sm bg-current opacity-70', CHANNEL_THEMES[channel].text)}
+            style={{ height: `${maxCount > 0 ? (bin.count / maxCount) * 100 : 0}%` }}
+          />
+        ))}
+      </div>
+      {first && last && (
+        <div className="flex justify-between text-xs text-text-muted mt-1">
+          <span>{first.start} ms</span>
+          <span>{last.end} ms</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function ResponseTimePanel({ channels, className }: ResponseTimePanelProps) {
+  const rows: { label: string; value: (stats: ResponseTimeStats) => string }[] = [
+    { label: 'Median', value: (stats) => formatMs(stats.median) },
+    { label: 'Std. Deviation', value: (stats) => formatMs(stats.standardDeviation) },
+    { label: 'Variability (CV)', value: (stats) => stats.coefficientOfVariation.toFixed(2) },
+    { label: 'Slow Tail (τ)', value: (stats) => formatMs(stats.tau) },
+  ];
+
+  return (
+    <div className={cn('flex flex-col gap-6', className)}>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-border-subtle">
+              <th className="py-2 text-left text-text-tertiary font-medium">Metric</th>
+              {channels.map(({ channel }) => (
+                <th
+                  key={channel}
+                  className={cn('py-2 text-right font-medium', CHANNEL_THEMES[channel].text)}
+                >
+                  {getStimulusChannel(channel).name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.label} className="border-b border-border-subtle last:border-0">
+                <td className="py-2 text-text-secondary">{row.label}</td>
+                {channels.map(({ channel, stats }) => (
+                  <td key={channel} className="py-2 text-right text-text-primary font-mono">
+                    {stats ? row.value(stats) : '—'}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {channels.map(({ channel, stats }) =>
+          stats ? (
+            <div key={channel}>
+              <p className={cn('text-sm font-medium mb-2', CHANNEL_THEMES[channel].text)}>
+                {getStimulusChannel(channel).name}
+              </p>
+              <Histogram stats={stats} channel={channel} />
+            </div>
+          ) : null
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,14 +4,20 @@ import { motion } from 'framer-motion';
 import { cn } from '@/lib/utils';
 
 interface ScoreCircleProps {
-  accuracy: number;
+  score: number;
+  /** Score that fills the circle (defaults to 100, for percentages) */
+  max?: number;
+  /** Score as shown in the middle (defaults to a rounded percentage) */
+  display?: string;
   label?: string;
   size?: 'sm' | 'md' | 'lg';
   className?: string;
 }
 
 export function ScoreCircle({
-  accuracy,
+  score,
+  max = 100,
+  display = `${Math.round(score)}%`,
   label = 'Accuracy',
   size = 'lg',
   className,
@@ -22,17 +28,18 @@ export function ScoreCircle({
     lg: { container: 'w-40 h-40', text: 'text-4xl', label: 'text-sm' },
   };
 
-  const getColor = (acc: number) => {
-    if (acc >= 90) return { stroke: 'var(--accent-cyan)', text: 'text-accent-cyan' };
-    if (acc >= 75) return { stroke: 'var(--success)', text: 'text-success' };
-    if (acc >= 60) return { stroke: 'var(--warning)', text: 'text-warning' };
+  const getColor = (percent: number) => {
+    if (percent >= 90) return { stroke: 'var(--accent-cyan)', text: 'text-accent-cyan' };
+    if (percent >= 75) return { stroke: 'var(--success)', text: 'text-success' };
+    if (percent >= 60) return { stroke: 'var(--warning)', text: 'text-warning' };
     return { stroke: 'var(--accent-magenta)', text: 'text-accent-magenta' };
   };
 
-  const color = getColor(accuracy);
+  const percent = Math.max(0, Math.min(100, (score / max) * 100));
+  const color = getColor(percent);
   const radius = 45;
   const circumference = 2 * Math.PI * radius;
-  const strokeDashoffset = circumference - (accuracy / 100) * circumference;
+  const strokeDashoffset = circumference - (percent / 100) * circumference;
 
   return (
     <div className={cn('relative', sizeClasses[size].container, className)}>
@@ -70,7 +77,7 @@ export function ScoreCircle({
           animate={{ opacity: 1, scale: 1 }}
           transition={{ duration: 0.3, delay: 0.5 }}
         >
-          {Math.round(accuracy)}%
+          {display}
         </motion.span>
         <span className={cn('text-text-tertiary', sizeClasses[size].label)}>
           {label}
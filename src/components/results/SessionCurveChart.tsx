@@ -0,0 +1,146 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import type { PerformanceCurvePoint, SessionBlock } from '@neuralift/core';
+
+interface SessionCurveChartProps {
+  /** Sliding-window points, in trial order */
+  points: PerformanceCurvePoint[];
+  /** Scored blocks, drawn as boundaries between them */
+  blocks?: SessionBlock[];
+  className?: string;
+}
+
+const CHART_HEIGHT = 160;
+const CHART_WIDTH = 100; // percentage
+
+/** D-prime is plotted against this ceiling */
+const MAX_DPRIME = 4;
+
+function toPath(coords: { x: number; y: number }[]): string {
+  return coords.reduce(
+    (path, { x, y }, i) => (i === 0 ? `M ${x} ${y}` : `${path} L ${x} ${y}`),
+    ''
+  );
+}
+
+export function SessionCurveChart({ points, blocks = [], className }: SessionCurveChartProps) {
+  if (points.length < 2) {
+    return (
+      <div className={cn('flex items-center justify-center h-40 text-text-tertiary', className)}>
+        Not enough trials to chart.
+      </div>
+    );
+  }
+
+  const firstTrial = points[0]!.endTrial;
+  const lastTrial = points[points.length - 1]!.endTrial;
+  const xFor = (trial: number) =>
+    ((trial - firstTrial) / Math.max(lastTrial - firstTrial, 1)) * CHART_WIDTH;
+
+  const accuracyPath = toPath(
+    points.map((point) => ({
+      x: xFor(point.endTrial),
+      y: CHART_HEIGHT - (point.accuracy / 100) * CHART_HEIGHT,
+    }))
+  );
+  const dPrimePath = toPath(
+    points.map((point) => ({
+      x: xFor(point.endTrial),
+      y: CHART_HEIGHT - (Math.max(0, Math.min(point.dPrime, MAX_DPRIME)) / MAX_DPRIME) * CHART_HEIGHT,
+    }))
+  );
+  const boundaries = blocks
+    .slice(1)
+    .map((block) => xFor(block.startTrial))
+    .filter((x) => x > 0 && x < CHART_WIDTH);
+
+  return (
+    <div className={cn('relative', className)}>
+      {/* Y-axis labels */}
+      <div className="absolute left-0 top-0 h-40 flex flex-col justify-between text-xs text-text-tertiary pr-2">
+        <span>100%</span>
+        <span>50%</span>
+        <span>0%</span>
+      </div>
+
+      {/* Chart area */}
+      <div className="ml-10">
+        <svg
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          className="w-full h-40"
+          preserveAspectRatio="none"
+          role="img"
+          aria-label="Accuracy and d-prime across the session"
+        >
+          {/* Grid line */}
+          <line
+            x1="0"
+            y1={CHART_HEIGHT / 2}
+            x2={CHART_WIDTH}
+            y2={CHART_HEIGHT / 2}
+            stroke="var(--border-subtle)"
+            strokeDasharray="2,2"
+          />
+
+          {/* Block boundaries */}
+          {boundaries.map((x) => (
+            <line
+              key={x}
+              x1={x}
+              y1="0"
+              x2={x}
+              y2={CHART_HEIGHT}
+              stroke="var(--border-default)"
+              strokeDasharray="4,3"
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+
+          <path
+            d={dPrimePath}
+            fill="none"
+            stroke="var(--accent-magenta)"
+            strokeWidth="1.5"
+            strokeLinejoin="round"
+            strokeOpacity="0.8"
+            vectorEffect="non-scaling-stroke"
+          />
+          <path
+            d={accuracyPath}
+            fill="none"
+            stroke="var(--accent-cyan)"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            vectorEffect="non-scaling-stroke"
+          />
+        </svg>
+
+        {/* X-axis labels */}
+        <div className="flex justify-between mt-2 text-xs text-text-tertiary">
+          <span>Trial {firstTrial + 1}</span>
+          <span>Trial {lastTrial + 1}</span>
+        </div>
+
+        {/* Legend */}
+        <div className="flex gap-4 mt-3 text-xs text-text-secondary">
+          <span className="flex items-center gap-1.5">
+            <span className="w-3 h-0.5 bg-accent-cyan" />
+            Accuracy
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className="w-3 h-0.5 bg-accent-magenta" />
+            d′ (0–{MAX_DPRIME})
+          </span>
+          {boundaries.length > 0 && (
+            <span className="flex items-center gap-1.5">
+              <span className="w-0 h-3 border-l border-dashed border-border-default" />
+              Block
+            </span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 'use client';
 
 import { cn } from '@/lib/utils';
+import { getStimulusChannel, type StimulusChannel } from '@neuralift/core';
+import { CHANNEL_THEMES } from '@/components/training/channelTheme';
 
 interface Stats {
   hits: number;
@@ -8,37 +10,53 @@ interface Stats {
   falseAlarms: number;
   correctRejections: number;
   dPrime: number;
+  /** Criterion c (absent on sessions scored before it was recorded) */
+  criterion?: number | undefined;
+  /** Non-parametric sensitivity A′ */
+  aPrime?: number | undefined;
 }
 
 interface StatsTableProps {
   positionStats: Stats;
   audioStats: Stats;
+  /** Color stats (triple and quad sessions) */
+  colorStats?: Stats | undefined;
+  /** Shape stats (quad sessions) */
+  shapeStats?: Stats | undefined;
   className?: string;
 }
 
 export function StatsTable({
   positionStats,
   audioStats,
+  colorStats,
+  shapeStats,
   className,
 }: StatsTableProps) {
-  const rows = [
-    { label: 'Hits', position: positionStats.hits, audio: audioStats.hits },
-    { label: 'Misses', position: positionStats.misses, audio: audioStats.misses },
+  const columns: { channel: StimulusChannel; stats: Stats }[] = [
+    { channel: 'position', stats: positionStats },
+    { channel: 'audio', stats: audioStats },
+  ];
+  if (colorStats) columns.push({ channel: 'color', stats: colorStats });
+  if (shapeStats) columns.push({ channel: 'shape', stats: shapeStats });
+
+  const rows: { label: string; value: (stats: Stats) => string | number; isSpecial?: boolean }[] = [
+    { label: 'Hits', value: (stats) => stats.hits },
+    { label: 'Misses', value: (stats) => stats.misses },
+    { label: 'False Alarms', value: (stats) => stats.falseAlarms },
+    { label: 'Correct Rejections', value: (stats) => stats.correctRejections },
     {
-      label: 'False Alarms',
-      position: positionStats.falseAlarms,
-      audio: audioStats.falseAlarms,
+      label: "D' (Sensitivity)",
+      value: (stats) => stats.dPrime.toFixed(2),
+      isSpecial: true,
     },
     {
-      label: 'Correct Rejections',
-      position: positionStats.correctRejections,
-      audio: audioStats.correctRejections,
+      label: 'c (Bias)',
+      value: (stats) => stats.criterion?.toFixed(2) ?? '—',
     },
     {
-      label: "D' (Sensitivity)",
-      position: positionStats.dPrime.toFixed(2),
-      audio: audioStats.dPrime.toFixed(2),
-      isSpecial: true,
+      label: 'A′',
+      value: (stats) => stats.aPrime?.toFixed(2) ?? '—',
     },
   ];
 
@@ -50,12 +68,14 @@ export function StatsTable({
             <th className="py-2 text-left text-text-tertiary font-medium">
               Metric
             </th>
-            <th className="py-2 text-right text-accent-cyan font-medium">
-              Position
-            </th>
-            <th className="py-2 text-right text-accent-magenta font-medium">
-              Audio
-            </th>
+            {columns.map(({ channel }) => (
+              <th
+                key={channel}
+                className={cn('py-2 text-right font-medium', CHANNEL_THEMES[channel].text)}
+              >
+                {getStimulusChannel(channel).name}
+              </th>
+            ))}
           </tr>
         </thead>
         <tbody>
@@ -68,12 +88,11 @@ export function StatsTable({
               )}
             >
               <td className="py-2 text-text-secondary">{row.label}</td>
-              <td className="py-2 text-right text-text-primary font-mono">
-                {row.position}
-              </td>
-              <td className="py-2 text-right text-text-primary font-mono">
-                {row.audio}
-              </td>
+              {columns.map(({ channel, stats }) => (
+                <td key={channel} className="py-2 text-right text-text-primary font-mono">
+                  {row.value(stats)}
+                </td>
+              ))}
             </tr>
           ))}
         </tbody>
@@ -0,0 +1,111 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/Button';
+import { TrainingGrid } from '@/components/training/TrainingGrid';
+import { CHANNEL_THEMES } from '@/components/training/channelTheme';
+import { getStimulusChannel, type GridSize, type TrialData, type TrialOutcome } from '@neuralift/core';
+import { describeOutcome } from './TrialTimeline';
+
+interface TrialReplayProps {
+  /** Trial being replayed */
+  trial: TrialData;
+  /** Its outcome, used to highlight errors */
+  outcome: TrialOutcome;
+  /** Number of trials in the session */
+  totalTrials: number;
+  gridSize?: GridSize;
+  playing: boolean;
+  onPlay: () => void;
+  onPause: () => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  className?: string;
+}
+
+export function TrialReplay({
+  trial,
+  outcome,
+  totalTrials,
+  gridSize,
+  playing,
+  onPlay,
+  onPause,
+  onPrevious,
+  onNext,
+  className,
+}: TrialReplayProps) {
+  const position = outcome.channels.find((channel) => channel.channel === 'position');
+  const audio = outcome.channels.find((channel) => channel.channel === 'audio');
+  const errors = outcome.channels.filter((channel) => channel.error !== null);
+
+  return (
+    <div className={cn('flex flex-col items-center gap-4', className)}>
+      <p className="text-sm text-text-secondary">
+        Trial <span className="font-mono text-text-primary">{outcome.index + 1}</span> of{' '}
+        {totalTrials}
+      </p>
+
+      <TrainingGrid
+        activePosition={trial.position}
+        {...(gridSize && { gridSize })}
+        activeColor={trial.color ?? null}
+        activeShape={trial.shape ?? null}
+        feedback={
+          position && position.category !== 'correctRejection'
+            ? { position: trial.position, type: position.error ? 'incorrect' : 'correct' }
+            : null
+        }
+        className="w-48 h-48 sm:w-56 sm:h-56 md:w-56 md:h-56"
+        disabled
+      />
+
+      {/* Spoken letter */}
+      {audio && (
+        <div
+          className={cn(
+            'w-12 h-12 rounded-xl border-2 flex items-center justify-center text-xl font-bold',
+            audio.error
+              ? 'border-error bg-error-subtle text-error'
+              : cn('border-border-subtle', CHANNEL_THEMES.audio.text)
+          )}
+          aria-label={`Letter ${trial.audioLetter}`}
+        >
+          {trial.audioLetter}
+        </div>
+      )}
+
+      {/* Errors on this trial */}
+      <ul className="min-h-10 text-sm text-center space-y-1" aria-live="polite">
+        {errors.length === 0 ? (
+          <li className="text-text-tertiary">No errors on this trial.</li>
+        ) : (
+          errors.map((channel) => (
+            <li key={channel.channel} className="text-error">
+              <span className="font-medium">{getStimulusChannel(channel.channel).name}</span>:{' '}
+              {describeOutcome(channel)}
+            </li>
+          ))
+        )}
+      </ul>
+
+      {/* Controls */}
+      <div className="flex gap-2">
+        <Button variant="secondary" size="sm" onClick={onPrevious} disabled={outcome.index === 0}>
+          Previous
+        </Button>
+        <Button size="sm" onClick={playing ? onPause : onPlay}>
+          {playing ? 'Pause' : 'Replay'}
+        </Button>
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={onNext}
+          disabled={outcome.index >= totalTrials - 1}
+        >
+          Next
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import {
+  getPositionName,
+  getStimulusChannel,
+  type ChannelOutcome,
+  type GridSize,
+  type ResponseCategory,
+  type TrialOutcome,
+} from '@neuralift/core';
+import { CHANNEL_THEMES } from '@/components/training/channelTheme';
+
+interface TrialTimelineProps {
+  /** Outcome of every trial, in order */
+  outcomes: TrialOutcome[];
+  /** Grid side length, for naming positions */
+  gridSize?: GridSize;
+  /** Trial shown in the detail panel */
+  selectedIndex?: number | null;
+  onSelect?: (index: number) => void;
+  className?: string;
+}
+
+const CATEGORY_STYLES: Record<ResponseCategory, string> = {
+  hit: 'bg-success border-success',
+  miss: 'bg-transparent border-error',
+  falseAlarm: 'bg-error border-error',
+  correctRejection: 'bg-surface-subtle border-border-subtle',
+};
+
+const CATEGORY_LABELS: Record<ResponseCategory, string> = {
+  hit: 'Hit',
+  miss: 'Miss',
+  falseAlarm: 'False alarm',
+  correctRejection: 'Correct rejection',
+};
+
+/**
+ * Display text for a channel's stimulus
+ */
+export function formatStimulus(outcome: ChannelOutcome, gridSize?: GridSize): string {
+  if (outcome.stimulus === null) return '—';
+  if (outcome.channel === 'position' && typeof outcome.stimulus === 'number') {
+    return getPositionName(outcome.stimulus, gridSize);
+  }
+  return String(outcome.stimulus);
+}
+
+/**
+ * Sentence explaining a channel's outcome, e.g. why it was an error
+ */
+export function describeOutcome(outcome: ChannelOutcome): string {
+  const compared =
+    outcome.comparedTrialIndex !== null ? ` trial ${outcome.comparedTrialIndex + 1}` : ' an earlier trial';
+
+  switch (outcome.error) {
+    case 'missedMatch':
+      return `Missed: it matched${compared}.`;
+    case 'lureFalseAlarm':
+      return `Lure (${outcome.lure}): it repeated${compared}, not the N-back trial.`;
+    case 'falseAlarm':
+      return 'Responded, but there was no match.';
+    case null:
+      if (outcome.category === 'hit') return `Matched${compared}.`;
+      return outcome.lure ? `Lure (${outcome.lure}) correctly ignored.` : 'No match, correctly ignored.';
+  }
+}
+
+/**
+ * Details of the selected trial, one line per channel
+ */
+function TrialDetail({ outcome, gridSize }: { outcome: TrialOutcome; gridSize?: GridSize }) {
+  return (
+    <div className="mt-4 rounded-xl bg-surface-subtle p-4">
+      <p className="text-sm font-medium text-text-primary mb-2">Trial {outcome.index + 1}</p>
+      <ul className="space-y-1.5 text-sm">
+        {outcome.channels.map((channel) => (
+          <li key={channel.channel} className="flex items-start justify-between gap-3">
+            <span className={cn('font-medium shrink-0', CHANNEL_THEMES[channel.channel].text)}>
+              {getStimulusChannel(channel.channel).name}: {formatStimulus(channel, gridSize)}
+            </span>
+            <span
+              className={cn('text-right', channel.error ? 'text-error' : 'text-text-secondary')}
+            >
+              {CATEGORY_LABELS[channel.category]}
+              {channel.responseTime !== null && ` · ${Math.round(channel.responseTime)} ms`}
+              <span className="block text-xs text-text-tertiary">{describeOutcome(channel)}</span>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export function TrialTimeline({
+  outcomes,
+  gridSize,
+  selectedIndex = null,
+  onSelect,
+  className,
+}: TrialTimelineProps) {
+  if (outcomes.length === 0) {
+    return (
+      <div className={cn('flex items-center justify-center h-24 text-text-tertiary', className)}>
+        No trials recorded.
+      </div>
+    );
+  }
+
+  const channels = outcomes[0]!.channels.map((outcome) => outcome.channel);
+  const selected = selectedIndex !== null ? outcomes[selectedIndex] : undefined;
+
+  return (
+    <div className={className}>
+      <div className="overflow-x-auto pb-2">
+        <div className="inline-flex flex-col gap-1.5 min-w-full">
+          {channels.map((channel, row) => (
+            <div key={channel} className="flex items-center gap-1">
+              <span
+                className={cn('w-16 shrink-0 text-xs font-medium', CHANNEL_THEMES[channel].text)}
+              >
+                {getStimulusChannel(channel).name}
+              </span>
+              {outcomes.map((outcome) => {
+                const cell = outcome.channels[row]!;
+                return (
+                  <button
+                    key={outcome.index}
+                    type="button"
+                    onClick={() => onSelect?.(outcome.index)}
+                    title={`Trial ${outcome.index + 1}: ${CATEGORY_LABELS[cell.category]}${cell.lure ? ` (${cell.lure} lure)` : ''}`}
+                    aria-label={`Trial ${outcome.index + 1} ${getStimulusChannel(channel).name}: ${CATEGORY_LABELS[cell.category]}`}
+                    aria-pressed={selectedIndex === outcome.index}
+                    className={cn(
+                      'relative w-4 h-4 shrink-0 rounded-sm border-2 transition-transform',
+                      CATEGORY_STYLES[cell.category],
+                      selectedIndex === outcome.index &&
+                        'ring-2 ring-accent-cyan ring-offset-1 ring-offset-bg-primary scale-110'
+                    )}
+                  >
+                    {cell.lure && (
+                      <span className="absolute -top-1 -right-1 w-1.5 h-1.5 rounded-full bg-accent-gold" />
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-4 mt-3 text-xs text-text-secondary">
+        {(['hit', 'miss', 'falseAlarm'] as const).map((category) => (
+          <span key={category} className="flex items-center gap-1.5">
+            <span className={cn('w-3 h-3 rounded-sm border-2', CATEGORY_STYLES[category])} />
+            {CATEGORY_LABELS[category]}
+          </span>
+        ))}
+        <span className="flex items-center gap-1.5">
+          <span className="w-1.5 h-1.5 rounded-full bg-accent-gold" />
+          Lure
+        </span>
+      </div>
+
+      {selected && <TrialDetail outcome={selected} {...(gridSize && { gridSize })} />}
+    </div>
+  );
+}
@@ -1,4 +1,10 @@
 export { ScoreCircle } from './ScoreCircle';
 export { StatComparison } from './StatComparison';
 export { StatsTable } from './StatsTable';
+export { LureStatsTable } from './LureStatsTable';
 export { CoachNotes } from './CoachNotes';
+export { ResponseTimePanel } from './ResponseTimePanel';
+export { SessionCurveChart } from './SessionCurveChart';
+export { TrialTimeline } from './TrialTimeline';
+export { TrialReplay } from './TrialReplay';
+export { PersonalBestBanner } from './PersonalBestBanner';
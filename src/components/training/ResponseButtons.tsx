@@ -2,62 +2,63 @@
 
 import { motion } from 'framer-motion';
 import { cn } from '@/lib/utils';
-import type { TrainingMode } from '@neuralift/core';
+import {
+  getModeChannels,
+  getStimulusChannel,
+  type StimulusChannel,
+  type TrainingMode,
+} from '@neuralift/core';
+import { CHANNEL_THEMES } from './channelTheme';
 
 interface ResponseButtonsProps {
   mode: TrainingMode;
-  onPositionMatch: () => void;
-  onAudioMatch: () => void;
+  /** Called with the channel whose match button was pressed */
+  onMatch: (channel: StimulusChannel) => void;
   disabled?: boolean;
-  positionPressed?: boolean;
-  audioPressed?: boolean;
+  /** Channels already pressed in the current trial */
+  pressedChannels?: readonly StimulusChannel[];
 }
 
 export function ResponseButtons({
   mode,
-  onPositionMatch,
-  onAudioMatch,
+  onMatch,
   disabled = false,
-  positionPressed = false,
-  audioPressed = false,
+  pressedChannels = [],
 }: ResponseButtonsProps) {
-  const showPosition = mode === 'single-position' || mode === 'dual';
-  const showAudio = mode === 'single-audio' || mode === 'dual';
+  const channels = getModeChannels(mode);
 
   return (
-    <div className="flex flex-col sm:flex-row gap-3 sm:gap-4 w-full max-w-md">
-      {showPosition && (
-        <ResponseButton
-          data-tour="position-button"
-          label="Position Match"
-          shortcut="A"
-          color="cyan"
-          onClick={onPositionMatch}
-          disabled={disabled}
-          pressed={positionPressed}
-          ariaLabel="Position match - press when current position matches position from N steps ago"
-        />
-      )}
-      {showAudio && (
-        <ResponseButton
-          data-tour="audio-button"
-          label="Audio Match"
-          shortcut="L"
-          color="magenta"
-          onClick={onAudioMatch}
-          disabled={disabled}
-          pressed={audioPressed}
-          ariaLabel="Audio match - press when current letter matches letter from N steps ago"
-        />
+    <div
+      className={cn(
+        'gap-3 sm:gap-4 w-full',
+        // Triple and quad modes lay the buttons out two per row
+        channels.length > 2 ? 'grid grid-cols-2 max-w-lg' : 'flex flex-col sm:flex-row max-w-md'
       )}
+    >
+      {channels.map((channel) => {
+        const definition = getStimulusChannel(channel);
+        return (
+          <ResponseButton
+            key={channel}
+            data-tour={`${channel}-button`}
+            channel={channel}
+            label={`${definition.name} Match`}
+            shortcut={definition.key}
+            onClick={() => onMatch(channel)}
+            disabled={disabled}
+            pressed={pressedChannels.includes(channel)}
+            ariaLabel={`${definition.name} match - press when ${definition.comparison} as N steps ago`}
+          />
+        );
+      })}
     </div>
   );
 }
 
 interface ResponseButtonProps {
+  channel: StimulusChannel;
   label: string;
   shortcut: string;
-  color: 'cyan' | 'magenta';
   onClick: () => void;
   disabled: boolean;
   pressed: boolean;
@@ -66,29 +67,16 @@ interface ResponseButtonProps {
 }
 
 function ResponseButton({
+  channel,
   label,
   shortcut,
-  color,
   onClick,
   disabled,
   pressed,
   ariaLabel,
   ...props
 }: ResponseButtonProps) {
-  const colorClasses = {
-    cyan: {
-      icon: 'bg-accent-cyan/20 text-accent-cyan',
-      iconPressed: 'bg-accent-cyan/40 text-accent-cyan',
-      pressed: 'bg-accent-cyan/40 border-accent-cyan shadow-[0_0_20px_rgba(34,211,238,0.4)]',
-      glow: 'rgba(34,211,238,0.6)',
-    },
-    magenta: {
-      icon: 'bg-accent-magenta/20 text-accent-magenta',
-      iconPressed: 'bg-accent-magenta/40 text-accent-magenta',
-      pressed: 'bg-accent-magenta/40 border-accent-magenta shadow-[0_0_20px_rgba(232,121,249,0.4)]',
-      glow: 'rgba(232,121,249,0.6)',
-    },
-  };
+  const theme = CHANNEL_THEMES[channel];
 
   return (
     <motion.button
@@ -102,7 +90,7 @@ function ResponseButton({
         'disabled:opacity-50 disabled:cursor-not-allowed',
         'active:scale-[0.97]', // CSS fallback for non-JS
         pressed
-          ? colorClasses[color].pressed
+          ? theme.pressed
           : 'bg-surface-subtle border-border-default hover:bg-surface-hover hover:border-border-hover'
       )}
       onClick={onClick}
@@ -127,7 +115,7 @@ function ResponseButton({
           animate={{ opacity: 0, scale: 1.2 }}
           transition={{ duration: 0.4, ease: 'easeOut' }}
           style={{
-            background: `radial-gradient(circle, ${colorClasses[color].glow} 0%, transparent 70%)`,
+            background: `radial-gradient(circle, ${theme.glow} 0%, transparent 70%)`,
           }}
         />
       )}
@@ -136,7 +124,7 @@ function ResponseButton({
       <motion.div
         className={cn(
           'w-10 h-10 rounded-xl flex items-center justify-center mb-2 transition-all duration-150',
-          pressed ? colorClasses[color].iconPressed : colorClasses[color].icon
+          pressed ? theme.iconPressed : theme.icon
         )}
         animate={
           pressed
@@ -144,23 +132,7 @@ function ResponseButton({
             : {}
         }
       >
-        {color === 'cyan' ? (
-          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
-            <path
-              fillRule="evenodd"
-              d="M5.05 4.05a7 7 0 119.9 9.9L10 18.9l-4.95-4.95a7 7 0 010-9.9zM10 11a2 2 0 100-4 2 2 0 000 4z"
-              clipRule="evenodd"
-            />
-          </svg>
-        ) : (
-          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
-            <path
-              fillRule="evenodd"
-              d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.707.707L4.586 13H2a1 1 0 01-1-1V8a1 1 0 011-1h2.586l3.707-3.707a1 1 0 011.09-.217zM14.657 2.929a1 1 0 011.414 0A9.972 9.972 0 0119 10a9.972 9.972 0 01-2.929 7.071 1 1 0 01-1.414-1.414A7.971 7.971 0 0017 10c0-2.21-.894-4.208-2.343-5.657a1 1 0 010-1.414zm-2.829 2.828a1 1 0 011.415 0A5.983 5.983 0 0115 10a5.984 5.984 0 01-1.757 4.243 1 1 0 01-1.415-1.415A3.984 3.984 0 0013 10a3.983 3.983 0 00-1.172-2.828 1 1 0 010-1.415z"
-              clipRule="evenodd"
-            />
-          </svg>
-        )}
+        <ChannelIcon channel={channel} />
       </motion.div>
 
       <span className={cn(
@@ -178,3 +150,44 @@ function ResponseButton({
     </motion.button>
   );
 }
+
+function ChannelIcon({ channel }: { channel: StimulusChannel }) {
+  switch (channel) {
+    case 'position':
+      return (
+        <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+          <path
+            fillRule="evenodd"
+            d="M5.05 4.05a7 7 0 119.9 9.9L10 18.9l-4.95-4.95a7 7 0 010-9.9zM10 11a2 2 0 100-4 2 2 0 000 4z"
+            clipRule="evenodd"
+          />
+        </svg>
+      );
+    case 'audio':
+      return (
+        <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+          <path
+            fillRule="evenodd"
+            d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.707.707L4.586 13H2a1 1 0 01-1-1V8a1 1 0 011-1h2.586l3.707-3.707a1 1 0 011.09-.217zM14.657 2.929a1 1 0 011.414 0A9.972 9.972 0 0119 10a9.972 9.972 0 01-2.929 7.071 1 1 0 01-1.414-1.414A7.971 7.971 0 0017 10c0-2.21-.894-4.208-2.343-5.657a1 1 0 010-1.414zm-2.829 2.828a1 1 0 011.415 0A5.983 5.983 0 0115 10a5.984 5.984 0 01-1.757 4.243 1 1 0 01-1.415-1.415A3.984 3.984 0 0013 10a3.983 3.983 0 00-1.172-2.828 1 1 0 010-1.415z"
+            clipRule="evenodd"
+          />
+        </svg>
+      );
+    case 'color':
+      return (
+        <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+          <path
+            fillRule="evenodd"
+            d="M4 2a2 2 0 00-2 2v11a3 3 0 106 0V4a2 2 0 00-2-2H4zm1 14a1 1 0 100-2 1 1 0 000 2zm5-1.757l4.9-4.9a2 2 0 000-2.828L13.485 5.1a2 2 0 00-2.828 0L10 5.757v8.486zM16 18H9.071l6-6H16a2 2 0 012 2v2a2 2 0 01-2 2z"
+            clipRule="evenodd"
+          />
+        </svg>
+      );
+    case 'shape':
+      return (
+        <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+          <path d="M10 2l2.5 5 5.5.8-4 3.9.9 5.5L10 14.6l-4.9 2.6.9-5.5-4-3.9 5.5-.8L10 2z" />
+        </svg>
+      );
+  }
+}
@@ -3,9 +3,17 @@
 import { useState, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import { cn } from '@/lib/utils';
+import { GRID_SIZE, getAllPositionIndices, getPositionName, type GridSize } from '@neuralift/core';
+import { STIMULUS_COLOR_VALUES } from './channelTheme';
 
 interface TrainingGridProps {
   activePosition: number | null;
+  /** Grid side length (defaults to 3) */
+  gridSize?: GridSize;
+  /** Color of the active square (triple and quad modes) */
+  activeColor?: string | null;
+  /** Shape drawn in the active square (quad mode) */
+  activeShape?: string | null;
   feedback?: { position: number; type: 'correct' | 'incorrect' } | null;
   className?: string;
   /** Called when any grid cell is clicked (triggers position match) */
@@ -14,10 +22,18 @@ interface TrainingGridProps {
   disabled?: boolean;
 }
 
-const GRID_POSITIONS = [0, 1, 2, 3, 4, 5, 6, 7, 8];
+// Static class names so Tailwind can see them
+const GRID_COLUMNS: Record<GridSize, string> = {
+  3: 'grid-cols-3',
+  4: 'grid-cols-4',
+  5: 'grid-cols-5',
+};
 
 export function TrainingGrid({
   activePosition,
+  gridSize = GRID_SIZE,
+  activeColor = null,
+  activeShape = null,
   feedback,
   className,
   onGridClick,
@@ -41,16 +57,19 @@ export function TrainingGrid({
       role="grid"
       aria-label="N-back memory grid. Click or tap any cell to indicate a position match."
       className={cn(
-        'grid grid-cols-3 gap-2 sm:gap-3',
+        'grid gap-2 sm:gap-3',
+        GRID_COLUMNS[gridSize],
         'w-64 h-64 sm:w-72 sm:h-72 md:w-80 md:h-80',
         className
       )}
     >
-      {GRID_POSITIONS.map((position) => (
+      {getAllPositionIndices(gridSize).map((position) => (
         <GridCell
           key={position}
-          position={position}
+          positionName={getPositionName(position, gridSize)}
           isActive={activePosition === position}
+          activeColor={activeColor}
+          activeShape={activeShape}
           feedback={feedback?.position === position ? feedback.type : null}
           isTapped={tappedCell === position}
           onClick={() => handleCellClick(position)}
@@ -62,32 +81,31 @@ export function TrainingGrid({
 }
 
 interface GridCellProps {
-  position: number;
+  positionName: string;
   isActive: boolean;
+  activeColor: string | null;
+  activeShape: string | null;
   feedback: 'correct' | 'incorrect' | null;
   isTapped: boolean;
   onClick: () => void;
   disabled: boolean;
 }
 
-function GridCell({ position, isActive, feedback, isTapped, onClick, disabled }: GridCellProps) {
-  const positionNames = [
-    'top-left',
-    'top-center',
-    'top-right',
-    'middle-left',
-    'center',
-    'middle-right',
-    'bottom-left',
-    'bottom-center',
-    'bottom-right',
-  ];
-
+function GridCell({
+  positionName,
+  isActive,
+  activeColor,
+  activeShape,
+  feedback,
+  isTapped,
+  onClick,
+  disabled,
+}: GridCellProps) {
   return (
     <motion.button
       type="button"
       role="gridcell"
-      aria-label={`Position ${positionNames[position]}${isActive ? ' (active)' : ''}. Click to indicate position match.`}
+      aria-label={`Position ${positionName}${isActive ? ' (active)' : ''}. Click to indicate position match.`}
       aria-selected={isActive}
       disabled={disabled}
       onClick={onClick}
@@ -129,9 +147,25 @@ function GridCell({ position, isActive, feedback, isTapped, onClick, disabled }:
         />
       )}
 
-      {isActive && (
+      {isActive && activeShape && (
+        <motion.svg
+          viewBox="0 0 24 24"
+          className="w-8 h-8 sm:w-10 sm:h-10"
+          style={activeColor ? { color: STIMULUS_COLOR_VALUES[activeColor] } : {}}
+          initial={{ scale: 0, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0, opacity: 0 }}
+          transition={{ duration: 0.15 }}
+          aria-hidden="true"
+        >
+          <ShapeGlyph shape={activeShape} />
+        </motion.svg>
+      )}
+
+      {isActive && !activeShape && (
         <motion.div
-          className="w-6 h-6 sm:w-8 sm:h-8 rounded-full bg-accent-cyan"
+          className={cn('w-6 h-6 sm:w-8 sm:h-8 rounded-full', !activeColor && 'bg-accent-cyan')}
+          style={activeColor ? { backgroundColor: STIMULUS_COLOR_VALUES[activeColor] } : {}}
           initial={{ scale: 0, opacity: 0 }}
           animate={{ scale: 1, opacity: 1 }}
           exit={{ scale: 0, opacity: 0 }}
@@ -141,3 +175,39 @@ function GridCell({ position, isActive, feedback, isTapped, onClick, disabled }:
     </motion.button>
   );
 }
+
+/**
+ * Draws a shape-channel stimulus in the current text color
+ */
+function ShapeGlyph({ shape }: { shape: string }) {
+  switch (shape) {
+    case 'circle':
+      return <circle cx="12" cy="12" r="9" fill="currentColor" />;
+    case 'square':
+      return <rect x="4" y="4" width="16" height="16" rx="2" fill="currentColor" />;
+    case 'triangle':
+      return <path d="M12 3l9 17H3z" fill="currentColor" />;
+    case 'diamond':
+      return <path d="M12 2l9 10-9 10-9-10z" fill="currentColor" />;
+    case 'star':
+      return (
+        <path
+          d="M12 2l2.9 6.3 6.9.7-5.2 4.6 1.5 6.8L12 17l-6.1 3.4 1.5-6.8L2.2 9l6.9-.7z"
+          fill="currentColor"
+        />
+      );
+    case 'hexagon':
+      return <path d="M7 3h10l5 9-5 9H7l-5-9z" fill="currentColor" />;
+    case 'cross':
+      return <path d="M9 3h6v6h6v6h-6v6H9v-6H3V9h6z" fill="currentColor" />;
+    case 'heart':
+      return (
+        <path
+          d="M12 21l-1.5-1.3C5.4 15.1 2 12 2 8.2 2 5.1 4.4 3 7.2 3c1.8 0 3.6.9 4.8 2.3C13.2 3.9 15 3 16.8 3 19.6 3 22 5.1 22 8.2c0 3.8-3.4 6.9-8.5 11.5z"
+          fill="currentColor"
+        />
+      );
+    default:
+      return <circle cx="12" cy="12" r="9" fill="currentColor" />;
+  }
+}
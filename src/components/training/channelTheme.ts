@@ -0,0 +1,62 @@
+import type { StimulusChannel } from '@neuralift/core';
+
+/**
+ * Visual theme for each stimulus channel's buttons and instructions
+ */
+export interface ChannelTheme {
+  text: string;
+  badge: string;
+  icon: string;
+  iconPressed: string;
+  pressed: string;
+  glow: string;
+}
+
+export const CHANNEL_THEMES: Record<StimulusChannel, ChannelTheme> = {
+  position: {
+    text: 'text-accent-cyan',
+    badge: 'bg-accent-cyan/20 border-accent-cyan/40',
+    icon: 'bg-accent-cyan/20 text-accent-cyan',
+    iconPressed: 'bg-accent-cyan/40 text-accent-cyan',
+    pressed: 'bg-accent-cyan/40 border-accent-cyan shadow-[0_0_20px_rgba(34,211,238,0.4)]',
+    glow: 'rgba(34,211,238,0.6)',
+  },
+  audio: {
+    text: 'text-accent-magenta',
+    badge: 'bg-accent-magenta/20 border-accent-magenta/40',
+    icon: 'bg-accent-magenta/20 text-accent-magenta',
+    iconPressed: 'bg-accent-magenta/40 text-accent-magenta',
+    pressed: 'bg-accent-magenta/40 border-accent-magenta shadow-[0_0_20px_rgba(232,121,249,0.4)]',
+    glow: 'rgba(232,121,249,0.6)',
+  },
+  color: {
+    text: 'text-accent-gold',
+    badge: 'bg-accent-gold/20 border-accent-gold/40',
+    icon: 'bg-accent-gold/20 text-accent-gold',
+    iconPressed: 'bg-accent-gold/40 text-accent-gold',
+    pressed: 'bg-accent-gold/40 border-accent-gold shadow-[0_0_20px_rgba(255,217,61,0.4)]',
+    glow: 'rgba(255,217,61,0.6)',
+  },
+  shape: {
+    text: 'text-success',
+    badge: 'bg-success/20 border-success/40',
+    icon: 'bg-success/20 text-success',
+    iconPressed: 'bg-success/40 text-success',
+    pressed: 'bg-success/40 border-success shadow-[0_0_20px_rgba(34,197,94,0.4)]',
+    glow: 'rgba(34,197,94,0.6)',
+  },
+};
+
+/**
+ * Display colors for the color channel stimuli
+ */
+export const STIMULUS_COLOR_VALUES: Record<string, string> = {
+  red: '#ef4444',
+  blue: '#3b82f6',
+  green: '#22c55e',
+  yellow: '#facc15',
+  purple: '#a855f7',
+  orange: '#f97316',
+  pink: '#ec4899',
+  white: '#f8fafc',
+};
@@ -15,7 +15,12 @@ export type FeatureFlag =
   | 'FEATURE_RESULTS'
   | 'FEATURE_PHASE_FOUNDATIONS'
   | 'FEATURE_PHASE_INTERMEDIATE'
-  | 'FEATURE_PHASE_ADVANCED';
+  | 'FEATURE_PHASE_ADVANCED'
+  | 'FEATURE_PHASE_MASTERY'
+  | 'FEATURE_PHASE_ELITE'
+  | 'FEATURE_PHASE_EXPERT'
+  | 'FEATURE_PHASE_SPATIAL'
+  | 'FEATURE_CUSTOM_LEVELS';
 
 interface FeatureConfig {
   name: string;
@@ -74,6 +79,31 @@ export const FEATURE_FLAGS: Record<FeatureFlag, FeatureConfig> = {
     description: 'Dual 2-back and Dual 3-back levels',
     defaultEnabled: false,
   },
+  FEATURE_PHASE_MASTERY: {
+    name: 'Mastery Phase',
+    description: 'Position and Audio 3 to 5-back, Dual 4 and 5-back levels',
+    defaultEnabled: false,
+  },
+  FEATURE_PHASE_ELITE: {
+    name: 'Elite Phase',
+    description: '6-back to 9-back levels',
+    defaultEnabled: false,
+  },
+  FEATURE_PHASE_EXPERT: {
+    name: 'Expert Phase',
+    description: 'Triple 2-back and Quad 2-back levels',
+    defaultEnabled: false,
+  },
+  FEATURE_PHASE_SPATIAL: {
+    name: 'Spatial Phase',
+    description: '2-back levels on 4x4 and 5x5 grids',
+    defaultEnabled: false,
+  },
+  FEATURE_CUSTOM_LEVELS: {
+    name: 'Custom Levels',
+    description: 'User-defined levels built from N, mode, trial count, duration and match rate',
+    defaultEnabled: true,
+  },
 };
 
 /**
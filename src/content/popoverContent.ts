@@ -152,6 +152,83 @@ export const popoverContent: Record<string, PopoverContent> = {
       'Great for sustained training sessions. Disable if you want to focus on mastering a specific level.',
   },
 
+  'setting-scoring-convention': {
+    icon: '🧮',
+    title: 'Scoring',
+    description:
+      'How a session is turned into a single score: Neuralift accuracy, the Brain Workshop percentage, or d\' (sensitivity).',
+    whyItMatters:
+      'Scores, charts and level unlocks all use the convention you pick, so results stay comparable with the app or studies you follow.',
+    proTip:
+      'Brain Workshop ignores correct rejections, so its percentages run lower than accuracy. d\' doesn\'t reward pressing more or less often.',
+  },
+
+  'setting-daily-goal': {
+    icon: '🎯',
+    title: 'Daily Goal',
+    description:
+      'A day counts toward your streak once you meet this goal: a number of blocks (sessions), minutes trained, or blocks at one level.',
+    whyItMatters:
+      'Several blocks a day give memory training enough volume to matter. A streak of opened sessions rewards showing up, a goal streak rewards training.',
+    proTip:
+      'Pick a goal you can meet on a busy day. Three blocks take under five minutes.',
+  },
+
+  'setting-backup': {
+    icon: '💾',
+    title: 'Backup',
+    description:
+      'Downloads everything stored on this device as one JSON file: sessions with every trial, progress, settings, custom levels and analytics events.',
+    whyItMatters:
+      'Your training history lives in this browser. Clearing site data or switching devices loses it unless you keep a backup.',
+    proTip:
+      'Personal records are not stored in the file. They are rebuilt from the sessions when you restore.',
+  },
+
+  'setting-restore': {
+    icon: '📥',
+    title: 'Restore',
+    description:
+      'Reads a backup file and shows what it would change before anything is written. Backups from older versions of the app are upgraded automatically.',
+    whyItMatters:
+      'Merging combines the file with what is already here, so you can bring together training from two devices. Replacing makes this device an exact copy of the backup.',
+    proTip:
+      'Merge never deletes anything: sessions already here are skipped, and the newer copy of each custom level and of your settings is kept.',
+  },
+
+  'setting-import-history': {
+    icon: '📜',
+    title: 'Import History',
+    description:
+      'Adds sessions from Brain Workshop\'s stats.txt, or from a CSV with one session per row and columns for the date, N and accuracy. Imported sessions appear in your charts and history, marked with their source.',
+    whyItMatters:
+      'Years of training elsewhere belong in your trend. Seeing them next to Neuralift sessions shows where you really stand.',
+    proTip:
+      'Imports keep the source app\'s percentages, without individual trials. Brain Workshop scores ignore correct rejections, so compare them in the Brain Workshop scoring convention.',
+  },
+
+  'setting-count-imported': {
+    icon: '🔓',
+    title: 'Count Imported Sessions',
+    description:
+      'When on, imported sessions count toward level unlocks and your daily goal streak. When off, they only appear in your charts and history.',
+    whyItMatters:
+      'Someone who trained dual 4-back elsewhere shouldn\'t have to climb from 2-back again. Keeping it off leaves unlocks earned in Neuralift alone.',
+    proTip:
+      'Turning it on unlocks every level your imported history qualifies for right away. Levels from 4-back up also need a d′, which imports don\'t carry, so they unlock from sessions trained here.',
+  },
+
+  'setting-training-program': {
+    icon: '📅',
+    title: 'Training Program',
+    description:
+      'A multi-week plan with a daily prescription of sessions per mode. The home page shows today\'s prescription and how closely you\'ve kept to the schedule.',
+    whyItMatters:
+      'Working memory gains come from regular practice over weeks. A fixed schedule removes the daily question of what to train.',
+    proTip:
+      'Adherence counts completed days against the days the schedule expected so far, so a missed day can be made up later in the week.',
+  },
+
   'setting-history-helper': {
     icon: '📜',
     title: 'History Helper',
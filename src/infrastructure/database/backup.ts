@@ -0,0 +1,688 @@
+'use client';
+
+/**
+ * Backup Format
+ *
+ * Versioned, schema-validated backups of the local database, with forward
+ * migrations from older formats and a merge or replace restore.
+ * Personal records are derived from sessions, so they are not backed up;
+ * rebuild them after a restore.
+ */
+
+import { z } from 'zod';
+import {
+  db,
+  type DBAnalyticsEvent,
+  type DBCustomLevel,
+  type DBProgress,
+  type DBSession,
+  type DBSettings,
+  type DBTrial,
+} from './db';
+import {
+  deserializeSession,
+  fromDBSession,
+  serializeSession,
+  tagImportedStats,
+  toDBSession,
+  toDBTrials,
+  type SerializedSession,
+} from './sessionMapping';
+import { migrateLegacyLevelId, recomputeProgress } from './migrations';
+
+/** Identifies a file as a Neuralift backup */
+export const BACKUP_FORMAT = 'neuralift-backup';
+
+/** Version written by createBackup */
+export const BACKUP_VERSION = 2;
+
+/**
+ * How a backup is restored
+ * - merge: add what is missing, keep the newer of overlapping records
+ * - replace: discard local data and restore the backup as-is
+ */
+export type RestoreMode = 'merge' | 'replace';
+
+/**
+ * A backup in the current format
+ */
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: typeof BACKUP_VERSION;
+  exportedAt: Date;
+  /** Sessions with their trials, serialized as in the local database before version 5 */
+  sessions: SerializedSession[];
+  progress: DBProgress | null;
+  settings: DBSettings | null;
+  analyticsEvents: DBAnalyticsEvent[];
+  customLevels: DBCustomLevel[];
+}
+
+/**
+ * What restoring a backup would change
+ */
+export interface RestorePreview {
+  mode: RestoreMode;
+  exportedAt: Date;
+  /** Version the file was written in, before migration */
+  sourceVersion: number;
+  sessions: { incoming: number; added: number; duplicates: number };
+  customLevels: { incoming: number; added: number; updated: number };
+  analyticsEvents: { incoming: number; added: number };
+  /** Earliest and latest incoming session, null without sessions */
+  sessionRange: { from: Date; to: Date } | null;
+  progress: 'keep' | 'merge' | 'replace';
+  settings: 'keep' | 'replace';
+  /** Local records removed by a replace */
+  removed: { sessions: number; customLevels: number; analyticsEvents: number };
+}
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+/**
+ * A JSON string whose parsed value matches the schema. The string itself is
+ * kept, so a bad value fails with the path into the string's content.
+ */
+const jsonString = (schema: z.ZodType) =>
+  z.string().superRefine((value, ctx) => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      ctx.addIssue({ code: 'custom', message: 'Not valid JSON' });
+      return;
+    }
+    const result = schema.safeParse(parsed);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        ctx.addIssue({ code: 'custom', message: issue.message, path: issue.path });
+      }
+    }
+  });
+
+/**
+ * An array whose items have distinct keys, since a restore adds them under
+ * that key in one batch. Each repeat fails at its own path.
+ */
+const uniqueBy = <T extends z.ZodType>(schema: T, key: keyof z.infer<T> & string) =>
+  z.array(schema).superRefine((items, ctx) => {
+    const firstIndex = new Map<unknown, number>();
+    items.forEach((item, index) => {
+      const value = item[key];
+      const first = firstIndex.get(value);
+      if (first === undefined) {
+        firstIndex.set(value, index);
+        return;
+      }
+      ctx.addIssue({
+        code: 'custom',
+        message: `Duplicate ${key} "${String(value)}", first used at index ${first}`,
+        path: [index, key],
+      });
+    });
+  });
+
+const lureTypeSchema = z.enum(['n-1', 'n+1']);
+
+const trialSchema = z.object({
+  id: z.number().int(),
+  position: z.number().int().nonnegative(),
+  audioLetter: z.string(),
+  isPositionMatch: z.boolean(),
+  isAudioMatch: z.boolean(),
+  userPositionResponse: z.boolean().nullable(),
+  userAudioResponse: z.boolean().nullable(),
+  positionResponseTime: z.number().nullable(),
+  audioResponseTime: z.number().nullable(),
+  stimulusTimestamp: z.number(),
+  positionLure: lureTypeSchema.optional(),
+  audioLure: lureTypeSchema.optional(),
+  colorLure: lureTypeSchema.optional(),
+  shapeLure: lureTypeSchema.optional(),
+  color: z.string().optional(),
+  isColorMatch: z.boolean().optional(),
+  userColorResponse: z.boolean().nullable().optional(),
+  colorResponseTime: z.number().nullable().optional(),
+  shape: z.string().optional(),
+  isShapeMatch: z.boolean().optional(),
+  userShapeResponse: z.boolean().nullable().optional(),
+  shapeResponseTime: z.number().nullable().optional(),
+});
+
+const responseTimeStatsSchema = z.object({
+  count: z.number().int().nonnegative(),
+  mean: z.number(),
+  median: z.number(),
+  standardDeviation: z.number(),
+  coefficientOfVariation: z.number(),
+  skewness: z.number(),
+  mu: z.number(),
+  sigma: z.number(),
+  tau: z.number(),
+  histogram: z.array(
+    z.object({ start: z.number(), end: z.number(), count: z.number().int().nonnegative() })
+  ),
+});
+
+// Sessions from older versions lack the later signal detection measures
+const statsSchema = z.object({
+  hits: z.number().int().nonnegative(),
+  misses: z.number().int().nonnegative(),
+  falseAlarms: z.number().int().nonnegative(),
+  correctRejections: z.number().int().nonnegative(),
+  hitRate: z.number().min(0).max(1),
+  falseAlarmRate: z.number().min(0).max(1),
+  dPrime: z.number(),
+  criterion: z.number().optional(),
+  beta: z.number().optional(),
+  aPrime: z.number().optional(),
+  bDoublePrime: z.number().optional(),
+  accuracy: z.number(),
+  avgResponseTime: z.number().nullable(),
+  responseTimeStats: responseTimeStatsSchema.nullable().optional(),
+  reportedConvention: z.enum(['neuralift', 'brain-workshop', 'd-prime']).optional(),
+});
+
+const falseAlarmCountsSchema = z.object({
+  trials: z.number().int().nonnegative(),
+  falseAlarms: z.number().int().nonnegative(),
+  falseAlarmRate: z.number().min(0).max(1),
+});
+
+const lureStatsSchema = z.object({
+  lures: falseAlarmCountsSchema,
+  nonLures: falseAlarmCountsSchema,
+  byType: z.object({ 'n-1': falseAlarmCountsSchema, 'n+1': falseAlarmCountsSchema }),
+});
+
+const sessionSchema = z.object({
+  sessionId: z.string().min(1),
+  levelId: z.string().min(1),
+  mode: z.string().min(1),
+  nBack: z.number().int().min(1).max(9),
+  gridSize: z.number().int().optional(),
+  timestamp: z.coerce.date(),
+  duration: z.number().nonnegative(),
+  trials: jsonString(z.array(trialSchema)),
+  positionStats: jsonString(statsSchema),
+  audioStats: jsonString(statsSchema),
+  colorStats: jsonString(statsSchema).optional(),
+  shapeStats: jsonString(statsSchema).optional(),
+  combinedAccuracy: z.number(),
+  lureStats: jsonString(
+    z.object({
+      position: lureStatsSchema.optional(),
+      audio: lureStatsSchema.optional(),
+      color: lureStatsSchema.optional(),
+      shape: lureStatsSchema.optional(),
+    })
+  ).optional(),
+  completed: z.boolean(),
+  source: z.string().optional(),
+});
+
+const progressSchema = z.object({
+  id: z.literal(1),
+  currentLevel: z.string(),
+  unlockedLevels: z.string(),
+  totalSessions: z.number().int().nonnegative(),
+  totalTime: z.number().nonnegative(),
+  currentStreak: z.number().int().nonnegative(),
+  longestStreak: z.number().int().nonnegative(),
+  lastSessionDate: z.string().nullable(),
+  programId: z.string().nullable().optional(),
+  programStartedAt: z.string().nullable().optional(),
+  updated: z.coerce.date(),
+});
+
+const settingsSchema = z.object({
+  id: z.literal(1),
+  trialDuration: z.number(),
+  sessionLength: z.number(),
+  adaptiveMode: z.boolean(),
+  showHistoryHelper: z.boolean(),
+  showBriefing: z.boolean(),
+  soundEnabled: z.boolean(),
+  volume: z.number(),
+  scoringConvention: z.string().optional(),
+  dailyGoal: z
+    .object({ kind: z.string(), target: z.number(), levelId: z.string().optional() })
+    .optional(),
+  includeImportedSessions: z.boolean().optional(),
+  updated: z.coerce.date(),
+});
+
+const analyticsEventSchema = z.object({
+  id: z.number().optional(),
+  type: z.string(),
+  category: z.string(),
+  sessionId: z.string().nullable(),
+  timestamp: z.coerce.date(),
+  payload: z.string(),
+});
+
+const customLevelSchema = z.object({
+  levelId: z.string().startsWith('custom-'),
+  name: z.string(),
+  description: z.string(),
+  nBack: z.number().int().min(1).max(9),
+  mode: z.string(),
+  trialCount: z.number().int().positive(),
+  trialDuration: z.number().positive(),
+  matchProbability: z.number().min(0).max(1),
+  created: z.coerce.date(),
+  updated: z.coerce.date(),
+  deleted: z.boolean(),
+});
+
+const backupSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.literal(BACKUP_VERSION),
+  exportedAt: z.coerce.date(),
+  sessions: uniqueBy(sessionSchema, 'sessionId'),
+  progress: progressSchema.nullable(),
+  settings: settingsSchema.nullable(),
+  analyticsEvents: z.array(analyticsEventSchema),
+  customLevels: uniqueBy(customLevelSchema, 'levelId'),
+});
+
+// ============================================================================
+// Migrations
+// ============================================================================
+
+type RawBackup = Record<string, unknown>;
+
+/**
+ * Upgrades from each version to the next, keyed by the version they read
+ */
+const MIGRATIONS: Record<number, (backup: RawBackup) => RawBackup> = {
+  // 1.0.0: sessions, progress and settings as arrays, no format marker,
+  // level IDs in the legacy "-Nback" form
+  1: (backup) => {
+    const first = (value: unknown) => (Array.isArray(value) ? (value[0] ?? null) : null);
+    const isRecord = (value: unknown): value is RawBackup =>
+      typeof value === 'object' && value !== null && !Array.isArray(value);
+    const levelId = (value: unknown) =>
+      typeof value === 'string' ? migrateLegacyLevelId(value) : value;
+    const unlockedLevels = (value: unknown) => {
+      try {
+        const ids: unknown = typeof value === 'string' ? JSON.parse(value) : null;
+        return Array.isArray(ids) ? JSON.stringify(ids.map(levelId)) : value;
+      } catch {
+        // Left as is for validation to report
+        return value;
+      }
+    };
+
+    const progress = first(backup.progress);
+    return {
+      format: BACKUP_FORMAT,
+      version: 2,
+      exportedAt: backup.exportedAt,
+      sessions: Array.isArray(backup.sessions)
+        ? backup.sessions.map((session: unknown) =>
+            isRecord(session) ? { ...session, levelId: levelId(session.levelId) } : session
+          )
+        : (backup.sessions ?? []),
+      progress: isRecord(progress)
+        ? {
+            ...progress,
+            currentLevel: levelId(progress.currentLevel),
+            unlockedLevels: unlockedLevels(progress.unlockedLevels),
+          }
+        : progress,
+      settings: first(backup.settings),
+      analyticsEvents: [],
+      customLevels: [],
+    };
+  },
+};
+
+/**
+ * Version of a raw backup: 1 for the legacy '1.0.0' export
+ */
+function getSourceVersion(backup: RawBackup): number {
+  if (backup.version === '1.0.0') return 1;
+  if (typeof backup.version === 'number' && Number.isInteger(backup.version)) {
+    return backup.version;
+  }
+  throw new Error('Not a Neuralift backup: missing version');
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Serialize sessions with their trials, which come ordered by their
+ * [sessionId+index] key
+ */
+function serializeSessions(sessions: DBSession[], trials: DBTrial[]): SerializedSession[] {
+  const bySession = new Map<string, DBTrial[]>();
+  for (const trial of trials) {
+    const sessionTrials = bySession.get(trial.sessionId);
+    if (sessionTrials) {
+      sessionTrials.push(trial);
+    } else {
+      bySession.set(trial.sessionId, [trial]);
+    }
+  }
+  return sessions.map((session) =>
+    serializeSession(fromDBSession(session, bySession.get(session.sessionId)))
+  );
+}
+
+/**
+ * Read the whole database into a backup
+ */
+export async function createBackup(): Promise<Backup> {
+  await db.initialize();
+  const [sessions, trials, progress, settings, analyticsEvents, customLevels] = await Promise.all([
+    db.sessions.toArray(),
+    db.trials.toArray(),
+    db.progress.get(1),
+    db.settings.get(1),
+    db.analyticsEvents.toArray(),
+    db.customLevels.toArray(),
+  ]);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date(),
+    sessions: serializeSessions(sessions, trials),
+    progress: progress ?? null,
+    settings: settings ?? null,
+    analyticsEvents,
+    customLevels,
+  };
+}
+
+/**
+ * File name for a backup, e.g. neuralift-backup-2026-01-31.json
+ */
+export function getBackupFileName(backup: Backup): string {
+  return `${BACKUP_FORMAT}-${backup.exportedAt.toISOString().slice(0, 10)}.json`;
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Parse, migrate and validate a backup file's contents.
+ * Throws with a readable message when the file is not a valid backup.
+ */
+export function parseBackup(json: string): { backup: Backup; sourceVersion: number } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('Not a Neuralift backup: the file is not valid JSON');
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error('Not a Neuralift backup: expected a JSON object');
+  }
+
+  const sourceVersion = getSourceVersion(raw as RawBackup);
+  if (sourceVersion > BACKUP_VERSION) {
+    throw new Error(
+      `This backup was made by a newer version of Neuralift (format ${sourceVersion}). Update the app to restore it.`
+    );
+  }
+
+  let migrated = raw as RawBackup;
+  for (let version = sourceVersion; version < BACKUP_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`Backup format ${version} is no longer supported`);
+    }
+    migrated = migrate(migrated);
+  }
+
+  const result = backupSchema.safeParse(migrated);
+  if (!result.success) {
+    const issues = result.error.issues
+      .slice(0, 3)
+      .map((issue) => `${issue.path.join('.') || 'backup'}: ${issue.message}`);
+    throw new Error(`Invalid backup: ${issues.join('; ')}`);
+  }
+
+  // Zod types optional fields as `T | undefined`; the schema matches the DB records
+  return { backup: result.data as Backup, sourceVersion };
+}
+
+/**
+ * Identity of an analytics event, which has no stable ID across devices
+ */
+function eventKey(event: DBAnalyticsEvent): string {
+  return `${event.type}|${event.sessionId ?? ''}|${event.timestamp.getTime()}`;
+}
+
+/**
+ * Combine two progress records: unlocks are united, totals take the
+ * larger, the streak comes from whichever trained more recently
+ */
+function mergeProgress(local: DBProgress, incoming: DBProgress): DBProgress {
+  const unlocked = new Set([
+    ...(JSON.parse(local.unlockedLevels) as string[]),
+    ...(JSON.parse(incoming.unlockedLevels) as string[]),
+  ]);
+  const lastDate = (progress: DBProgress) =>
+    progress.lastSessionDate ? new Date(progress.lastSessionDate).getTime() : 0;
+  const recent = lastDate(incoming) > lastDate(local) ? incoming : local;
+
+  return {
+    ...local,
+    currentLevel:
+      incoming.totalSessions > local.totalSessions ? incoming.currentLevel : local.currentLevel,
+    unlockedLevels: JSON.stringify([...unlocked]),
+    totalSessions: Math.max(local.totalSessions, incoming.totalSessions),
+    totalTime: Math.max(local.totalTime, incoming.totalTime),
+    currentStreak: recent.currentStreak,
+    longestStreak: Math.max(local.longestStreak, incoming.longestStreak),
+    lastSessionDate: recent.lastSessionDate,
+    programId: local.programId ?? incoming.programId ?? null,
+    programStartedAt: local.programId
+      ? (local.programStartedAt ?? null)
+      : (incoming.programStartedAt ?? null),
+    updated: new Date(),
+  };
+}
+
+/**
+ * Describe what restoring a backup would change, without writing anything
+ */
+export async function previewRestore(
+  backup: Backup,
+  mode: RestoreMode,
+  sourceVersion: number = BACKUP_VERSION
+): Promise<RestorePreview> {
+  await db.initialize();
+  const [sessionIds, customLevels, events, localSettings] = await Promise.all([
+    db.sessions.toCollection().primaryKeys(),
+    db.customLevels.toArray(),
+    db.analyticsEvents.toArray(),
+    db.settings.get(1),
+  ]);
+
+  const timestamps = backup.sessions.map((s) => s.timestamp.getTime());
+  const sessionRange =
+    timestamps.length > 0
+      ? { from: new Date(Math.min(...timestamps)), to: new Date(Math.max(...timestamps)) }
+      : null;
+
+  if (mode === 'replace') {
+    return {
+      mode,
+      exportedAt: backup.exportedAt,
+      sourceVersion,
+      sessions: { incoming: backup.sessions.length, added: backup.sessions.length, duplicates: 0 },
+      customLevels: {
+        incoming: backup.customLevels.length,
+        added: backup.customLevels.length,
+        updated: 0,
+      },
+      analyticsEvents: {
+        incoming: backup.analyticsEvents.length,
+        added: backup.analyticsEvents.length,
+      },
+      sessionRange,
+      progress: backup.progress ? 'replace' : 'keep',
+      settings: backup.settings ? 'replace' : 'keep',
+      removed: {
+        sessions: sessionIds.length,
+        customLevels: customLevels.length,
+        analyticsEvents: events.length,
+      },
+    };
+  }
+
+  const localIds = new Set(sessionIds);
+  const duplicates = backup.sessions.filter((s) => localIds.has(s.sessionId)).length;
+  const localLevels = new Map(customLevels.map((level) => [level.levelId, level]));
+  const newLevels = backup.customLevels.filter((level) => !localLevels.has(level.levelId));
+  const updatedLevels = backup.customLevels.filter((level) => {
+    const local = localLevels.get(level.levelId);
+    return local !== undefined && level.updated > local.updated;
+  });
+  const localEvents = new Set(events.map(eventKey));
+
+  return {
+    mode,
+    exportedAt: backup.exportedAt,
+    sourceVersion,
+    sessions: {
+      incoming: backup.sessions.length,
+      added: backup.sessions.length - duplicates,
+      duplicates,
+    },
+    customLevels: {
+      incoming: backup.customLevels.length,
+      added: newLevels.length,
+      updated: updatedLevels.length,
+    },
+    analyticsEvents: {
+      incoming: backup.analyticsEvents.length,
+      added: backup.analyticsEvents.filter((event) => !localEvents.has(eventKey(event))).length,
+    },
+    sessionRange,
+    progress: backup.progress ? 'merge' : 'keep',
+    settings:
+      backup.settings && (!localSettings || backup.settings.updated > localSettings.updated)
+        ? 'replace'
+        : 'keep',
+    removed: { sessions: 0, customLevels: 0, analyticsEvents: 0 },
+  };
+}
+
+/**
+ * Store serialized sessions, with their trials in the trials table
+ */
+async function addSessions(sessions: SerializedSession[]): Promise<void> {
+  const results = sessions.map(deserializeSession);
+  // Backups made before imports recorded their convention lack the tag
+  await db.sessions.bulkAdd(results.map((result) => tagImportedStats(toDBSession(result))));
+  await db.trials.bulkAdd(results.flatMap(toDBTrials));
+}
+
+/**
+ * Recompute unlocks from the restored sessions, which can earn levels the
+ * restored progress never recorded, such as in backups from older versions
+ */
+async function recomputeRestoredProgress(): Promise<void> {
+  const progress = await db.progress.get(1);
+  if (!progress) return;
+  const [sessions, settings] = await Promise.all([db.sessions.toArray(), db.settings.get(1)]);
+  await db.progress.put(
+    recomputeProgress(
+      progress,
+      sessions.map((session) => fromDBSession(session)),
+      settings
+    )
+  );
+}
+
+/**
+ * Restore a backup in one transaction.
+ * Merge adds missing sessions, events and custom levels, keeps the newer
+ * of each custom level and of the settings, and merges progress.
+ * Replace clears sessions, events, custom levels and records first.
+ * Either way, unlocks are then recomputed from the sessions.
+ */
+export async function restoreBackup(backup: Backup, mode: RestoreMode): Promise<void> {
+  await db.initialize();
+  await db.transaction(
+    'rw',
+    [
+      db.sessions,
+      db.trials,
+      db.progress,
+      db.settings,
+      db.analyticsEvents,
+      db.customLevels,
+      db.records,
+    ],
+    async () => {
+      // Events get new auto-increment IDs
+      const events = backup.analyticsEvents.map(
+        ({ type, category, sessionId, timestamp, payload }): DBAnalyticsEvent => ({
+          type,
+          category,
+          sessionId,
+          timestamp,
+          payload,
+        })
+      );
+
+      if (mode === 'replace') {
+        await Promise.all([
+          db.sessions.clear(),
+          db.trials.clear(),
+          db.analyticsEvents.clear(),
+          db.customLevels.clear(),
+          db.records.clear(),
+        ]);
+        await addSessions(backup.sessions);
+        await db.analyticsEvents.bulkAdd(events);
+        await db.customLevels.bulkAdd(backup.customLevels);
+        if (backup.progress) await db.progress.put({ ...backup.progress, id: 1 });
+        if (backup.settings) await db.settings.put({ ...backup.settings, id: 1 });
+        await recomputeRestoredProgress();
+        return;
+      }
+
+      const localIds = new Set(await db.sessions.toCollection().primaryKeys());
+      await addSessions(backup.sessions.filter((s) => !localIds.has(s.sessionId)));
+
+      const localEvents = new Set((await db.analyticsEvents.toArray()).map(eventKey));
+      await db.analyticsEvents.bulkAdd(events.filter((event) => !localEvents.has(eventKey(event))));
+
+      const localLevels = new Map(
+        (await db.customLevels.toArray()).map((level) => [level.levelId, level])
+      );
+      await db.customLevels.bulkPut(
+        backup.customLevels.filter((level) => {
+          const local = localLevels.get(level.levelId);
+          return !local || level.updated > local.updated;
+        })
+      );
+
+      const localProgress = await db.progress.get(1);
+      if (backup.progress) {
+        await db.progress.put(
+          localProgress ? mergeProgress(localProgress, backup.progress) : { ...backup.progress, id: 1 }
+        );
+      }
+
+      const localSettings = await db.settings.get(1);
+      if (backup.settings && (!localSettings || backup.settings.updated > localSettings.updated)) {
+        await db.settings.put({ ...backup.settings, id: 1 });
+      }
+
+      await recomputeRestoredProgress();
+    }
+  );
+}
@@ -3,11 +3,14 @@
 /**
  * Dexie Database Configuration
  *
- * Defines the IndexedDB schema for the Neuralift application.
+ * Defines the IndexedDB tables for the Neuralift application; their
+ * schema versions and upgrades live in migrations.ts.
  * Uses Dexie.js for a clean, typed IndexedDB interface.
  */
 
 import Dexie, { type Table } from 'dexie';
+import type { PerformanceStats, SessionLureStats, TrialData } from '@neuralift/core';
+import { applyMigrations } from './migrations';
 
 /**
  * Session record stored in the database
@@ -15,26 +18,54 @@ import Dexie, { type Table } from 'dexie';
 export interface DBSession {
   /** Unique session identifier */
   sessionId: string;
-  /** Level identifier (e.g., "position-2back") */
+  /** Level identifier (e.g., "position-2") */
   levelId: string;
-  /** Training mode: single-position, single-audio, or dual */
+  /** Training mode: single-position, single-audio, dual, triple, or quad */
   mode: string;
   /** N-back level (1-9) */
   nBack: number;
+  /** Grid side length, absent for classic 3x3 sessions */
+  gridSize?: number;
   /** When the session started */
   timestamp: Date;
   /** Session duration in milliseconds */
   duration: number;
-  /** JSON stringified TrialData[] */
-  trials: string;
-  /** JSON stringified PerformanceStats for position */
-  positionStats: string;
-  /** JSON stringified PerformanceStats for audio */
-  audioStats: string;
+  /** Performance stats for position; trials are stored in the trials table */
+  positionStats: PerformanceStats;
+  /** Performance stats for audio */
+  audioStats: PerformanceStats;
+  /** Performance stats for color (triple and quad modes) */
+  colorStats?: PerformanceStats;
+  /** Performance stats for shape (quad mode) */
+  shapeStats?: PerformanceStats;
   /** Combined accuracy percentage */
   combinedAccuracy: number;
+  /** False alarm rates on lure trials per channel (absent on imports and older sessions) */
+  lureStats?: SessionLureStats;
   /** Whether the session was completed (not abandoned) */
   completed: boolean;
+  /** App the session was imported from: brain-workshop or csv (absent when trained here) */
+  source?: string;
+}
+
+/**
+ * One trial of a session, stored apart from the session with the
+ * session's level and start time, so trials can be queried across
+ * sessions without loading them whole
+ */
+export interface DBTrial extends TrialData {
+  /** Session the trial belongs to */
+  sessionId: string;
+  /** Zero-based position of the trial in the session */
+  index: number;
+  /** Level identifier of the session */
+  levelId: string;
+  /** Training mode of the session */
+  mode: string;
+  /** N-back level of the session */
+  nBack: number;
+  /** When the session started */
+  timestamp: Date;
 }
 
 /**
@@ -57,6 +88,10 @@ export interface DBProgress {
   longestStreak: number;
   /** ISO date string of last session, null if never */
   lastSessionDate: string | null;
+  /** Training program the user follows */
+  programId?: string | null;
+  /** ISO date string of when the program was started */
+  programStartedAt?: string | null;
   /** When this record was last updated */
   updated: Date;
 }
@@ -99,16 +134,70 @@ export interface DBSettings {
   soundEnabled: boolean;
   /** Volume level (0-100) */
   volume: number;
+  /** Scoring convention: neuralift, brain-workshop or d-prime (absent on older records) */
+  scoringConvention?: string;
+  /** Daily goal: kind blocks, minutes or level, and its target (absent on older records) */
+  dailyGoal?: { kind: string; target: number; levelId?: string };
+  /** Count imported sessions toward unlocks and streaks (absent on older records) */
+  includeImportedSessions?: boolean;
   /** When settings were last updated */
   updated: Date;
 }
 
+/**
+ * User-defined level record
+ * Deleted levels are kept as tombstones until the deletion has synced
+ */
+export interface DBCustomLevel {
+  /** Level identifier (always prefixed "custom-") */
+  levelId: string;
+  /** Display name */
+  name: string;
+  /** Short description shown on the level card */
+  description: string;
+  /** N-back level (1-9) */
+  nBack: number;
+  /** Training mode: single-position, single-audio, dual, triple, or quad */
+  mode: string;
+  /** Trials per session */
+  trialCount: number;
+  /** Duration of each trial in milliseconds */
+  trialDuration: number;
+  /** Match probability per channel (0-1) */
+  matchProbability: number;
+  /** When the level was created */
+  created: Date;
+  /** When the level was last edited or deleted */
+  updated: Date;
+  /** Whether the level has been deleted */
+  deleted: boolean;
+}
+
+/**
+ * Personal record for one level and record type
+ * Derived from sessions, so it can be rebuilt at any time
+ */
+export interface DBRecord {
+  /** Level identifier */
+  levelId: string;
+  /** Record type: dPrime, accuracy, medianResponseTime, longestCorrectRun or firstCleanSession */
+  type: string;
+  /** Record value */
+  value: number;
+  /** Session that set the record */
+  sessionId: string;
+  /** When the record was set */
+  achievedAt: Date;
+  /** Value of the replaced record, null for a first record */
+  previousValue: number | null;
+}
+
 /**
  * Default progress values for new users
  */
 const DEFAULT_PROGRESS: Omit<DBProgress, 'id'> = {
-  currentLevel: 'position-1back',
-  unlockedLevels: JSON.stringify(['position-1back', 'audio-1back']),
+  currentLevel: 'position-1',
+  unlockedLevels: JSON.stringify(['position-1', 'audio-1']),
   totalSessions: 0,
   totalTime: 0,
   currentStreak: 0,
@@ -128,6 +217,9 @@ const DEFAULT_SETTINGS: Omit<DBSettings, 'id'> = {
   showBriefing: true,
   soundEnabled: true,
   volume: 80,
+  scoringConvention: 'neuralift',
+  dailyGoal: { kind: 'blocks', target: 3 },
+  includeImportedSessions: false,
   updated: new Date(),
 };
 
@@ -138,23 +230,19 @@ const DEFAULT_SETTINGS: Omit<DBSettings, 'id'> = {
  */
 export class NeuraliftDB extends Dexie {
   sessions!: Table<DBSession, string>;
+  trials!: Table<DBTrial, [string, number]>;
   progress!: Table<DBProgress, number>;
   analyticsEvents!: Table<DBAnalyticsEvent, number>;
   settings!: Table<DBSettings, number>;
+  customLevels!: Table<DBCustomLevel, string>;
+  records!: Table<DBRecord, [string, string]>;
 
   private initPromise: Promise<void> | null = null;
 
   constructor() {
     super('neuralift');
 
-    // Define database schema
-    // Keys: primary key first, then indexed fields
-    this.version(1).stores({
-      sessions: 'sessionId, levelId, timestamp, completed',
-      progress: 'id',
-      analyticsEvents: '++id, type, category, sessionId, timestamp',
-      settings: 'id',
-    });
+    applyMigrations(this);
   }
 
   /**
@@ -217,6 +305,21 @@ export class NeuraliftDB extends Dexie {
       .toArray();
   }
 
+  /**
+   * Get the trials of a session, in order
+   */
+  async getSessionTrials(sessionId: string): Promise<DBTrial[]> {
+    return this.trials.where('sessionId').equals(sessionId).sortBy('index');
+  }
+
+  /**
+   * Get the trials of sessions in a date range, optionally filtered by level
+   */
+  async getTrialsInRange(startDate: Date, endDate: Date, levelId?: string): Promise<DBTrial[]> {
+    const query = this.trials.where('timestamp').between(startDate, endDate, true, true);
+    return levelId ? query.filter((trial) => trial.levelId === levelId).toArray() : query.toArray();
+  }
+
   /**
    * Get analytics events by type
    */
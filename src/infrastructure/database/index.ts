@@ -2,18 +2,31 @@ export {
   db,
   NeuraliftDB,
   type DBSession,
+  type DBTrial,
   type DBProgress,
   type DBAnalyticsEvent,
   type DBSettings,
+  type DBCustomLevel,
+  type DBRecord,
 } from './db';
 
 export {
   resetDatabase,
-  exportData,
-  importData,
   clearSessionHistory,
   clearOldAnalytics,
   getStorageEstimate,
   isDatabaseAvailable,
-  type ExportedData,
 } from './utils';
+
+export {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  createBackup,
+  getBackupFileName,
+  parseBackup,
+  previewRestore,
+  restoreBackup,
+  type Backup,
+  type RestoreMode,
+  type RestorePreview,
+} from './backup';
@@ -0,0 +1,263 @@
+'use client';
+
+/**
+ * Database Migrations
+ *
+ * The versioned schema of the local database. Each migration declares the
+ * stores it adds or re-indexes and, when existing records need rewriting,
+ * an upgrade that Dexie runs once on databases older than its version.
+ * Append new versions; never change one that has shipped.
+ */
+
+import type Dexie from 'dexie';
+import type { Transaction } from 'dexie';
+import type { ScoringConventionId, SessionResult } from '@neuralift/core';
+import {
+  CUSTOM_LEVEL_ID_PREFIX,
+  DEFAULT_SCORING_CONVENTION,
+  LEVELS,
+  countsTowardProgress,
+  evaluateUnlockCriteria,
+  getLevelById,
+  isPlayedAtLevelN,
+  isValidScoringConvention,
+} from '@neuralift/core';
+import type { DBProgress, DBRecord, DBSession, DBSettings, DBTrial } from './db';
+import {
+  deserializeSession,
+  tagImportedStats,
+  toDBSession,
+  toDBTrials,
+  type SerializedSession,
+} from './sessionMapping';
+
+/**
+ * One schema version
+ */
+export interface DatabaseMigration {
+  /** Dexie schema version */
+  readonly version: number;
+  /** Stores added or re-indexed in this version, in Dexie schema syntax */
+  readonly stores: Record<string, string | null>;
+  /** Rewrite existing records into this version's shape */
+  readonly upgrade?: (tx: Transaction) => Promise<void>;
+}
+
+/** Level IDs written before levels were generated per track, e.g. "position-2back" */
+const LEGACY_LEVEL_ID = /^(position|audio|dual)-(\d)back$/;
+
+/** Level progress falls back to when its current level no longer exists */
+const FALLBACK_LEVEL_ID = 'position-1';
+
+/**
+ * Current ID of a level stored under a legacy ID; other IDs are returned as is
+ */
+export function migrateLegacyLevelId(levelId: string): string {
+  return levelId.replace(LEGACY_LEVEL_ID, '$1-$2');
+}
+
+/**
+ * Whether a level ID names a built-in or user-defined level
+ */
+function isKnownLevelId(levelId: string): boolean {
+  return getLevelById(levelId) !== undefined || levelId.startsWith(CUSTOM_LEVEL_ID_PREFIX);
+}
+
+/**
+ * Unlocked levels recomputed from session history: legacy IDs are
+ * rewritten, IDs of levels that do not exist are dropped, and every level
+ * the history has earned is unlocked, in level order so a chain unlocks
+ * in one pass. Unlocks are never taken away.
+ */
+export function recomputeUnlockedLevels(
+  unlockedLevels: readonly string[],
+  sessions: readonly SessionResult[],
+  convention: ScoringConventionId = DEFAULT_SCORING_CONVENTION,
+  includeImported = false
+): string[] {
+  const unlocked = new Set(unlockedLevels.map(migrateLegacyLevelId).filter(isKnownLevelId));
+
+  const history = new Map<string, SessionResult[]>();
+  const counted = sessions
+    .filter(
+      (session) => countsTowardProgress(session, includeImported) && isPlayedAtLevelN(session)
+    )
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  for (const session of counted) {
+    const levelSessions = history.get(session.levelId);
+    if (levelSessions) {
+      levelSessions.push(session);
+    } else {
+      history.set(session.levelId, [session]);
+    }
+  }
+
+  const isAvailable = (levelId: string): boolean => {
+    const level = getLevelById(levelId);
+    return unlocked.has(levelId) || (level !== undefined && !level.unlockCriteria);
+  };
+
+  for (const level of LEVELS) {
+    const criteria = level.unlockCriteria;
+    if (
+      criteria &&
+      !unlocked.has(level.id) &&
+      criteria.requiredLevels.every(isAvailable) &&
+      evaluateUnlockCriteria(criteria, history, convention).met
+    ) {
+      unlocked.add(level.id);
+    }
+  }
+
+  return [...unlocked];
+}
+
+/**
+ * Progress with legacy level IDs rewritten, a current level that no longer
+ * exists replaced, and unlocks recomputed from the session history
+ */
+export function recomputeProgress(
+  progress: DBProgress,
+  sessions: readonly SessionResult[],
+  settings: DBSettings | undefined
+): DBProgress {
+  const convention =
+    settings?.scoringConvention && isValidScoringConvention(settings.scoringConvention)
+      ? settings.scoringConvention
+      : DEFAULT_SCORING_CONVENTION;
+  const currentLevel = migrateLegacyLevelId(progress.currentLevel);
+
+  return {
+    ...progress,
+    currentLevel: isKnownLevelId(currentLevel) ? currentLevel : FALLBACK_LEVEL_ID,
+    unlockedLevels: JSON.stringify(
+      recomputeUnlockedLevels(
+        JSON.parse(progress.unlockedLevels) as string[],
+        sessions,
+        convention,
+        settings?.includeImportedSessions ?? false
+      )
+    ),
+  };
+}
+
+/**
+ * Version 4: rewrite legacy level IDs everywhere they are stored and
+ * recompute unlocks, so progress seeded with IDs of levels that do not
+ * exist points at real levels and reflects the sessions already trained
+ */
+async function rewriteLegacyLevelIds(tx: Transaction): Promise<void> {
+  const sessions = tx.table<SerializedSession, string>('sessions');
+  await sessions.toCollection().modify((session) => {
+    session.levelId = migrateLegacyLevelId(session.levelId);
+  });
+
+  // The level ID is part of a record's key, so records are rewritten whole
+  const records = tx.table<DBRecord, [string, string]>('records');
+  const storedRecords = await records.toArray();
+  if (storedRecords.some((record) => migrateLegacyLevelId(record.levelId) !== record.levelId)) {
+    await records.clear();
+    await records.bulkPut(
+      storedRecords.map((record) => ({ ...record, levelId: migrateLegacyLevelId(record.levelId) }))
+    );
+  }
+
+  const settingsTable = tx.table<DBSettings, number>('settings');
+  await settingsTable.toCollection().modify((settings) => {
+    if (settings.dailyGoal?.levelId) {
+      settings.dailyGoal.levelId = migrateLegacyLevelId(settings.dailyGoal.levelId);
+    }
+  });
+
+  const settings = await settingsTable.get(1);
+  const history = (await sessions.toArray()).map(deserializeSession);
+
+  const progressTable = tx.table<DBProgress, number>('progress');
+  await progressTable.bulkPut(
+    (await progressTable.toArray()).map((progress) =>
+      recomputeProgress(progress, history, settings)
+    )
+  );
+}
+
+/**
+ * Version 5: move trials out of their sessions into the trials table and
+ * store session stats as objects instead of JSON strings
+ */
+async function normalizeTrials(tx: Transaction): Promise<void> {
+  const sessions = (await tx.table<SerializedSession, string>('sessions').toArray()).map(
+    deserializeSession
+  );
+  await tx.table<DBSession, string>('sessions').bulkPut(sessions.map(toDBSession));
+  await tx.table<DBTrial, [string, number]>('trials').bulkPut(sessions.flatMap(toDBTrials));
+}
+
+/**
+ * Version 6: record the convention imported sessions were scored in
+ */
+async function tagImportedSessions(tx: Transaction): Promise<void> {
+  const sessions = await tx.table<DBSession, string>('sessions').toArray();
+  await tx
+    .table<DBSession, string>('sessions')
+    .bulkPut(sessions.filter((session) => session.source).map(tagImportedStats));
+}
+
+/**
+ * Every schema version, oldest first
+ * Keys: primary key first, then indexed fields
+ */
+export const MIGRATIONS: readonly DatabaseMigration[] = [
+  {
+    version: 1,
+    stores: {
+      sessions: 'sessionId, levelId, timestamp, completed',
+      progress: 'id',
+      analyticsEvents: '++id, type, category, sessionId, timestamp',
+      settings: 'id',
+    },
+  },
+  {
+    version: 2,
+    stores: {
+      customLevels: 'levelId, updated',
+    },
+  },
+  {
+    version: 3,
+    stores: {
+      records: '[levelId+type], levelId, sessionId',
+    },
+  },
+  {
+    version: 4,
+    stores: {},
+    upgrade: rewriteLegacyLevelIds,
+  },
+  {
+    version: 5,
+    stores: {
+      trials: '[sessionId+index], sessionId, levelId, timestamp',
+    },
+    upgrade: normalizeTrials,
+  },
+  {
+    version: 6,
+    stores: {},
+    upgrade: tagImportedSessions,
+  },
+];
+
+/**
+ * Declare every version of the schema on a database, before it opens
+ */
+export function applyMigrations(
+  database: Dexie,
+  migrations: readonly DatabaseMigration[] = MIGRATIONS
+): void {
+  for (const migration of migrations) {
+    const version = database.version(migration.version).stores(migration.stores);
+    if (migration.upgrade) {
+      version.upgrade(migration.upgrade);
+    }
+  }
+}
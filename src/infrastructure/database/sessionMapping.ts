@@ -0,0 +1,178 @@
+'use client';
+
+/**
+ * Session Mapping
+ *
+ * Conversion between SessionResult and its database records, shared by the
+ * session repository, backups and database migrations.
+ */
+
+import { IMPORT_SCORING_CONVENTIONS } from '@neuralift/core';
+import type {
+  SessionResult,
+  NBackLevel,
+  GridSize,
+  TrainingMode,
+  PerformanceStats,
+  SessionLureStats,
+  SessionSource,
+  TrialData,
+} from '@neuralift/core';
+import type { DBSession, DBTrial } from './db';
+
+/**
+ * A session with its trials and stats as JSON strings: how sessions were
+ * stored before schema version 5, and how backup files store them
+ */
+export interface SerializedSession extends Omit<
+  DBSession,
+  'positionStats' | 'audioStats' | 'colorStats' | 'shapeStats' | 'lureStats'
+> {
+  /** JSON stringified TrialData[] */
+  trials: string;
+  /** JSON stringified PerformanceStats for position */
+  positionStats: string;
+  /** JSON stringified PerformanceStats for audio */
+  audioStats: string;
+  /** JSON stringified PerformanceStats for color (triple and quad modes) */
+  colorStats?: string;
+  /** JSON stringified PerformanceStats for shape (quad mode) */
+  shapeStats?: string;
+  /** JSON stringified SessionLureStats */
+  lureStats?: string;
+}
+
+/**
+ * Convert SessionResult to database format, without its trials
+ */
+export function toDBSession(session: SessionResult): DBSession {
+  return {
+    sessionId: session.sessionId,
+    levelId: session.levelId,
+    mode: session.mode,
+    nBack: session.nBack,
+    ...(session.gridSize !== undefined ? { gridSize: session.gridSize } : {}),
+    timestamp: session.timestamp,
+    duration: session.duration,
+    positionStats: session.positionStats,
+    audioStats: session.audioStats,
+    ...(session.colorStats ? { colorStats: session.colorStats } : {}),
+    ...(session.shapeStats ? { shapeStats: session.shapeStats } : {}),
+    combinedAccuracy: session.combinedAccuracy,
+    ...(session.lureStats ? { lureStats: session.lureStats } : {}),
+    completed: session.completed,
+    ...(session.source ? { source: session.source } : {}),
+  };
+}
+
+/**
+ * Convert a session's trials to trial records
+ */
+export function toDBTrials(session: SessionResult): DBTrial[] {
+  return session.trials.map((trial, index) => ({
+    ...trial,
+    sessionId: session.sessionId,
+    index,
+    levelId: session.levelId,
+    mode: session.mode,
+    nBack: session.nBack,
+    timestamp: session.timestamp,
+  }));
+}
+
+/**
+ * Convert a trial record back to the trial it was made from
+ */
+function fromDBTrial(dbTrial: DBTrial): TrialData {
+  const trial: Partial<DBTrial> = { ...dbTrial };
+  delete trial.sessionId;
+  delete trial.index;
+  delete trial.levelId;
+  delete trial.mode;
+  delete trial.nBack;
+  delete trial.timestamp;
+  return trial as TrialData;
+}
+
+/**
+ * Convert database format to SessionResult
+ *
+ * @param trials - the session's trial records, in order
+ */
+export function fromDBSession(
+  dbSession: DBSession,
+  trials: readonly DBTrial[] = []
+): SessionResult {
+  return {
+    sessionId: dbSession.sessionId,
+    levelId: dbSession.levelId,
+    mode: dbSession.mode as TrainingMode,
+    nBack: dbSession.nBack as NBackLevel,
+    ...(dbSession.gridSize !== undefined ? { gridSize: dbSession.gridSize as GridSize } : {}),
+    timestamp: dbSession.timestamp,
+    duration: dbSession.duration,
+    trials: trials.map(fromDBTrial),
+    positionStats: dbSession.positionStats,
+    audioStats: dbSession.audioStats,
+    ...(dbSession.colorStats ? { colorStats: dbSession.colorStats } : {}),
+    ...(dbSession.shapeStats ? { shapeStats: dbSession.shapeStats } : {}),
+    combinedAccuracy: dbSession.combinedAccuracy,
+    ...(dbSession.lureStats ? { lureStats: dbSession.lureStats } : {}),
+    completed: dbSession.completed,
+    ...(dbSession.source ? { source: dbSession.source as SessionSource } : {}),
+  };
+}
+
+/**
+ * Tag the stats of a session imported before imports recorded the
+ * convention their percentages were reported in
+ */
+export function tagImportedStats(session: DBSession): DBSession {
+  if (!session.source || session.source === 'neuralift') return session;
+  const reportedConvention =
+    IMPORT_SCORING_CONVENTIONS[session.source as keyof typeof IMPORT_SCORING_CONVENTIONS];
+  const tag = (stats: PerformanceStats): PerformanceStats => ({ reportedConvention, ...stats });
+  return {
+    ...session,
+    positionStats: tag(session.positionStats),
+    audioStats: tag(session.audioStats),
+    ...(session.colorStats ? { colorStats: tag(session.colorStats) } : {}),
+    ...(session.shapeStats ? { shapeStats: tag(session.shapeStats) } : {}),
+  };
+}
+
+/**
+ * Convert SessionResult to its serialized form
+ */
+export function serializeSession(session: SessionResult): SerializedSession {
+  const { positionStats, audioStats, colorStats, shapeStats, lureStats, ...fields } =
+    toDBSession(session);
+  return {
+    ...fields,
+    trials: JSON.stringify(session.trials),
+    positionStats: JSON.stringify(positionStats),
+    audioStats: JSON.stringify(audioStats),
+    ...(colorStats ? { colorStats: JSON.stringify(colorStats) } : {}),
+    ...(shapeStats ? { shapeStats: JSON.stringify(shapeStats) } : {}),
+    ...(lureStats ? { lureStats: JSON.stringify(lureStats) } : {}),
+  };
+}
+
+/**
+ * Convert a serialized session to SessionResult
+ */
+export function deserializeSession(session: SerializedSession): SessionResult {
+  const { trials, positionStats, audioStats, colorStats, shapeStats, lureStats, ...fields } =
+    session;
+  return {
+    ...fromDBSession({
+      ...fields,
+      positionStats: JSON.parse(positionStats) as PerformanceStats,
+      audioStats: JSON.parse(audioStats) as PerformanceStats,
+      ...(colorStats ? { colorStats: JSON.parse(colorStats) as PerformanceStats } : {}),
+      ...(shapeStats ? { shapeStats: JSON.parse(shapeStats) as PerformanceStats } : {}),
+      ...(lureStats ? { lureStats: JSON.parse(lureStats) as SessionLureStats } : {}),
+    }),
+    trials: JSON.parse(trials) as TrialData[],
+  };
+}
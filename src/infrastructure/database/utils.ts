@@ -3,21 +3,11 @@
 /**
  * Database Utility Functions
  *
- * Helper functions for database operations like reset, export, and import.
+ * Helper functions for database operations like reset and cleanup.
+ * Backups live in ./backup.
  */
 
-import { db, type DBSession, type DBProgress, type DBSettings } from './db';
-
-/**
- * Exported data structure
- */
-export interface ExportedData {
-  sessions: DBSession[];
-  progress: DBProgress[];
-  settings: DBSettings[];
-  exportedAt: string;
-  version: string;
-}
+import { db } from './db';
 
 /**
  * Reset the entire database to default state
@@ -29,70 +19,14 @@ export async function resetDatabase(): Promise<void> {
   await db.initialize();
 }
 
-/**
- * Export all user data to a JSON-serializable object
- * Useful for backup or debugging
- */
-export async function exportData(): Promise<ExportedData> {
-  const [sessions, progress, settings] = await Promise.all([
-    db.sessions.toArray(),
-    db.progress.toArray(),
-    db.settings.toArray(),
-  ]);
-
-  return {
-    sessions,
-    progress,
-    settings,
-    exportedAt: new Date().toISOString(),
-    version: '1.0.0',
-  };
-}
-
-/**
- * Import data from an exported backup
- * Merges with existing data (doesn't overwrite)
- */
-export async function importData(data: ExportedData): Promise<void> {
-  // Import sessions (skip duplicates)
-  if (data.sessions && data.sessions.length > 0) {
-    const existingIds = new Set(
-      (await db.sessions.toArray()).map((s) => s.sessionId)
-    );
-
-    const newSessions = data.sessions.filter(
-      (s) => !existingIds.has(s.sessionId)
-    );
-
-    if (newSessions.length > 0) {
-      await db.sessions.bulkAdd(newSessions);
-    }
-  }
-
-  // Update progress (take the one with more sessions)
-  if (data.progress && data.progress.length > 0) {
-    const importedProgress = data.progress[0];
-    const currentProgress = await db.progress.get(1);
-
-    if (
-      importedProgress &&
-      currentProgress &&
-      importedProgress.totalSessions > currentProgress.totalSessions
-    ) {
-      await db.progress.update(1, {
-        ...importedProgress,
-        id: 1,
-        updated: new Date(),
-      });
-    }
-  }
-}
-
 /**
  * Clear all session history while preserving progress and settings
+ * Personal records are derived from sessions, so they go too
  */
 export async function clearSessionHistory(): Promise<void> {
   await db.sessions.clear();
+  await db.trials.clear();
+  await db.records.clear();
 }
 
 /**
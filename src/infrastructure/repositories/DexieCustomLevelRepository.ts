@@ -0,0 +1,88 @@
+'use client';
+
+/**
+ * DexieCustomLevelRepository
+ *
+ * Implements ICustomLevelRepository using Dexie.js for IndexedDB storage.
+ * Deletes leave a tombstone so the deletion can sync to the cloud.
+ */
+
+import type {
+  ICustomLevelRepository,
+  CustomLevel,
+  NBackLevel,
+  TrainingMode,
+} from '@neuralift/core';
+import { db, type DBCustomLevel } from '../database/db';
+
+export class DexieCustomLevelRepository implements ICustomLevelRepository {
+  /**
+   * Convert CustomLevel to database format
+   */
+  private toDBCustomLevel(level: CustomLevel): DBCustomLevel {
+    return {
+      levelId: level.id,
+      name: level.name,
+      description: level.description,
+      nBack: level.nBack,
+      mode: level.mode,
+      trialCount: level.trialCount,
+      trialDuration: level.trialDuration,
+      matchProbability: level.matchProbability,
+      created: level.createdAt,
+      updated: level.updatedAt,
+      deleted: false,
+    };
+  }
+
+  /**
+   * Convert database format to CustomLevel
+   */
+  private fromDBCustomLevel(dbLevel: DBCustomLevel): CustomLevel {
+    return {
+      id: dbLevel.levelId,
+      name: dbLevel.name,
+      description: dbLevel.description,
+      nBack: dbLevel.nBack as NBackLevel,
+      mode: dbLevel.mode as TrainingMode,
+      trialCount: dbLevel.trialCount,
+      trialDuration: dbLevel.trialDuration,
+      matchProbability: dbLevel.matchProbability,
+      custom: true,
+      createdAt: dbLevel.created,
+      updatedAt: dbLevel.updated,
+    };
+  }
+
+  /**
+   * Create or update a custom level
+   */
+  async save(level: CustomLevel): Promise<void> {
+    await db.customLevels.put(this.toDBCustomLevel(level));
+  }
+
+  /**
+   * Find a custom level by its ID, ignoring deleted levels
+   */
+  async findById(levelId: string): Promise<CustomLevel | null> {
+    const dbLevel = await db.customLevels.get(levelId);
+    return dbLevel && !dbLevel.deleted ? this.fromDBCustomLevel(dbLevel) : null;
+  }
+
+  /**
+   * Find all custom levels, oldest first
+   */
+  async findAll(): Promise<CustomLevel[]> {
+    const dbLevels = await db.customLevels.filter((level) => !level.deleted).toArray();
+    return dbLevels
+      .sort((a, b) => a.created.getTime() - b.created.getTime())
+      .map((level) => this.fromDBCustomLevel(level));
+  }
+
+  /**
+   * Mark a custom level as deleted
+   */
+  async delete(levelId: string): Promise<void> {
+    await db.customLevels.update(levelId, { deleted: true, updated: new Date() });
+  }
+}
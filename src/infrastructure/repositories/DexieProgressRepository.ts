@@ -13,8 +13,8 @@ import { db } from '../database/db';
  * Default progress values for new users
  */
 const DEFAULT_PROGRESS: UserProgress = {
-  currentLevel: 'position-1back',
-  unlockedLevels: ['position-1back', 'audio-1back'],
+  currentLevel: 'position-1',
+  unlockedLevels: ['position-1', 'audio-1'],
   totalSessions: 0,
   totalTime: 0,
   currentStreak: 0,
@@ -64,6 +64,13 @@ export class DexieProgressRepository implements IProgressRepository {
       lastSessionDate: dbProgress.lastSessionDate
         ? new Date(dbProgress.lastSessionDate)
         : null,
+      activeProgram:
+        dbProgress.programId && dbProgress.programStartedAt
+          ? {
+              programId: dbProgress.programId,
+              startedAt: new Date(dbProgress.programStartedAt),
+            }
+          : null,
     };
   }
 
@@ -80,6 +87,8 @@ export class DexieProgressRepository implements IProgressRepository {
       currentStreak: progress.currentStreak,
       longestStreak: progress.longestStreak,
       lastSessionDate: progress.lastSessionDate?.toISOString() ?? null,
+      programId: progress.activeProgram?.programId ?? null,
+      programStartedAt: progress.activeProgram?.startedAt.toISOString() ?? null,
       updated: new Date(),
     });
   }
@@ -0,0 +1,71 @@
+'use client';
+
+/**
+ * DexieRecordRepository
+ *
+ * Implements IRecordRepository using Dexie.js for IndexedDB storage.
+ * Records are keyed by level and record type, so saving replaces the old best.
+ */
+
+import type { IRecordRepository, PersonalRecord, RecordType } from '@neuralift/core';
+import { db, type DBRecord } from '../database/db';
+
+export class DexieRecordRepository implements IRecordRepository {
+  /**
+   * Convert PersonalRecord to database format
+   */
+  private toDBRecord(record: PersonalRecord): DBRecord {
+    return {
+      levelId: record.levelId,
+      type: record.type,
+      value: record.value,
+      sessionId: record.sessionId,
+      achievedAt: record.achievedAt,
+      previousValue: record.previousValue,
+    };
+  }
+
+  /**
+   * Convert database format to PersonalRecord
+   */
+  private fromDBRecord(dbRecord: DBRecord): PersonalRecord {
+    return {
+      levelId: dbRecord.levelId,
+      type: dbRecord.type as RecordType,
+      value: dbRecord.value,
+      sessionId: dbRecord.sessionId,
+      achievedAt: dbRecord.achievedAt,
+      previousValue: dbRecord.previousValue,
+    };
+  }
+
+  /**
+   * Create or replace records
+   */
+  async saveAll(records: PersonalRecord[]): Promise<void> {
+    await db.records.bulkPut(records.map((record) => this.toDBRecord(record)));
+  }
+
+  /**
+   * Find the records held for a level
+   */
+  async findByLevel(levelId: string): Promise<PersonalRecord[]> {
+    const dbRecords = await db.records.where('levelId').equals(levelId).toArray();
+    return dbRecords.map((r) => this.fromDBRecord(r));
+  }
+
+  /**
+   * Find every record
+   */
+  async findAll(): Promise<PersonalRecord[]> {
+    const dbRecords = await db.records.toArray();
+    return dbRecords.map((r) => this.fromDBRecord(r));
+  }
+
+  /**
+   * Delete all records
+   */
+  async clear(): Promise<void> {
+    await db.records.clear();
+  }
+}
@@ -6,60 +6,45 @@
  * Implements ISessionRepository using Dexie.js for IndexedDB storage.
  */
 
-import type {
-  ISessionRepository,
-  SessionResult,
-  NBackLevel,
-  TrainingMode,
-  PerformanceStats,
-  TrialData,
-} from '@neuralift/core';
-import { db, type DBSession } from '../database/db';
+import Dexie from 'dexie';
+import type { ISessionRepository, SessionResult, SessionStatsQuery } from '@neuralift/core';
+import { db, type DBSession, type DBTrial } from '../database/db';
+import { fromDBSession, toDBSession, toDBTrials } from '../database/sessionMapping';
 
-export class DexieSessionRepository implements ISessionRepository {
-  /**
-   * Convert SessionResult to database format
-   */
-  private toDBSession(session: SessionResult): DBSession {
-    return {
-      sessionId: session.sessionId,
-      levelId: session.levelId,
-      mode: session.mode,
-      nBack: session.nBack,
-      timestamp: session.timestamp,
-      duration: session.duration,
-      trials: JSON.stringify(session.trials),
-      positionStats: JSON.stringify(session.positionStats),
-      audioStats: JSON.stringify(session.audioStats),
-      combinedAccuracy: session.combinedAccuracy,
-      completed: session.completed,
-    };
-  }
+/**
+ * Attach their trials to session records. Trials come ordered by session,
+ * then by their [sessionId+index] key.
+ */
+async function withTrials(dbSessions: DBSession[]): Promise<SessionResult[]> {
+  if (dbSessions.length === 0) return [];
 
-  /**
-   * Convert database format to SessionResult
-   */
-  private fromDBSession(dbSession: DBSession): SessionResult {
-    return {
-      sessionId: dbSession.sessionId,
-      levelId: dbSession.levelId,
-      mode: dbSession.mode as TrainingMode,
-      nBack: dbSession.nBack as NBackLevel,
-      timestamp: dbSession.timestamp,
-      duration: dbSession.duration,
-      trials: JSON.parse(dbSession.trials) as TrialData[],
-      positionStats: JSON.parse(dbSession.positionStats) as PerformanceStats,
-      audioStats: JSON.parse(dbSession.audioStats) as PerformanceStats,
-      combinedAccuracy: dbSession.combinedAccuracy,
-      completed: dbSession.completed,
-    };
+  const trials = await db.trials
+    .where('sessionId')
+    .anyOf(dbSessions.map((s) => s.sessionId))
+    .toArray();
+  const bySession = new Map<string, DBTrial[]>();
+  for (const trial of trials) {
+    const sessionTrials = bySession.get(trial.sessionId);
+    if (sessionTrials) {
+      sessionTrials.push(trial);
+    } else {
+      bySession.set(trial.sessionId, [trial]);
+    }
   }
 
+  return dbSessions.map((s) => fromDBSession(s, bySession.get(s.sessionId)));
+}
+
+export class DexieSessionRepository implements ISessionRepository {
   /**
-   * Save a session result to IndexedDB
+   * Save a session result and its trials to IndexedDB
    */
   async save(session: SessionResult): Promise<void> {
-    await db.sessions.put(this.toDBSession(session));
+    await db.transaction('rw', db.sessions, db.trials, async () => {
+      await db.trials.where('sessionId').equals(session.sessionId).delete();
+      await db.sessions.put(toDBSession(session));
+      await db.trials.bulkPut(toDBTrials(session));
+    });
   }
 
   /**
@@ -67,7 +52,7 @@ export class DexieSessionRepository implements ISessionRepository {
    */
   async findById(sessionId: string): Promise<SessionResult | null> {
     const dbSession = await db.sessions.get(sessionId);
-    return dbSession ? this.fromDBSession(dbSession) : null;
+    return dbSession ? fromDBSession(dbSession, await db.getSessionTrials(sessionId)) : null;
   }
 
   /**
@@ -79,7 +64,15 @@ export class DexieSessionRepository implements ISessionRepository {
       .equals(levelId)
       .reverse()
       .toArray();
-    return dbSessions.map((s) => this.fromDBSession(s));
+    return withTrials(dbSessions);
+  }
+
+  /**
+   * Find every session, sorted by date ascending
+   */
+  async findAll(): Promise<SessionResult[]> {
+    const dbSessions = await db.sessions.orderBy('timestamp').toArray();
+    return withTrials(dbSessions);
   }
 
   /**
@@ -91,7 +84,7 @@ export class DexieSessionRepository implements ISessionRepository {
       .reverse()
       .limit(limit)
       .toArray();
-    return dbSessions.map((s) => this.fromDBSession(s));
+    return withTrials(dbSessions);
   }
 
   /**
@@ -102,7 +95,40 @@ export class DexieSessionRepository implements ISessionRepository {
       .where('timestamp')
       .between(start, end, true, true)
       .toArray();
-    return dbSessions.map((s) => this.fromDBSession(s));
+    return withTrials(dbSessions);
+  }
+
+  /**
+   * Find sessions without their trials, sorted by date ascending
+   */
+  async findStats(query: SessionStatsQuery = {}): Promise<SessionResult[]> {
+    const { levelId, start, end, limit } = query;
+    let dbSessions: DBSession[];
+
+    if (levelId !== undefined) {
+      dbSessions = (
+        await db.sessions
+          .where('levelId')
+          .equals(levelId)
+          .filter(
+            (session) =>
+              (!start || session.timestamp >= start) && (!end || session.timestamp <= end)
+          )
+          .toArray()
+      )
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+        .slice(limit !== undefined ? -limit : 0);
+    } else {
+      const collection = db.sessions
+        .where('timestamp')
+        .between(start ?? Dexie.minKey, end ?? Dexie.maxKey, true, true);
+      dbSessions =
+        limit !== undefined
+          ? (await collection.reverse().limit(limit).toArray()).reverse()
+          : await collection.toArray();
+    }
+
+    return dbSessions.map((session) => fromDBSession(session));
   }
 
   /**
@@ -116,6 +142,9 @@ export class DexieSessionRepository implements ISessionRepository {
    * Delete all sessions
    */
   async clear(): Promise<void> {
-    await db.sessions.clear();
+    await db.transaction('rw', db.sessions, db.trials, async () => {
+      await db.sessions.clear();
+      await db.trials.clear();
+    });
   }
 }
@@ -1,3 +1,5 @@
 export { DexieSessionRepository } from './DexieSessionRepository';
 export { DexieProgressRepository } from './DexieProgressRepository';
 export { DexieAnalyticsRepository } from './DexieAnalyticsRepository';
+export { DexieCustomLevelRepository } from './DexieCustomLevelRepository';
+export { DexieRecordRepository } from './DexieRecordRepository';
@@ -0,0 +1,118 @@
+'use client';
+
+/**
+ * Supabase Custom Level Repository
+ *
+ * Cloud storage adapter for user-defined levels.
+ * Works alongside DexieCustomLevelRepository for offline-first sync.
+ */
+
+import { getSupabaseBrowserClient, isSupabaseAvailable, type SupabaseBrowserClient } from './client';
+import { getDeviceId } from './deviceId';
+import type { NeuraliftCustomLevel } from './types';
+import type { DBCustomLevel } from '../database';
+
+/**
+ * Convert local DB custom level to Supabase format
+ */
+function toSupabaseCustomLevel(level: DBCustomLevel) {
+  return {
+    level_id: level.levelId,
+    user_id: null as string | null, // TODO: Add when auth is implemented
+    device_id: getDeviceId(),
+    name: level.name,
+    description: level.description,
+    n_back: level.nBack,
+    mode: level.mode,
+    trial_count: level.trialCount,
+    trial_duration: level.trialDuration,
+    match_probability: level.matchProbability,
+    deleted: level.deleted,
+    created_at: level.created.toISOString(),
+    updated_at: level.updated.toISOString(),
+  };
+}
+
+/**
+ * Convert Supabase custom level to local DB format
+ */
+function toLocalCustomLevel(level: NeuraliftCustomLevel): DBCustomLevel {
+  return {
+    levelId: level.level_id,
+    name: level.name,
+    description: level.description,
+    nBack: level.n_back,
+    mode: level.mode,
+    trialCount: level.trial_count,
+    trialDuration: level.trial_duration,
+    matchProbability: level.match_probability,
+    created: new Date(level.created_at),
+    updated: new Date(level.updated_at),
+    deleted: level.deleted,
+  };
+}
+
+export class SupabaseCustomLevelRepository {
+  private getClient(): SupabaseBrowserClient | null {
+    return getSupabaseBrowserClient();
+  }
+
+  /**
+   * Check if Supabase is available for sync
+   */
+  isAvailable(): boolean {
+    return isSupabaseAvailable();
+  }
+
+  /**
+   * Get this device's custom levels updated after a timestamp (for sync)
+   */
+  async getUpdatedAfter(timestamp: Date): Promise<DBCustomLevel[]> {
+    const client = this.getClient();
+    if (!client) return [];
+
+    try {
+      const { data, error } = await client
+        .from('neuralift_custom_levels')
+        .select('*')
+        .eq('device_id', getDeviceId())
+        .gt('updated_at', timestamp.toISOString())
+        .order('updated_at', { ascending: true });
+
+      if (error || !data) return [];
+
+      return data.map(toLocalCustomLevel);
+    } catch (err) {
+      console.error('[SupabaseCustomLevelRepository] GetUpdatedAfter failed:', err);
+      return [];
+    }
+  }
+
+  /**
+   * Batch upsert custom levels, including deletion tombstones (for sync)
+   */
+  async batchUpsert(levels: DBCustomLevel[]): Promise<boolean> {
+    const client = this.getClient();
+    if (!client || levels.length === 0) return false;
+
+    try {
+      const supabaseLevels = levels.map(toSupabaseCustomLevel);
+      const { error } = await client
+        .from('neuralift_custom_levels')
+        .upsert(supabaseLevels as never[], { onConflict: 'level_id' });
+
+      if (error) {
+        console.error('[SupabaseCustomLevelRepository] BatchUpsert error:', error);
+        return false;
+      }
+
+      return true;
+    } catch (err) {
+      console.error('[SupabaseCustomLevelRepository] BatchUpsert failed:', err);
+      return false;
+    }
+  }
+}
+
+// Singleton instance
+export const supabaseCustomLevelRepository = new SupabaseCustomLevelRepository();
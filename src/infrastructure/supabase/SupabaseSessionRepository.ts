@@ -9,43 +9,65 @@
 
 import { getSupabaseBrowserClient, isSupabaseAvailable, type SupabaseBrowserClient } from './client';
 import type { NeuraliftSession } from './types';
-import type { DBSession } from '../database';
+import type {
+  GridSize,
+  NBackLevel,
+  PerformanceStats,
+  SessionLureStats,
+  SessionResult,
+  TrainingMode,
+  TrialData,
+} from '@neuralift/core';
 
 /**
- * Convert local DB session to Supabase format
+ * Convert a session to Supabase format
  */
-function toSupabaseSession(session: DBSession) {
+function toSupabaseSession(session: SessionResult) {
   return {
     session_id: session.sessionId,
     user_id: null as string | null, // TODO: Add when auth is implemented
     level_id: session.levelId,
     mode: session.mode,
     n_back: session.nBack,
+    grid_size: session.gridSize ?? 3,
     timestamp: session.timestamp.toISOString(),
     duration: session.duration,
-    trials: JSON.parse(session.trials),
-    position_stats: JSON.parse(session.positionStats),
-    audio_stats: JSON.parse(session.audioStats),
+    trials: session.trials,
+    position_stats: session.positionStats,
+    audio_stats: session.audioStats,
+    color_stats: session.colorStats ?? null,
+    shape_stats: session.shapeStats ?? null,
     combined_accuracy: session.combinedAccuracy,
+    lure_stats: session.lureStats ?? null,
     completed: session.completed,
   };
 }
 
 /**
- * Convert Supabase session to local DB format
+ * Convert Supabase session to a local session
  */
-function toLocalSession(session: NeuraliftSession): DBSession {
+function toLocalSession(session: NeuraliftSession): SessionResult {
   return {
     sessionId: session.session_id,
     levelId: session.level_id,
-    mode: session.mode,
-    nBack: session.n_back,
+    mode: session.mode as TrainingMode,
+    nBack: session.n_back as NBackLevel,
+    ...(session.grid_size !== 3 ? { gridSize: session.grid_size as GridSize } : {}),
     timestamp: new Date(session.timestamp),
     duration: session.duration,
-    trials: JSON.stringify(session.trials),
-    positionStats: JSON.stringify(session.position_stats),
-    audioStats: JSON.stringify(session.audio_stats),
+    trials: session.trials as unknown as TrialData[],
+    positionStats: session.position_stats as unknown as PerformanceStats,
+    audioStats: session.audio_stats as unknown as PerformanceStats,
+    ...(session.color_stats
+      ? { colorStats: session.color_stats as unknown as PerformanceStats }
+      : {}),
+    ...(session.shape_stats
+      ? { shapeStats: session.shape_stats as unknown as PerformanceStats }
+      : {}),
     combinedAccuracy: session.combined_accuracy,
+    ...(session.lure_stats
+      ? { lureStats: session.lure_stats as unknown as SessionLureStats }
+      : {}),
     completed: session.completed,
   };
 }
@@ -65,7 +87,7 @@ export class SupabaseSessionRepository {
   /**
    * Save a session to Supabase
    */
-  async save(session: DBSession): Promise<boolean> {
+  async save(session: SessionResult): Promise<boolean> {
     const client = this.getClient();
     if (!client) return false;
 
@@ -90,7 +112,7 @@ export class SupabaseSessionRepository {
   /**
    * Get a session by ID
    */
-  async getById(sessionId: string): Promise<DBSession | null> {
+  async getById(sessionId: string): Promise<SessionResult | null> {
     const client = this.getClient();
     if (!client) return null;
 
@@ -113,7 +135,7 @@ export class SupabaseSessionRepository {
   /**
    * Get recent sessions
    */
-  async getRecent(limit = 10): Promise<DBSession[]> {
+  async getRecent(limit = 10): Promise<SessionResult[]> {
     const client = this.getClient();
     if (!client) return [];
 
@@ -136,7 +158,7 @@ export class SupabaseSessionRepository {
   /**
    * Get sessions updated after a certain timestamp (for sync)
    */
-  async getUpdatedAfter(timestamp: Date): Promise<DBSession[]> {
+  async getUpdatedAfter(timestamp: Date): Promise<SessionResult[]> {
     const client = this.getClient();
     if (!client) return [];
 
@@ -159,7 +181,7 @@ export class SupabaseSessionRepository {
   /**
    * Batch upsert sessions (for sync)
    */
-  async batchUpsert(sessions: DBSession[]): Promise<boolean> {
+  async batchUpsert(sessions: SessionResult[]): Promise<boolean> {
     const client = this.getClient();
     if (!client || sessions.length === 0) return false;
 
@@ -26,6 +26,7 @@ function toSupabaseSettings(settings: DBSettings) {
     show_briefing: settings.showBriefing,
     sound_enabled: settings.soundEnabled,
     volume: settings.volume,
+    scoring_convention: settings.scoringConvention ?? 'neuralift',
   };
 }
 
@@ -42,6 +43,7 @@ function toLocalSettings(settings: NeuraliftSettings): DBSettings {
     showBriefing: settings.show_briefing,
     soundEnabled: settings.sound_enabled,
     volume: settings.volume,
+    scoringConvention: settings.scoring_convention,
     updated: new Date(settings.updated_at),
   };
 }
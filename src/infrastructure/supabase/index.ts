@@ -20,15 +20,21 @@ export {
   SupabaseSettingsRepository,
   supabaseSettingsRepository,
 } from './SupabaseSettingsRepository';
+export {
+  SupabaseCustomLevelRepository,
+  supabaseCustomLevelRepository,
+} from './SupabaseCustomLevelRepository';
 export type {
   Database,
   NeuraliftSession,
   NeuraliftProgress,
   NeuraliftSettings,
   NeuraliftAnalyticsEvent,
+  NeuraliftCustomLevel,
   NeuraliftSyncLog,
   NeuraliftSessionInsert,
   NeuraliftProgressInsert,
   NeuraliftSettingsInsert,
   NeuraliftAnalyticsEventInsert,
+  NeuraliftCustomLevelInsert,
 } from './types';
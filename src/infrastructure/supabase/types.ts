@@ -21,12 +21,16 @@ export interface Database {
           level_id: string;
           mode: string;
           n_back: number;
+          grid_size: number;
           timestamp: string;
           duration: number;
           trials: Json;
           position_stats: Json;
           audio_stats: Json;
+          color_stats: Json | null;
+          shape_stats: Json | null;
           combined_accuracy: number;
+          lure_stats: Json | null;
           completed: boolean;
           created_at: string;
           updated_at: string;
@@ -37,12 +41,16 @@ export interface Database {
           level_id: string;
           mode: string;
           n_back: number;
+          grid_size?: number;
           timestamp: string;
           duration: number;
           trials: Json;
           position_stats: Json;
           audio_stats: Json;
+          color_stats?: Json | null;
+          shape_stats?: Json | null;
           combined_accuracy: number;
+          lure_stats?: Json | null;
           completed: boolean;
           created_at?: string;
           updated_at?: string;
@@ -53,12 +61,16 @@ export interface Database {
           level_id?: string;
           mode?: string;
           n_back?: number;
+          grid_size?: number;
           timestamp?: string;
           duration?: number;
           trials?: Json;
           position_stats?: Json;
           audio_stats?: Json;
+          color_stats?: Json | null;
+          shape_stats?: Json | null;
           combined_accuracy?: number;
+          lure_stats?: Json | null;
           completed?: boolean;
           created_at?: string;
           updated_at?: string;
@@ -120,6 +132,7 @@ export interface Database {
           show_briefing: boolean;
           sound_enabled: boolean;
           volume: number;
+          scoring_convention: string;
           created_at: string;
           updated_at: string;
         };
@@ -134,6 +147,7 @@ export interface Database {
           show_briefing?: boolean;
           sound_enabled?: boolean;
           volume?: number;
+          scoring_convention?: string;
           created_at?: string;
           updated_at?: string;
         };
@@ -148,6 +162,7 @@ export interface Database {
           show_briefing?: boolean;
           sound_enabled?: boolean;
           volume?: number;
+          scoring_convention?: string;
           created_at?: string;
           updated_at?: string;
         };
@@ -187,6 +202,53 @@ export interface Database {
           created_at?: string;
         };
       };
+      neuralift_custom_levels: {
+        Row: {
+          level_id: string;
+          user_id: string | null;
+          device_id: string;
+          name: string;
+          description: string;
+          n_back: number;
+          mode: string;
+          trial_count: number;
+          trial_duration: number;
+          match_probability: number;
+          deleted: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          level_id: string;
+          user_id?: string | null;
+          device_id: string;
+          name: string;
+          description?: string;
+          n_back: number;
+          mode: string;
+          trial_count: number;
+          trial_duration: number;
+          match_probability: number;
+          deleted?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          level_id?: string;
+          user_id?: string | null;
+          device_id?: string;
+          name?: string;
+          description?: string;
+          n_back?: number;
+          mode?: string;
+          trial_count?: number;
+          trial_duration?: number;
+          match_probability?: number;
+          deleted?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
       neuralift_sync_log: {
         Row: {
           id: string;
@@ -225,6 +287,7 @@ export type NeuraliftSession = Database['public']['Tables']['neuralift_sessions'
 export type NeuraliftProgress = Database['public']['Tables']['neuralift_progress']['Row'];
 export type NeuraliftSettings = Database['public']['Tables']['neuralift_settings']['Row'];
 export type NeuraliftAnalyticsEvent = Database['public']['Tables']['neuralift_analytics_events']['Row'];
+export type NeuraliftCustomLevel = Database['public']['Tables']['neuralift_custom_levels']['Row'];
 export type NeuraliftSyncLog = Database['public']['Tables']['neuralift_sync_log']['Row'];
 
 // Insert types
@@ -232,3 +295,4 @@ export type NeuraliftSessionInsert = Database['public']['Tables']['neuralift_ses
 export type NeuraliftProgressInsert = Database['public']['Tables']['neuralift_progress']['Insert'];
 export type NeuraliftSettingsInsert = Database['public']['Tables']['neuralift_settings']['Insert'];
 export type NeuraliftAnalyticsEventInsert = Database['public']['Tables']['neuralift_analytics_events']['Insert'];
+export type NeuraliftCustomLevelInsert = Database['public']['Tables']['neuralift_custom_levels']['Insert'];
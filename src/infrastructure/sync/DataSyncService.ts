@@ -13,11 +13,13 @@
  * 4. Conflict resolution: server wins (latest timestamp)
  */
 
-import { db, type DBSession, type DBProgress, type DBSettings } from '../database';
+import { db, type DBProgress, type DBSettings } from '../database';
+import { DexieSessionRepository } from '../repositories/DexieSessionRepository';
 import { isSupabaseAvailable } from '../supabase/client';
 import { supabaseSessionRepository } from '../supabase/SupabaseSessionRepository';
 import { supabaseProgressRepository } from '../supabase/SupabaseProgressRepository';
 import { supabaseSettingsRepository } from '../supabase/SupabaseSettingsRepository';
+import { supabaseCustomLevelRepository } from '../supabase/SupabaseCustomLevelRepository';
 
 export type SyncStatus = 'idle' | 'syncing' | 'success' | 'error' | 'offline';
 
@@ -33,6 +35,8 @@ type SyncListener = (state: SyncState) => void;
 const SYNC_INTERVAL = 60000; // 1 minute
 const SYNC_STORAGE_KEY = 'neuralift_last_sync';
 
+const sessionRepository = new DexieSessionRepository();
+
 class DataSyncService {
   private state: SyncState = {
     status: 'idle',
@@ -115,6 +119,7 @@ class DataSyncService {
         this.syncSessions(),
         this.syncProgress(),
         this.syncSettings(),
+        this.syncCustomLevels(),
       ]);
 
       // Check for any failures
@@ -164,9 +169,9 @@ class DataSyncService {
     const lastSync = this.state.lastSyncAt ?? new Date(0);
 
     // Push local sessions to cloud
-    const localSessions = await db.sessions
-      .filter((s) => new Date(s.timestamp) > lastSync)
-      .toArray();
+    const localSessions = (await sessionRepository.findByDateRange(lastSync, new Date())).filter(
+      (s) => s.timestamp > lastSync
+    );
 
     if (localSessions.length > 0) {
       const success = await supabaseSessionRepository.batchUpsert(localSessions);
@@ -178,9 +183,9 @@ class DataSyncService {
     // Pull cloud sessions to local
     const cloudSessions = await supabaseSessionRepository.getUpdatedAfter(lastSync);
     for (const session of cloudSessions) {
-      const existing = await db.sessions.get(session.sessionId);
-      if (!existing || new Date(session.timestamp) > existing.timestamp) {
-        await db.sessions.put(session);
+      const existing = await sessionRepository.findById(session.sessionId);
+      if (!existing || session.timestamp > existing.timestamp) {
+        await sessionRepository.save(session);
       }
     }
   }
@@ -235,6 +240,32 @@ class DataSyncService {
     }
   }
 
+  private async syncCustomLevels(): Promise<void> {
+    const lastSync = this.state.lastSyncAt ?? new Date(0);
+
+    // Push local edits and deletions to cloud
+    const localLevels = await db.customLevels
+      .where('updated')
+      .above(lastSync)
+      .toArray();
+
+    if (localLevels.length > 0) {
+      const success = await supabaseCustomLevelRepository.batchUpsert(localLevels);
+      if (!success) {
+        throw new Error('Failed to push custom levels');
+      }
+    }
+
+    // Pull cloud levels to local, newest edit wins
+    const cloudLevels = await supabaseCustomLevelRepository.getUpdatedAfter(lastSync);
+    for (const level of cloudLevels) {
+      const existing = await db.customLevels.get(level.levelId);
+      if (!existing || level.updated > existing.updated) {
+        await db.customLevels.put(level);
+      }
+    }
+  }
+
   private updateState(partial: Partial<SyncState>): void {
     this.state = { ...this.state, ...partial };
     this.notifyListeners();
@@ -0,0 +1,18 @@
+-- ============================================================================
+-- Extra Stimulus Channels
+-- ============================================================================
+-- Adds triple (position + audio + color) and quad (+ shape) training modes.
+-- Per-channel stats for the new channels are nullable: only sessions played
+-- in a mode that tracks the channel have them.
+-- ============================================================================
+
+ALTER TABLE neuralift_sessions
+  DROP CONSTRAINT IF EXISTS neuralift_sessions_mode_check;
+
+ALTER TABLE neuralift_sessions
+  ADD CONSTRAINT neuralift_sessions_mode_check
+  CHECK (mode IN ('single-position', 'single-audio', 'dual', 'triple', 'quad'));
+
+ALTER TABLE neuralift_sessions
+  ADD COLUMN IF NOT EXISTS color_stats JSONB,
+  ADD COLUMN IF NOT EXISTS shape_stats JSONB;
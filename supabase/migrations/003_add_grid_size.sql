@@ -0,0 +1,9 @@
+-- ============================================================================
+-- Configurable Grid Size
+-- ============================================================================
+-- Levels can use 3x3, 4x4 or 5x5 grids. Existing sessions were all 3x3.
+-- ============================================================================
+
+ALTER TABLE neuralift_sessions
+  ADD COLUMN IF NOT EXISTS grid_size INTEGER NOT NULL DEFAULT 3
+  CHECK (grid_size IN (3, 4, 5));
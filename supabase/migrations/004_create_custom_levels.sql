@@ -0,0 +1,45 @@
+-- ============================================================================
+-- Custom Levels
+-- ============================================================================
+-- User-defined levels: N, mode, trial count, trial duration and match rate.
+-- Deleted levels are kept with deleted = true so deletions sync to devices.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS neuralift_custom_levels (
+  level_id TEXT PRIMARY KEY CHECK (level_id LIKE 'custom-%'),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  device_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  n_back INTEGER NOT NULL CHECK (n_back >= 1 AND n_back <= 9),
+  mode TEXT NOT NULL CHECK (mode IN ('single-position', 'single-audio', 'dual', 'triple', 'quad')),
+  trial_count INTEGER NOT NULL CHECK (trial_count >= 10 AND trial_count <= 100),
+  trial_duration INTEGER NOT NULL CHECK (trial_duration >= 1000 AND trial_duration <= 10000),
+  match_probability REAL NOT NULL CHECK (match_probability >= 0.1 AND match_probability <= 0.5),
+  deleted BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Index for pulling a device's levels during sync
+CREATE INDEX IF NOT EXISTS idx_neuralift_custom_levels_device_updated
+  ON neuralift_custom_levels(device_id, updated_at);
+
+-- Index for looking up levels by user
+CREATE INDEX IF NOT EXISTS idx_neuralift_custom_levels_user
+  ON neuralift_custom_levels(user_id);
+
+ALTER TABLE neuralift_custom_levels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own custom levels" ON neuralift_custom_levels
+  FOR SELECT USING (auth.uid() = user_id OR user_id IS NULL);
+
+CREATE POLICY "Users can insert own custom levels" ON neuralift_custom_levels
+  FOR INSERT WITH CHECK (auth.uid() = user_id OR user_id IS NULL);
+
+CREATE POLICY "Users can update own custom levels" ON neuralift_custom_levels
+  FOR UPDATE USING (auth.uid() = user_id OR user_id IS NULL);
+
+CREATE TRIGGER neuralift_custom_levels_updated_at
+  BEFORE UPDATE ON neuralift_custom_levels
+  FOR EACH ROW EXECUTE FUNCTION neuralift_update_updated_at();
@@ -0,0 +1,10 @@
+-- ============================================================================
+-- Scoring Convention Setting
+-- ============================================================================
+-- Users choose how sessions are scored: neuralift (default), Brain Workshop
+-- percentages or d-prime.
+-- ============================================================================
+
+ALTER TABLE neuralift_settings
+  ADD COLUMN IF NOT EXISTS scoring_convention TEXT NOT NULL DEFAULT 'neuralift'
+  CHECK (scoring_convention IN ('neuralift', 'brain-workshop', 'd-prime'));
@@ -0,0 +1,10 @@
+-- ============================================================================
+-- Lure Stats
+-- ============================================================================
+-- Stores each session's false alarm rates on N-1/N+1 lure trials per channel.
+-- Nullable: imported sessions and sessions synced before lures were scored
+-- have none.
+-- ============================================================================
+
+ALTER TABLE neuralift_sessions
+  ADD COLUMN IF NOT EXISTS lure_stats JSONB;
@@ -0,0 +1,20 @@
+import path from 'node:path';
+import { defineConfig } from 'vitest/config';
+
+/**
+ * Tests of the app's infrastructure, run against fake-indexeddb.
+ * The core package runs its own tests.
+ */
+export default defineConfig({
+  resolve: {
+    alias: [
+      { find: '@neuralift/core', replacement: path.resolve(__dirname, 'packages/core/src') },
+      { find: '@', replacement: path.resolve(__dirname, 'src') },
+    ],
+  },
+  test: {
+    include: ['__tests__/**/*.test.ts'],
+    environment: 'node',
+    setupFiles: ['fake-indexeddb/auto'],
+  },
+});